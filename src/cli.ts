@@ -1,17 +1,271 @@
 // src/cli.ts
 
 import { z } from "zod";
+import { Readable, Writable } from "node:stream";
 import { CLI, type CLIContext, CLIError } from "@ggpwnkthx/generic-cli";
-import { detect } from "@ggpwnkthx/infra-sense";
-import { clientFactory } from "./clients/mod.ts";
-import type { ContainerRuntime, CreateOptions } from "./clients/types.ts";
+import { type ContainerPlatform, detect } from "@ggpwnkthx/infra-sense";
+import { clientFactory, connectAll, createClient } from "./clients/mod.ts";
+import {
+  bulkAction,
+  type BulkResult,
+  type InstanceSelector,
+  selectInstances,
+} from "./clients/bulk.ts";
+import { envVar } from "./clients/endpoint.ts";
+import { mergeAsyncIterables } from "./clients/stream.ts";
+import {
+  loadConfig,
+  profileClientOptions,
+  RUNTIME_NAMES,
+  saveConfig,
+  selectProfile,
+} from "./config.ts";
+import {
+  applyStack,
+  deleteStack,
+  loadStack,
+  planStack,
+  type StackManifest,
+} from "./stack/mod.ts";
+import {
+  ACTION_VIEW,
+  CONTAINER_VIEW,
+  EVENT_VIEW,
+  IMAGE_VIEW,
+  LOG_VIEW,
+  NETWORK_VIEW,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  Printer,
+  PRUNE_VIEW,
+  STACK_ACTION_VIEW,
+  STATS_VIEW,
+  type View,
+  VOLUME_VIEW,
+} from "./output.ts";
+import { createHandler } from "./server/mod.ts";
+import {
+  type ActionResponse,
+  type ClientOptions,
+  ConflictError,
+  type ContainerState,
+  type CreateOptions,
+  type Feature,
+  NotFoundError,
+  type Operation,
+  PermissionDeniedError,
+  type ResourceStats,
+  type RuntimeClient,
+  type RuntimeError,
+  type RuntimeEventType,
+  RuntimeUnavailableError,
+  TimeoutError,
+  UnimplementedError,
+  type WaitCondition,
+} from "./clients/types.ts";
 
+const RUNTIME_EVENT_TYPES = [
+  "created",
+  "started",
+  "died",
+  "oomkilled",
+  "removed",
+  "health_changed",
+] as const satisfies readonly RuntimeEventType[];
+
+const WAIT_CONDITIONS = [
+  "running",
+  "healthy",
+  "ready",
+  "exited",
+  "removed",
+] as const satisfies readonly WaitCondition[];
+
+const CONTAINER_STATES = [
+  "created",
+  "running",
+  "paused",
+  "restarting",
+  "exited",
+  "dead",
+  "unknown",
+] as const satisfies readonly ContainerState[];
+
+/**
+ * Exit codes for typed runtime failures, so scripts can tell a missing
+ * container from an unreachable daemon.  Anything else exits with 1.
+ */
+const EXIT_CODES: [new (...args: never[]) => RuntimeError, number][] = [
+  [NotFoundError, 3],
+  [ConflictError, 4],
+  [PermissionDeniedError, 5],
+  [RuntimeUnavailableError, 6],
+  [TimeoutError, 7],
+  [UnimplementedError, 8],
+];
+
+function exitCodeFor(err: unknown): number {
+  for (const [ErrorClass, code] of EXIT_CODES) {
+    if (err instanceof ErrorClass) return code;
+  }
+  return 1;
+}
+
+// Define a Zod schema for the connection flags every command accepts
+const connectionFlagsSchema = z.object({
+  profile: z
+    .string()
+    .optional()
+    .describe("Connection profile from the config file"),
+  context: z
+    .string()
+    .optional()
+    .describe("Kubernetes context to use from the kubeconfig"),
+  namespace: z
+    .string()
+    .optional()
+    .describe("Kubernetes (or containerd) namespace to operate in"),
+  kubeconfig: z.string().optional().describe("Path to a kubeconfig file"),
+  host: z
+    .string()
+    .optional()
+    .describe(
+      "Engine endpoint (unix://, tcp://host:2376, ssh://user@host, https://host:8443)",
+    ),
+  runtime: z
+    .enum(RUNTIME_NAMES)
+    .optional()
+    .describe(
+      "Runtime to connect to, skipping detection (required with --host)",
+    ),
+  "tls-ca": z.string().optional().describe("CA certificate file for --host"),
+  "tls-cert": z.string().optional().describe("Client certificate file"),
+  "tls-key": z.string().optional().describe("Client key file"),
+  "all-runtimes": z
+    .boolean()
+    .optional()
+    .describe("Aggregate every reachable runtime; IDs become runtime://id"),
+});
+
+// Define a Zod schema for the output flags every command accepts
+const outputFlagsSchema = z.object({
+  output: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe("Output format: table, wide, json, yaml or ndjson"),
+  template: z
+    .string()
+    .optional()
+    .describe("Print each result through a template, e.g. '{.id}\\t{.name}'"),
+  quiet: z.boolean().optional().describe("Print only IDs"),
+});
+
+/**
+ * Build the Printer for an invocation from the output flags; `format` is
+ * the command’s default when `--output` isn’t given.
+ */
+function printerFor(
+  flags: Record<string, unknown>,
+  format: OutputFormat = "table",
+): Printer {
+  const parsed = outputFlagsSchema.safeParse(flags);
+  if (!parsed.success) {
+    throw new CLIError(`Invalid output flags: ${parsed.error.message}`, 1);
+  }
+  const { output, template, quiet } = parsed.data;
+  return new Printer({ format: output ?? format, template, quiet });
+}
+
+/** What a command needs of its client, checked before the command runs. */
+interface ClientNeeds {
+  /** The operations the command calls. */
+  operations?: Operation[];
+
+  /** The features it uses: each is needed if its value (a flag) is set. */
+  features?: Partial<Record<Feature, unknown>>;
+}
+
+/**
+ * Refuse a command the client can’t carry out, before trying it, with the
+ * UnimplementedError trying it would end in: every operation it calls and
+ * every feature its flags ask for must be among the client’s capabilities.
+ */
+function assertCapable(client: RuntimeClient, needs: ClientNeeds): void {
+  const { operations, features } = client.capabilities();
+  const name = client.constructor.name;
+  for (const operation of needs.operations ?? []) {
+    if (!operations.includes(operation)) {
+      throw new UnimplementedError(`${name}.${operation}`);
+    }
+  }
+  for (const [feature, wanted] of Object.entries(needs.features ?? {})) {
+    if (wanted && !features.includes(feature as Feature)) {
+      const [operation, option] = feature.split(".");
+      throw new UnimplementedError(`${name}.${operation} (${option})`);
+    }
+  }
+}
+
+/**
+ * Build the client for an invocation.  Options come from the selected
+ * profile (`--profile`, else INFRA_CLIENT_PROFILE, else the config’s
+ * current profile), overridden by the connection flags (`--context`,
+ * `--namespace`, `--kubeconfig`, `--host` and the `--tls-*` files).  A
+ * runtime from `--runtime` or the profile skips detection, which is how
+ * remote hosts are reached; detection is the fallback.  With
+ * `--all-runtimes`, every reachable runtime is aggregated instead.  The
+ * client must offer what the command `needs`; `platform` saves detecting
+ * it again.
+ */
 async function getClient(
   ctx: CLIContext,
-  opts: CreateOptions = {},
-): Promise<ContainerRuntime> {
-  const platform = await detect(ctx);
-  const client = clientFactory(platform, opts);
+  flags: Record<string, unknown> = {},
+  needs: ClientNeeds = {},
+  platform?: ContainerPlatform,
+): Promise<RuntimeClient> {
+  const parsed = connectionFlagsSchema.safeParse(flags);
+  if (!parsed.success) {
+    throw new CLIError(`Invalid connection flags: ${parsed.error.message}`, 1);
+  }
+  const {
+    "all-runtimes": allRuntimes,
+    profile: profileName,
+    host,
+    runtime: runtimeFlag,
+    "tls-ca": caFile,
+    "tls-cert": certFile,
+    "tls-key": keyFile,
+    ...connection
+  } = parsed.data;
+  const selected = selectProfile(await loadConfig(), profileName);
+  const opts: ClientOptions = {
+    ...(selected ? await profileClientOptions(selected.profile) : {}),
+    ...Object.fromEntries(
+      Object.entries({
+        ...connection,
+        endpoint: host,
+        caFile,
+        certFile,
+        keyFile,
+      }).filter(([, value]) => value !== undefined),
+    ),
+  };
+  if (allRuntimes) {
+    const client = await connectAll(opts);
+    assertCapable(client, needs);
+    return client;
+  }
+
+  const runtime = runtimeFlag ?? selected?.profile.runtime;
+  let client: RuntimeClient;
+  if (runtime) {
+    client = createClient(runtime, opts);
+  } else if (opts.endpoint !== undefined) {
+    throw new CLIError("An endpoint needs --runtime (or a profile runtime)", 1);
+  } else {
+    client = clientFactory(platform ?? await detect(ctx), opts);
+  }
+  assertCapable(client, needs);
   // If the client is KubernetesClient, we need to call init():
   if ("init" in client && typeof (client as any).init === "function") {
     await (client as any).init();
@@ -19,11 +273,43 @@ async function getClient(
   return client;
 }
 
+// Define a Zod schema for the `detect` command's flags
+const detectFlagsSchema = z.object({
+  verbose: z
+    .boolean()
+    .optional()
+    .describe("Also print the engine version and the client's capabilities"),
+});
+
+// Define a Zod schema for the `list` command's flags
+const listFlagsSchema = z.object({
+  label: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe("Only instances with label KEY=VALUE (repeatable)"),
+  status: z
+    .union([z.enum(CONTAINER_STATES), z.array(z.enum(CONTAINER_STATES))])
+    .optional()
+    .describe("Only instances in this state (repeatable)"),
+  name: z.string().optional().describe("Only the instance with this name"),
+  image: z.string().optional().describe("Only instances of this image"),
+  limit: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of instances to return"),
+  continue: z
+    .string()
+    .optional()
+    .describe("Continue token from a previous page"),
+});
+
 // Define a Zod schema for the `create` command's flags
 const createFlagsSchema = z.object({
   data: z
     .string()
-    .describe("JSON-stringified create options")
+    .describe('JSON-stringified ContainerSpec, or {"raw": ...}')
     .refine((str: string) => {
       try {
         JSON.parse(str);
@@ -34,6 +320,449 @@ const createFlagsSchema = z.object({
     }, "Must be valid JSON string"),
 });
 
+// Define a Zod schema for the `logs` command's flags
+const logsFlagsSchema = z.object({
+  follow: z.boolean().optional().describe("Keep streaming new log lines"),
+  tail: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Number of lines to show from the end of the logs"),
+  since: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe('Only show lines since a timestamp or duration (e.g. "10m")'),
+  timestamps: z.boolean().optional().describe("Prefix each line's timestamp"),
+  container: z
+    .string()
+    .optional()
+    .describe("Container to read, for multi-container instances"),
+  stream: z
+    .enum(["stdout", "stderr", "both"])
+    .optional()
+    .describe("Which output stream to show"),
+});
+
+// Define a Zod schema for the `exec` command's flags
+const execFlagsSchema = z.object({
+  tty: z.boolean().optional().describe("Allocate a TTY"),
+  interactive: z.boolean().optional().describe("Attach stdin"),
+  workdir: z.string().optional().describe("Working directory for the command"),
+  env: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe("Environment variable KEY=VALUE (repeatable)"),
+  container: z
+    .string()
+    .optional()
+    .describe("Container to run in, for multi-container instances"),
+});
+
+// Define a Zod schema for the `watch` command's flags
+const watchFlagsSchema = z.object({
+  label: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe("Only instances with label KEY=VALUE (repeatable)"),
+  type: z
+    .union([
+      z.enum(RUNTIME_EVENT_TYPES),
+      z.array(z.enum(RUNTIME_EVENT_TYPES)),
+    ])
+    .optional()
+    .describe("Only events of this type (repeatable)"),
+});
+
+// Define a Zod schema for the `image pull` command's flags
+const imagePullFlagsSchema = z.object({
+  username: z.string().optional().describe("Registry username"),
+  password: z.string().optional().describe("Registry password"),
+  registry: z
+    .string()
+    .optional()
+    .describe("Registry server address for the credentials"),
+});
+
+// Define a Zod schema for the stack commands' flags
+const stackFlagsSchema = z.object({
+  file: z
+    .string()
+    .optional()
+    .describe("Stack manifest or docker-compose file (YAML or JSON)"),
+  f: z.string().optional().describe("Short for --file"),
+});
+
+/** Read and parse the stack file named by `--file`/`-f`. */
+async function readStackFile(
+  flags: Record<string, unknown>,
+  usage: string,
+): Promise<StackManifest> {
+  const parsed = stackFlagsSchema.safeParse(flags);
+  if (!parsed.success) {
+    throw new CLIError(`Invalid stack flags: ${parsed.error.message}`, 1);
+  }
+  const path = parsed.data.file ?? parsed.data.f;
+  if (!path) throw new CLIError(`Usage: ${usage}`, 1);
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    throw new CLIError(`Cannot read ${path}: ${String(err)}`, 1);
+  }
+  try {
+    return loadStack(text, path);
+  } catch (err) {
+    throw new CLIError(String(err), 1);
+  }
+}
+
+/** A duration such as "500ms", "60s", "2m" or "1h"; bare numbers are seconds. */
+const durationSchema = z
+  .union([z.string(), z.number()])
+  .transform((value, ctx) => {
+    const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(String(value).trim());
+    if (!match) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `invalid duration "${value}"`,
+      });
+      return z.NEVER;
+    }
+    const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[match[2] ?? "s"]!;
+    return Number(match[1]) * unit;
+  });
+
+// Define a Zod schema for the `wait` command's flags
+const waitFlagsSchema = z.object({
+  for: z
+    .string()
+    .default("running")
+    .describe(
+      "running, healthy, ready, exited, removed, or log:<regex>",
+    )
+    .transform((value, ctx): WaitCondition => {
+      if (value.startsWith("log:")) return { log: value.slice(4) };
+      if (!(WAIT_CONDITIONS as readonly string[]).includes(value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `unknown condition "${value}"`,
+        });
+        return z.NEVER;
+      }
+      return value as WaitCondition;
+    }),
+  timeout: durationSchema
+    .optional()
+    .describe("Give up after this long, e.g. 60s (default: wait forever)"),
+  interval: durationSchema
+    .optional()
+    .describe("How often to re-inspect, e.g. 500ms (default: 1s)"),
+});
+
+// Define a Zod schema for the `stop` and `restart` commands' flags
+const stopFlagsSchema = z.object({
+  timeout: durationSchema
+    .optional()
+    .describe("Grace period before the container is killed, e.g. 30s")
+    .transform((ms) => ms === undefined ? undefined : Math.ceil(ms / 1000)),
+});
+
+// Define a Zod schema for the `remove` command's flags
+const removeFlagsSchema = z.object({
+  force: z.boolean().optional().describe("Kill and remove a running container"),
+  volumes: z.boolean().optional().describe("Also remove anonymous volumes"),
+});
+
+// Define a Zod schema for the `kill` command's flags
+const killFlagsSchema = z.object({
+  signal: z
+    .union([z.string(), z.number()])
+    .default("SIGKILL")
+    .describe("Signal name or number, e.g. SIGHUP or 1"),
+});
+
+// Define a Zod schema for the `stats` command's flags
+const statsFlagsSchema = z.object({
+  stream: z
+    .boolean()
+    .optional()
+    .describe("Keep refreshing until interrupted"),
+  interval: durationSchema
+    .optional()
+    .describe("How often to sample polled engines, e.g. 2s (default: 1s)"),
+});
+
+/** A size such as "512M" or "10GiB", in binary units; bare numbers are bytes. */
+const sizeSchema = z
+  .union([z.string(), z.number()])
+  .transform((value, ctx) => {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmgt])?(?:i?b)?$/i.exec(
+      String(value).trim(),
+    );
+    if (!match) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `invalid size "${value}"`,
+      });
+      return z.NEVER;
+    }
+    const power = match[2] ? "kmgt".indexOf(match[2].toLowerCase()) + 1 : 0;
+    return Math.round(Number(match[1]) * 1024 ** power);
+  });
+
+/** A repeatable string flag. */
+const repeatableSchema = z.union([z.string(), z.array(z.string())]);
+
+// Define a Zod schema for the `volume create` command's flags
+const volumeCreateFlagsSchema = z.object({
+  driver: z
+    .string()
+    .optional()
+    .describe("Volume driver, LXD storage pool or Kubernetes storage class"),
+  size: sizeSchema.optional().describe("Capacity to allocate, e.g. 10G"),
+  label: repeatableSchema.optional().describe("Label KEY=VALUE (repeatable)"),
+  opt: repeatableSchema
+    .optional()
+    .describe("Driver option or config key KEY=VALUE (repeatable)"),
+});
+
+// Define a Zod schema for the `network create` command's flags
+const networkCreateFlagsSchema = z.object({
+  driver: z.string().optional().describe("Network driver or type (bridge)"),
+  subnet: z.string().optional().describe("Subnet in CIDR notation"),
+  gateway: z.string().optional().describe("Gateway address in the subnet"),
+  internal: z
+    .boolean()
+    .optional()
+    .describe("No access to the outside world"),
+  label: repeatableSchema.optional().describe("Label KEY=VALUE (repeatable)"),
+  opt: repeatableSchema
+    .optional()
+    .describe("Driver option or config key KEY=VALUE (repeatable)"),
+});
+
+// Define a Zod schema for the flags selecting instances for bulk commands
+const selectorFlagsSchema = z.object({
+  label: repeatableSchema
+    .optional()
+    .describe("Only instances with label KEY=VALUE (repeatable)"),
+  name: z
+    .string()
+    .optional()
+    .describe('Only instances whose name matches this glob, e.g. "ci-*"'),
+  status: z
+    .union([z.enum(CONTAINER_STATES), z.array(z.enum(CONTAINER_STATES))])
+    .optional()
+    .describe("Only instances in this state (repeatable)"),
+  concurrency: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(4)
+    .describe("How many instances to act on at once"),
+  "dry-run": z
+    .boolean()
+    .optional()
+    .describe("Only list the instances that would be affected"),
+});
+
+/** A lifecycle command that can act on many instances: see runBulk. */
+interface BulkCommand {
+  /** Starts error messages: "Stop failed: …". */
+  verb: string;
+  operation: Operation;
+  usage: string;
+  action: (client: RuntimeClient, id: string) => Promise<ActionResponse>;
+}
+
+/** Each instance’s result, as its ID once done, like `docker stop a b`. */
+const BULK_VIEW: View<BulkResult> = {
+  line: (result) => result.id,
+  id: (result) => result.id,
+};
+
+/**
+ * Run a lifecycle command on the instances named in `args`, or picked by
+ * the selector flags, a few at a time.  Each result prints as it comes in
+ * (failures on stderr, in the table formats); the exit code is 0 if every
+ * instance succeeded, else the failures’ shared exit code, or 1 if they
+ * differ.  `--dry-run` lists the instances instead.
+ */
+async function runBulk(
+  ctx: CLIContext,
+  flags: Record<string, unknown>,
+  args: string[],
+  command: BulkCommand,
+): Promise<void> {
+  const parsed = selectorFlagsSchema.safeParse(flags);
+  if (!parsed.success) {
+    throw new CLIError(`Invalid selector flags: ${parsed.error.message}`, 1);
+  }
+  const { label, name, status, concurrency, "dry-run": dryRun } = parsed.data;
+  const selector: InstanceSelector = {
+    ids: args.length > 0 ? args.map(String) : undefined,
+    labels: label ? parsePairs(label) : undefined,
+    name,
+    status,
+  };
+  if (!selector.ids && !label && name === undefined && !status) {
+    throw new CLIError(
+      `Usage: ${command.usage} | --label KEY=VALUE | --name GLOB [--dry-run]`,
+      1,
+    );
+  }
+
+  const printer = printerFor(flags);
+  let results: BulkResult[];
+  try {
+    const client = await getClient(ctx, flags, {
+      operations: [command.operation],
+    });
+    if (dryRun) {
+      printer.list(await selectInstances(client, selector), CONTAINER_VIEW);
+      return;
+    }
+    results = await bulkAction(
+      client,
+      selector,
+      (id) => command.action(client, id),
+      {
+        concurrency,
+        onResult: (result) => {
+          if (printer.document) return;
+          if (!result.success && printer.human) {
+            console.error(`${result.id}: ${result.error}`);
+          } else {
+            printer.stream(result, BULK_VIEW);
+          }
+        },
+      },
+    );
+  } catch (err) {
+    throw new CLIError(
+      `${command.verb} failed: ${String(err)}`,
+      exitCodeFor(err),
+    );
+  }
+  if (printer.document) printer.list(results, BULK_VIEW);
+
+  const failures = results.filter((result) => !result.success);
+  if (failures.length === 0) return;
+  const codes = new Set(
+    failures.map((failure) =>
+      EXIT_CODES.find(([ErrorClass]) => ErrorClass.name === failure.errorType)
+        ?.[1] ?? 1
+    ),
+  );
+  throw new CLIError(
+    results.length === 1
+      ? `${command.verb} failed: ${failures[0].errorType ?? "Error"}: ${
+        failures[0].error
+      }`
+      : `${command.verb} failed for ${failures.length} of ${results.length} instances`,
+    codes.size === 1 ? [...codes][0] : 1,
+  );
+}
+
+// Define a Zod schema for the `network connect` command's flags
+const networkConnectFlagsSchema = z.object({
+  alias: repeatableSchema
+    .optional()
+    .describe("Extra DNS name on the network (repeatable)"),
+  ip: z.string().optional().describe("Static IPv4 address on the network"),
+});
+
+// Define a Zod schema for the `serve` command's flags
+const serveFlagsSchema = z.object({
+  port: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(65535)
+    .default(8080)
+    .describe("Port to listen on"),
+  hostname: z
+    .string()
+    .default("127.0.0.1")
+    .describe("Address to listen on (0.0.0.0 for every interface)"),
+  token: z
+    .string()
+    .optional()
+    .describe(
+      "Bearer token clients must send (default: INFRA_CLIENT_TOKEN, else a random one)",
+    ),
+});
+
+/** A token for `serve` when none is given: 32 random bytes, as hex. */
+function randomToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** How `profile list` shows each profile. */
+const PROFILE_VIEW: View<{
+  name: string;
+  runtime: string;
+  endpoint?: string;
+  namespace?: string;
+  current: boolean;
+}> = {
+  columns: [
+    { header: "CURRENT", value: (profile) => profile.current ? "*" : "" },
+    { header: "NAME", value: (profile) => profile.name },
+    { header: "RUNTIME", value: (profile) => profile.runtime },
+    { header: "ENDPOINT", value: (profile) => profile.endpoint },
+    { header: "NAMESPACE", value: (profile) => profile.namespace },
+  ],
+  id: (profile) => profile.name,
+};
+
+/** Tag each sample from an instance’s stats stream with its ID. */
+async function* taggedStats(
+  id: string,
+  samples: AsyncIterable<ResourceStats>,
+): AsyncGenerator<{ id: string; stats: ResourceStats }> {
+  for await (const stats of samples) yield { id, stats };
+}
+
+/**
+ * Split a `cp` operand into an instance ID and path (`web:/etc/nginx`), or
+ * take it as a local path.  As with `docker cp`, anything starting with `/`
+ * or `.` is local; a runtime‐qualified ID (`docker://web:/etc`) keeps its
+ * `://`.
+ */
+function parseCopyOperand(operand: string): { id?: string; path: string } {
+  if (/^[./]/.test(operand)) return { path: operand };
+  const scheme = operand.indexOf("://");
+  const colon = operand.indexOf(":", scheme === -1 ? 0 : scheme + 3);
+  return colon <= 0
+    ? { path: operand }
+    : { id: operand.slice(0, colon), path: operand.slice(colon + 1) };
+}
+
+/** Turn repeatable `KEY=VALUE` flags into a record. */
+function parsePairs(
+  value: string | string[] | undefined,
+): Record<string, string> {
+  return Object.fromEntries(
+    [value ?? []].flat().map((pair) => {
+      const eq = pair.indexOf("=");
+      return eq === -1 ? [pair, ""] : [pair.slice(0, eq), pair.slice(eq + 1)];
+    }),
+  );
+}
+
+/** A Writable that forwards to one of Deno's standard output streams. */
+function denoWriter(target: typeof Deno.stdout | typeof Deno.stderr) {
+  return new Writable({
+    write(chunk, _encoding, callback) {
+      target.write(chunk).then(() => callback(), callback);
+    },
+  });
+}
+
 async function main() {
   const cli = new CLI({ name: "container-cli", version: "0.1.0" });
 
@@ -42,22 +771,147 @@ async function main() {
   //
   cli.registerCommand(
     ["detect"],
-    async (_args, _flags, ctx) => {
+    async (_args, flags, ctx) => {
+      const parsed = detectFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid detect flags: ${parsed.error.message}`, 1);
+      }
+
+      const printer = printerFor(flags);
       try {
         const platform = await detect(ctx);
-        ctx.log({
-          detected: {
-            type: platform.type,
-            runtime: platform.runtime,
+        const detected = { type: platform.type, runtime: platform.runtime };
+        if (!parsed.data.verbose) {
+          printer.item({ detected });
+          return;
+        }
+        const client = await getClient(ctx, flags, {}, platform);
+        let version;
+        try {
+          version = await client.version();
+        } catch (err) {
+          // Still report what the client can do if the engine won’t answer.
+          version = { error: String(err) };
+        }
+        printer.item({
+          detected,
+          client: {
+            runtime: client.runtime,
+            version,
+            capabilities: client.capabilities(),
           },
         });
       } catch (err) {
-        throw new CLIError(`Detection failed: ${String(err)}`, 1);
+        throw new CLIError(
+          `Detection failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Scan the environment and print detected platform + runtime; with --verbose, also the client’s engine version and capabilities.",
+      examples: [
+        "detect",
+        "detect --verbose",
+        "detect --verbose --runtime lxd",
+      ],
+    },
+  );
+
+  //
+  // profile list
+  //
+  cli.registerCommand(
+    ["profile", "list"],
+    async (_args, flags, _ctx) => {
+      const printer = printerFor(flags);
+      try {
+        const config = await loadConfig();
+        const profiles = Object.entries(config.profiles).map((
+          [name, profile],
+        ) => ({
+          name,
+          runtime: profile.runtime ?? "detect",
+          endpoint: profile.endpoint,
+          namespace: profile.namespace,
+          current: name === config.currentProfile,
+        }));
+        printer.list(profiles, PROFILE_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Failed to list profiles: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "List the connection profiles in the config file.",
+      examples: ["profile list", "profile list --output json"],
+    },
+  );
+
+  //
+  // profile use
+  //
+  cli.registerCommand(
+    ["profile", "use"],
+    async (args, flags, _ctx) => {
+      const name = args[0];
+      if (!name) {
+        throw new CLIError("Usage: profile use <name>", 1);
+      }
+
+      const printer = printerFor(flags);
+      try {
+        const config = await loadConfig();
+        selectProfile(config, String(name));
+        await saveConfig({ ...config, currentProfile: String(name) });
+        printer.item({ id: String(name) }, ACTION_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Failed to switch profile: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Make a profile the default for later invocations. Usage: profile use <name>",
+      examples: ["profile use prod"],
+    },
+  );
+
+  //
+  // profile show
+  //
+  cli.registerCommand(
+    ["profile", "show"],
+    async (args, flags, _ctx) => {
+      const printer = printerFor(flags, "yaml");
+      try {
+        const selected = selectProfile(
+          await loadConfig(),
+          args[0] === undefined ? undefined : String(args[0]),
+        );
+        if (!selected) {
+          throw new CLIError(
+            "No profile selected; runtimes will be detected.",
+            1,
+          );
+        }
+        printer.item(selected);
+      } catch (err) {
+        if (err instanceof CLIError) throw err;
+        throw new CLIError(
+          `Failed to show profile: ${String(err)}`,
+          exitCodeFor(err),
+        );
       }
     },
     {
       description:
-        "Scan the environment and print detected platform + runtime.",
+        "Show a profile (the current one by default). Credentials are shown as references, never contents. Usage: profile show [name]",
     },
   );
 
@@ -66,17 +920,54 @@ async function main() {
   //
   cli.registerCommand(
     ["list"],
-    async (_args, _flags, ctx) => {
+    async (_args, flags, ctx) => {
+      const parsed = listFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid list flags: ${parsed.error.message}`, 1);
+      }
+      const { label, status, name, image, limit } = parsed.data;
+
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const all = await client.list();
-        ctx.log({ all });
+        const client = await getClient(ctx, flags, {
+          operations: ["listPage"],
+        });
+        const page = await client.listPage({
+          labels: label ? parsePairs(label) : undefined,
+          status,
+          name,
+          image,
+          limit,
+          continueToken: parsed.data.continue,
+        });
+        if (printer.document) {
+          // As one document, the page keeps its token for the next call.
+          printer.item(page);
+        } else {
+          printer.list(page.items, CONTAINER_VIEW);
+          if (page.continueToken) {
+            console.error(`More results: --continue ${page.continueToken}`);
+          }
+        }
       } catch (err) {
-        throw new CLIError(`Failed to list containers: ${String(err)}`, 1);
+        throw new CLIError(
+          `Failed to list containers: ${String(err)}`,
+          exitCodeFor(err),
+        );
       }
     },
     {
-      description: "List all containers on the detected runtime.",
+      description:
+        "List containers on the detected runtime, optionally filtered and paged.",
+      examples: [
+        "list --label app=web --status running",
+        "list --output wide",
+        "list --output json",
+        "list --quiet --status exited",
+        "list --template '{.id}\\t{.labels.app}'",
+        "list --limit 50",
+        "list --limit 50 --continue <token>",
+      ],
     },
   );
 
@@ -94,18 +985,22 @@ async function main() {
         throw new CLIError(`Cannot parse JSON from --data: ${err.message}`, 1);
       }
 
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const resp = await client.create(parsed as CreateOptions);
-        ctx.log({ resp });
+        const client = await getClient(ctx, flags, { operations: ["create"] });
+        const info = await client.create(parsed as CreateOptions);
+        printer.item(info, CONTAINER_VIEW);
       } catch (err) {
-        throw new CLIError(`Create failed: ${String(err)}`, 1);
+        throw new CLIError(`Create failed: ${String(err)}`, exitCodeFor(err));
       }
     },
     {
       description:
-        'Create a new container. Supply JSON via `--data`. E.g.: --data \'{"Image":"nginx:latest"}\'.',
-      examples: ['create --data \'{"Image":"nginx:latest"}\''],
+        'Create a new container from a portable spec supplied as JSON via `--data`. E.g.: --data \'{"image":"nginx:latest"}\'. Wrap an engine-native payload in `{"raw": ...}` to pass it through untouched.',
+      examples: [
+        'create --data \'{"image":"nginx:latest","ports":[{"containerPort":80,"hostPort":8080}]}\'',
+        'create --data \'{"raw":{"Image":"nginx:latest"}}\'',
+      ],
     },
   );
 
@@ -114,23 +1009,24 @@ async function main() {
   //
   cli.registerCommand(
     ["inspect"],
-    async (args, _flags, ctx) => {
+    async (args, flags, ctx) => {
       const id = args[0];
       if (!id) {
         throw new CLIError("Usage: inspect <containerId>", 1);
       }
 
+      const printer = printerFor(flags, "yaml");
       try {
-        const client = await getClient(ctx);
+        const client = await getClient(ctx, flags, { operations: ["inspect"] });
         const info = await client.inspect(id);
-        ctx.log({ info });
+        printer.item(info, CONTAINER_VIEW);
       } catch (err) {
-        throw new CLIError(`Inspect failed: ${String(err)}`, 1);
+        throw new CLIError(`Inspect failed: ${String(err)}`, exitCodeFor(err));
       }
     },
     {
       description:
-        "Inspect a single container by ID or name. Usage: inspect <containerId>",
+        "Inspect a single container by ID or name, as YAML unless --output says otherwise. Usage: inspect <containerId>",
     },
   );
 
@@ -139,94 +1035,282 @@ async function main() {
   //
   cli.registerCommand(
     ["start"],
-    async (args, _flags, ctx) => {
+    async (args, flags, ctx) => {
+      await runBulk(ctx, flags, args, {
+        verb: "Start",
+        operation: "start",
+        usage: "start <containerId...> | start --label KEY=VALUE",
+        action: (client, id) => client.start(id),
+      });
+    },
+    {
+      description:
+        "Start containers, by ID or by selector. Usage: start <containerId...> | start [--label KEY=VALUE] [--name GLOB] [--status STATE] [--concurrency 4] [--dry-run]",
+      examples: ["start web", "start --label stack=ci --status exited"],
+    },
+  );
+
+  //
+  // stop
+  //
+  cli.registerCommand(
+    ["stop"],
+    async (args, flags, ctx) => {
+      const parsed = stopFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid stop flags: ${parsed.error.message}`, 1);
+      }
+
+      await runBulk(ctx, flags, args, {
+        verb: "Stop",
+        operation: "stop",
+        usage: "stop <containerId...> [--timeout=30s]",
+        action: (client, id) =>
+          client.stop(id, { timeoutSeconds: parsed.data.timeout }),
+      });
+    },
+    {
+      description:
+        "Stop containers, killing any that outlive the grace period. Usage: stop <containerId...> [--timeout=30s] | stop [--label KEY=VALUE] [--name GLOB] [--status STATE] [--concurrency 4] [--dry-run]",
+      examples: [
+        "stop web",
+        "stop web db --timeout=10s",
+        "stop --name 'ci-*' --dry-run",
+      ],
+    },
+  );
+
+  //
+  // restart
+  //
+  cli.registerCommand(
+    ["restart"],
+    async (args, flags, ctx) => {
+      const parsed = stopFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid restart flags: ${parsed.error.message}`, 1);
+      }
+
+      await runBulk(ctx, flags, args, {
+        verb: "Restart",
+        operation: "restart",
+        usage: "restart <containerId...> [--timeout=30s]",
+        action: (client, id) =>
+          client.restart(id, { timeoutSeconds: parsed.data.timeout }),
+      });
+    },
+    {
+      description:
+        "Restart containers. Usage: restart <containerId...> [--timeout=30s] | restart [--label KEY=VALUE] [--name GLOB] [--status STATE] [--concurrency 4] [--dry-run]",
+      examples: ["restart web", "restart --label app=web --concurrency 2"],
+    },
+  );
+
+  //
+  // remove
+  //
+  cli.registerCommand(
+    ["remove"],
+    async (args, flags, ctx) => {
+      const parsed = removeFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid remove flags: ${parsed.error.message}`, 1);
+      }
+
+      await runBulk(ctx, flags, args, {
+        verb: "Remove",
+        operation: "remove",
+        usage: "remove <containerId...> [--force] [--volumes]",
+        action: (client, id) => client.remove(id, parsed.data),
+      });
+    },
+    {
+      description:
+        "Remove (delete) containers. Usage: remove <containerId...> [--force] [--volumes] | remove [--label KEY=VALUE] [--name GLOB] [--status STATE] [--concurrency 4] [--dry-run]",
+      examples: [
+        "remove web",
+        "remove --label ci-run=1234 --force",
+        "remove --name 'ci-*' --status exited --dry-run",
+      ],
+    },
+  );
+
+  //
+  // pause
+  //
+  cli.registerCommand(
+    ["pause"],
+    async (args, flags, ctx) => {
       const id = args[0];
       if (!id) {
-        throw new CLIError("Usage: start <containerId>", 1);
+        throw new CLIError("Usage: pause <containerId>", 1);
       }
 
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const resp = await client.start(id);
-        ctx.log({ status: resp });
+        const client = await getClient(ctx, flags, { operations: ["pause"] });
+        const resp = await client.pause(id);
+        printer.item({ id, ...resp }, ACTION_VIEW);
       } catch (err) {
-        throw new CLIError(`Start failed: ${String(err)}`, 1);
+        throw new CLIError(`Pause failed: ${String(err)}`, exitCodeFor(err));
       }
     },
     {
-      description: "Start a container. Usage: start <containerId>",
+      description:
+        "Suspend every process in a container. Usage: pause <containerId>",
     },
   );
 
   //
-  // stop
+  // unpause
   //
   cli.registerCommand(
-    ["stop"],
-    async (args, _flags, ctx) => {
+    ["unpause"],
+    async (args, flags, ctx) => {
       const id = args[0];
       if (!id) {
-        throw new CLIError("Usage: stop <containerId>", 1);
+        throw new CLIError("Usage: unpause <containerId>", 1);
       }
 
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const resp = await client.stop(id);
-        ctx.log({ status: resp });
+        const client = await getClient(ctx, flags, { operations: ["unpause"] });
+        const resp = await client.unpause(id);
+        printer.item({ id, ...resp }, ACTION_VIEW);
       } catch (err) {
-        throw new CLIError(`Stop failed: ${String(err)}`, 1);
+        throw new CLIError(`Unpause failed: ${String(err)}`, exitCodeFor(err));
       }
     },
     {
-      description: "Stop a container. Usage: stop <containerId>",
+      description: "Resume a paused container. Usage: unpause <containerId>",
     },
   );
 
   //
-  // restart
+  // kill
   //
   cli.registerCommand(
-    ["restart"],
-    async (args, _flags, ctx) => {
+    ["kill"],
+    async (args, flags, ctx) => {
       const id = args[0];
       if (!id) {
-        throw new CLIError("Usage: restart <containerId>", 1);
+        throw new CLIError("Usage: kill <containerId> [--signal=SIGKILL]", 1);
+      }
+      const parsed = killFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid kill flags: ${parsed.error.message}`, 1);
       }
 
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const resp = await client.restart(id);
-        ctx.log({ status: resp });
+        const client = await getClient(ctx, flags, { operations: ["kill"] });
+        const resp = await client.kill(id, parsed.data.signal);
+        printer.item({ id, ...resp }, ACTION_VIEW);
       } catch (err) {
-        throw new CLIError(`Restart failed: ${String(err)}`, 1);
+        throw new CLIError(`Kill failed: ${String(err)}`, exitCodeFor(err));
       }
     },
     {
-      description: "Restart a container. Usage: restart <containerId>",
+      description:
+        "Send a signal (SIGKILL by default) to a container. Usage: kill <containerId> [--signal=SIGKILL]",
+      examples: ["kill web", "kill web --signal=SIGHUP"],
     },
   );
 
   //
-  // remove
+  // exec
   //
   cli.registerCommand(
-    ["remove"],
-    async (args, _flags, ctx) => {
+    ["exec"],
+    async (args, flags, ctx) => {
       const id = args[0];
-      if (!id) {
-        throw new CLIError("Usage: remove <containerId>", 1);
+      // Everything after `--` is the command, whether the parser hands it
+      // back as positionals or under the "--" key.
+      const dashDash = (flags as Record<string, unknown>)["--"];
+      const cmd = Array.isArray(dashDash)
+        ? dashDash.map(String)
+        : args.slice(1).map(String);
+      if (!id || cmd.length === 0) {
+        throw new CLIError("Usage: exec <containerId> -- <cmd...>", 1);
+      }
+      const parsed = execFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid exec flags: ${parsed.error.message}`, 1);
+      }
+      const { tty, interactive, workdir, container } = parsed.data;
+      const env = parsePairs(parsed.data.env);
+
+      let exitCode: number;
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["exec"],
+          features: { "exec.tty": tty, "exec.stdin": interactive },
+        });
+        const result = await client.exec(id, {
+          cmd,
+          env,
+          workdir,
+          tty,
+          container,
+          stdin: interactive ? Readable.from(Deno.stdin.readable) : undefined,
+          stdout: denoWriter(Deno.stdout),
+          stderr: denoWriter(Deno.stderr),
+        });
+        exitCode = result.exitCode;
+      } catch (err) {
+        throw new CLIError(`Exec failed: ${String(err)}`, exitCodeFor(err));
+      }
+      if (exitCode !== 0) {
+        throw new CLIError(`Command exited with code ${exitCode}`, exitCode);
+      }
+    },
+    {
+      description:
+        "Run a command inside a container. Usage: exec <containerId> [--tty] [--interactive] [--workdir DIR] [--env KEY=VALUE] -- <cmd...>",
+      examples: [
+        "exec web -- ls -la /usr/share/nginx/html",
+        "exec web --tty --interactive -- sh",
+      ],
+    },
+  );
+
+  //
+  // cp
+  //
+  cli.registerCommand(
+    ["cp"],
+    async (args, flags, ctx) => {
+      const usage =
+        "Usage: cp <containerId>:<path> <localPath> | cp <localPath> <containerId>:<path>";
+      if (args.length !== 2) throw new CLIError(usage, 1);
+      const [src, dest] = args.map((arg) => parseCopyOperand(String(arg)));
+      if (!src.id === !dest.id) {
+        throw new CLIError(
+          `Exactly one of source and destination must be <containerId>:<path>. ${usage}`,
+          1,
+        );
       }
 
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const resp = await client.remove(id);
-        ctx.log({ status: resp });
+        const client = await getClient(ctx, flags, {
+          operations: [src.id ? "copyFrom" : "copyTo"],
+        });
+        const resp = src.id
+          ? await client.copyFrom(src.id, src.path, dest.path)
+          : await client.copyTo(dest.id!, src.path, dest.path);
+        printer.item({ id: src.id ?? dest.id!, ...resp }, ACTION_VIEW);
       } catch (err) {
-        throw new CLIError(`Remove failed: ${String(err)}`, 1);
+        throw new CLIError(`Copy failed: ${String(err)}`, exitCodeFor(err));
       }
     },
     {
-      description: "Remove (delete) a container. Usage: remove <containerId>",
+      description:
+        "Copy files or directories between a container and the local filesystem. Usage: cp <containerId>:<path> <localPath> | cp <localPath> <containerId>:<path>",
+      examples: [
+        "cp web:/etc/nginx/nginx.conf ./nginx.conf",
+        "cp ./site web:/usr/share/nginx/html/",
+      ],
     },
   );
 
@@ -235,23 +1319,828 @@ async function main() {
   //
   cli.registerCommand(
     ["logs"],
-    async (args, _flags, ctx) => {
+    async (args, flags, ctx) => {
       const id = args[0];
       if (!id) {
         throw new CLIError("Usage: logs <containerId>", 1);
       }
+      const parsed = logsFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid logs flags: ${parsed.error.message}`, 1);
+      }
+      const { follow, ...options } = parsed.data;
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["streamLogs"],
+          features: {
+            "logs.follow": follow,
+            "logs.since": options.since !== undefined,
+            "logs.timestamps": options.timestamps,
+            "logs.streams": (options.stream ?? "both") !== "both",
+          },
+        });
+        const lines = client.streamLogs(id, { ...options, follow });
+        if (printer.document && !follow) {
+          printer.list(await Array.fromAsync(lines), LOG_VIEW);
+        } else {
+          for await (const line of lines) printer.stream(line, LOG_VIEW);
+        }
+      } catch (err) {
+        throw new CLIError(`Logs failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Print logs (stdout+stderr) for a container as plain text, or one document per line with --output. Usage: logs <containerId> [--follow] [--tail N] [--since 10m] [--timestamps] [--container NAME] [--stream stdout|stderr|both]",
+      examples: [
+        "logs web --tail 100",
+        "logs web --follow --since 10m --timestamps",
+        "logs web --output ndjson",
+      ],
+    },
+  );
 
+  //
+  // apply
+  //
+  cli.registerCommand(
+    ["apply"],
+    async (_args, flags, ctx) => {
+      const manifest = await readStackFile(flags, "apply -f <stack.yaml>");
+      const printer = printerFor(flags);
       try {
-        const client = await getClient(ctx);
-        const text = await client.logs(id);
-        ctx.log({ text });
+        const client = await getClient(ctx, flags);
+        const plan = await applyStack(client, manifest, {
+          // Report each action as it starts, unless printing one document.
+          onAction: (action) => {
+            if (!printer.document) printer.stream(action, STACK_ACTION_VIEW);
+          },
+        });
+        if (printer.document) printer.item(plan);
       } catch (err) {
-        throw new CLIError(`Logs failed: ${String(err)}`, 1);
+        throw new CLIError(`Apply failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Create, recreate or remove a stack's instances to match a manifest or docker-compose file. Usage: apply -f <file>",
+      examples: ["apply -f stack.yaml", "apply -f deploy/docker-compose.yml"],
+    },
+  );
+
+  //
+  // diff
+  //
+  cli.registerCommand(
+    ["diff"],
+    async (_args, flags, ctx) => {
+      const manifest = await readStackFile(flags, "diff -f <stack.yaml>");
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags);
+        const plan = await planStack(client, manifest);
+        if (printer.document) {
+          printer.item(plan);
+        } else {
+          printer.list(plan.actions, STACK_ACTION_VIEW);
+        }
+      } catch (err) {
+        throw new CLIError(`Diff failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Show what `apply` would change, without changing anything. Usage: diff -f <file>",
+      examples: ["diff -f stack.yaml", "diff -f stack.yaml --output json"],
+    },
+  );
+
+  //
+  // delete
+  //
+  cli.registerCommand(
+    ["delete"],
+    async (_args, flags, ctx) => {
+      const manifest = await readStackFile(flags, "delete -f <stack.yaml>");
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags);
+        const plan = await deleteStack(client, manifest, {
+          // Report each action as it starts, unless printing one document.
+          onAction: (action) => {
+            if (!printer.document) printer.stream(action, STACK_ACTION_VIEW);
+          },
+        });
+        if (printer.document) printer.item(plan);
+      } catch (err) {
+        throw new CLIError(`Delete failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Remove every instance of a stack, dependents first. Usage: delete -f <file>",
+      examples: ["delete -f stack.yaml"],
+    },
+  );
+
+  //
+  // wait
+  //
+  cli.registerCommand(
+    ["wait"],
+    async (args, flags, ctx) => {
+      const containerId = args[0];
+      if (!containerId) {
+        throw new CLIError(
+          "Usage: wait <containerId> [--for=healthy] [--timeout=60s]",
+          1,
+        );
+      }
+      const parsed = waitFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid wait flags: ${parsed.error.message}`, 1);
+      }
+
+      const printer = printerFor(flags, "yaml");
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: typeof parsed.data.for === "object"
+            ? ["waitFor", "streamLogs"]
+            : ["waitFor"],
+        });
+        const result = await client.waitFor(
+          String(containerId),
+          parsed.data.for,
+          { timeout: parsed.data.timeout, interval: parsed.data.interval },
+        );
+        printer.item(result);
+      } catch (err) {
+        throw new CLIError(`Wait failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Block until a container meets a condition; exits non-zero on timeout. Usage: wait <containerId> [--for=running|healthy|ready|exited|removed|log:<regex>] [--timeout=60s]",
+      examples: [
+        "wait web --for=healthy --timeout=60s",
+        "wait db --for='log:ready to accept connections' --timeout=2m",
+      ],
+    },
+  );
+
+  //
+  // stats
+  //
+  cli.registerCommand(
+    ["stats"],
+    async (args, flags, ctx) => {
+      if (args.length === 0) {
+        throw new CLIError(
+          "Usage: stats <containerId...> [--stream] [--interval=1s]",
+          1,
+        );
+      }
+      const parsed = statsFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid stats flags: ${parsed.error.message}`, 1);
+      }
+      const { stream, interval } = parsed.data;
+
+      // Streamed elsewhere than a terminal, default to NDJSON.
+      const printer = printerFor(
+        flags,
+        stream && !Deno.stdout.isTerminal() ? "ndjson" : "table",
+      );
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["stats"],
+          features: { "stats.stream": stream },
+        });
+        const ids = args.map(String);
+        if (!stream) {
+          const samples = [];
+          for (const id of ids) {
+            for await (const stats of client.stats(id, { interval })) {
+              samples.push({ id, stats });
+            }
+          }
+          printer.list(samples, STATS_VIEW);
+          return;
+        }
+
+        // On a terminal, redraw a table of the latest samples; otherwise
+        // print each sample as it arrives.
+        const redraw = printer.human && !printer.options.template &&
+          !printer.options.quiet && Deno.stdout.isTerminal();
+        const screen = new Printer(
+          printer.options,
+          (text) => console.log(`\x1b[2J\x1b[H${text}`),
+        );
+        const latest = new Map<string, ResourceStats>(
+          ids.map((id) => [id, { timestamp: "" }]),
+        );
+        for await (
+          const sample of mergeAsyncIterables(
+            ids.map((id) =>
+              taggedStats(id, client.stats(id, { stream, interval }))
+            ),
+          )
+        ) {
+          if (redraw) {
+            latest.set(sample.id, sample.stats);
+            screen.list(
+              [...latest].map(([id, stats]) => ({ id, stats })),
+              STATS_VIEW,
+            );
+          } else {
+            printer.stream(sample, STATS_VIEW);
+          }
+        }
+      } catch (err) {
+        throw new CLIError(`Stats failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Show CPU, memory, network and block I/O usage for one or more containers. Usage: stats <containerId...> [--stream] [--interval=1s]",
+      examples: [
+        "stats web",
+        "stats web db --stream --interval=2s",
+        "stats web --stream --output ndjson",
+      ],
+    },
+  );
+
+  //
+  // watch
+  //
+  cli.registerCommand(
+    ["watch"],
+    async (args, flags, ctx) => {
+      const parsed = watchFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid watch flags: ${parsed.error.message}`, 1);
+      }
+      const labels = parsed.data.label
+        ? parsePairs(parsed.data.label)
+        : undefined;
+      const types = parsed.data.type ? [parsed.data.type].flat() : undefined;
+
+      // A table for people at a terminal; NDJSON for anything reading it.
+      const printer = printerFor(
+        flags,
+        Deno.stdout.isTerminal() ? "table" : "ndjson",
+      );
+      try {
+        const client = await getClient(ctx, flags, { operations: ["watch"] });
+        for await (
+          const event of client.watch({
+            ids: args.length > 0 ? args.map(String) : undefined,
+            labels,
+            types,
+          })
+        ) {
+          printer.stream(event, EVENT_VIEW);
+        }
+      } catch (err) {
+        throw new CLIError(`Watch failed: ${String(err)}`, exitCodeFor(err));
+      }
+    },
+    {
+      description:
+        "Stream container lifecycle events, as a table on a terminal and NDJSON otherwise. Usage: watch [containerId...] [--label KEY=VALUE] [--type died]",
+      examples: [
+        "watch",
+        "watch web --type died --type oomkilled",
+        "watch --output ndjson | jq .type",
+      ],
+    },
+  );
+
+  //
+  // image pull
+  //
+  cli.registerCommand(
+    ["image", "pull"],
+    async (args, flags, ctx) => {
+      const ref = args[0];
+      if (!ref) {
+        throw new CLIError("Usage: image pull <imageRef>", 1);
+      }
+      const parsed = imagePullFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(
+          `Invalid image pull flags: ${parsed.error.message}`,
+          1,
+        );
+      }
+      const { username, password, registry } = parsed.data;
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["pullImage"],
+        });
+        const image = await client.pullImage(ref, {
+          auth: username || password
+            ? { username, password, serverAddress: registry }
+            : undefined,
+          onProgress: (progress) => {
+            // Byte counters tick many times per layer; report state changes,
+            // on stderr so the result alone reaches stdout.
+            if (progress.current === undefined && printer.human) {
+              console.error(
+                progress.id
+                  ? `${progress.id}: ${progress.status}`
+                  : progress.status,
+              );
+            }
+          },
+        });
+        printer.item(image, IMAGE_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Image pull failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Pull an image. Usage: image pull <imageRef> [--username U --password P --registry HOST]",
+      examples: ["image pull nginx:latest", "image pull ubuntu:22.04"],
+    },
+  );
+
+  //
+  // image ls
+  //
+  cli.registerCommand(
+    ["image", "ls"],
+    async (_args, flags, ctx) => {
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["listImages"],
+        });
+        const images = await client.listImages();
+        printer.list(images, IMAGE_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Failed to list images: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "List images on the detected runtime.",
+    },
+  );
+
+  //
+  // image rm
+  //
+  cli.registerCommand(
+    ["image", "rm"],
+    async (args, flags, ctx) => {
+      const ref = args[0];
+      if (!ref) {
+        throw new CLIError("Usage: image rm <imageRef> [--force]", 1);
+      }
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["removeImage"],
+        });
+        const resp = await client.removeImage(ref, {
+          force: (flags as Record<string, unknown>).force === true,
+        });
+        printer.item({ id: ref, ...resp }, ACTION_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Image remove failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "Remove an image. Usage: image rm <imageRef> [--force]",
+    },
+  );
+
+  //
+  // volume create
+  //
+  cli.registerCommand(
+    ["volume", "create"],
+    async (args, flags, ctx) => {
+      const name = args[0];
+      if (!name) {
+        throw new CLIError(
+          "Usage: volume create <name> [--driver D] [--size 10G] [--label K=V] [--opt K=V]",
+          1,
+        );
+      }
+      const parsed = volumeCreateFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(
+          `Invalid volume create flags: ${parsed.error.message}`,
+          1,
+        );
+      }
+      const { driver, size, label, opt } = parsed.data;
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["createVolume"],
+        });
+        const volume = await client.createVolume({
+          name,
+          driver,
+          sizeBytes: size,
+          labels: label ? parsePairs(label) : undefined,
+          options: opt ? parsePairs(opt) : undefined,
+        });
+        printer.item(volume, VOLUME_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Volume create failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Create a named volume (a PersistentVolumeClaim on Kubernetes). Usage: volume create <name> [--driver D] [--size 10G] [--label K=V] [--opt K=V]",
+      examples: [
+        "volume create data",
+        "volume create data --size 5G --driver standard",
+      ],
+    },
+  );
+
+  //
+  // volume ls
+  //
+  cli.registerCommand(
+    ["volume", "ls"],
+    async (_args, flags, ctx) => {
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["listVolumes"],
+        });
+        const volumes = await client.listVolumes();
+        printer.list(volumes, VOLUME_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Failed to list volumes: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "List volumes on the detected runtime.",
+    },
+  );
+
+  //
+  // volume inspect
+  //
+  cli.registerCommand(
+    ["volume", "inspect"],
+    async (args, flags, ctx) => {
+      const name = args[0];
+      if (!name) {
+        throw new CLIError("Usage: volume inspect <name>", 1);
+      }
+
+      const printer = printerFor(flags, "yaml");
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["inspectVolume"],
+        });
+        const volume = await client.inspectVolume(name);
+        printer.item(volume, VOLUME_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Volume inspect failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "Inspect a volume. Usage: volume inspect <name>",
+    },
+  );
+
+  //
+  // volume rm
+  //
+  cli.registerCommand(
+    ["volume", "rm"],
+    async (args, flags, ctx) => {
+      const name = args[0];
+      if (!name) {
+        throw new CLIError("Usage: volume rm <name> [--force]", 1);
+      }
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["removeVolume"],
+        });
+        const resp = await client.removeVolume(name, {
+          force: (flags as Record<string, unknown>).force === true,
+        });
+        printer.item({ id: name, ...resp }, ACTION_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Volume remove failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Remove a volume, even one in use with --force. Usage: volume rm <name> [--force]",
+    },
+  );
+
+  //
+  // volume prune
+  //
+  cli.registerCommand(
+    ["volume", "prune"],
+    async (_args, flags, ctx) => {
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["pruneVolumes"],
+        });
+        const result = await client.pruneVolumes({
+          all: (flags as Record<string, unknown>).all === true,
+        });
+        printer.item(result, PRUNE_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Volume prune failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Remove unused anonymous volumes, or every unused volume with --all. Usage: volume prune [--all]",
+    },
+  );
+
+  //
+  // network create
+  //
+  cli.registerCommand(
+    ["network", "create"],
+    async (args, flags, ctx) => {
+      const name = args[0];
+      if (!name) {
+        throw new CLIError(
+          "Usage: network create <name> [--driver D] [--subnet CIDR] [--gateway IP] [--internal] [--label K=V] [--opt K=V]",
+          1,
+        );
+      }
+      const parsed = networkCreateFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(
+          `Invalid network create flags: ${parsed.error.message}`,
+          1,
+        );
+      }
+      const { driver, subnet, gateway, internal, label, opt } = parsed.data;
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["createNetwork"],
+        });
+        const network = await client.createNetwork({
+          name,
+          driver,
+          subnet,
+          gateway,
+          internal,
+          labels: label ? parsePairs(label) : undefined,
+          options: opt ? parsePairs(opt) : undefined,
+        });
+        printer.item(network, NETWORK_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Network create failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Create a network. Usage: network create <name> [--driver D] [--subnet CIDR] [--gateway IP] [--internal] [--label K=V] [--opt K=V]",
+      examples: [
+        "network create backend",
+        "network create backend --subnet 10.10.0.0/24 --internal",
+      ],
+    },
+  );
+
+  //
+  // network ls
+  //
+  cli.registerCommand(
+    ["network", "ls"],
+    async (_args, flags, ctx) => {
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["listNetworks"],
+        });
+        const networks = await client.listNetworks();
+        printer.list(networks, NETWORK_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Failed to list networks: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "List networks on the detected runtime.",
+    },
+  );
+
+  //
+  // network connect
+  //
+  cli.registerCommand(
+    ["network", "connect"],
+    async (args, flags, ctx) => {
+      const [network, id] = args;
+      if (!network || !id) {
+        throw new CLIError(
+          "Usage: network connect <network> <containerId> [--alias NAME] [--ip IP]",
+          1,
+        );
+      }
+      const parsed = networkConnectFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(
+          `Invalid network connect flags: ${parsed.error.message}`,
+          1,
+        );
+      }
+      const { alias, ip } = parsed.data;
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["connectNetwork"],
+        });
+        const resp = await client.connectNetwork(network, id, {
+          aliases: alias ? [alias].flat() : undefined,
+          ipAddress: ip,
+        });
+        printer.item({ id, ...resp }, ACTION_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Network connect failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Attach a container to a network. Usage: network connect <network> <containerId> [--alias NAME] [--ip IP]",
+      examples: ["network connect backend web --alias api"],
+    },
+  );
+
+  //
+  // network disconnect
+  //
+  cli.registerCommand(
+    ["network", "disconnect"],
+    async (args, flags, ctx) => {
+      const [network, id] = args;
+      if (!network || !id) {
+        throw new CLIError(
+          "Usage: network disconnect <network> <containerId> [--force]",
+          1,
+        );
+      }
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["disconnectNetwork"],
+        });
+        const resp = await client.disconnectNetwork(network, id, {
+          force: (flags as Record<string, unknown>).force === true,
+        });
+        printer.item({ id, ...resp }, ACTION_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Network disconnect failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description:
+        "Detach a container from a network. Usage: network disconnect <network> <containerId> [--force]",
+    },
+  );
+
+  //
+  // network rm
+  //
+  cli.registerCommand(
+    ["network", "rm"],
+    async (args, flags, ctx) => {
+      const network = args[0];
+      if (!network) {
+        throw new CLIError("Usage: network rm <network>", 1);
+      }
+
+      const printer = printerFor(flags);
+      try {
+        const client = await getClient(ctx, flags, {
+          operations: ["removeNetwork"],
+        });
+        const resp = await client.removeNetwork(network);
+        printer.item({ id: network, ...resp }, ACTION_VIEW);
+      } catch (err) {
+        throw new CLIError(
+          `Network remove failed: ${String(err)}`,
+          exitCodeFor(err),
+        );
+      }
+    },
+    {
+      description: "Remove a network. Usage: network rm <network>",
+    },
+  );
+
+  //
+  // serve
+  //
+  cli.registerCommand(
+    ["serve"],
+    async (_args, flags, ctx) => {
+      const parsed = serveFlagsSchema.safeParse(flags);
+      if (!parsed.success) {
+        throw new CLIError(`Invalid serve flags: ${parsed.error.message}`, 1);
+      }
+      const { port, hostname } = parsed.data;
+      // Even on localhost any web page could reach an unauthenticated API,
+      // so without a token we make one up and print it.
+      const given = parsed.data.token || envVar("INFRA_CLIENT_TOKEN");
+      const token = given ?? randomToken();
+
+      let client: RuntimeClient;
+      try {
+        client = await getClient(ctx, flags);
+      } catch (err) {
+        throw new CLIError(`Serve failed: ${String(err)}`, exitCodeFor(err));
+      }
+      // Finish in-flight requests on Ctrl-C or a container stop.
+      const shutdown = new AbortController();
+      for (const signal of ["SIGINT", "SIGTERM"] as const) {
+        Deno.addSignalListener(signal, () => shutdown.abort());
       }
+      const server = Deno.serve(
+        {
+          hostname,
+          port,
+          signal: shutdown.signal,
+          onListen: (addr) =>
+            console.error(
+              `Serving the ${client.runtime} API on http://${addr.hostname}:${addr.port}${
+                given ? "" : ` with token ${token}`
+              }`,
+            ),
+        },
+        createHandler(client, { token }),
+      );
+      await server.finished;
     },
     {
       description:
-        "Fetch logs (stdout+stderr) for a container. Usage: logs <containerId>",
+        "Serve the runtime as a REST API (OpenAPI at /openapi.json, health at /healthz), with bearer-token auth. Usage: serve [--port 8080] [--hostname 127.0.0.1] [--token T]",
+      examples: [
+        "serve",
+        "INFRA_CLIENT_TOKEN=s3cret serve --hostname 0.0.0.0 --port 8080",
+        "serve --runtime kubernetes --namespace apps --token s3cret",
+      ],
     },
   );
 
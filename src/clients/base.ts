@@ -2,25 +2,148 @@
 
 import type {
   ActionResponse,
+  Capabilities,
   ContainerInfo,
+  ContainerPage,
   ContainerRuntime,
   CreateOptions,
+  ExecOptions,
+  ExecResult,
+  ImageInfo,
+  ImageRuntime,
+  ListOptions,
+  LogLine,
+  LogOptions,
   LogsResponse,
+  NetworkConnectOptions,
+  NetworkCreateOptions,
+  NetworkDisconnectOptions,
+  NetworkInfo,
+  NetworkRuntime,
+  Operation,
+  PruneImagesOptions,
+  PruneResult,
+  PruneVolumesOptions,
+  PullOptions,
+  RemoveImageOptions,
+  RemoveOptions,
+  RemoveVolumeOptions,
+  ResourceStats,
+  RuntimeEvent,
+  RuntimeName,
+  RuntimeVersion,
+  Signal,
+  StatsOptions,
+  StopOptions,
+  VolumeCreateOptions,
+  VolumeInfo,
+  VolumeRuntime,
+  WaitCondition,
+  WaitOptions,
+  WaitResult,
+  WatchFilter,
 } from "./types.ts";
 
 import { UnimplementedError } from "./types.ts";
+import { waitForCondition } from "./wait.ts";
+
+/** Every Operation, so `capabilities` can check which are overridden. */
+const OPERATIONS = Object.keys(
+  {
+    list: true,
+    listPage: true,
+    create: true,
+    inspect: true,
+    start: true,
+    stop: true,
+    restart: true,
+    remove: true,
+    pause: true,
+    unpause: true,
+    kill: true,
+    logs: true,
+    streamLogs: true,
+    exec: true,
+    copyTo: true,
+    copyFrom: true,
+    watch: true,
+    waitFor: true,
+    stats: true,
+    pullImage: true,
+    listImages: true,
+    inspectImage: true,
+    removeImage: true,
+    pruneImages: true,
+    createVolume: true,
+    listVolumes: true,
+    inspectVolume: true,
+    removeVolume: true,
+    pruneVolumes: true,
+    createNetwork: true,
+    listNetworks: true,
+    connectNetwork: true,
+    disconnectNetwork: true,
+    removeNetwork: true,
+  } satisfies Record<Operation, true>,
+) as Operation[];
+
+/** The operations implemented here on top of another one. */
+const DERIVED_FROM: Partial<Record<Operation, Operation>> = {
+  list: "listPage",
+  logs: "streamLogs",
+  waitFor: "inspect",
+};
 
 /**
  * Abstract base for all container‐runtime clients.
  *
  * Provides “default” implementations for every method that simply throw
  * UnimplementedError.  Subclasses must override each method and convert
- * their engine‐specific payloads into our standard return types.
+ * their engine‐specific payloads into our standard return types.  The
+ * exceptions are `list` and `logs`, derived from `listPage` and `streamLogs`,
+ * and `waitFor`, built on `inspect` and `streamLogs`; `capabilities` reports
+ * which methods a subclass overrides.
  */
-export abstract class AbstractClient implements ContainerRuntime {
-  /** List all “instances” (containers, pods, etc.). */
-  list(): Promise<ContainerInfo[]> {
-    throw new UnimplementedError(`${this.constructor.name}.list`);
+export abstract class AbstractClient
+  implements ContainerRuntime, ImageRuntime, VolumeRuntime, NetworkRuntime {
+  /** Which engine this client drives; "multi" for an aggregate client. */
+  abstract readonly runtime: RuntimeName | "multi";
+
+  /**
+   * Report the operations this client’s class implements (`list`, `logs`
+   * and `waitFor` counting as implemented along with what they are built
+   * on).  Subclasses add the features, kinds and limitations they have.
+   */
+  capabilities(): Capabilities {
+    const own = this as unknown as Record<Operation, unknown>;
+    const defaults = AbstractClient.prototype as unknown as Record<
+      Operation,
+      unknown
+    >;
+    const implemented = (op: Operation) => own[op] !== defaults[op];
+    return {
+      runtime: this.runtime,
+      operations: OPERATIONS.filter((op) =>
+        implemented(op) || implemented(DERIVED_FROM[op] ?? op)
+      ),
+      features: [],
+      kinds: ["container"],
+    };
+  }
+
+  /** Ask the engine for its version. */
+  version(): Promise<RuntimeVersion> {
+    throw new UnimplementedError(`${this.constructor.name}.version`);
+  }
+
+  /** List “instances” (containers, pods, etc.): the first matching page. */
+  async list(options: ListOptions = {}): Promise<ContainerInfo[]> {
+    return (await this.listPage(options)).items;
+  }
+
+  /** List one page of “instances”, with a token for the next. */
+  listPage(options: ListOptions = {}): Promise<ContainerPage> {
+    throw new UnimplementedError(`${this.constructor.name}.listPage`);
   }
 
   /** Create a new “instance” (container, pod, etc.). */
@@ -39,22 +162,185 @@ export abstract class AbstractClient implements ContainerRuntime {
   }
 
   /** Stop an “instance” by ID or name. */
-  stop(id: string): Promise<ActionResponse> {
+  stop(id: string, options?: StopOptions): Promise<ActionResponse> {
     throw new UnimplementedError(`${this.constructor.name}.stop`);
   }
 
   /** Restart an “instance” by ID or name. */
-  restart(id: string): Promise<ActionResponse> {
+  restart(id: string, options?: StopOptions): Promise<ActionResponse> {
     throw new UnimplementedError(`${this.constructor.name}.restart`);
   }
 
   /** Remove (delete) an “instance” by ID or name. */
-  remove(id: string): Promise<ActionResponse> {
+  remove(id: string, options?: RemoveOptions): Promise<ActionResponse> {
     throw new UnimplementedError(`${this.constructor.name}.remove`);
   }
 
-  /** Fetch logs (stdout+stderr) for an “instance” by ID or name. */
-  logs(id: string): Promise<LogsResponse> {
-    throw new UnimplementedError(`${this.constructor.name}.logs`);
+  /** Pause (freeze) an “instance” by ID or name. */
+  pause(id: string): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.pause`);
+  }
+
+  /** Unpause (thaw) an “instance” by ID or name. */
+  unpause(id: string): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.unpause`);
+  }
+
+  /** Send a signal to an “instance” by ID or name. */
+  kill(id: string, signal?: Signal): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.kill`);
+  }
+
+  /**
+   * Fetch logs (stdout+stderr) for an “instance” by ID or name, by
+   * collecting `streamLogs` (never following) into one string.
+   */
+  async logs(id: string, options: LogOptions = {}): Promise<LogsResponse> {
+    let logs = "";
+    for await (
+      const line of this.streamLogs(id, { ...options, follow: false })
+    ) {
+      logs += (line.timestamp ? `${line.timestamp} ` : "") + line.text + "\n";
+    }
+    return { logs };
+  }
+
+  /** Stream logs line by line for an “instance” by ID or name. */
+  streamLogs(id: string, options?: LogOptions): AsyncIterable<LogLine> {
+    throw new UnimplementedError(`${this.constructor.name}.streamLogs`);
+  }
+
+  /** Run a command inside an “instance” by ID or name. */
+  exec(id: string, options: ExecOptions): Promise<ExecResult> {
+    throw new UnimplementedError(`${this.constructor.name}.exec`);
+  }
+
+  /** Copy a local file or directory into an “instance”. */
+  copyTo(
+    id: string,
+    localPath: string,
+    remotePath: string,
+  ): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.copyTo`);
+  }
+
+  /** Copy a file or directory out of an “instance”. */
+  copyFrom(
+    id: string,
+    remotePath: string,
+    localPath: string,
+  ): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.copyFrom`);
+  }
+
+  /** Stream normalized lifecycle events for “instances”. */
+  watch(filter?: WatchFilter): AsyncIterable<RuntimeEvent> {
+    throw new UnimplementedError(`${this.constructor.name}.watch`);
+  }
+
+  /**
+   * Wait for an “instance” to meet a condition, by polling `inspect` (or
+   * following its logs, for `{ log }` conditions).
+   */
+  waitFor(
+    id: string,
+    condition: WaitCondition,
+    options: WaitOptions = {},
+  ): Promise<WaitResult> {
+    return waitForCondition(this, id, condition, options);
+  }
+
+  /** Sample resource usage for an “instance” by ID or name. */
+  stats(id: string, options?: StatsOptions): AsyncIterable<ResourceStats> {
+    throw new UnimplementedError(`${this.constructor.name}.stats`);
+  }
+
+  /** Pull an image by reference. */
+  pullImage(ref: string, options?: PullOptions): Promise<ImageInfo> {
+    throw new UnimplementedError(`${this.constructor.name}.pullImage`);
+  }
+
+  /** List locally stored images. */
+  listImages(): Promise<ImageInfo[]> {
+    throw new UnimplementedError(`${this.constructor.name}.listImages`);
+  }
+
+  /** Inspect an image by reference or ID. */
+  inspectImage(ref: string): Promise<ImageInfo> {
+    throw new UnimplementedError(`${this.constructor.name}.inspectImage`);
+  }
+
+  /** Remove an image by reference or ID. */
+  removeImage(
+    ref: string,
+    options?: RemoveImageOptions,
+  ): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.removeImage`);
+  }
+
+  /** Remove unused images. */
+  pruneImages(options?: PruneImagesOptions): Promise<PruneResult> {
+    throw new UnimplementedError(`${this.constructor.name}.pruneImages`);
+  }
+
+  /** Create a named volume. */
+  createVolume(options: VolumeCreateOptions): Promise<VolumeInfo> {
+    throw new UnimplementedError(`${this.constructor.name}.createVolume`);
+  }
+
+  /** List volumes. */
+  listVolumes(): Promise<VolumeInfo[]> {
+    throw new UnimplementedError(`${this.constructor.name}.listVolumes`);
+  }
+
+  /** Inspect a volume by name. */
+  inspectVolume(name: string): Promise<VolumeInfo> {
+    throw new UnimplementedError(`${this.constructor.name}.inspectVolume`);
+  }
+
+  /** Remove a volume by name. */
+  removeVolume(
+    name: string,
+    options?: RemoveVolumeOptions,
+  ): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.removeVolume`);
+  }
+
+  /** Remove unused volumes. */
+  pruneVolumes(options?: PruneVolumesOptions): Promise<PruneResult> {
+    throw new UnimplementedError(`${this.constructor.name}.pruneVolumes`);
+  }
+
+  /** Create a network. */
+  createNetwork(options: NetworkCreateOptions): Promise<NetworkInfo> {
+    throw new UnimplementedError(`${this.constructor.name}.createNetwork`);
+  }
+
+  /** List networks. */
+  listNetworks(): Promise<NetworkInfo[]> {
+    throw new UnimplementedError(`${this.constructor.name}.listNetworks`);
+  }
+
+  /** Attach an “instance” to a network. */
+  connectNetwork(
+    network: string,
+    id: string,
+    options?: NetworkConnectOptions,
+  ): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.connectNetwork`);
+  }
+
+  /** Detach an “instance” from a network. */
+  disconnectNetwork(
+    network: string,
+    id: string,
+    options?: NetworkDisconnectOptions,
+  ): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.disconnectNetwork`);
+  }
+
+  /** Remove a network by name or ID. */
+  removeNetwork(network: string): Promise<ActionResponse> {
+    throw new UnimplementedError(`${this.constructor.name}.removeNetwork`);
   }
 }
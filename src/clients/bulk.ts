@@ -0,0 +1,144 @@
+// src/clients/bulk.ts
+
+import {
+  type ActionResponse,
+  type ContainerInfo,
+  type ContainerRuntime,
+  type ContainerState,
+  RuntimeError,
+} from "./types.ts";
+
+/**
+ * Acting on many instances at once — the cleanup after a CI run, say —
+ * with bounded concurrency.  One instance failing doesn’t stop the rest:
+ * every instance gets a result of its own.
+ */
+
+/**
+ * Which instances a bulk action applies to; all given criteria must match.
+ * At least one is required, so an empty selector can’t mean “everything”.
+ */
+export interface InstanceSelector {
+  /** These instances, by ID or name. */
+  ids?: string[];
+
+  /** Instances carrying all of these labels. */
+  labels?: Record<string, string>;
+
+  /** Instances whose name matches this glob (`*` and `?`), e.g. "ci-*". */
+  name?: string;
+
+  /** Instances in one of these states. */
+  status?: ContainerState | ContainerState[];
+}
+
+/** Options for bulkAction. */
+export interface BulkOptions {
+  /** How many instances to act on at once (4). */
+  concurrency?: number;
+
+  /** Called as each instance’s result comes in, e.g. to report progress. */
+  onResult?: (result: BulkResult) => void;
+}
+
+/** What happened to one instance. */
+export interface BulkResult extends ActionResponse {
+  /** The instance’s ID (or the ID or name it was selected by). */
+  id: string;
+
+  name?: string;
+
+  /** On failure, the error’s class, e.g. "NotFoundError". */
+  errorType?: string;
+}
+
+/** Turn a glob into an anchored RegExp: `*` is any run, `?` any one. */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\/]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The instances a selector picks.  IDs alone are inspected (a missing one
+ * is a NotFoundError); anything else is a filtered `list()`.
+ */
+export async function selectInstances(
+  client: ContainerRuntime,
+  selector: InstanceSelector,
+): Promise<ContainerInfo[]> {
+  const { ids, labels, name, status } = selector;
+  if (!ids?.length && !labels && name === undefined && status === undefined) {
+    throw new RuntimeError(
+      "Select instances by ID, label, name or status; an empty selector would select all of them",
+    );
+  }
+  if (labels === undefined && name === undefined && status === undefined) {
+    return await Promise.all(ids!.map((id) => client.inspect(id)));
+  }
+  const pattern = name === undefined ? undefined : globToRegExp(name);
+  const wanted = ids?.length ? new Set(ids) : undefined;
+  return (await client.list({ labels, status })).filter((info) =>
+    (!pattern || pattern.test(info.name ?? "")) &&
+    (!wanted || wanted.has(info.id) ||
+      (info.name !== undefined && wanted.has(info.name)))
+  );
+}
+
+/**
+ * Run `action` on every selected instance, `concurrency` at a time, and
+ * return each instance’s result in selection order.  Failures are caught
+ * per instance and reported as `{ success: false, error }`.  Selecting by
+ * IDs alone skips the lookup: each ID is acted on as given.
+ */
+export async function bulkAction(
+  client: ContainerRuntime,
+  selector: InstanceSelector,
+  action: (id: string) => Promise<ActionResponse>,
+  options: BulkOptions = {},
+): Promise<BulkResult[]> {
+  const { labels, name, status } = selector;
+  const targets: { id: string; name?: string }[] =
+    labels === undefined && name === undefined && status === undefined &&
+      selector.ids?.length
+      ? selector.ids.map((id) => ({ id }))
+      : (await selectInstances(client, selector)).map((info) => ({
+        id: info.id,
+        name: info.name,
+      }));
+
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const results: BulkResult[] = new Array(targets.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      const target = targets[index];
+      let result: BulkResult;
+      try {
+        result = { ...target, ...await action(target.id) };
+      } catch (err: unknown) {
+        result = {
+          ...target,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+          errorType: err instanceof Error ? err.name : undefined,
+        };
+      }
+      results[index] = result;
+      options.onResult?.(result);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, targets.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,73 @@
+// src/clients/bulk_test.ts
+
+import assert from "node:assert/strict";
+import { InMemoryClient } from "../testing/memory.ts";
+import { bulkAction, selectInstances } from "./bulk.ts";
+import { RuntimeError } from "./types.ts";
+
+/** A client with three running CI instances and one other. */
+async function ciClient(): Promise<InMemoryClient> {
+  const client = new InMemoryClient();
+  for (const name of ["ci-1", "ci-2", "ci-3", "web"]) {
+    const { id } = await client.create({
+      image: "alpine:3.20",
+      name,
+      labels: { ci: name.startsWith("ci-") ? "true" : "false" },
+    });
+    await client.start(id);
+  }
+  return client;
+}
+
+Deno.test("selectInstances matches name globs, labels and IDs", async () => {
+  const client = await ciClient();
+  const names = async (selector: Parameters<typeof selectInstances>[1]) =>
+    (await selectInstances(client, selector)).map((info) => info.name).sort();
+
+  assert.deepEqual(await names({ name: "ci-*" }), ["ci-1", "ci-2", "ci-3"]);
+  assert.deepEqual(await names({ name: "ci-?", ids: ["ci-2"] }), ["ci-2"]);
+  assert.deepEqual(await names({ labels: { ci: "false" } }), ["web"]);
+  assert.deepEqual(await names({ ids: ["web", "ci-1"] }), ["ci-1", "web"]);
+  await assert.rejects(selectInstances(client, {}), RuntimeError);
+});
+
+Deno.test("bulkAction bounds concurrency and reports each instance", async () => {
+  const client = await ciClient();
+  let running = 0;
+  let peak = 0;
+  const results = await bulkAction(
+    client,
+    { name: "ci-*" },
+    async (id) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return await client.stop(id);
+    },
+    { concurrency: 2 },
+  );
+  assert.equal(peak, 2);
+  assert.deepEqual(
+    results.map(({ name, success }) => ({ name, success })),
+    ["ci-1", "ci-2", "ci-3"].map((name) => ({ name, success: true })),
+  );
+  assert.equal((await client.inspect("web")).state, "running");
+});
+
+Deno.test("bulkAction carries on past failures", async () => {
+  const client = await ciClient();
+  await client.stop("ci-2");
+  const results = await bulkAction(
+    client,
+    { ids: ["ci-1", "ci-2", "missing"] },
+    (id) => client.stop(id),
+  );
+  assert.deepEqual(
+    results.map(({ id, success, errorType }) => ({ id, success, errorType })),
+    [
+      { id: "ci-1", success: true, errorType: undefined },
+      { id: "ci-2", success: false, errorType: "ConflictError" },
+      { id: "missing", success: false, errorType: "NotFoundError" },
+    ],
+  );
+});
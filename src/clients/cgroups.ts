@@ -0,0 +1,168 @@
+// src/clients/cgroups.ts
+
+import type { CounterSample } from "./stats.ts";
+
+/**
+ * Reads resource usage straight from a container’s cgroup, for engines
+ * such as containerd whose own metrics arrive as engine‐specific protobufs.
+ * Both the unified (v2) hierarchy and the v1 per‐controller hierarchies are
+ * understood.  The files are the local host’s, so this only works when the
+ * client runs on the engine’s host.
+ */
+
+const CGROUP_ROOT = "/sys/fs/cgroup";
+
+/** v1 reports an unlimited memory limit as a huge page‐aligned number. */
+const V1_UNLIMITED = 2 ** 62;
+
+/** Read a cgroup file; a missing file (or controller) is undefined. */
+async function readFile(path: string): Promise<string | undefined> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (err: unknown) {
+    if (err instanceof Deno.errors.NotFound) return undefined;
+    throw err;
+  }
+}
+
+/** Read a file holding a single number. */
+async function readNumber(path: string): Promise<number | undefined> {
+  const text = (await readFile(path))?.trim();
+  return text === undefined || text === "" || text === "max"
+    ? undefined
+    : Number(text);
+}
+
+/** Parse `key value` lines (cpu.stat, memory.stat) into a map. */
+function parseKeyed(text: string | undefined): Record<string, number> {
+  const entries: Record<string, number> = {};
+  for (const line of text?.split("\n") ?? []) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key && value !== undefined) entries[key] = Number(value);
+  }
+  return entries;
+}
+
+/**
+ * The cgroup directory (relative to a hierarchy’s root) for an OCI
+ * `cgroupsPath`: a plain path for the cgroupfs driver, or systemd’s
+ * `slice:prefix:name`, which lives at `<slice>/<prefix>-<name>.scope`.
+ */
+function cgroupDirectory(cgroupsPath: string): string {
+  const parts = cgroupsPath.split(":");
+  if (cgroupsPath.startsWith("/") || parts.length !== 3) {
+    return `/${cgroupsPath.replace(/^\/+/, "")}`;
+  }
+  const [slice, prefix, name] = parts;
+  // Nested slices are named for their ancestry: a-b.slice is in a.slice.
+  const sliceName = slice || "system.slice";
+  const stem = sliceName.replace(/\.slice$/, "").split("-");
+  const slices = stem.map((_, i) => `${stem.slice(0, i + 1).join("-")}.slice`);
+  return `/${slices.join("/")}/${prefix ? `${prefix}-` : ""}${name}.scope`;
+}
+
+/** Sum the rx/tx bytes in `/proc/<pid>/net/dev`, skipping loopback. */
+function parseNetDev(text: string): { rx: number; tx: number } {
+  let rx = 0;
+  let tx = 0;
+  for (const line of text.split("\n").slice(2)) {
+    const colon = line.indexOf(":");
+    if (colon === -1 || line.slice(0, colon).trim() === "lo") continue;
+    const fields = line.slice(colon + 1).trim().split(/\s+/).map(Number);
+    rx += fields[0] ?? 0;
+    tx += fields[8] ?? 0;
+  }
+  return { rx, tx };
+}
+
+/** Sum one `key=value` field over every device in io.stat. */
+function sumIoField(text: string, field: string): number {
+  let total = 0;
+  for (const match of text.matchAll(new RegExp(`\\b${field}=(\\d+)`, "g"))) {
+    total += Number(match[1]);
+  }
+  return total;
+}
+
+/** Sample a v2 (unified) cgroup. */
+async function sampleV2(dir: string): Promise<CounterSample> {
+  const path = `${CGROUP_ROOT}${dir}`;
+  const cpu = parseKeyed(await readFile(`${path}/cpu.stat`));
+  const memory = parseKeyed(await readFile(`${path}/memory.stat`));
+  const current = await readNumber(`${path}/memory.current`);
+  const io = await readFile(`${path}/io.stat`);
+  return {
+    timestamp: new Date().toISOString(),
+    cpuUsageNs: cpu.usage_usec !== undefined
+      ? cpu.usage_usec * 1000
+      : undefined,
+    memoryUsedBytes: current !== undefined
+      ? Math.max(0, current - (memory.inactive_file ?? 0))
+      : undefined,
+    memoryLimitBytes: await readNumber(`${path}/memory.max`),
+    blockReadBytes: io !== undefined ? sumIoField(io, "rbytes") : undefined,
+    blockWriteBytes: io !== undefined ? sumIoField(io, "wbytes") : undefined,
+    pids: await readNumber(`${path}/pids.current`),
+  };
+}
+
+/** Sample the v1 cpuacct, memory, blkio and pids hierarchies. */
+async function sampleV1(dir: string): Promise<CounterSample> {
+  const memory = parseKeyed(
+    await readFile(`${CGROUP_ROOT}/memory${dir}/memory.stat`),
+  );
+  const usage = await readNumber(
+    `${CGROUP_ROOT}/memory${dir}/memory.usage_in_bytes`,
+  );
+  const limit = await readNumber(
+    `${CGROUP_ROOT}/memory${dir}/memory.limit_in_bytes`,
+  );
+  let blockReadBytes: number | undefined;
+  let blockWriteBytes: number | undefined;
+  const blkio = await readFile(
+    `${CGROUP_ROOT}/blkio${dir}/blkio.throttle.io_service_bytes`,
+  );
+  if (blkio !== undefined) {
+    blockReadBytes = 0;
+    blockWriteBytes = 0;
+    for (const line of blkio.split("\n")) {
+      const [, op, value] = line.trim().split(/\s+/);
+      if (op === "Read") blockReadBytes += Number(value);
+      if (op === "Write") blockWriteBytes += Number(value);
+    }
+  }
+  return {
+    timestamp: new Date().toISOString(),
+    cpuUsageNs: await readNumber(`${CGROUP_ROOT}/cpuacct${dir}/cpuacct.usage`),
+    memoryUsedBytes: usage !== undefined
+      ? Math.max(0, usage - (memory.total_inactive_file ?? 0))
+      : undefined,
+    memoryLimitBytes: limit !== undefined && limit < V1_UNLIMITED
+      ? limit
+      : undefined,
+    blockReadBytes,
+    blockWriteBytes,
+    pids: await readNumber(`${CGROUP_ROOT}/pids${dir}/pids.current`),
+  };
+}
+
+/**
+ * Sample a container’s cgroup (given its OCI `cgroupsPath`), adding network
+ * counters from its network namespace when the task’s `pid` is known.
+ */
+export async function sampleCgroup(
+  cgroupsPath: string,
+  pid?: number,
+): Promise<CounterSample> {
+  const dir = cgroupDirectory(cgroupsPath);
+  const unified = await readFile(`${CGROUP_ROOT}/cgroup.controllers`) !==
+    undefined;
+  const sample = unified ? await sampleV2(dir) : await sampleV1(dir);
+  const netDev = pid ? await readFile(`/proc/${pid}/net/dev`) : undefined;
+  if (netDev !== undefined) {
+    const { rx, tx } = parseNetDev(netDev);
+    sample.netRxBytes = rx;
+    sample.netTxBytes = tx;
+  }
+  return sample;
+}
@@ -1,101 +1,1153 @@
 // src/clients/containerd.ts
 
-import type { ActionResponse, ContainerInfo, CreateOptions } from "./types.ts";
+import {
+  type ActionResponse,
+  type Capabilities,
+  type ClientOptions,
+  ConflictError,
+  type ContainerInfo,
+  type ContainerPage,
+  type ContainerState,
+  type CreateOptions,
+  type ImageInfo,
+  type ListOptions,
+  type LogLine,
+  type LogOptions,
+  NotFoundError,
+  type PruneImagesOptions,
+  type PruneResult,
+  type PullOptions,
+  type RemoveOptions,
+  type ResourceStats,
+  RuntimeError,
+  type RuntimeEvent,
+  type RuntimeEventType,
+  type RuntimeVersion,
+  type Signal,
+  type StatsOptions,
+  type StopOptions,
+  UnimplementedError,
+  type WatchFilter,
+} from "./types.ts";
 import { Client as ContainerdClientLib } from "containerd";
 import { AbstractClient } from "./base.ts";
+import {
+  type ContainerSpec,
+  isRawCreateOptions,
+  parseContainerSpec,
+} from "./spec.ts";
+import { matchesWatchFilter } from "./events.ts";
+import { toRuntimeError } from "./errors.ts";
+import { matchesListOptions, paginate } from "./list.ts";
+import { type OutputChunk, toLogLines } from "./logs.ts";
+import { mergeAsyncIterables } from "./stream.ts";
+import { type OciImageConfig, toOciSpec } from "./oci.ts";
+import { pollStats } from "./stats.ts";
+import { sampleCgroup } from "./cgroups.ts";
+import { parseSignal } from "./signals.ts";
+import {
+  type Endpoint,
+  forwardSshSocket,
+  resolveEndpoint,
+} from "./endpoint.ts";
+
+/** containerd event topics we report, by normalized type. */
+const CONTAINERD_EVENT_TYPES: Record<string, RuntimeEventType> = {
+  "/containers/create": "created",
+  "/tasks/start": "started",
+  "/tasks/exit": "died",
+  "/tasks/oom": "oomkilled",
+  "/containers/delete": "removed",
+};
+
+/** A protobuf Timestamp as grpc‐js decodes it, or a Date. */
+type ProtoTimestamp = Date | { seconds: number | string; nanos?: number };
+
+/** A protobuf `Any`: a type URL and the encoded message. */
+interface ProtoAny {
+  typeUrl: string;
+  value: Uint8Array;
+}
+
+/** A container record, as the containers service stores it. */
+interface ContainerRecord {
+  id: string;
+  image?: string;
+  labels?: Record<string, string>;
+  runtime?: { name: string };
+  /** The OCI runtime spec, JSON‐encoded. */
+  spec?: ProtoAny;
+  snapshotter?: string;
+  snapshotKey?: string;
+  createdAt?: ProtoTimestamp;
+}
+
+/** A task’s init process, as the tasks service reports it. */
+interface TaskProcess {
+  id?: string;
+  containerId?: string;
+  pid: number;
+  /** A TASK_STATUSES index, or its name. */
+  status?: number | string;
+  exitStatus?: number;
+  exitedAt?: ProtoTimestamp;
+}
+
+/** An image record: a name for a manifest (or index) in the content store. */
+interface ImageRecord {
+  name: string;
+  target?: { mediaType?: string; digest: string; size?: number };
+  labels?: Record<string, string>;
+  createdAt?: ProtoTimestamp;
+}
+
+/** A mount making up a task’s rootfs, as a snapshot describes it. */
+interface Mount {
+  type: string;
+  source: string;
+  options?: string[];
+}
+
+/** An events service envelope, with `event` already decoded. */
+interface EventEnvelope {
+  timestamp?: ProtoTimestamp;
+  namespace?: string;
+  topic: string;
+  event?: { id?: string; containerId?: string; exitStatus?: number };
+}
+
+/** A server‐streaming call’s responses; cancelling ends the call. */
+type ServerStream<T> = AsyncIterable<T> & { cancel?(): void };
+
+/** A response message, or the bare record it wraps (as some versions return). */
+type Wrapped<K extends string, T> = Record<K, T> | T;
+
+interface TaskRequest {
+  containerId: string;
+}
+
+interface SnapshotRequest {
+  snapshotter: string;
+  key: string;
+}
+
+/**
+ * The containerd services this client calls, with the request and response
+ * shapes it relies on.  The library types only `containers`, so its client
+ * is cast to this once, in the constructor.
+ */
+interface ContainerdServices {
+  version: {
+    version(
+      req: Record<string, never>,
+    ): Promise<{ version: string; revision?: string }>;
+  };
+  containers: {
+    create(
+      req: { container: ContainerRecord },
+    ): Promise<Wrapped<"container", ContainerRecord>>;
+    get(req: { id: string }): Promise<Wrapped<"container", ContainerRecord>>;
+    list(
+      req: { filters?: string[] },
+    ): Promise<{ containers?: ContainerRecord[] }>;
+    delete(req: { id: string }): Promise<unknown>;
+  };
+  tasks: {
+    create(
+      req: TaskRequest & {
+        rootfs: Mount[];
+        stdout: string;
+        stderr: string;
+        terminal: boolean;
+      },
+    ): Promise<unknown>;
+    start(req: TaskRequest): Promise<unknown>;
+    get(req: TaskRequest): Promise<{ process: TaskProcess }>;
+    list(req: { filter?: string }): Promise<{ tasks?: TaskProcess[] }>;
+    delete(req: TaskRequest): Promise<unknown>;
+    pause(req: TaskRequest): Promise<unknown>;
+    resume(req: TaskRequest): Promise<unknown>;
+    kill(
+      req: TaskRequest & { signal: number; all?: boolean },
+    ): Promise<unknown>;
+    wait(
+      req: TaskRequest,
+    ): Promise<{ exitStatus?: number; exitedAt?: ProtoTimestamp }>;
+  };
+  snapshots: {
+    prepare(
+      req: SnapshotRequest & { parent?: string },
+    ): Promise<{ mounts: Mount[] }>;
+    mounts(req: SnapshotRequest): Promise<{ mounts: Mount[] }>;
+    remove(req: SnapshotRequest): Promise<unknown>;
+  };
+  images: {
+    get(req: { name: string }): Promise<Wrapped<"image", ImageRecord>>;
+    list(req: { filters?: string[] }): Promise<{ images?: ImageRecord[] }>;
+    delete(req: { name: string; sync?: boolean }): Promise<unknown>;
+  };
+  content: {
+    read(req: { digest: string }): ServerStream<{ data: Uint8Array }>;
+  };
+  events: {
+    subscribe(req: { filters: string[] }): ServerStream<EventEnvelope>;
+  };
+  transfer: {
+    transfer(
+      req: { source: ProtoAny; destination: ProtoAny },
+    ): Promise<unknown>;
+  };
+}
+
+/** The record in a `Wrapped` response. */
+function unwrap<K extends string, T extends object>(
+  resp: Wrapped<K, T>,
+  key: K,
+): T {
+  return key in resp ? (resp as Record<K, T>)[key] : resp as T;
+}
+
+/** The parts of an OCI image index or manifest that `readImage` reads. */
+interface OciManifest {
+  manifests?: {
+    digest: string;
+    platform?: { os: string; architecture: string };
+  }[];
+  config: { digest: string };
+}
+
+/** The parts of an OCI image config blob that `readImage` reads. */
+interface OciImageBlob {
+  config?: OciImageConfig;
+  rootfs?: { diff_ids: string[] };
+}
+
+/** Map a containerd image record into ImageInfo. */
+function toImageInfo(img: ImageRecord): ImageInfo {
+  return {
+    id: img.target?.digest ?? img.name,
+    tags: img.name ? [img.name] : [],
+    digests: img.target?.digest ? [img.target.digest] : undefined,
+    createdAt: envelopeTime(img.createdAt),
+    raw: img,
+  };
+}
+
+/** Task status names, in protobuf enum order. */
+const TASK_STATUSES = [
+  "UNKNOWN",
+  "CREATED",
+  "RUNNING",
+  "STOPPED",
+  "PAUSED",
+  "PAUSING",
+];
+
+/** Task statuses, normalized. */
+const TASK_STATES: Record<string, ContainerState> = {
+  CREATED: "created",
+  RUNNING: "running",
+  STOPPED: "exited",
+  PAUSED: "paused",
+  PAUSING: "paused",
+};
+
+/** Task statuses that still have a live process. */
+const LIVE_TASK_STATUSES = new Set(["CREATED", "RUNNING", "PAUSED", "PAUSING"]);
+
+/** A task’s status name, whether it arrived as an enum number or string. */
+function taskStatus(task: TaskProcess | undefined): string | undefined {
+  return typeof task?.status === "number"
+    ? TASK_STATUSES[task.status]
+    : task?.status;
+}
+
+/**
+ * Map a container record (plus its task, if one exists) into ContainerInfo.
+ * containerd keeps runtime state on the task, so a container without a task
+ * has simply never been started.
+ */
+function containerToInfo(
+  c: ContainerRecord,
+  task?: TaskProcess,
+): ContainerInfo {
+  const status = taskStatus(task);
+  const state: ContainerState = task
+    ? TASK_STATES[status ?? ""] ?? "unknown"
+    : "created";
+  return {
+    id: c.id ?? "",
+    name: c.id ?? "",
+    state,
+    status,
+    image: c.image ?? undefined,
+    createdAt: c.createdAt ? envelopeTime(c.createdAt) : undefined,
+    finishedAt: state === "exited" && task?.exitedAt
+      ? envelopeTime(task.exitedAt)
+      : undefined,
+    exitCode: state === "exited" ? task?.exitStatus : undefined,
+    ready: state === "running",
+    labels: c.labels ?? undefined,
+    raw: { runtime: "containerd", data: { container: c, task } },
+  };
+}
+
+/** Envelope timestamps arrive as protobuf Timestamps or Dates. */
+function envelopeTime(ts: ProtoTimestamp | undefined): string {
+  if (ts instanceof Date) return ts.toISOString();
+  if (ts?.seconds !== undefined) {
+    return new Date(
+      Number(ts.seconds) * 1000 + Math.floor((ts.nanos ?? 0) / 1e6),
+    ).toISOString();
+  }
+  return new Date().toISOString();
+}
+
+/** The protobuf Any type URL containerd expects for an OCI runtime spec. */
+const OCI_SPEC_TYPE_URL =
+  "types.containerd.io/opencontainers/runtime-spec/1/Spec";
+
+/** Signals for a graceful stop, and the default wait before escalating. */
+const SIGTERM = 15;
+const SIGKILL = 9;
+const STOP_TIMEOUT_SECONDS = 10;
+
+/** How often a followed log file is polled for new output. */
+const LOG_POLL_MS = 250;
+
+/** OCI architecture names for `Deno.build.arch`. */
+const OCI_ARCHITECTURES: Record<string, string> = {
+  x86_64: "amd64",
+  aarch64: "arm64",
+};
+
+/** The transfer service’s source and destination types for a pull. */
+const OCI_REGISTRY_TYPE_URL = "containerd.types.transfer.OCIRegistry";
+const IMAGE_STORE_TYPE_URL = "containerd.types.transfer.ImageStore";
+
+function pushVarint(out: number[], n: number): void {
+  for (; n > 0x7f; n >>>= 7) out.push((n & 0x7f) | 0x80);
+  out.push(n);
+}
+
+/**
+ * Encode a protobuf message of string and message fields, by field number.
+ * The transfer service takes its source and destination as `Any`s, which
+ * the client library leaves to us; a pull needs only these field types.
+ */
+function protoMessage(
+  fields: [number, string | Uint8Array][],
+): Uint8Array {
+  const out: number[] = [];
+  for (const [field, value] of fields) {
+    const bytes = typeof value === "string"
+      ? new TextEncoder().encode(value)
+      : value;
+    pushVarint(out, (field << 3) | 2); // length‐delimited
+    pushVarint(out, bytes.length);
+    out.push(...bytes);
+  }
+  return new Uint8Array(out);
+}
+
+/** `true` for a reference by digest alone, with no tag to name it. */
+function isUntagged(ref: string): boolean {
+  return ref.startsWith("sha256:") || ref.includes("@");
+}
+
+/**
+ * Reject the spec fields containerd has no equivalent for: publishing ports
+ * needs a CNI plugin, and restarts need a supervisor outside containerd.
+ */
+function assertSupported(spec: ContainerSpec): void {
+  const unsupported = ["ports", "restartPolicy"]
+    .filter((key) => spec[key as keyof ContainerSpec] !== undefined);
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Containerd create does not support: ${unsupported.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Translate a ContainerSpec into a containerd container record whose OCI
+ * runtime spec runs on top of the given writable snapshot.
+ */
+function toContainerRecord(
+  id: string,
+  spec: ContainerSpec,
+  ociSpec: Record<string, unknown>,
+  snapshotter: string,
+): { container: ContainerRecord } {
+  return {
+    container: {
+      id,
+      image: spec.image,
+      labels: spec.labels ?? {},
+      runtime: { name: "io.containerd.runc.v2" },
+      spec: {
+        typeUrl: OCI_SPEC_TYPE_URL,
+        value: new TextEncoder().encode(JSON.stringify(ociSpec)),
+      },
+      snapshotter,
+      snapshotKey: id,
+    },
+  };
+}
+
+/**
+ * The chain ID of a layer stack, which is the key containerd unpacks the
+ * image’s top layer under: each step hashes the previous ID with a diff ID.
+ */
+async function chainId(diffIds: string[]): Promise<string> {
+  let chain = diffIds[0];
+  for (const diffId of diffIds.slice(1)) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(`${chain} ${diffId}`),
+    );
+    chain = `sha256:${
+      Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0"))
+        .join("")
+    }`;
+  }
+  return chain;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/** The last `lines` lines of a buffer (a trailing newline doesn’t count). */
+function tailBytes(data: Uint8Array, lines: number): Uint8Array {
+  let end = data.length;
+  if (end > 0 && data[end - 1] === 0x0a) end--;
+  let start = end;
+  for (let seen = 0; start > 0; start--) {
+    if (data[start - 1] === 0x0a && ++seen === lines) break;
+  }
+  return data.subarray(lines === 0 ? data.length : start);
+}
+
+/** containerd’s gRPC socket, locally or (over ssh) on the remote host. */
+const DEFAULT_SOCKET = "/run/containerd/containerd.sock";
+
+/** The grace period `stop` and `restart` allow before escalating. */
+function stopTimeoutMs(options: StopOptions): number {
+  return (options.timeoutSeconds ?? STOP_TIMEOUT_SECONDS) * 1000;
+}
 
 /**
  * Wraps the @containers-js/containerd Client to implement our
  * universal ContainerRuntime interface.  Maps containerd‐specific
  * payloads into ContainerInfo, ActionResponse, and LogsResponse.
+ * The socket comes from the `endpoint` option, `socketPath`, or
+ * CONTAINERD_ADDRESS; `ssh://` endpoints are forwarded.  Task output is
+ * written under `logDir` on the engine’s host, so over ssh `logs` reads
+ * nothing.
  */
 export class ContainerdClient extends AbstractClient {
-  private client: ContainerdClientLib;
+  readonly runtime = "containerd";
+  private client: ContainerdServices;
+  private namespace: string;
+  private snapshotter: string;
+  private logDir: string;
 
-  constructor(opts: CreateOptions = {}) {
-    // Determine the socket path (with unix:// prefix if needed)
-    const rawSocket = (opts.socketPath as string) ??
-      "/run/containerd/containerd.sock";
-    const socketUrl =
-      rawSocket.startsWith("unix://") || rawSocket.startsWith("npipe://")
-        ? rawSocket
-        : `unix://${rawSocket}`;
+  constructor(opts: ClientOptions = {}) {
+    // Resolve the gRPC socket: a local path, or one forwarded over ssh.
+    const endpoint: Endpoint = resolveEndpoint(opts, ["CONTAINERD_ADDRESS"]) ??
+      { scheme: "unix", path: DEFAULT_SOCKET };
+    let socketUrl: string;
+    switch (endpoint.scheme) {
+      case "unix":
+      case "npipe":
+        socketUrl = `${endpoint.scheme}://${endpoint.path}`;
+        break;
+      case "ssh":
+        socketUrl = `unix://${
+          forwardSshSocket(
+            endpoint,
+            endpoint.path ?? DEFAULT_SOCKET,
+          )
+        }`;
+        break;
+      default:
+        throw new RuntimeError(
+          `containerd cannot be reached over ${endpoint.scheme}: endpoints`,
+          { runtime: "containerd" },
+        );
+    }
 
     // Use the provided namespace or default to "default"
     const namespace = (opts.namespace as string) ?? "default";
 
     super();
-    this.client = new ContainerdClientLib(socketUrl, namespace);
+    this.client = new ContainerdClientLib(
+      socketUrl,
+      namespace,
+    ) as unknown as ContainerdServices;
+    this.namespace = namespace;
+    this.snapshotter = (opts.snapshotter as string) ?? "overlayfs";
+    // The shim writes task output here through file:// log URIs.
+    this.logDir = (opts.logDir as string) ??
+      `/var/log/infra-client/containerd/${namespace}`;
+  }
+
+  /**
+   * containerd has no exec stream, volumes or networks here, pulls only
+   * anonymously, and its log files carry no timestamps.
+   */
+  override capabilities(): Capabilities {
+    return {
+      ...super.capabilities(),
+      features: ["logs.follow", "logs.streams", "stats.stream", "kill.signals"],
+      limitations: {
+        create: "no ports or restart policy",
+        pullImage: "fully qualified references; no credentials",
+        streamLogs: "local engines only",
+      },
+    };
+  }
+
+  /** The daemon’s version, as `ctr version` shows. */
+  override async version(): Promise<RuntimeVersion> {
+    try {
+      const info = await this.client.version.version({});
+      return { version: info.version, raw: info };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "version");
+    }
   }
 
-  /** Create a new container in containerd. */
+  /**
+   * Create a container.  For a spec, the image’s config and top layer are
+   * read from the content store, a writable snapshot is prepared on that
+   * layer, and an OCI runtime spec is generated for the container record.
+   * A missing image is pulled first (unless `pullPolicy` is "never").
+   */
   override async create(
     options: CreateOptions,
   ): Promise<ContainerInfo> {
     try {
-      const response = await this.client.containers.create(
-        options as any,
-      );
-      // Attempt to extract an ID; fallback to undefined if not present
-      const id = (response as any).id ?? (response as any).Name ?? "";
-      return {
-        id: id,
-        name: undefined,
-        status: "Created",
-        raw: response,
-      };
-    } catch (err: any) {
-      throw err;
+      if (isRawCreateOptions(options)) {
+        const response = await this.client.containers.create(
+          options.raw as { container: ContainerRecord },
+        );
+        return containerToInfo(unwrap(response, "container"));
+      }
+
+      const spec = parseContainerSpec(options);
+      assertSupported(spec);
+      const pullPolicy = spec.pullPolicy ?? "if-not-present";
+      if (pullPolicy === "always") await this.pullImage(spec.image);
+      const id = spec.name ?? crypto.randomUUID();
+      let image;
+      try {
+        image = await this.readImage(spec.image);
+      } catch (err: unknown) {
+        if (
+          pullPolicy !== "if-not-present" ||
+          !(toRuntimeError(err, this.runtime, "create") instanceof
+            NotFoundError)
+        ) {
+          throw err;
+        }
+        await this.pullImage(spec.image);
+        image = await this.readImage(spec.image);
+      }
+      const ociSpec = toOciSpec(id, spec, image.config, {
+        cgroupsPath: `/${this.namespace}/${id}`,
+      });
+
+      const { snapshots } = this.client;
+      await snapshots.prepare({
+        snapshotter: this.snapshotter,
+        key: id,
+        parent: image.chainId,
+      });
+      try {
+        const response = await this.client.containers.create(
+          toContainerRecord(id, spec, ociSpec, this.snapshotter),
+        );
+        return containerToInfo(unwrap(response, "container"));
+      } catch (err: unknown) {
+        await snapshots.remove({ snapshotter: this.snapshotter, key: id })
+          .catch(() => {});
+        throw err;
+      }
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "create");
     }
   }
 
   /** Inspect a single container’s detailed info. */
   override async inspect(id: string): Promise<ContainerInfo> {
     try {
-      const resp = await this.client.containers.get({ id });
-      // Map fields if known; otherwise put everything in raw
-      return {
-        id: (resp as any).id ?? id,
-        name: (resp as any).id ?? id,
-        status: (resp as any).status ?? undefined,
-        image: (resp as any).image ?? undefined,
-        createdAt: (resp as any).createdAt ?? undefined,
-        raw: resp,
-      };
-    } catch (err: any) {
-      throw new Error(
-        `Containerd inspect failed: ${err?.message ?? String(err)}`,
+      const container = unwrap(
+        await this.client.containers.get({ id }),
+        "container",
       );
+      return containerToInfo(container, await this.getTask(id));
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect ${id}`);
+    }
+  }
+
+  /**
+   * Start a container by creating and starting its task.  A task left over
+   * from a previous run (kept so `inspect` can report its exit status) is
+   * deleted first.  stdout and stderr go to per‐stream log files.
+   */
+  override async start(id: string): Promise<ActionResponse> {
+    try {
+      const container = unwrap(
+        await this.client.containers.get({ id }),
+        "container",
+      );
+      const { tasks } = this.client;
+      const task = await this.getTask(id);
+      if (task && LIVE_TASK_STATUSES.has(taskStatus(task) ?? "")) {
+        throw new ConflictError(`Container ${id} is already running`, {
+          runtime: this.runtime,
+        });
+      }
+      if (task) await tasks.delete({ containerId: id });
+
+      const rootfs = container.snapshotKey
+        ? (await this.client.snapshots.mounts({
+          snapshotter: container.snapshotter ?? this.snapshotter,
+          key: container.snapshotKey,
+        })).mounts
+        : [];
+      await Deno.mkdir(this.logDir, { recursive: true });
+      await tasks.create({
+        containerId: id,
+        rootfs,
+        stdout: `file://${this.logPath(id, "stdout")}`,
+        stderr: `file://${this.logPath(id, "stderr")}`,
+        terminal: false,
+      });
+      await tasks.start({ containerId: id });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `start ${id}`);
+    }
+  }
+
+  /**
+   * Stop a container: SIGTERM, then SIGKILL if it hasn’t exited within
+   * `timeoutSeconds` (10 by default).
+   */
+  override async stop(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const task = await this.getTask(id);
+      if (!task || !LIVE_TASK_STATUSES.has(taskStatus(task) ?? "")) {
+        throw new ConflictError(`Container ${id} is not running`, {
+          runtime: this.runtime,
+        });
+      }
+      await this.killTask(id, stopTimeoutMs(options));
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `stop ${id}`);
+    }
+  }
+
+  /** Restart a container: stop it if it is running, then start a new task. */
+  override async restart(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const task = await this.getTask(id);
+      if (task && LIVE_TASK_STATUSES.has(taskStatus(task) ?? "")) {
+        await this.killTask(id, stopTimeoutMs(options));
+      }
+      return await this.start(id);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `restart ${id}`);
+    }
+  }
+
+  /** Pause a container’s task (freezing its cgroup). */
+  override async pause(id: string): Promise<ActionResponse> {
+    try {
+      await this.client.tasks.pause({ containerId: id });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `pause ${id}`);
+    }
+  }
+
+  /** Resume a paused task. */
+  override async unpause(id: string): Promise<ActionResponse> {
+    try {
+      await this.client.tasks.resume({ containerId: id });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `unpause ${id}`);
+    }
+  }
+
+  /** Send a signal to the task’s init process. */
+  override async kill(
+    id: string,
+    signal: Signal = "SIGKILL",
+  ): Promise<ActionResponse> {
+    try {
+      const { number } = parseSignal(signal);
+      await this.client.tasks.kill({
+        containerId: id,
+        signal: number,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `kill ${id}`);
     }
   }
 
-  /** List all containers in the current namespace. */
-  override async list(): Promise<ContainerInfo[]> {
+  /**
+   * List containers in the current namespace.  Labels, name and image become
+   * a containerd filter (comma‐separated clauses are ANDed); state comes from
+   * the tasks service, so status is filtered here.
+   */
+  override async listPage(options: ListOptions = {}): Promise<ContainerPage> {
+    const clauses = Object.entries(options.labels ?? {}).map(([key, value]) =>
+      `labels.${JSON.stringify(key)}==${JSON.stringify(value)}`
+    );
+    if (options.name !== undefined) {
+      clauses.push(`id==${JSON.stringify(options.name)}`);
+    }
+    if (options.image !== undefined) {
+      clauses.push(`image==${JSON.stringify(options.image)}`);
+    }
+
     try {
-      const resp = await this.client.containers.list({});
+      const resp = await this.client.containers.list({
+        filters: clauses.length > 0 ? [clauses.join(",")] : [],
+      });
       const containers = resp.containers ?? [];
-      return containers.map((c: any) => {
-        return {
-          id: c.id ?? "",
-          name: c.id ?? "",
-          status: c.status ?? undefined,
-          image: c.image ?? undefined,
-          createdAt: c.createdAt ?? undefined,
-          raw: c,
+      const tasks = await this.client.tasks.list({});
+      const byId = new Map(
+        (tasks.tasks ?? []).map((t) => [t.id ?? t.containerId, t]),
+      );
+      return paginate(
+        containers
+          .map((c) => containerToInfo(c, byId.get(c.id)))
+          .filter((info: ContainerInfo) =>
+            matchesListOptions(info, { status: options.status })
+          ),
+        options,
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list");
+    }
+  }
+
+  /**
+   * Remove a stopped container along with its task, snapshot and log files.
+   * Like Docker, a running container must be stopped first.
+   */
+  override async remove(
+    id: string,
+    options: RemoveOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const container = unwrap(
+        await this.client.containers.get({ id }),
+        "container",
+      );
+      const task = await this.getTask(id);
+      if (task && LIVE_TASK_STATUSES.has(taskStatus(task) ?? "")) {
+        if (!options.force) {
+          throw new ConflictError(
+            `Container ${id} is running; stop it (or force) before removing`,
+            { runtime: this.runtime },
+          );
+        }
+        await this.killTask(id, 0);
+      }
+      if (task) await this.client.tasks.delete({ containerId: id });
+      await this.client.containers.delete({ id });
+      if (container.snapshotKey) {
+        await this.client.snapshots.remove({
+          snapshotter: container.snapshotter ?? this.snapshotter,
+          key: container.snapshotKey,
+        });
+      }
+      for (const stream of ["stdout", "stderr"] as const) {
+        await Deno.remove(this.logPath(id, stream)).catch((err) => {
+          if (!(err instanceof Deno.errors.NotFound)) throw err;
+        });
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove ${id}`);
+    }
+  }
+
+  /**
+   * Stream logs from the task’s log files.  The shim writes raw output with
+   * no timestamps, so `since` and `timestamps` are not supported, and
+   * without following, stdout is returned before stderr.
+   */
+  override async *streamLogs(
+    id: string,
+    options: LogOptions = {},
+  ): AsyncGenerator<LogLine> {
+    try {
+      if (options.since !== undefined || options.timestamps) {
+        throw new RuntimeError(
+          "Containerd log files carry no timestamps; since and timestamps are unsupported",
+          { runtime: this.runtime },
+        );
+      }
+      await this.client.containers.get({ id });
+      const stream = options.stream ?? "both";
+      const streams = stream === "both"
+        ? (["stdout", "stderr"] as const)
+        : [stream];
+      const sources = streams.map((s) =>
+        toLogLines(this.readLogFile(id, s, options))
+      );
+      if (options.follow) {
+        yield* mergeAsyncIterables(sources);
+      } else {
+        for (const source of sources) yield* source;
+      }
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `logs ${id}`);
+    }
+  }
+
+  /** Where the shim writes one of a container’s output streams. */
+  private logPath(id: string, stream: "stdout" | "stderr"): string {
+    return `${this.logDir}/${id}-${stream}.log`;
+  }
+
+  /**
+   * Read one log file.  `tail` trims the existing output to its last lines;
+   * `follow` then polls for appended output until the task exits.
+   */
+  private async *readLogFile(
+    id: string,
+    stream: "stdout" | "stderr",
+    options: LogOptions,
+  ): AsyncGenerator<OutputChunk> {
+    let file: Deno.FsFile;
+    try {
+      file = await Deno.open(this.logPath(id, stream), { read: true });
+    } catch (err: unknown) {
+      if (err instanceof Deno.errors.NotFound) return; // never started
+      throw err;
+    }
+
+    const buf = new Uint8Array(64 * 1024);
+    const readAvailable = async (): Promise<Uint8Array> => {
+      const chunks: Uint8Array[] = [];
+      let n: number | null;
+      while ((n = await file.read(buf)) !== null) chunks.push(buf.slice(0, n));
+      return concatBytes(chunks);
+    };
+
+    try {
+      const existing = await readAvailable();
+      const data = options.tail !== undefined
+        ? tailBytes(existing, options.tail)
+        : existing;
+      if (data.length > 0) yield { stream, data };
+      if (!options.follow) return;
+
+      while (true) {
+        const more = await readAvailable();
+        if (more.length > 0) {
+          yield { stream, data: more };
+          continue;
+        }
+        const task = await this.getTask(id);
+        if (!task || !LIVE_TASK_STATUSES.has(taskStatus(task) ?? "")) {
+          const rest = await readAvailable();
+          if (rest.length > 0) yield { stream, data: rest };
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOG_POLL_MS));
+      }
+    } finally {
+      file.close();
+    }
+  }
+
+  /**
+   * Sample resource usage from the task’s cgroup and network namespace.
+   * containerd’s own metrics are cgroup protobufs, so the cgroup files are
+   * read directly instead, which only works on the engine’s host.  The
+   * cgroup comes from the container’s OCI spec.
+   */
+  override stats(
+    id: string,
+    options: StatsOptions = {},
+  ): AsyncIterable<ResourceStats> {
+    let cgroupsPath: string | undefined;
+    return pollStats(async () => {
+      try {
+        if (cgroupsPath === undefined) {
+          const { spec } = unwrap(
+            await this.client.containers.get({ id }),
+            "container",
+          );
+          cgroupsPath = spec?.value
+            ? JSON.parse(new TextDecoder().decode(spec.value)).linux
+              ?.cgroupsPath
+            : undefined;
+          cgroupsPath ??= `/${this.namespace}/${id}`;
+        }
+        const task = await this.getTask(id);
+        if (!task || !LIVE_TASK_STATUSES.has(taskStatus(task) ?? "")) {
+          throw new ConflictError(`${id} is not running`, {
+            runtime: this.runtime,
+          });
+        }
+        return await sampleCgroup(cgroupsPath, task.pid);
+      } catch (err: unknown) {
+        throw toRuntimeError(err, this.runtime, `stats ${id}`);
+      }
+    }, options);
+  }
+
+  /** The container’s task, or undefined if it has none. */
+  private async getTask(id: string): Promise<TaskProcess | undefined> {
+    try {
+      return (await this.client.tasks.get({ containerId: id })).process;
+    } catch (err: unknown) {
+      const error = toRuntimeError(err, this.runtime, `get task ${id}`);
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * SIGTERM a task, escalating to SIGKILL if it outlives `timeoutMs` (at
+   * once, for a timeout of zero).
+   */
+  private async killTask(id: string, timeoutMs: number): Promise<void> {
+    const { tasks } = this.client;
+    // Subscribe before signalling so a fast exit can’t be missed.
+    const exited: Promise<unknown> = tasks.wait({ containerId: id });
+    if (timeoutMs > 0) await tasks.kill({ containerId: id, signal: SIGTERM });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = await Promise.race([
+      exited.then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+    if (timedOut) {
+      await tasks.kill({ containerId: id, signal: SIGKILL, all: true });
+      await exited;
+    }
+  }
+
+  /**
+   * Read an image’s config and top‐layer chain ID from the content store,
+   * resolving multi‐platform indexes to this host’s architecture.
+   */
+  private async readImage(
+    ref: string,
+  ): Promise<{ config: OciImageConfig; chainId: string }> {
+    const { target } = unwrap(
+      await this.client.images.get({ name: ref }),
+      "image",
+    );
+    let manifest = await this.readContentJson<OciManifest>(target!.digest);
+    if (manifest.manifests) {
+      const arch = OCI_ARCHITECTURES[Deno.build.arch] ?? Deno.build.arch;
+      const entry = manifest.manifests.find((m) =>
+        m.platform?.os === "linux" && m.platform?.architecture === arch
+      );
+      if (!entry) {
+        throw new NotFoundError(`Image ${ref} has no linux/${arch} variant`, {
+          runtime: this.runtime,
+        });
+      }
+      manifest = await this.readContentJson<OciManifest>(entry.digest);
+    }
+    const imageConfig = await this.readContentJson<OciImageBlob>(
+      manifest.config.digest,
+    );
+    return {
+      config: imageConfig.config ?? {},
+      chainId: await chainId(imageConfig.rootfs?.diff_ids ?? []),
+    };
+  }
+
+  /** Read and parse a JSON blob from the content store. */
+  private async readContentJson<T>(digest: string): Promise<T> {
+    const chunks: Uint8Array[] = [];
+    const stream = this.client.content.read({ digest });
+    for await (const msg of stream) {
+      chunks.push(msg.data);
+    }
+    return JSON.parse(new TextDecoder().decode(concatBytes(chunks)));
+  }
+
+  /**
+   * Stream lifecycle events from containerd’s events service, subscribed to
+   * the container and task topics in our namespace.
+   */
+  override async *watch(
+    filter: WatchFilter = {},
+  ): AsyncGenerator<RuntimeEvent> {
+    const stream = this.client.events.subscribe({
+      filters: Object.keys(CONTAINERD_EVENT_TYPES).map((topic) =>
+        `topic=="${topic}"`
+      ),
+    });
+    try {
+      for await (const envelope of stream) {
+        const type = CONTAINERD_EVENT_TYPES[envelope.topic];
+        if (!type) continue;
+        const payload = envelope.event ?? {};
+        const id = payload.containerId ?? payload.id ?? "";
+
+        let info: ContainerInfo;
+        try {
+          if (type === "removed") throw new Error("container removed");
+          info = await this.inspect(id);
+        } catch {
+          info = { id, name: id, state: "unknown" };
+        }
+        const event: RuntimeEvent = {
+          type,
+          id,
+          timestamp: envelopeTime(envelope.timestamp),
+          info,
         };
+        if (type === "died" && payload.exitStatus !== undefined) {
+          event.exitCode = Number(payload.exitStatus);
+        }
+        if (matchesWatchFilter(event, filter)) yield event;
+      }
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "watch");
+    } finally {
+      stream.cancel?.();
+    }
+  }
+
+  /**
+   * Pull an image through containerd’s transfer service (containerd 1.7 or
+   * later), which fetches this host’s platform from the registry and
+   * unpacks it into our snapshotter.  As with `ctr`, `ref` must be fully
+   * qualified ("docker.io/library/alpine:3.20").  Registry credentials
+   * come from the engine host’s configuration, so `auth` is unsupported.
+   */
+  override async pullImage(
+    ref: string,
+    options: PullOptions = {},
+  ): Promise<ImageInfo> {
+    if (options.auth) {
+      throw new UnimplementedError(
+        `${this.constructor.name}.pullImage with credentials`,
+      );
+    }
+    const platform = protoMessage([
+      [1, "linux"],
+      [2, OCI_ARCHITECTURES[Deno.build.arch] ?? Deno.build.arch],
+    ]);
+
+    options.onProgress?.({ status: "Pulling", id: ref });
+    try {
+      await this.client.transfer.transfer({
+        source: {
+          typeUrl: OCI_REGISTRY_TYPE_URL,
+          value: protoMessage([[1, ref]]),
+        },
+        destination: {
+          typeUrl: IMAGE_STORE_TYPE_URL,
+          // name, platforms and unpacks (platform, snapshotter).
+          value: protoMessage([
+            [1, ref],
+            [3, platform],
+            [10, protoMessage([[1, platform], [2, this.snapshotter]])],
+          ]),
+        },
       });
-    } catch (err: any) {
-      throw new Error(`Containerd list failed: ${err?.message ?? String(err)}`);
+      options.onProgress?.({ status: "Pull complete", id: ref });
+      return await this.inspectImage(ref);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `pull ${ref}`);
     }
   }
 
-  /** Remove (delete) a container. */
-  override async remove(id: string): Promise<ActionResponse> {
+  /** List image records in the current namespace. */
+  override async listImages(): Promise<ImageInfo[]> {
     try {
-      await this.client.containers.delete({ id });
+      const resp = await this.client.images.list({});
+      return (resp.images ?? []).map(toImageInfo);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list images");
+    }
+  }
+
+  /** Inspect an image record by name. */
+  override async inspectImage(ref: string): Promise<ImageInfo> {
+    try {
+      const resp = await this.client.images.get({ name: ref });
+      return toImageInfo(unwrap(resp, "image"));
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect image ${ref}`);
+    }
+  }
+
+  /** Delete an image record by name. */
+  override async removeImage(ref: string): Promise<ActionResponse> {
+    try {
+      await this.client.images.delete({ name: ref });
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove image ${ref}`);
+    }
+  }
+
+  /**
+   * Delete the image records no container was created from, waiting for
+   * containerd to garbage‐collect their content.  Records are always
+   * named, so “dangling” means named by digest alone; `all` removes every
+   * unused record.
+   */
+  override async pruneImages(
+    options: PruneImagesOptions = {},
+  ): Promise<PruneResult> {
+    try {
+      const { containers } = await this.client.containers.list({});
+      const used = new Set(
+        (containers ?? []).map((c) => c.image),
+      );
+      const { images } = await this.client.images.list({});
+      const removed: string[] = [];
+      for (const image of images ?? []) {
+        if (used.has(image.name)) continue;
+        if (!options.all && !isUntagged(image.name)) continue;
+        await this.client.images.delete({
+          name: image.name,
+          sync: true,
+        });
+        removed.push(image.name);
+      }
+      return { removed };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "prune images");
     }
   }
 }
@@ -0,0 +1,44 @@
+// src/clients/copy.ts
+
+import { basename, join, posix, resolve } from "node:path";
+
+/**
+ * The destination rules every engine’s `copyTo`/`copyFrom` follows, as
+ * `docker cp` does: copying onto an existing directory (or a path ending
+ * in `/`) puts the source inside it under its own name, while any other
+ * destination names the copy itself.
+ */
+
+/**
+ * Where `copyTo` writes inside the instance: the directory to unpack into
+ * and the name the copy takes there.  `isDirectory` says whether
+ * `remotePath` is an existing directory in the instance.
+ */
+export function remoteDestination(
+  remotePath: string,
+  localPath: string,
+  isDirectory: boolean,
+): { dir: string; name: string } {
+  if (isDirectory || remotePath.endsWith("/")) {
+    return { dir: remotePath, name: basename(resolve(localPath)) };
+  }
+  return {
+    dir: posix.dirname(remotePath),
+    name: posix.basename(remotePath),
+  };
+}
+
+/** Where `copyFrom` writes locally. */
+export async function localDestination(
+  localPath: string,
+  remotePath: string,
+): Promise<string> {
+  try {
+    if ((await Deno.stat(localPath)).isDirectory) {
+      return join(localPath, posix.basename(remotePath));
+    }
+  } catch (err: unknown) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  return localPath;
+}
@@ -2,43 +2,525 @@
 
 import type {
   ActionResponse,
+  Capabilities,
+  ClientOptions,
   ContainerInfo,
+  ContainerPage,
+  ContainerState,
   CreateOptions,
-  LogsResponse,
+  ExecOptions,
+  ExecResult,
+  HealthStatus,
+  ImageInfo,
+  ListOptions,
+  LogLine,
+  LogOptions,
+  NetworkConnectOptions,
+  NetworkCreateOptions,
+  NetworkDisconnectOptions,
+  NetworkInfo,
+  PruneImagesOptions,
+  PruneResult,
+  PruneVolumesOptions,
+  PublishedPort,
+  PullOptions,
+  RemoveImageOptions,
+  RemoveOptions,
+  RemoveVolumeOptions,
+  ResourceStats,
+  RuntimeEvent,
+  RuntimeEventType,
+  RuntimeVersion,
+  Signal,
+  StatsOptions,
+  StopOptions,
+  VolumeCreateOptions,
+  VolumeInfo,
+  WatchFilter,
 } from "./types.ts";
 import Docker from "dockerode";
+import { Readable } from "node:stream";
 import { AbstractClient } from "./base.ts";
-import type { Buffer } from "node:buffer";
+import {
+  demuxDockerStream,
+  type OutputChunk,
+  sinceToUnixSeconds,
+  toLogLines,
+} from "./logs.ts";
+import { execSinks, jsonLines } from "./stream.ts";
+import { matchesWatchFilter } from "./events.ts";
+import { toRuntimeError } from "./errors.ts";
+import { listStatuses, matchesListOptions, paginate } from "./list.ts";
+import { parseSignal } from "./signals.ts";
+import { packTar, unpackTar } from "./tar.ts";
+import { localDestination, remoteDestination } from "./copy.ts";
+import {
+  type Endpoint,
+  envVar,
+  forwardSshSocket,
+  readTlsFiles,
+  resolveEndpoint,
+} from "./endpoint.ts";
+import {
+  type ContainerSpec,
+  isRawCreateOptions,
+  parseContainerSpec,
+} from "./spec.ts";
+
+/** Docker `/events` container actions we report, by normalized type. */
+const DOCKER_EVENT_TYPES: Record<string, RuntimeEventType> = {
+  create: "created",
+  start: "started",
+  die: "died",
+  oom: "oomkilled",
+  destroy: "removed",
+};
+
+/** TTY output is not framed; everything arrives on stdout. */
+async function* rawChunks(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<OutputChunk> {
+  for await (const data of chunks) yield { stream: "stdout", data };
+}
+
+/** Docker takes environment variables as `KEY=value` strings. */
+function toEnvList(env?: Record<string, string>): string[] | undefined {
+  return env
+    ? Object.entries(env).map(([key, value]) => `${key}=${value}`)
+    : undefined;
+}
+
+/** Docker’s `State` strings, normalized. */
+const DOCKER_STATES: Record<string, ContainerState> = {
+  created: "created",
+  running: "running",
+  paused: "paused",
+  restarting: "restarting",
+  removing: "exited",
+  exited: "exited",
+  dead: "dead",
+};
+
+/** Docker reports timestamps that were never set as the zero time. */
+function dockerTime(value: string | undefined): string | undefined {
+  return value && !value.startsWith("0001-01-01") ? value : undefined;
+}
+
+/** Collect the IP addresses from a container’s network attachments. */
+function dockerIpAddresses(networks: Record<string, any> | undefined) {
+  return Object.values(networks ?? {})
+    .map((n: any) => n.IPAddress as string)
+    .filter(Boolean);
+}
+
+/** Docker reports health as starting/healthy/unhealthy, or "none". */
+function dockerHealth(status: string | undefined): HealthStatus | undefined {
+  return status === "starting" || status === "healthy" ||
+      status === "unhealthy"
+    ? status
+    : undefined;
+}
+
+/** Running, and healthy if the container has a health check. */
+function dockerReady(
+  state: ContainerState,
+  health: HealthStatus | undefined,
+): boolean {
+  return state === "running" && (health === undefined || health === "healthy");
+}
+
+/** Sum a `/stats` block I/O list’s entries for one operation. */
+function blkioBytes(entries: any[] | null | undefined, op: string): number {
+  return (entries ?? [])
+    .filter((entry) => String(entry.op).toLowerCase() === op)
+    .reduce((sum, entry) => sum + Number(entry.value ?? 0), 0);
+}
 
 /**
- * DockerClient uses dockerode to communicate with the Docker daemon
- * over a Unix socket.  Implements all ContainerRuntime methods by
- * mapping dockerode’s payloads into our standardized return types.
+ * Map a `/stats` sample into ResourceStats.  CPU is the container’s share
+ * of the host’s CPU time since the previous sample, scaled by the online
+ * CPUs (as `docker stats` does); memory excludes the inactive page cache.
+ */
+function dockerStats(s: any): ResourceStats {
+  const cpu = s.cpu_stats ?? {};
+  const precpu = s.precpu_stats ?? {};
+  const cpuDelta = (cpu.cpu_usage?.total_usage ?? 0) -
+    (precpu.cpu_usage?.total_usage ?? 0);
+  const systemDelta = (cpu.system_cpu_usage ?? 0) -
+    (precpu.system_cpu_usage ?? 0);
+  const onlineCpus = cpu.online_cpus ??
+    cpu.cpu_usage?.percpu_usage?.length ?? 1;
+
+  const memory = s.memory_stats ?? {};
+  const cache = memory.stats?.inactive_file ??
+    memory.stats?.total_inactive_file ?? memory.stats?.cache ?? 0;
+  const networks = Object.values<any>(s.networks ?? {});
+  const blkio = s.blkio_stats?.io_service_bytes_recursive;
+
+  return {
+    timestamp: dockerTime(s.read) ?? new Date().toISOString(),
+    cpuPercent: systemDelta > 0 && cpuDelta >= 0
+      ? cpuDelta / systemDelta * onlineCpus * 100
+      : undefined,
+    memoryUsedBytes: memory.usage !== undefined
+      ? Math.max(0, memory.usage - cache)
+      : undefined,
+    memoryLimitBytes: memory.limit,
+    netRxBytes: s.networks
+      ? networks.reduce((sum, n) => sum + (n.rx_bytes ?? 0), 0)
+      : undefined,
+    netTxBytes: s.networks
+      ? networks.reduce((sum, n) => sum + (n.tx_bytes ?? 0), 0)
+      : undefined,
+    blockReadBytes: blkio ? blkioBytes(blkio, "read") : undefined,
+    blockWriteBytes: blkio ? blkioBytes(blkio, "write") : undefined,
+    pids: s.pids_stats?.current,
+  };
+}
+
+/** Map a `listContainers` summary into ContainerInfo. */
+function summaryToInfo(c: any, runtime: "docker" | "podman"): ContainerInfo {
+  // Summaries only carry the exit code and health inside the human‐readable
+  // status, e.g. "Exited (1) 2 hours ago" or "Up 5 minutes (healthy)".
+  const exited = /^Exited \((-?\d+)\)/.exec(c.Status ?? "");
+  const health = dockerHealth(
+    /\((?:health: )?(starting|healthy|unhealthy)\)/.exec(c.Status ?? "")?.[1],
+  );
+  const state = DOCKER_STATES[c.State] ?? "unknown";
+  return {
+    id: c.Id,
+    name: Array.isArray(c.Names) && c.Names.length > 0
+      ? c.Names[0].replace(/^\//, "")
+      : undefined,
+    state,
+    status: c.State,
+    image: c.Image,
+    createdAt: new Date((c.Created as number) * 1000).toISOString(),
+    exitCode: exited ? Number(exited[1]) : undefined,
+    health,
+    ready: dockerReady(state, health),
+    ipAddresses: dockerIpAddresses(c.NetworkSettings?.Networks),
+    ports: (c.Ports ?? []).map((p: any) => ({
+      containerPort: p.PrivatePort,
+      hostPort: p.PublicPort ?? undefined,
+      hostIp: p.IP ?? undefined,
+      protocol: p.Type === "udp" ? "udp" : "tcp",
+    })),
+    labels: c.Labels ?? undefined,
+    raw: { runtime, data: c },
+  };
+}
+
+/** Map a container `inspect` payload into ContainerInfo. */
+function inspectToInfo(info: any, runtime: "docker" | "podman"): ContainerInfo {
+  const state = info.State ?? {};
+  const ports: PublishedPort[] = [];
+  for (
+    const [key, bindings] of Object.entries<any[] | null>(
+      info.NetworkSettings?.Ports ?? {},
+    )
+  ) {
+    const [port, protocol] = key.split("/");
+    const exposed: PublishedPort = {
+      containerPort: Number(port),
+      protocol: protocol === "udp" ? "udp" : "tcp",
+    };
+    if (!bindings || bindings.length === 0) ports.push(exposed);
+    for (const b of bindings ?? []) {
+      ports.push({
+        ...exposed,
+        hostPort: Number(b.HostPort) || undefined,
+        hostIp: b.HostIp || undefined,
+      });
+    }
+  }
+  const finished = state.Status === "exited" || state.Status === "dead";
+  const normalized = DOCKER_STATES[state.Status] ?? "unknown";
+  const health = dockerHealth(state.Health?.Status);
+
+  return {
+    id: info.Id,
+    name: info.Name?.replace(/^\//, "") ?? undefined,
+    state: normalized,
+    status: state.Status ?? undefined,
+    image: info.Config?.Image ?? undefined,
+    createdAt: info.Created ?? undefined,
+    startedAt: dockerTime(state.StartedAt),
+    finishedAt: finished ? dockerTime(state.FinishedAt) : undefined,
+    exitCode: finished ? state.ExitCode : undefined,
+    restartCount: info.RestartCount ?? undefined,
+    health,
+    ready: dockerReady(normalized, health),
+    ipAddresses: dockerIpAddresses(info.NetworkSettings?.Networks),
+    ports,
+    labels: info.Config?.Labels ?? undefined,
+    raw: { runtime, data: info },
+  };
+}
+
+/** Map a dockerode image summary or inspect payload into ImageInfo. */
+function toImageInfo(img: any): ImageInfo {
+  return {
+    id: img.Id,
+    tags: (img.RepoTags ?? []).filter((t: string) => t !== "<none>:<none>"),
+    digests: img.RepoDigests ?? undefined,
+    sizeBytes: img.Size ?? undefined,
+    createdAt: typeof img.Created === "number"
+      ? new Date(img.Created * 1000).toISOString()
+      : img.Created ?? undefined,
+    raw: img,
+  };
+}
+
+/** Map a dockerode volume payload into VolumeInfo. */
+function toVolumeInfo(vol: any): VolumeInfo {
+  const size = vol.UsageData?.Size;
+  return {
+    name: vol.Name,
+    driver: vol.Driver ?? undefined,
+    mountpoint: vol.Mountpoint ?? undefined,
+    sizeBytes: typeof size === "number" && size >= 0 ? size : undefined,
+    labels: vol.Labels ?? undefined,
+    createdAt: vol.CreatedAt ?? undefined,
+    raw: vol,
+  };
+}
+
+/** Map a dockerode network payload into NetworkInfo. */
+function toNetworkInfo(net: any): NetworkInfo {
+  return {
+    id: net.Id,
+    name: net.Name,
+    driver: net.Driver ?? undefined,
+    subnets: (net.IPAM?.Config ?? [])
+      .map((c: any) => c.Subnet)
+      .filter((s: unknown) => typeof s === "string"),
+    labels: net.Labels ?? undefined,
+    createdAt: net.Created ?? undefined,
+    raw: net,
+  };
+}
+
+/**
+ * Whether a path in a container is a directory, from the stat Docker
+ * returns (base64 JSON in a header) for a HEAD on its archive.  A missing
+ * path is not one.
+ */
+async function isContainerDirectory(
+  container: Docker.Container,
+  path: string,
+): Promise<boolean> {
+  try {
+    const res: any = await container.infoArchive({ path });
+    res.resume?.();
+    const stat = res.headers?.["x-docker-container-path-stat"];
+    // Go’s os.ModeDir is the mode’s top bit.
+    return stat !== undefined && JSON.parse(atob(stat)).mode >>> 31 === 1;
+  } catch (err: unknown) {
+    if ((err as any)?.statusCode === 404) return false;
+    throw err;
+  }
+}
+
+/** Translate a ContainerSpec into a dockerode `createContainer` body. */
+function toDockerCreateBody(spec: ContainerSpec): Record<string, unknown> {
+  const exposedPorts: Record<string, Record<string, never>> = {};
+  const portBindings: Record<string, { HostIp: string; HostPort: string }[]> =
+    {};
+  for (const port of spec.ports ?? []) {
+    const key = `${port.containerPort}/${port.protocol}`;
+    exposedPorts[key] = {};
+    (portBindings[key] ??= []).push({
+      HostIp: port.hostIp ?? "",
+      HostPort: port.hostPort !== undefined ? String(port.hostPort) : "",
+    });
+  }
+
+  return {
+    name: spec.name,
+    Image: spec.image,
+    Entrypoint: spec.command,
+    Cmd: spec.args,
+    Env: toEnvList(spec.env),
+    Labels: spec.labels,
+    ExposedPorts: exposedPorts,
+    HostConfig: {
+      PortBindings: portBindings,
+      Mounts: spec.mounts?.map((m) => ({
+        Type: m.type,
+        Source: m.source ?? "",
+        Target: m.target,
+        ReadOnly: m.readOnly,
+      })),
+      Memory: spec.resources?.memoryBytes,
+      NanoCpus: spec.resources?.cpus !== undefined
+        ? Math.round(spec.resources.cpus * 1e9)
+        : undefined,
+      RestartPolicy: spec.restartPolicy
+        ? { Name: spec.restartPolicy }
+        : undefined,
+    },
+  };
+}
+
+/** Where a Docker‐API engine is found when no endpoint is given. */
+export interface DockerApiDefaults {
+  /** The environment variable holding an endpoint URI. */
+  hostVar: string;
+  /** The engine’s socket, locally or (over ssh) on the remote host. */
+  socketPath: string;
+  /** The environment variable naming a ca/cert/key.pem directory. */
+  certPathVar?: string;
+}
+
+const DOCKER_DEFAULTS: DockerApiDefaults = {
+  hostVar: "DOCKER_HOST",
+  socketPath: "/var/run/docker.sock",
+  certPathVar: "DOCKER_CERT_PATH",
+};
+
+/**
+ * Translate an endpoint into dockerode connection options.  TCP endpoints
+ * use TLS when client certs are available, DOCKER_TLS_VERIFY is set, or
+ * the port is Docker’s TLS port (2376); ssh endpoints go through a
+ * forwarded socket.
+ */
+function dockerConnection(
+  endpoint: Endpoint,
+  opts: ClientOptions,
+  defaults: DockerApiDefaults,
+): Docker.DockerOptions {
+  switch (endpoint.scheme) {
+    case "unix":
+    case "npipe":
+      return { socketPath: endpoint.path };
+    case "ssh":
+      return {
+        socketPath: forwardSshSocket(
+          endpoint,
+          endpoint.path ?? defaults.socketPath,
+        ),
+      };
+    case "tcp":
+    case "http":
+    case "https": {
+      const certDir = defaults.certPathVar && envVar(defaults.certPathVar);
+      const tls = endpoint.scheme === "http"
+        ? {}
+        : readTlsFiles(opts, certDir || undefined);
+      const secure = endpoint.scheme === "https" ||
+        (endpoint.scheme === "tcp" &&
+          (tls.cert !== undefined || endpoint.port === 2376 ||
+            envVar("DOCKER_TLS_VERIFY") !== undefined));
+      return {
+        host: endpoint.host,
+        port: endpoint.port ?? (secure ? 2376 : 2375),
+        protocol: secure ? "https" : "http",
+        ...(secure ? tls : {}),
+      };
+    }
+  }
+}
+
+/**
+ * DockerClient uses dockerode to communicate with the Docker daemon.
+ * Implements all ContainerRuntime methods by mapping dockerode’s payloads
+ * into our standardized return types.
+ *
+ * The daemon is reached through the `endpoint` option (see endpoint.ts),
+ * else `socketPath`, else DOCKER_HOST, else the local socket.  TLS client
+ * certs come from the `caFile`/`certFile`/`keyFile` options or
+ * DOCKER_CERT_PATH.
  */
 export class DockerClient extends AbstractClient {
+  readonly runtime: "docker" | "podman" = "docker";
   private docker: Docker;
 
-  constructor(opts: { socketPath?: string } = {}) {
-    const socketPath = opts.socketPath ?? "/var/run/docker.sock";
+  constructor(
+    opts: ClientOptions = {},
+    defaults: DockerApiDefaults = DOCKER_DEFAULTS,
+  ) {
+    const endpoint = resolveEndpoint(opts, [defaults.hostVar]) ??
+      { scheme: "unix", path: defaults.socketPath };
     super();
-    this.docker = new Docker({ socketPath });
+    this.docker = new Docker(dockerConnection(endpoint, opts, defaults));
+  }
+
+  /** Docker (and Podman’s compatible API) supports every option. */
+  override capabilities(): Capabilities {
+    return {
+      ...super.capabilities(),
+      features: [
+        "logs.follow",
+        "logs.since",
+        "logs.timestamps",
+        "logs.streams",
+        "exec.tty",
+        "exec.stdin",
+        "stats.stream",
+        "kill.signals",
+        "create.pull",
+      ],
+    };
   }
 
-  /** List all containers (running and stopped). */
-  override async list(): Promise<ContainerInfo[]> {
-    const rawList = await this.docker.listContainers({ all: true });
-    return rawList.map((c: any) => {
+  /** The daemon’s version and API version, as `docker version` shows. */
+  override async version(): Promise<RuntimeVersion> {
+    try {
+      const info = await this.docker.version();
       return {
-        id: c.Id,
-        name: Array.isArray(c.Names) && c.Names.length > 0
-          ? c.Names[0].replace(/^\//, "")
-          : undefined,
-        status: c.State,
-        image: c.Image,
-        createdAt: new Date((c.Created as number) * 1000).toISOString(),
-        raw: c,
+        version: info.Version,
+        apiVersion: info.ApiVersion,
+        os: info.Os,
+        arch: info.Arch,
+        raw: info,
       };
-    });
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "version");
+    }
+  }
+
+  /**
+   * List containers (running and stopped).  Every criterion maps onto a
+   * daemon‐side filter, except a status list including "unknown", which
+   * Docker has no status for; the API has no offset, so paging is
+   * client‐side.
+   */
+  override async listPage(options: ListOptions = {}): Promise<ContainerPage> {
+    const filters: Record<string, string[]> = {};
+    if (options.labels) {
+      filters.label = Object.entries(options.labels).map(([key, value]) =>
+        `${key}=${value}`
+      );
+    }
+    if (options.name !== undefined) {
+      // The name filter is an unanchored regexp over "/name".
+      filters.name = [
+        `^/${options.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`,
+      ];
+    }
+    const statuses = listStatuses(options);
+    const daemonStatuses = statuses && !statuses.includes("unknown");
+    if (daemonStatuses) {
+      filters.status = Object.keys(DOCKER_STATES)
+        .filter((status) => statuses.includes(DOCKER_STATES[status]));
+    }
+    if (options.image !== undefined) filters.ancestor = [options.image];
+
+    try {
+      const rawList = await this.docker.listContainers({ all: true, filters });
+      return paginate(
+        rawList
+          .map((c: any) => summaryToInfo(c, this.runtime))
+          .filter((info: ContainerInfo) =>
+            daemonStatuses ||
+            matchesListOptions(info, { status: options.status })
+          ),
+        options,
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list");
+    }
   }
 
   /** Create a new container. */
@@ -46,30 +528,44 @@ export class DockerClient extends AbstractClient {
     options: CreateOptions,
   ): Promise<ContainerInfo> {
     try {
-      const container = await this.docker.createContainer(options as any);
-      return {
-        id: container.id,
-        name: undefined,
-        status: "Created",
-        raw: container,
-      };
+      let spec: ContainerSpec | undefined;
+      let body: Record<string, unknown>;
+      if (isRawCreateOptions(options)) {
+        body = options.raw;
+      } else {
+        spec = parseContainerSpec(options);
+        body = toDockerCreateBody(spec);
+      }
+      const pullPolicy = spec?.pullPolicy ?? "if-not-present";
+      if (pullPolicy === "always") {
+        await this.pullImage(body.Image as string);
+      }
+
+      let container;
+      try {
+        container = await this.docker.createContainer(body as any);
+      } catch (err: any) {
+        // Unlike `docker run`, the create API never pulls missing images.
+        if (err?.statusCode !== 404 || pullPolicy !== "if-not-present") {
+          throw err;
+        }
+        await this.pullImage(body.Image as string);
+        container = await this.docker.createContainer(body as any);
+      }
+      return await this.inspect(container.id);
     } catch (err: unknown) {
-      throw err;
+      throw toRuntimeError(err, this.runtime, "create");
     }
   }
 
   /** Inspect a container (get detailed info). */
   override async inspect(id: string): Promise<ContainerInfo> {
-    const container = this.docker.getContainer(id);
-    const info = (await container.inspect()) as any;
-    return {
-      id: info.Id,
-      name: info.Name?.replace(/^\//, "") ?? undefined,
-      status: info.State?.Status ?? undefined,
-      image: info.Config?.Image ?? undefined,
-      createdAt: info.Created ?? undefined,
-      raw: info,
-    };
+    try {
+      const container = this.docker.getContainer(id);
+      return inspectToInfo(await container.inspect(), this.runtime);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect ${id}`);
+    }
   }
 
   /** Start a container. */
@@ -78,72 +574,575 @@ export class DockerClient extends AbstractClient {
       const container = this.docker.getContainer(id);
       await container.start();
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `start ${id}`);
     }
   }
 
-  /** Stop a container. */
-  override async stop(id: string): Promise<ActionResponse> {
+  /**
+   * Stop a container: its stop signal, then SIGKILL after `timeoutSeconds`
+   * (the container’s StopTimeout, else 10s, by default).
+   */
+  override async stop(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
     try {
       const container = this.docker.getContainer(id);
-      await container.stop();
+      await container.stop({ t: options.timeoutSeconds });
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `stop ${id}`);
     }
   }
 
-  /** Restart a container. */
-  override async restart(id: string): Promise<ActionResponse> {
+  /** Restart a container, stopping it as `stop` does. */
+  override async restart(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
     try {
       const container = this.docker.getContainer(id);
-      await container.restart();
+      await container.restart({ t: options.timeoutSeconds });
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `restart ${id}`);
     }
   }
 
-  /** Remove a container. */
-  override async remove(id: string): Promise<ActionResponse> {
+  /**
+   * Remove a container.  `force` kills a running one first; `volumes` also
+   * removes its anonymous volumes.
+   */
+  override async remove(
+    id: string,
+    options: RemoveOptions = {},
+  ): Promise<ActionResponse> {
     try {
       const container = this.docker.getContainer(id);
-      await container.remove();
+      await container.remove({
+        force: options.force ?? false,
+        v: options.volumes ?? false,
+      });
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove ${id}`);
+    }
+  }
+
+  /** Pause a container (freezing its cgroup). */
+  override async pause(id: string): Promise<ActionResponse> {
+    try {
+      await this.docker.getContainer(id).pause();
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `pause ${id}`);
+    }
+  }
+
+  /** Unpause a paused container. */
+  override async unpause(id: string): Promise<ActionResponse> {
+    try {
+      await this.docker.getContainer(id).unpause();
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `unpause ${id}`);
+    }
+  }
+
+  /** Send a signal to a container’s main process. */
+  override async kill(
+    id: string,
+    signal: Signal = "SIGKILL",
+  ): Promise<ActionResponse> {
+    try {
+      const { name } = parseSignal(signal);
+      await this.docker.getContainer(id).kill({ signal: name });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `kill ${id}`);
     }
   }
 
   /**
-   * Fetch logs (stdout + stderr) as a full string.
-   * We collect the stream into one string and return it.
+   * Stream logs line by line.  Unless the container was created with a TTY,
+   * Docker multiplexes stdout and stderr into 8‐byte‐header frames, which we
+   * split apart so each line carries its stream.
    */
-  override async logs(id: string): Promise<LogsResponse> {
+  override async *streamLogs(
+    id: string,
+    options: LogOptions = {},
+  ): AsyncGenerator<LogLine> {
     try {
       const container = this.docker.getContainer(id);
-      const logStream = await container.logs({
-        stdout: true,
-        stderr: true,
-        follow: false,
-        tail: "all",
+      const info = (await container.inspect()) as any;
+      const stream = options.stream ?? "both";
+      const output = await container.logs({
+        stdout: stream !== "stderr",
+        stderr: stream !== "stdout",
+        follow: options.follow ?? false,
+        tail: options.tail ?? "all",
+        since: options.since !== undefined
+          ? sinceToUnixSeconds(options.since)
+          : 0,
+        timestamps: options.timestamps ?? false,
       });
 
-      return await new Promise<LogsResponse>((resolve, reject) => {
-        let output = "";
-        logStream.on("data", (chunk: Buffer) => {
-          output += chunk.toString();
-        });
-        logStream.on("end", () => {
-          resolve({ logs: output });
-        });
-        logStream.on("error", (err: any) => {
-          reject(err);
+      // Without `follow`, dockerode resolves to a Buffer rather than a stream.
+      const chunks: AsyncIterable<Uint8Array> = output instanceof Uint8Array
+        ? [output]
+        : output;
+      const frames: AsyncIterable<OutputChunk> = info.Config?.Tty
+        ? rawChunks(chunks)
+        : demuxDockerStream(chunks);
+      yield* toLogLines(frames, { timestamps: options.timestamps });
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `logs ${id}`);
+    }
+  }
+
+  /**
+   * Run a command through Docker’s exec API.  Output is demultiplexed into
+   * the caller’s stdout/stderr (or captured), and the exit code is read back
+   * from the exec instance once its stream ends.
+   */
+  override async exec(id: string, options: ExecOptions): Promise<ExecResult> {
+    try {
+      const container = this.docker.getContainer(id);
+      const tty = options.tty ?? false;
+      const exec = await container.exec({
+        Cmd: options.cmd,
+        Env: toEnvList(options.env),
+        WorkingDir: options.workdir,
+        Tty: tty,
+        AttachStdin: !!options.stdin,
+        AttachStdout: true,
+        AttachStderr: true,
+      });
+      const stream = await exec.start({
+        hijack: true,
+        stdin: !!options.stdin,
+        Tty: tty,
+      });
+      options.stdin?.pipe(stream);
+
+      const sinks = execSinks(options);
+      const chunks = tty ? rawChunks(stream) : demuxDockerStream(stream);
+      for await (const chunk of chunks) {
+        (chunk.stream === "stderr" ? sinks.stderr : sinks.stdout).write(
+          chunk.data,
+        );
+      }
+
+      // The stream can close a moment before the daemon records the exit code.
+      let info = await exec.inspect();
+      while (info.Running) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        info = await exec.inspect();
+      }
+      return { exitCode: info.ExitCode ?? 0, ...sinks.result() };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `exec ${id}`);
+    }
+  }
+
+  /** Copy a local file or directory in through Docker’s archive API. */
+  override async copyTo(
+    id: string,
+    localPath: string,
+    remotePath: string,
+  ): Promise<ActionResponse> {
+    try {
+      const container = this.docker.getContainer(id);
+      const { dir, name } = remoteDestination(
+        remotePath,
+        localPath,
+        await isContainerDirectory(container, remotePath),
+      );
+      await container.putArchive(Readable.from(packTar(localPath, name)), {
+        path: dir,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `copy ${localPath} to ${id}:${remotePath}`,
+      );
+    }
+  }
+
+  /** Copy a file or directory out through Docker’s archive API. */
+  override async copyFrom(
+    id: string,
+    remotePath: string,
+    localPath: string,
+  ): Promise<ActionResponse> {
+    try {
+      const stream = await this.docker.getContainer(id).getArchive({
+        path: remotePath,
+      });
+      await unpackTar(stream, await localDestination(localPath, remotePath));
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `copy ${id}:${remotePath} to ${localPath}`,
+      );
+    }
+  }
+
+  /**
+   * Sample resource usage from Docker’s `/stats` endpoint.  Docker pushes a
+   * sample about once a second while streaming, so `interval` is ignored.
+   */
+  override async *stats(
+    id: string,
+    options: StatsOptions = {},
+  ): AsyncGenerator<ResourceStats> {
+    const container = this.docker.getContainer(id);
+    if (!options.stream) {
+      try {
+        yield dockerStats(await container.stats({ stream: false }));
+      } catch (err: unknown) {
+        throw toRuntimeError(err, this.runtime, `stats ${id}`);
+      }
+      return;
+    }
+
+    let stream;
+    try {
+      stream = await container.stats({ stream: true });
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `stats ${id}`);
+    }
+    try {
+      for await (const sample of jsonLines<any>(stream)) {
+        yield dockerStats(sample);
+      }
+    } finally {
+      stream.destroy?.();
+    }
+  }
+
+  /**
+   * Stream lifecycle events from Docker’s `/events` endpoint.  ID and label
+   * filters are pushed down to the daemon; each event is enriched with a
+   * fresh `inspect`, falling back to the event’s own attributes once the
+   * container is gone.
+   */
+  override async *watch(
+    filter: WatchFilter = {},
+  ): AsyncGenerator<RuntimeEvent> {
+    const filters: Record<string, string[]> = { type: ["container"] };
+    if (filter.ids) filters.container = filter.ids;
+    if (filter.labels) {
+      filters.label = Object.entries(filter.labels).map(([key, value]) =>
+        `${key}=${value}`
+      );
+    }
+    let stream;
+    try {
+      stream = await this.docker.getEvents({ filters });
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "watch");
+    }
+
+    try {
+      for await (const msg of jsonLines<any>(stream)) {
+        const action = String(msg.Action ?? "");
+        const type: RuntimeEventType | undefined =
+          action.startsWith("health_status")
+            ? "health_changed"
+            : DOCKER_EVENT_TYPES[action];
+        if (!type) continue;
+
+        const id = msg.Actor?.ID ?? msg.id;
+        const attributes: Record<string, string> = msg.Actor?.Attributes ?? {};
+        let info: ContainerInfo;
+        try {
+          if (type === "removed") throw new Error("container removed");
+          info = await this.inspect(id);
+        } catch {
+          const { name, image, ...labels } = attributes;
+          info = {
+            id,
+            name,
+            state: "unknown",
+            image,
+            labels,
+            raw: { runtime: this.runtime, data: msg },
+          };
+        }
+
+        const event: RuntimeEvent = {
+          type,
+          id,
+          timestamp: msg.timeNano
+            ? new Date(Number(BigInt(msg.timeNano) / 1_000_000n)).toISOString()
+            : new Date(msg.time * 1000).toISOString(),
+          info,
+        };
+        if (type === "died" && attributes.exitCode !== undefined) {
+          event.exitCode = Number(attributes.exitCode);
+        }
+        if (type === "health_changed") {
+          event.health = action.slice(action.indexOf(":") + 1).trim();
+        }
+        // The daemon matched the IDs, by prefix and name as well as in full,
+        // so they aren’t checked again here.
+        if (matchesWatchFilter(event, { ...filter, ids: undefined })) {
+          yield event;
+        }
+      }
+    } finally {
+      stream.destroy?.();
+    }
+  }
+
+  /**
+   * Pull an image, relaying the daemon’s progress stream.  Docker reports
+   * pull failures in‐band, so an `error` message aborts the pull.
+   */
+  override async pullImage(
+    ref: string,
+    options: PullOptions = {},
+  ): Promise<ImageInfo> {
+    try {
+      const auth = options.auth;
+      const stream = await this.docker.pull(ref, {
+        authconfig: auth
+          ? {
+            username: auth.username,
+            password: auth.password,
+            serveraddress: auth.serverAddress,
+            identitytoken: auth.identityToken,
+          }
+          : undefined,
+      });
+      for await (const msg of jsonLines<any>(stream)) {
+        if (msg.error) throw new Error(msg.error);
+        options.onProgress?.({
+          status: msg.status ?? "",
+          id: msg.id,
+          current: msg.progressDetail?.current,
+          total: msg.progressDetail?.total,
         });
+      }
+      return await this.inspectImage(ref);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `pull ${ref}`);
+    }
+  }
+
+  /** List all local images. */
+  override async listImages(): Promise<ImageInfo[]> {
+    try {
+      const images = await this.docker.listImages({ all: false });
+      return images.map(toImageInfo);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list images");
+    }
+  }
+
+  /** Inspect a local image. */
+  override async inspectImage(ref: string): Promise<ImageInfo> {
+    try {
+      return toImageInfo(await this.docker.getImage(ref).inspect());
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect image ${ref}`);
+    }
+  }
+
+  /** Remove a local image. */
+  override async removeImage(
+    ref: string,
+    options: RemoveImageOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      await this.docker.getImage(ref).remove({ force: options.force ?? false });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove image ${ref}`);
+    }
+  }
+
+  /** Remove dangling (or, with `all`, every unused) image. */
+  override async pruneImages(
+    options: PruneImagesOptions = {},
+  ): Promise<PruneResult> {
+    try {
+      const resp = await this.docker.pruneImages({
+        filters: { dangling: [String(!options.all)] },
       });
-    } catch (err: any) {
-      return { logs: `Error fetching logs: ${err?.message ?? String(err)}` };
+      return {
+        removed: (resp.ImagesDeleted ?? []).map((d: any) =>
+          d.Deleted ?? d.Untagged
+        ),
+        reclaimedBytes: resp.SpaceReclaimed ?? undefined,
+      };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "prune images");
+    }
+  }
+
+  /** Create a named volume. */
+  override async createVolume(
+    options: VolumeCreateOptions,
+  ): Promise<VolumeInfo> {
+    try {
+      const vol = await this.docker.createVolume({
+        Name: options.name,
+        Driver: options.driver,
+        DriverOpts: options.options,
+        Labels: options.labels,
+      });
+      return toVolumeInfo(vol);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `create volume ${options.name}`);
+    }
+  }
+
+  /** List all volumes. */
+  override async listVolumes(): Promise<VolumeInfo[]> {
+    try {
+      const resp = await this.docker.listVolumes();
+      return (resp.Volumes ?? []).map(toVolumeInfo);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list volumes");
+    }
+  }
+
+  /** Inspect a volume. */
+  override async inspectVolume(name: string): Promise<VolumeInfo> {
+    try {
+      return toVolumeInfo(await this.docker.getVolume(name).inspect());
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect volume ${name}`);
+    }
+  }
+
+  /** Remove a volume. */
+  override async removeVolume(
+    name: string,
+    options: RemoveVolumeOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      await this.docker.getVolume(name).remove({ force: options.force });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove volume ${name}`);
+    }
+  }
+
+  /**
+   * Remove unused anonymous (or, with `all`, every unused) volume.  Daemons
+   * older than API 1.42 ignore `all` and prune named volumes too.
+   */
+  override async pruneVolumes(
+    options: PruneVolumesOptions = {},
+  ): Promise<PruneResult> {
+    try {
+      const resp = await this.docker.pruneVolumes({
+        filters: options.all ? { all: ["true"] } : {},
+      });
+      return {
+        removed: resp.VolumesDeleted ?? [],
+        reclaimedBytes: resp.SpaceReclaimed ?? undefined,
+      };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "prune volumes");
+    }
+  }
+
+  /** Create a network, with an IPAM pool when a subnet is given. */
+  override async createNetwork(
+    options: NetworkCreateOptions,
+  ): Promise<NetworkInfo> {
+    try {
+      const net = await this.docker.createNetwork({
+        Name: options.name,
+        Driver: options.driver ?? "bridge",
+        Internal: options.internal ?? false,
+        Labels: options.labels,
+        Options: options.options,
+        IPAM: options.subnet
+          ? {
+            Config: [{ Subnet: options.subnet, Gateway: options.gateway }],
+          }
+          : undefined,
+      });
+      return toNetworkInfo(await net.inspect());
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `create network ${options.name}`,
+      );
+    }
+  }
+
+  /** List all networks. */
+  override async listNetworks(): Promise<NetworkInfo[]> {
+    try {
+      const networks = await this.docker.listNetworks();
+      return networks.map(toNetworkInfo);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list networks");
+    }
+  }
+
+  /** Attach a container to a network, with aliases or a static address. */
+  override async connectNetwork(
+    network: string,
+    id: string,
+    options: NetworkConnectOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      await this.docker.getNetwork(network).connect({
+        Container: id,
+        EndpointConfig: {
+          Aliases: options.aliases,
+          IPAMConfig: options.ipAddress
+            ? { IPv4Address: options.ipAddress }
+            : undefined,
+        },
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `connect ${id} to ${network}`);
+    }
+  }
+
+  /** Detach a container from a network. */
+  override async disconnectNetwork(
+    network: string,
+    id: string,
+    options: NetworkDisconnectOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      await this.docker.getNetwork(network).disconnect({
+        Container: id,
+        Force: options.force ?? false,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `disconnect ${id} from ${network}`,
+      );
+    }
+  }
+
+  /** Remove a network. */
+  override async removeNetwork(network: string): Promise<ActionResponse> {
+    try {
+      await this.docker.getNetwork(network).remove();
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove network ${network}`);
     }
   }
 }
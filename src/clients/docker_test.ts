@@ -0,0 +1,298 @@
+// src/clients/docker_test.ts
+
+import assert from "node:assert/strict";
+import { runConformanceSuite } from "../testing/conformance.ts";
+import { DockerClient } from "./docker.ts";
+import type { ContainerState } from "./types.ts";
+
+/** A container as the mock daemon keeps it. */
+interface MockContainer {
+  Id: string;
+  Name: string;
+  Created: string;
+  Config: { Image: string; Labels: Record<string, string> };
+  State: {
+    Status: string;
+    Running: boolean;
+    Paused: boolean;
+    ExitCode: number;
+    StartedAt: string;
+    FinishedAt: string;
+  };
+  NetworkSettings: { Networks: Record<string, unknown>; Ports: null };
+}
+
+const ZERO_TIME = "0001-01-01T00:00:00Z";
+
+/** The statuses the daemon’s `status` list filter accepts. */
+const DOCKER_STATUSES = [
+  "created",
+  "restarting",
+  "running",
+  "removing",
+  "paused",
+  "exited",
+  "dead",
+];
+
+/**
+ * A stand‐in for the Docker Engine API, covering `/version` and the
+ * container lifecycle endpoints DockerClient calls: create, inspect, list,
+ * start, stop and delete, with the daemon’s 304/404/409 responses.
+ * `/events` replays a `start` for each container the filter names (by ID
+ * prefix or name) and ends.
+ */
+function mockDockerApi(): Deno.HttpServer<Deno.NetAddr> {
+  const containers = new Map<string, MockContainer>();
+  const json = (body: unknown, status = 200) => Response.json(body, { status });
+  const error = (message: string, status: number) => json({ message }, status);
+  const find = (ref: string) =>
+    containers.get(ref) ??
+      [...containers.values()].find((c) =>
+        c.Name === `/${ref}` || c.Id.startsWith(ref)
+      );
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (req) => {
+      const url = new URL(req.url);
+      const path = url.pathname.replace(/^\/v[\d.]+/, "");
+
+      if (req.method === "POST" && path === "/containers/create") {
+        const body = await req.json();
+        const name = url.searchParams.get("name") ?? "";
+        if (name && find(name)) {
+          return error(
+            `Conflict. The container name "/${name}" is in use`,
+            409,
+          );
+        }
+        const id = crypto.randomUUID().replaceAll("-", "").repeat(2);
+        containers.set(id, {
+          Id: id,
+          Name: `/${name || id.slice(0, 12)}`,
+          Created: new Date().toISOString(),
+          Config: { Image: body.Image, Labels: body.Labels ?? {} },
+          State: {
+            Status: "created",
+            Running: false,
+            Paused: false,
+            ExitCode: 0,
+            StartedAt: ZERO_TIME,
+            FinishedAt: ZERO_TIME,
+          },
+          NetworkSettings: { Networks: {}, Ports: null },
+        });
+        return json({ Id: id, Warnings: [] }, 201);
+      }
+
+      if (req.method === "GET" && path === "/version") {
+        return json({
+          Version: "27.3.1",
+          ApiVersion: "1.47",
+          Os: "linux",
+          Arch: "amd64",
+        });
+      }
+
+      if (req.method === "GET" && path === "/containers/json") {
+        const filters: Record<string, string[]> = JSON.parse(
+          url.searchParams.get("filters") ?? "{}",
+        );
+        const invalid = (filters.status ?? []).find((status) =>
+          !DOCKER_STATUSES.includes(status)
+        );
+        if (invalid) return error(`invalid filter 'status=${invalid}'`, 400);
+        const listed = [...containers.values()].filter((c) =>
+          (filters.label ?? []).every((label) => {
+            const [key, value] = label.split("=");
+            return c.Config.Labels[key] === value;
+          }) &&
+          (filters.name ?? []).every((name) => new RegExp(name).test(c.Name)) &&
+          (filters.status === undefined ||
+            filters.status.includes(c.State.Status))
+        );
+        return json(listed.map((c) => ({
+          Id: c.Id,
+          Names: [c.Name],
+          Image: c.Config.Image,
+          Created: Math.floor(Date.parse(c.Created) / 1000),
+          State: c.State.Status,
+          Status: c.State.Running
+            ? "Up 1 second"
+            : `Exited (${c.State.ExitCode}) 1 second ago`,
+          Labels: c.Config.Labels,
+          Ports: [],
+          NetworkSettings: c.NetworkSettings,
+        })));
+      }
+
+      if (req.method === "GET" && path === "/events") {
+        const filters: Record<string, string[]> = JSON.parse(
+          url.searchParams.get("filters") ?? "{}",
+        );
+        const events = [...containers.values()]
+          .filter((c) =>
+            (filters.container ?? []).every((ref) =>
+              c.Id.startsWith(ref) || c.Name === `/${ref}`
+            )
+          )
+          .map((c) =>
+            JSON.stringify({
+              Type: "container",
+              Action: "start",
+              Actor: {
+                ID: c.Id,
+                Attributes: { name: c.Name.slice(1), image: c.Config.Image },
+              },
+              time: Math.floor(Date.now() / 1000),
+            }) + "\n"
+          );
+        return new Response(events.join(""));
+      }
+
+      const match = /^\/containers\/([^/]+)(?:\/(json|start|stop))?$/.exec(
+        path,
+      );
+      if (!match) return error(`page not found: ${path}`, 404);
+      const container = find(decodeURIComponent(match[1]));
+      if (!container) return error(`No such container: ${match[1]}`, 404);
+      const state = container.State;
+
+      switch (`${req.method} ${match[2] ?? ""}`) {
+        case "GET json":
+          return json(container);
+        case "POST start":
+          if (state.Running) return new Response(null, { status: 304 });
+          Object.assign(state, {
+            Status: "running",
+            Running: true,
+            ExitCode: 0,
+            StartedAt: new Date().toISOString(),
+            FinishedAt: ZERO_TIME,
+          });
+          return new Response(null, { status: 204 });
+        case "POST stop":
+          if (!state.Running) return new Response(null, { status: 304 });
+          Object.assign(state, {
+            Status: "exited",
+            Running: false,
+            FinishedAt: new Date().toISOString(),
+          });
+          return new Response(null, { status: 204 });
+        case "DELETE ":
+          if (state.Running && url.searchParams.get("force") !== "true") {
+            return error(
+              `cannot remove container "${container.Name}": container is running`,
+              409,
+            );
+          }
+          containers.delete(container.Id);
+          return new Response(null, { status: 204 });
+        default:
+          return error(`page not found: ${req.method} ${path}`, 404);
+      }
+    },
+  );
+  server.unref();
+  return server;
+}
+
+const server = mockDockerApi();
+
+runConformanceSuite(
+  () => new DockerClient({ endpoint: `http://127.0.0.1:${server.addr.port}` }),
+  { name: "DockerClient conformance (mock Engine API)" },
+);
+
+Deno.test({
+  name: "DockerClient reports the daemon’s version",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn() {
+    const client = new DockerClient({
+      endpoint: `http://127.0.0.1:${server.addr.port}`,
+    });
+    const { raw: _raw, ...version } = await client.version();
+    assert.deepEqual(version, {
+      version: "27.3.1",
+      apiVersion: "1.47",
+      os: "linux",
+      arch: "amd64",
+    });
+  },
+});
+
+Deno.test({
+  name: "DockerClient watches containers by short ID",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn() {
+    const client = new DockerClient({
+      endpoint: `http://127.0.0.1:${server.addr.port}`,
+    });
+    const { id } = await client.create({
+      image: "alpine:3.20",
+      name: "watched",
+    });
+    const events = [];
+    for await (const event of client.watch({ ids: [id.slice(0, 12)] })) {
+      events.push(event);
+    }
+    await client.remove(id, { force: true });
+    assert.deepEqual(events.map((event) => [event.type, event.id]), [
+      ["started", id],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "DockerClient lists by statuses Docker doesn’t have",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn() {
+    const client = new DockerClient({
+      endpoint: `http://127.0.0.1:${server.addr.port}`,
+    });
+    const { id } = await client.create({ image: "alpine:3.20", name: "idle" });
+    const ids = async (status: ContainerState[]) =>
+      (await client.list({ status })).map((info) => info.id);
+    assert.deepEqual(await ids(["created", "unknown"]), [id]);
+    assert.deepEqual(await ids(["unknown"]), []);
+    await client.remove(id);
+  },
+});
+
+Deno.test({
+  name:
+    "DockerClient takes DOCKER_HOST and DOCKER_TLS_VERIFY from the environment",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn() {
+    const saved = ["DOCKER_HOST", "DOCKER_TLS_VERIFY", "DOCKER_CERT_PATH"]
+      .map((name) => [name, Deno.env.get(name)] as const);
+    // The mock speaks plain HTTP, so a client that chose TLS fails.
+    const cases: [Record<string, string>, boolean][] = [
+      [{}, true],
+      [{ DOCKER_TLS_VERIFY: "1" }, false],
+      [{ DOCKER_TLS_VERIFY: "", DOCKER_CERT_PATH: "" }, true],
+    ];
+    try {
+      for (const [env, plain] of cases) {
+        for (const [name] of saved) Deno.env.delete(name);
+        Deno.env.set("DOCKER_HOST", `tcp://127.0.0.1:${server.addr.port}`);
+        for (const [name, value] of Object.entries(env)) {
+          Deno.env.set(name, value);
+        }
+        const version = new DockerClient().version();
+        if (plain) await version;
+        else await assert.rejects(version);
+      }
+    } finally {
+      for (const [name, value] of saved) {
+        if (value === undefined) Deno.env.delete(name);
+        else Deno.env.set(name, value);
+      }
+    }
+  },
+});
@@ -0,0 +1,217 @@
+// src/clients/endpoint.ts
+
+import {
+  type ClientOptions,
+  RuntimeError,
+  RuntimeUnavailableError,
+} from "./types.ts";
+
+/**
+ * Engine endpoints given as URIs, so one option (or environment variable)
+ * can point a client at a local socket or a remote host:
+ *
+ * - `unix:///var/run/docker.sock` (or a bare absolute path)
+ * - `tcp://host:2376`, `http://host:2375`, `https://lxd-host:8443`
+ * - `ssh://user@host[:port][/remote/socket]`, reached through a socket
+ *   forwarded by the system `ssh` binary
+ */
+
+/** A parsed endpoint URI. */
+export interface Endpoint {
+  scheme: "unix" | "npipe" | "tcp" | "http" | "https" | "ssh";
+  /** Socket path (unix/npipe), or the remote socket for ssh. */
+  path?: string;
+  host?: string;
+  port?: number;
+  /** The ssh login user. */
+  user?: string;
+}
+
+/** PEM material for a TLS connection. */
+export interface TlsMaterial {
+  ca?: string;
+  cert?: string;
+  key?: string;
+}
+
+/** Parse an endpoint URI; a bare absolute path is a Unix socket. */
+export function parseEndpoint(uri: string): Endpoint {
+  if (uri.startsWith("/")) return { scheme: "unix", path: uri };
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch (err) {
+    throw new RuntimeError(`Invalid endpoint "${uri}"`, { cause: err });
+  }
+  const scheme = url.protocol.slice(0, -1);
+  const port = url.port ? Number(url.port) : undefined;
+  switch (scheme) {
+    case "unix":
+    case "npipe":
+      // Taken verbatim: URL parsing would drop the `.` in `//./pipe/…`.
+      return { scheme, path: uri.slice(`${scheme}://`.length) };
+    case "tcp":
+    case "http":
+    case "https":
+      return { scheme, host: url.hostname, port };
+    case "ssh":
+      return {
+        scheme,
+        host: url.hostname,
+        port,
+        user: decodeURIComponent(url.username) || undefined,
+        path: url.pathname.length > 1
+          ? decodeURIComponent(url.pathname)
+          : undefined,
+      };
+    default:
+      throw new RuntimeError(`Unsupported endpoint scheme "${scheme}:"`);
+  }
+}
+
+/** Read an environment variable, treating a denied `--allow-env` as unset. */
+export function envVar(name: string): string | undefined {
+  try {
+    return Deno.env.get(name) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pick a client’s endpoint: the `endpoint` option, then the older
+ * `socketPath`, then the first of `envVars` that is set.  Returns
+ * undefined when none is, leaving the client to its local default.
+ */
+export function resolveEndpoint(
+  opts: ClientOptions,
+  envVars: string[],
+): Endpoint | undefined {
+  const uri = (opts.endpoint as string | undefined) ??
+    (opts.socketPath as string | undefined) ??
+    envVars.map(envVar).find((value) => value !== undefined);
+  return uri === undefined ? undefined : parseEndpoint(uri);
+}
+
+/**
+ * Load the `caFile`/`certFile`/`keyFile` options, falling back to
+ * `ca.pem`/`cert.pem`/`key.pem` in `certDir` (Docker’s DOCKER_CERT_PATH
+ * layout) for any that are not given.
+ */
+export function readTlsFiles(
+  opts: ClientOptions,
+  certDir?: string,
+): TlsMaterial {
+  const read = (option: string, fallback: string): string | undefined => {
+    const explicit = opts[option] as string | undefined;
+    const path = explicit ?? (certDir && `${certDir}/${fallback}`);
+    if (!path) return undefined;
+    try {
+      return Deno.readTextFileSync(path);
+    } catch (err) {
+      // Missing files in the default directory just mean “no such cert”.
+      if (!explicit && err instanceof Deno.errors.NotFound) return undefined;
+      throw new RuntimeError(`Cannot read ${option} ${path}`, { cause: err });
+    }
+  };
+  return {
+    ca: read("caFile", "ca.pem"),
+    cert: read("certFile", "cert.pem"),
+    key: read("keyFile", "key.pem"),
+  };
+}
+
+/** How long `ssh` may take to connect before giving up, in seconds. */
+const SSH_CONNECT_TIMEOUT_S = 15;
+
+/** Tunnels opened by this process, keyed by destination and remote socket. */
+const tunnels = new Map<string, string>();
+
+function isSocket(path: string): boolean {
+  try {
+    return Deno.statSync(path).isSocket === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Forward a remote Unix socket to a local one with `ssh -L`, returning the
+ * local path.  Authentication is left to the user’s ssh configuration and
+ * agent (BatchMode, so it never prompts).  The tunnel is shared by every
+ * client in the process and closed when the process exits.
+ *
+ * Client constructors are synchronous, so this blocks until the socket
+ * appears, throwing RuntimeUnavailableError if it does not.  `ssh -f` only
+ * goes into the background once the forward is up, so a failure (a refused
+ * key, say) surfaces as soon as ssh exits rather than after a timeout.
+ */
+export function forwardSshSocket(
+  endpoint: Endpoint,
+  remoteSocket: string,
+): string {
+  const destination = endpoint.user
+    ? `${endpoint.user}@${endpoint.host}`
+    : endpoint.host!;
+  const key = `${destination}:${endpoint.port ?? 22}${remoteSocket}`;
+  const existing = tunnels.get(key);
+  if (existing) return existing;
+
+  const tmp = envVar("TMPDIR") ?? "/tmp";
+  const base = `${tmp}/infra-client-${Deno.pid}-${tunnels.size}`;
+  const localSocket = `${base}.sock`;
+  const controlSocket = `${base}.ctl`;
+  const { code } = new Deno.Command("ssh", {
+    args: [
+      "-f",
+      "-N",
+      "-M",
+      "-S",
+      controlSocket,
+      "-o",
+      "BatchMode=yes",
+      "-o",
+      `ConnectTimeout=${SSH_CONNECT_TIMEOUT_S}`,
+      "-o",
+      "ExitOnForwardFailure=yes",
+      "-o",
+      "StreamLocalBindUnlink=yes",
+      "-L",
+      `${localSocket}:${remoteSocket}`,
+      ...(endpoint.port ? ["-p", String(endpoint.port)] : []),
+      "--",
+      destination,
+    ],
+    stdin: "null",
+    stdout: "null",
+    stderr: "inherit",
+  }).outputSync();
+  const close = () => {
+    try {
+      new Deno.Command("ssh", {
+        args: ["-S", controlSocket, "-O", "exit", "--", destination],
+        stdin: "null",
+        stdout: "null",
+        stderr: "null",
+      }).outputSync();
+    } catch {
+      // Already gone.
+    }
+    try {
+      Deno.removeSync(localSocket);
+    } catch {
+      // ssh removes it itself on a clean exit.
+    }
+  };
+
+  if (code !== 0 || !isSocket(localSocket)) {
+    close();
+    throw new RuntimeUnavailableError(
+      `ssh tunnel to ${destination}:${remoteSocket} did not come up` +
+        (code !== 0 ? ` (ssh exited with status ${code})` : ""),
+    );
+  }
+  globalThis.addEventListener("unload", close);
+  tunnels.set(key, localSocket);
+  return localSocket;
+}
@@ -0,0 +1,168 @@
+// src/clients/endpoint_test.ts
+
+import assert from "node:assert/strict";
+import {
+  type Endpoint,
+  envVar,
+  parseEndpoint,
+  readTlsFiles,
+  resolveEndpoint,
+} from "./endpoint.ts";
+import { RuntimeError } from "./types.ts";
+
+/** Run `fn` with `vars` set (undefined: unset), restoring them after. */
+function withEnv(vars: Record<string, string | undefined>, fn: () => void) {
+  const saved = Object.keys(vars).map((key) => [key, Deno.env.get(key)]);
+  const apply = (entries: [string, string | undefined][]) => {
+    for (const [key, value] of entries) {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    }
+  };
+  apply(Object.entries(vars));
+  try {
+    fn();
+  } finally {
+    apply(saved as [string, string | undefined][]);
+  }
+}
+
+Deno.test("parseEndpoint reads each scheme", () => {
+  const cases: [string, Endpoint][] = [
+    ["/var/run/docker.sock", { scheme: "unix", path: "/var/run/docker.sock" }],
+    ["unix:///run/containerd/containerd.sock", {
+      scheme: "unix",
+      path: "/run/containerd/containerd.sock",
+    }],
+    ["npipe:////./pipe/docker_engine", {
+      scheme: "npipe",
+      path: "//./pipe/docker_engine",
+    }],
+    ["tcp://10.0.0.5:2376", { scheme: "tcp", host: "10.0.0.5", port: 2376 }],
+    ["tcp://docker-host", {
+      scheme: "tcp",
+      host: "docker-host",
+      port: undefined,
+    }],
+    ["http://localhost:2375", {
+      scheme: "http",
+      host: "localhost",
+      port: 2375,
+    }],
+    ["https://lxd-host:8443", {
+      scheme: "https",
+      host: "lxd-host",
+      port: 8443,
+    }],
+    ["ssh://builder@ci.example.com", {
+      scheme: "ssh",
+      host: "ci.example.com",
+      port: undefined,
+      user: "builder",
+      path: undefined,
+    }],
+    ["ssh://ci.example.com:2222/run/user/1000/podman/podman.sock", {
+      scheme: "ssh",
+      host: "ci.example.com",
+      port: 2222,
+      user: undefined,
+      path: "/run/user/1000/podman/podman.sock",
+    }],
+    ["ssh://me%40corp@[::1]/var/run/docker.sock", {
+      scheme: "ssh",
+      host: "[::1]",
+      port: undefined,
+      user: "me@corp",
+      path: "/var/run/docker.sock",
+    }],
+  ];
+  for (const [uri, expected] of cases) {
+    assert.deepEqual(parseEndpoint(uri), expected, uri);
+  }
+});
+
+Deno.test("parseEndpoint rejects what it can’t reach", () => {
+  const cases: [string, RegExp][] = [
+    ["docker.sock", /Invalid endpoint "docker\.sock"/],
+    ["ftp://host", /Unsupported endpoint scheme "ftp:"/],
+  ];
+  for (const [uri, message] of cases) {
+    assert.throws(() => parseEndpoint(uri), (err: unknown) => {
+      assert.ok(err instanceof RuntimeError);
+      assert.match(err.message, message);
+      return true;
+    });
+  }
+});
+
+Deno.test("resolveEndpoint prefers options, then the environment", () => {
+  withEnv({ TEST_HOST: "tcp://env-host:2375", TEST_EMPTY: "" }, () => {
+    const cases: [
+      Record<string, string>,
+      string[],
+      Endpoint | undefined,
+    ][] = [
+      [
+        { endpoint: "tcp://opt-host:2376", socketPath: "/opt.sock" },
+        ["TEST_HOST"],
+        { scheme: "tcp", host: "opt-host", port: 2376 },
+      ],
+      [
+        { socketPath: "/opt.sock" },
+        ["TEST_HOST"],
+        { scheme: "unix", path: "/opt.sock" },
+      ],
+      [{}, ["TEST_EMPTY", "TEST_HOST"], {
+        scheme: "tcp",
+        host: "env-host",
+        port: 2375,
+      }],
+      [{}, ["TEST_EMPTY", "TEST_UNSET"], undefined],
+    ];
+    for (const [opts, envVars, expected] of cases) {
+      assert.deepEqual(
+        resolveEndpoint(opts, envVars),
+        expected,
+        JSON.stringify([opts, envVars]),
+      );
+    }
+    assert.equal(envVar("TEST_EMPTY"), undefined);
+  });
+});
+
+Deno.test("readTlsFiles reads options, then the cert directory", () => {
+  const dir = Deno.makeTempDirSync();
+  try {
+    Deno.writeTextFileSync(`${dir}/ca.pem`, "dir ca");
+    Deno.writeTextFileSync(`${dir}/cert.pem`, "dir cert");
+    Deno.writeTextFileSync(`${dir}/own-key.pem`, "own key");
+
+    const cases: [Record<string, string>, string | undefined, object][] = [
+      [{}, undefined, { ca: undefined, cert: undefined, key: undefined }],
+      [{}, dir, { ca: "dir ca", cert: "dir cert", key: undefined }],
+      [
+        { keyFile: `${dir}/own-key.pem`, caFile: `${dir}/cert.pem` },
+        dir,
+        { ca: "dir cert", cert: "dir cert", key: "own key" },
+      ],
+    ];
+    for (const [opts, certDir, expected] of cases) {
+      assert.deepEqual(
+        readTlsFiles(opts, certDir),
+        expected,
+        JSON.stringify([opts, certDir]),
+      );
+    }
+
+    assert.throws(
+      () => readTlsFiles({ certFile: `${dir}/missing.pem` }),
+      (err: unknown) => {
+        assert.ok(err instanceof RuntimeError);
+        assert.match(err.message, /Cannot read certFile .*missing\.pem/);
+        return true;
+      },
+    );
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,89 @@
+// src/clients/errors.ts
+
+import {
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  RuntimeError,
+  type RuntimeErrorOptions,
+  type RuntimeName,
+  RuntimeUnavailableError,
+  TimeoutError,
+} from "./types.ts";
+
+type RuntimeErrorClass = new (
+  message: string,
+  options?: RuntimeErrorOptions,
+) => RuntimeError;
+
+/** HTTP statuses (Docker, Kubernetes, LXD) with a typed equivalent. */
+const HTTP_ERRORS: Record<number, RuntimeErrorClass> = {
+  304: ConflictError, // Docker: "container already started/stopped"
+  401: PermissionDeniedError,
+  403: PermissionDeniedError,
+  404: NotFoundError,
+  408: TimeoutError,
+  409: ConflictError,
+  502: RuntimeUnavailableError,
+  503: RuntimeUnavailableError,
+  504: TimeoutError,
+};
+
+/** gRPC status codes (containerd) with a typed equivalent. */
+const GRPC_ERRORS: Record<number, RuntimeErrorClass> = {
+  4: TimeoutError, // DEADLINE_EXCEEDED
+  5: NotFoundError, // NOT_FOUND
+  6: ConflictError, // ALREADY_EXISTS
+  7: PermissionDeniedError, // PERMISSION_DENIED
+  9: ConflictError, // FAILED_PRECONDITION
+  14: RuntimeUnavailableError, // UNAVAILABLE
+  16: PermissionDeniedError, // UNAUTHENTICATED
+};
+
+/** Transport failures, by Node error code. */
+const SYSCALL_ERRORS: Record<string, RuntimeErrorClass> = {
+  ECONNREFUSED: RuntimeUnavailableError,
+  ECONNRESET: RuntimeUnavailableError,
+  ENOENT: RuntimeUnavailableError, // missing Unix socket
+  EHOSTUNREACH: RuntimeUnavailableError,
+  ENOTFOUND: RuntimeUnavailableError,
+  EACCES: PermissionDeniedError,
+  EPERM: PermissionDeniedError,
+  ETIMEDOUT: TimeoutError,
+};
+
+/**
+ * Normalize whatever an engine library threw into a typed RuntimeError.
+ * Each library reports status differently: dockerode sets `statusCode`,
+ * client‐node’s ApiException sets `code`, got (under ts‐lxd) nests it in
+ * `response.statusCode`, and grpc‐js sets a numeric `code` plus `metadata`.
+ */
+export function toRuntimeError(
+  err: unknown,
+  runtime: RuntimeName,
+  action: string,
+): RuntimeError {
+  if (err instanceof RuntimeError) return err;
+
+  const e = err as any;
+  const detail = e?.json?.message ?? e?.body?.message ?? e?.message ??
+    String(err);
+  const message = `${action} failed: ${detail}`;
+
+  if (typeof e?.code === "string" && SYSCALL_ERRORS[e.code]) {
+    return new SYSCALL_ERRORS[e.code](message, { runtime, cause: err });
+  }
+  if (typeof e?.code === "number" && e?.metadata !== undefined) {
+    const ErrorClass = GRPC_ERRORS[e.code] ?? RuntimeError;
+    return new ErrorClass(message, { runtime, statusCode: e.code, cause: err });
+  }
+  const statusCode: number | undefined = e?.statusCode ??
+    e?.response?.statusCode ??
+    (typeof e?.code === "number" ? e.code : undefined);
+  // ts-lxd raises these for state changes that are already in effect.
+  if (e?.name === "AlreadyStartedError" || e?.name === "AlreadyStoppedError") {
+    return new ConflictError(message, { runtime, statusCode, cause: err });
+  }
+  const ErrorClass = (statusCode && HTTP_ERRORS[statusCode]) || RuntimeError;
+  return new ErrorClass(message, { runtime, statusCode, cause: err });
+}
@@ -0,0 +1,164 @@
+// src/clients/errors_test.ts
+
+import assert from "node:assert/strict";
+import { toRuntimeError } from "./errors.ts";
+import {
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  RuntimeError,
+  RuntimeUnavailableError,
+  TimeoutError,
+} from "./types.ts";
+
+/** An error shaped like the ones the engine libraries throw. */
+function libraryError(message: string, fields: Record<string, unknown>) {
+  return Object.assign(new Error(message), fields);
+}
+
+Deno.test("toRuntimeError maps each library’s failures to typed errors", () => {
+  const cases: [
+    string,
+    unknown,
+    typeof RuntimeError,
+    number | undefined,
+    string,
+  ][] = [
+    // dockerode: `statusCode`, with the daemon’s message in `json`.
+    [
+      "dockerode 404",
+      libraryError("(HTTP code 404) no such container", {
+        statusCode: 404,
+        json: { message: "No such container: web" },
+      }),
+      NotFoundError,
+      404,
+      "No such container: web",
+    ],
+    [
+      "dockerode 304",
+      libraryError("(HTTP code 304) container already started", {
+        statusCode: 304,
+      }),
+      ConflictError,
+      304,
+      "(HTTP code 304) container already started",
+    ],
+    [
+      "dockerode 500",
+      libraryError("server error", { statusCode: 500 }),
+      RuntimeError,
+      500,
+      "server error",
+    ],
+    // client-node: a numeric `code` and the Status in `body`.
+    [
+      "client-node 403",
+      libraryError("HTTP-Code: 403", {
+        code: 403,
+        body: { message: "pods is forbidden" },
+      }),
+      PermissionDeniedError,
+      403,
+      "pods is forbidden",
+    ],
+    [
+      "client-node 409",
+      libraryError("HTTP-Code: 409", { code: 409 }),
+      ConflictError,
+      409,
+      "HTTP-Code: 409",
+    ],
+    // got, under ts-lxd: the status on `response`.
+    [
+      "got 503",
+      libraryError("Response code 503", { response: { statusCode: 503 } }),
+      RuntimeUnavailableError,
+      503,
+      "Response code 503",
+    ],
+    [
+      "ts-lxd already started",
+      Object.assign(new Error("already running"), {
+        name: "AlreadyStartedError",
+      }),
+      ConflictError,
+      undefined,
+      "already running",
+    ],
+    // grpc-js: a numeric `code` plus `metadata`.
+    [
+      "gRPC NOT_FOUND",
+      libraryError("5 NOT_FOUND: container web", { code: 5, metadata: {} }),
+      NotFoundError,
+      5,
+      "5 NOT_FOUND: container web",
+    ],
+    [
+      "gRPC DEADLINE_EXCEEDED",
+      libraryError("4 DEADLINE_EXCEEDED", { code: 4, metadata: {} }),
+      TimeoutError,
+      4,
+      "4 DEADLINE_EXCEEDED",
+    ],
+    [
+      "gRPC UNAUTHENTICATED",
+      libraryError("16 UNAUTHENTICATED", { code: 16, metadata: {} }),
+      PermissionDeniedError,
+      16,
+      "16 UNAUTHENTICATED",
+    ],
+    [
+      "gRPC INTERNAL",
+      libraryError("13 INTERNAL", { code: 13, metadata: {} }),
+      RuntimeError,
+      13,
+      "13 INTERNAL",
+    ],
+    // Node transport errors: a string `code`.
+    [
+      "ECONNREFUSED",
+      libraryError("connect ECONNREFUSED /var/run/docker.sock", {
+        code: "ECONNREFUSED",
+      }),
+      RuntimeUnavailableError,
+      undefined,
+      "connect ECONNREFUSED /var/run/docker.sock",
+    ],
+    [
+      "EACCES",
+      libraryError("connect EACCES", { code: "EACCES" }),
+      PermissionDeniedError,
+      undefined,
+      "connect EACCES",
+    ],
+    [
+      "ETIMEDOUT",
+      libraryError("connect ETIMEDOUT", { code: "ETIMEDOUT" }),
+      TimeoutError,
+      undefined,
+      "connect ETIMEDOUT",
+    ],
+    [
+      "unknown code",
+      libraryError("weird", { code: "EWEIRD" }),
+      RuntimeError,
+      undefined,
+      "weird",
+    ],
+    ["a thrown string", "boom", RuntimeError, undefined, "boom"],
+  ];
+  for (const [label, err, ErrorClass, statusCode, detail] of cases) {
+    const mapped = toRuntimeError(err, "docker", "start web");
+    assert.equal(mapped.constructor, ErrorClass, label);
+    assert.equal(mapped.message, `start web failed: ${detail}`, label);
+    assert.equal(mapped.runtime, "docker", label);
+    assert.equal(mapped.statusCode, statusCode, label);
+    assert.equal(mapped.cause, err, label);
+  }
+});
+
+Deno.test("toRuntimeError passes RuntimeErrors through", () => {
+  const err = new NotFoundError("No such instance", { runtime: "lxd" });
+  assert.equal(toRuntimeError(err, "docker", "inspect web"), err);
+});
@@ -0,0 +1,32 @@
+// src/clients/events.ts
+
+import type { ContainerInfo, RuntimeEvent, WatchFilter } from "./types.ts";
+
+/**
+ * `true` if an event satisfies every criterion in a WatchFilter.  Clients
+ * push what they can down to the engine and use this for the rest.
+ */
+export function matchesWatchFilter(
+  event: RuntimeEvent,
+  filter: WatchFilter = {},
+): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (
+    filter.ids &&
+    !filter.ids.some((id) => id === event.id || id === event.info.name)
+  ) {
+    return false;
+  }
+  return matchesLabels(event.info, filter.labels);
+}
+
+/** `true` if an instance carries every given label. */
+export function matchesLabels(
+  info: ContainerInfo,
+  labels: Record<string, string> | undefined,
+): boolean {
+  if (!labels) return true;
+  return Object.entries(labels).every(([key, value]) =>
+    info.labels?.[key] === value
+  );
+}
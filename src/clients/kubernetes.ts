@@ -1,32 +1,573 @@
 // src/clients/kubernetes.ts
 
-import type {
-  ActionResponse,
-  ContainerInfo,
-  CreateOptions,
-  LogsResponse,
+import {
+  type ActionResponse,
+  type Capabilities,
+  type ClientOptions,
+  ConflictError,
+  type ContainerInfo,
+  type ContainerPage,
+  type ContainerState,
+  type CreateOptions,
+  type ExecOptions,
+  type ExecResult,
+  type ListOptions,
+  type LogLine,
+  type LogOptions,
+  type LogStream,
+  NotFoundError,
+  type PruneResult,
+  type PruneVolumesOptions,
+  type RemoveOptions,
+  type RemoveVolumeOptions,
+  type ResourceStats,
+  type RolloutStatus,
+  RuntimeError,
+  type RuntimeEvent,
+  type RuntimeEventType,
+  type RuntimeVersion,
+  type Signal,
+  type StatsOptions,
+  type StopOptions,
+  UnimplementedError,
+  type VolumeCreateOptions,
+  type VolumeInfo,
+  type WatchFilter,
 } from "./types.ts";
 import * as k8s from "kubernetes-node";
+import { PassThrough, Readable, Writable } from "node:stream";
+import { posix } from "node:path";
 import { AbstractClient } from "./base.ts";
+import { type OutputChunk, sinceToUnixSeconds, toLogLines } from "./logs.ts";
+import { AsyncQueue, execSinks, mergeAsyncIterables } from "./stream.ts";
+import { matchesWatchFilter } from "./events.ts";
+import { toRuntimeError } from "./errors.ts";
+import { matchesListOptions } from "./list.ts";
+import { pollStats } from "./stats.ts";
+import { parseSignal } from "./signals.ts";
+import { packTar, unpackTar } from "./tar.ts";
+import { localDestination, remoteDestination } from "./copy.ts";
+import {
+  type ContainerSpec,
+  isRawCreateOptions,
+  parseContainerSpec,
+  type PullPolicy,
+  type RestartPolicy,
+} from "./spec.ts";
+
+/** The log query options shared by one‐shot and follow reads. */
+type PodLogQuery = Pick<
+  k8s.LogOptions,
+  "tailLines" | "sinceSeconds" | "timestamps"
+>;
+
+/**
+ * Normalize a pod’s phase.  A pod whose containers are crash‐looping stays
+ * "Running" (or "Pending") in Kubernetes’ eyes, so we report "restarting".
+ */
+function podState(pod: any): ContainerState {
+  const statuses: any[] = pod.status?.containerStatuses ?? [];
+  const backingOff = statuses.some((cs) =>
+    cs.state?.waiting?.reason === "CrashLoopBackOff"
+  );
+  switch (pod.status?.phase) {
+    case "Pending":
+      return backingOff ? "restarting" : "created";
+    case "Running":
+      return backingOff ? "restarting" : "running";
+    case "Succeeded":
+    case "Failed":
+      return "exited";
+    default:
+      return "unknown";
+  }
+}
+
+/** Map a Pod into our standard ContainerInfo. */
+function podToInfo(pod: any): ContainerInfo {
+  const meta = pod.metadata ?? {};
+  const status = pod.status ?? {};
+  const statuses: any[] = status.containerStatuses ?? [];
+  const terminated = statuses.find((cs) => cs.state?.terminated)?.state
+    ?.terminated;
+  const ips: string[] = (status.podIPs ?? []).map((p: any) => p.ip);
+  if (ips.length === 0 && status.podIP) ips.push(status.podIP);
+  const ready = isPodReady(pod);
+
+  return {
+    id: meta.name ?? "",
+    name: meta.name ?? undefined,
+    state: podState(pod),
+    status: status.phase ?? "Unknown",
+    image: Array.isArray(pod.spec?.containers) &&
+        pod.spec.containers.length > 0
+      ? (pod.spec.containers[0].image as string)
+      : undefined,
+    createdAt: meta.creationTimestamp
+      ? toIsoString(meta.creationTimestamp)
+      : undefined,
+    startedAt: status.startTime ? toIsoString(status.startTime) : undefined,
+    finishedAt: terminated?.finishedAt
+      ? toIsoString(terminated.finishedAt)
+      : undefined,
+    exitCode: terminated?.exitCode,
+    restartCount: statuses.reduce((n, cs) => n + (cs.restartCount ?? 0), 0),
+    // As in `watch`, a running pod’s Ready condition is its health.
+    health: status.phase === "Running"
+      ? ready ? "healthy" : "unhealthy"
+      : undefined,
+    ready,
+    ipAddresses: ips,
+    ports: (pod.spec?.containers ?? []).flatMap((c: any) =>
+      (c.ports ?? []).map((p: any) => ({
+        containerPort: p.containerPort,
+        hostPort: p.hostPort ?? undefined,
+        hostIp: p.hostIP ?? undefined,
+        protocol: p.protocol === "UDP" ? "udp" : "tcp",
+      }))
+    ),
+    labels: meta.labels ?? undefined,
+    raw: { runtime: "kubernetes", data: pod },
+  };
+}
+
+/** Client‐node deserializes timestamps to Dates; normalize to ISO strings. */
+function toIsoString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") return value;
+  return new Date().toISOString();
+}
+
+/** `true` if the pod’s Ready condition is True. */
+function isPodReady(pod: any): boolean {
+  return (pod?.status?.conditions ?? []).some((c: any) =>
+    c.type === "Ready" && c.status === "True"
+  );
+}
+
+/** Multipliers for Kubernetes quantity suffixes. */
+const QUANTITY_SUFFIXES: Record<string, number> = {
+  n: 1e-9,
+  u: 1e-6,
+  m: 1e-3,
+  "": 1,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+  E: 1e18,
+  Ki: 2 ** 10,
+  Mi: 2 ** 20,
+  Gi: 2 ** 30,
+  Ti: 2 ** 40,
+  Pi: 2 ** 50,
+  Ei: 2 ** 60,
+};
+
+/** Parse a quantity such as "250m", "12345678n" or "512Mi" into a number. */
+function parseQuantity(quantity: string): number {
+  const match = /^([+-]?[\d.]+(?:[eE][+-]?\d+)?)([a-zA-Z]*)$/.exec(quantity);
+  const scale = match ? QUANTITY_SUFFIXES[match[2]] : undefined;
+  if (!match || scale === undefined) {
+    throw new RuntimeError(`Invalid Kubernetes quantity "${quantity}"`, {
+      runtime: "kubernetes",
+    });
+  }
+  return Number(match[1]) * scale;
+}
+
+/** The summed memory limit of a pod’s containers; unset if any is unlimited. */
+function podMemoryLimit(pod: any): number | undefined {
+  let total = 0;
+  for (const container of pod.spec?.containers ?? []) {
+    const limit = container.resources?.limits?.memory;
+    if (limit === undefined) return undefined;
+    total += parseQuantity(String(limit));
+  }
+  return total;
+}
+
+/** The capacity a claim requests when `createVolume` gives no size. */
+const DEFAULT_CLAIM_SIZE = "1Gi";
+
+/**
+ * Map a PersistentVolumeClaim into VolumeInfo: its storage class as the
+ * driver, and its bound capacity (else its request) as the size.
+ */
+function claimToInfo(pvc: any, usedBy?: string[]): VolumeInfo {
+  const storage = pvc.status?.capacity?.storage ??
+    pvc.spec?.resources?.requests?.storage;
+  return {
+    name: pvc.metadata?.name,
+    driver: pvc.spec?.storageClassName ?? undefined,
+    sizeBytes: storage !== undefined
+      ? parseQuantity(String(storage))
+      : undefined,
+    labels: pvc.metadata?.labels ?? undefined,
+    createdAt: pvc.metadata?.creationTimestamp
+      ? toIsoString(pvc.metadata.creationTimestamp)
+      : undefined,
+    usedBy,
+    raw: { runtime: "kubernetes", data: pvc },
+  };
+}
+
+/**
+ * Derive normalized events from one watch notification, comparing the pod
+ * against the version we saw before it.
+ */
+function podEvents(phase: string, previous: any, pod: any): RuntimeEvent[] {
+  const info = podToInfo(pod);
+  const event = (
+    type: RuntimeEventType,
+    at: unknown,
+    extra: Partial<RuntimeEvent> = {},
+  ): RuntimeEvent => ({
+    type,
+    id: info.id,
+    timestamp: toIsoString(at),
+    info,
+    ...extra,
+  });
+  const terminated = (t: any) =>
+    event(t.reason === "OOMKilled" ? "oomkilled" : "died", t.finishedAt, {
+      exitCode: t.exitCode,
+    });
+
+  if (phase === "ADDED") {
+    return [event("created", pod.metadata?.creationTimestamp)];
+  }
+  if (phase === "DELETED") {
+    return [event("removed", pod.metadata?.deletionTimestamp)];
+  }
+  if (phase !== "MODIFIED") return [];
+
+  const events: RuntimeEvent[] = [];
+  const before = new Map<string, any>(
+    (previous?.status?.containerStatuses ?? []).map((cs: any) => [cs.name, cs]),
+  );
+  for (const cs of pod.status?.containerStatuses ?? []) {
+    const prev = before.get(cs.name);
+    const restarted = prev !== undefined &&
+      cs.restartCount > prev.restartCount;
+    // A restart between two versions means the previous run ended unseen.
+    if (restarted && cs.lastState?.terminated) {
+      events.push(terminated(cs.lastState.terminated));
+    }
+    if (cs.state?.running && (restarted || !prev?.state?.running)) {
+      events.push(event("started", cs.state.running.startedAt));
+    }
+    if (cs.state?.terminated && (restarted || !prev?.state?.terminated)) {
+      events.push(terminated(cs.state.terminated));
+    }
+  }
+  if (previous && isPodReady(previous) !== isPodReady(pod)) {
+    events.push(
+      event("health_changed", undefined, {
+        health: isPodReady(pod) ? "healthy" : "unhealthy",
+      }),
+    );
+  }
+  return events;
+}
+
+/** Pods only know Always/OnFailure/Never. */
+const POD_RESTART_POLICIES: Record<RestartPolicy, string> = {
+  "no": "Never",
+  "always": "Always",
+  "on-failure": "OnFailure",
+  "unless-stopped": "Always",
+};
+
+const IMAGE_PULL_POLICIES: Record<PullPolicy, string> = {
+  "always": "Always",
+  "if-not-present": "IfNotPresent",
+  "never": "Never",
+};
+
+/** Translate a ContainerSpec into a single‐container Pod. */
+function toPod(spec: ContainerSpec): k8s.V1Pod {
+  const volumes: k8s.V1Volume[] = [];
+  const volumeMounts: k8s.V1VolumeMount[] = [];
+  (spec.mounts ?? []).forEach((m, i) => {
+    const name = `mount-${i}`;
+    if (m.type === "bind") {
+      volumes.push({ name, hostPath: { path: m.source! } });
+    } else if (m.type === "volume") {
+      volumes.push({
+        name,
+        persistentVolumeClaim: { claimName: m.source!, readOnly: m.readOnly },
+      });
+    } else {
+      volumes.push({ name, emptyDir: { medium: "Memory" } });
+    }
+    volumeMounts.push({ name, mountPath: m.target, readOnly: m.readOnly });
+  });
+
+  const limits: Record<string, string> = {};
+  if (spec.resources?.cpus !== undefined) {
+    limits.cpu = `${Math.round(spec.resources.cpus * 1000)}m`;
+  }
+  if (spec.resources?.memoryBytes !== undefined) {
+    limits.memory = String(spec.resources.memoryBytes);
+  }
+
+  return {
+    metadata: {
+      name: spec.name,
+      generateName: spec.name ? undefined : "infra-",
+      labels: spec.labels,
+    },
+    spec: {
+      containers: [
+        {
+          name: spec.name ?? "main",
+          image: spec.image,
+          imagePullPolicy: spec.pullPolicy
+            ? IMAGE_PULL_POLICIES[spec.pullPolicy]
+            : undefined,
+          command: spec.command,
+          args: spec.args,
+          env: spec.env
+            ? Object.entries(spec.env).map(([name, value]) => ({ name, value }))
+            : undefined,
+          ports: spec.ports?.map((p) => ({
+            containerPort: p.containerPort,
+            hostPort: p.hostPort,
+            hostIP: p.hostIp,
+            protocol: p.protocol.toUpperCase(),
+          })),
+          resources: Object.keys(limits).length > 0 ? { limits } : undefined,
+          volumeMounts: volumeMounts.length > 0 ? volumeMounts : undefined,
+        },
+      ],
+      volumes: volumes.length > 0 ? volumes : undefined,
+      restartPolicy: spec.restartPolicy
+        ? POD_RESTART_POLICIES[spec.restartPolicy]
+        : undefined,
+    },
+  };
+}
+
+/** The workload kinds an instance ID can name, besides bare pods. */
+type WorkloadKind = "deployment" | "statefulset" | "daemonset" | "job";
+
+/** `kind/name` prefixes accepted in instance IDs, as kubectl spells them. */
+const KIND_ALIASES: Record<string, WorkloadKind | "pod"> = {
+  pod: "pod",
+  pods: "pod",
+  po: "pod",
+  deployment: "deployment",
+  deployments: "deployment",
+  deploy: "deployment",
+  statefulset: "statefulset",
+  statefulsets: "statefulset",
+  sts: "statefulset",
+  daemonset: "daemonset",
+  daemonsets: "daemonset",
+  ds: "daemonset",
+  job: "job",
+  jobs: "job",
+};
+
+/** Records a stopped workload’s replica count so `start` can restore it. */
+const PREVIOUS_REPLICAS_ANNOTATION = "infra-client/previous-replicas";
+
+/**
+ * DaemonSets can’t scale, so `stop` pins them to a node label nothing
+ * carries, and `start` removes it again.
+ */
+const STOPPED_NODE_SELECTOR = "infra-client/stopped";
+
+/** Changing this template annotation is how `kubectl rollout restart` works. */
+const RESTARTED_AT_ANNOTATION = "kubectl.kubernetes.io/restartedAt";
+
+/**
+ * Split an instance ID into kind and name.  A bare name is a pod, so IDs
+ * returned by `list` keep working; `deploy/web`, `sts/db` etc. address the
+ * workload itself.
+ */
+function parseInstanceId(
+  id: string,
+): { kind: WorkloadKind | "pod"; name: string } {
+  const slash = id.indexOf("/");
+  if (slash === -1) return { kind: "pod", name: id };
+  const kind = KIND_ALIASES[id.slice(0, slash).toLowerCase()];
+  if (!kind) {
+    throw new RuntimeError(`Unsupported Kubernetes kind in "${id}"`, {
+      runtime: "kubernetes",
+    });
+  }
+  return { kind, name: id.slice(slash + 1) };
+}
+
+/**
+ * Summarize a workload’s rollout the way `kubectl rollout status` judges it:
+ * complete once the controller has observed the latest generation and every
+ * desired replica is updated and available.  Jobs don’t roll out.
+ */
+function rolloutStatus(
+  kind: WorkloadKind,
+  obj: any,
+): RolloutStatus | undefined {
+  const status = obj.status ?? {};
+  const observed = (status.observedGeneration ?? 0) >=
+    (obj.metadata?.generation ?? 0);
+  switch (kind) {
+    case "deployment": {
+      const desired = obj.spec?.replicas ?? 1;
+      const updated = status.updatedReplicas ?? 0;
+      const available = status.availableReplicas ?? 0;
+      const stalled = (status.conditions ?? []).find((c: any) =>
+        c.type === "Progressing" && c.reason === "ProgressDeadlineExceeded"
+      );
+      return {
+        desiredReplicas: desired,
+        updatedReplicas: updated,
+        readyReplicas: status.readyReplicas ?? 0,
+        availableReplicas: available,
+        complete: observed && updated === desired &&
+          (status.replicas ?? 0) === updated && available === desired,
+        message: stalled?.message,
+      };
+    }
+    case "statefulset": {
+      const desired = obj.spec?.replicas ?? 1;
+      const ready = status.readyReplicas ?? 0;
+      return {
+        desiredReplicas: desired,
+        updatedReplicas: status.updatedReplicas ?? 0,
+        readyReplicas: ready,
+        availableReplicas: status.availableReplicas ?? ready,
+        complete: observed && ready === desired &&
+          (!status.updateRevision ||
+            status.updateRevision === status.currentRevision),
+      };
+    }
+    case "daemonset": {
+      const desired = status.desiredNumberScheduled ?? 0;
+      const updated = status.updatedNumberScheduled ?? 0;
+      const available = status.numberAvailable ?? 0;
+      return {
+        desiredReplicas: desired,
+        updatedReplicas: updated,
+        readyReplicas: status.numberReady ?? 0,
+        availableReplicas: available,
+        complete: observed && updated === desired && available === desired,
+      };
+    }
+    case "job":
+      return undefined;
+  }
+}
+
+/** Normalize a Job: suspended jobs are paused, finished ones have exited. */
+function jobState(job: any): { state: ContainerState; exitCode?: number } {
+  const conditions: any[] = job.status?.conditions ?? [];
+  const finished = (type: string) =>
+    conditions.some((c) => c.type === type && c.status === "True");
+  if (finished("Complete")) return { state: "exited", exitCode: 0 };
+  if (finished("Failed")) return { state: "exited", exitCode: 1 };
+  if (job.spec?.suspend) return { state: "paused" };
+  return { state: (job.status?.active ?? 0) > 0 ? "running" : "created" };
+}
+
+/**
+ * Map a workload into ContainerInfo.  A workload scaled to zero has
+ * exited; otherwise it is running as soon as any replica is ready.
+ */
+function workloadToInfo(kind: WorkloadKind, obj: any): ContainerInfo {
+  const meta = obj.metadata ?? {};
+  const rollout = rolloutStatus(kind, obj);
+  let state: ContainerState;
+  let status: string;
+  let exitCode: number | undefined;
+  if (rollout) {
+    state = rollout.desiredReplicas === 0
+      ? "exited"
+      : rollout.readyReplicas > 0
+      ? "running"
+      : "created";
+    status = rollout.complete
+      ? `${rollout.readyReplicas}/${rollout.desiredReplicas} ready`
+      : `rolling out: ${rollout.updatedReplicas}/${rollout.desiredReplicas} updated`;
+  } else {
+    ({ state, exitCode } = jobState(obj));
+    status = `${obj.status?.succeeded ?? 0} succeeded, ${
+      obj.status?.failed ?? 0
+    } failed`;
+  }
+  return {
+    id: `${kind}/${meta.name ?? ""}`,
+    name: meta.name ?? undefined,
+    state,
+    status,
+    image: obj.spec?.template?.spec?.containers?.[0]?.image,
+    createdAt: meta.creationTimestamp
+      ? toIsoString(meta.creationTimestamp)
+      : undefined,
+    exitCode,
+    ready: rollout
+      ? rollout.complete && rollout.desiredReplicas > 0
+      : undefined,
+    labels: meta.labels ?? undefined,
+    rollout,
+    raw: { runtime: "kubernetes", data: obj },
+  };
+}
+
+/** The calls every workload kind supports, bound to one namespace. */
+interface WorkloadApi {
+  read(name: string): Promise<any>;
+  create(body: any): Promise<any>;
+  replace(name: string, body: any): Promise<any>;
+  delete(name: string): Promise<unknown>;
+}
+
+/** An equality‐based label selector matching every given label. */
+function toLabelSelector(
+  labels: Record<string, string> | undefined,
+): string | undefined {
+  return labels
+    ? Object.entries(labels).map(([k, v]) => `${k}=${v}`).join(",")
+    : undefined;
+}
 
 /**
  * KubernetesClient implements our unified interface using
- * @kubernetes/client-node’s CoreV1Api.  Every method maps
+ * @kubernetes/client-node’s CoreV1Api, plus AppsV1Api/BatchV1Api for
+ * workload IDs such as `deploy/web`.  Every method maps
  * Kubernetes payloads into ContainerInfo / ActionResponse / LogsResponse.
  */
 export class KubernetesClient extends AbstractClient {
+  readonly runtime = "kubernetes";
+  private kc: k8s.KubeConfig;
   private coreV1: k8s.CoreV1Api;
+  private appsV1: k8s.AppsV1Api;
+  private batchV1: k8s.BatchV1Api;
+  private customObjects: k8s.CustomObjectsApi;
   private namespace: string;
 
-  constructor(opts: CreateOptions = {}) {
+  /**
+   * Connect with, in order of precedence:
+   * - `apiServer` (or an `https://` `endpoint`) plus credentials — `token`, a client certificate
+   *   (`certFile`/`certData` with `keyFile`/`keyData`) or an `exec`
+   *   credential plugin — trusting `caFile`/`caData`.  TLS is verified
+   *   unless `skipTLSVerify` is set;
+   * - the kubeconfig at `kubeconfig`;
+   * - `$KUBECONFIG`, `~/.kube/config`, then the in‐cluster service account.
+   *
+   * `context` selects a kubeconfig context, and `namespace` overrides the
+   * context’s namespace (itself defaulting to "default").
+   */
+  constructor(opts: ClientOptions = {}) {
     super();
-    this.namespace = (opts.namespace as string) ?? "default";
 
     const kc = new k8s.KubeConfig();
-    const apiServer = opts.apiServer as string | undefined;
-    const token = opts.token as string | undefined;
+    const apiServer = (opts.apiServer ?? opts.endpoint) as string | undefined;
 
-    if (apiServer && token) {
+    if (apiServer) {
       const clusterName = "infra-client-cluster";
       const userName = "infra-client-user";
       const contextName = "infra-client-context";
@@ -36,13 +577,20 @@ export class KubernetesClient extends AbstractClient {
           {
             name: clusterName,
             server: apiServer,
-            skipTLSVerify: true,
+            caFile: opts.caFile as string | undefined,
+            caData: opts.caData as string | undefined,
+            skipTLSVerify: opts.skipTLSVerify === true,
           },
         ],
         users: [
           {
             name: userName,
-            token: token,
+            token: opts.token as string | undefined,
+            certFile: opts.certFile as string | undefined,
+            certData: opts.certData as string | undefined,
+            keyFile: opts.keyFile as string | undefined,
+            keyData: opts.keyData as string | undefined,
+            exec: opts.exec,
           },
         ],
         contexts: [
@@ -50,27 +598,101 @@ export class KubernetesClient extends AbstractClient {
             name: contextName,
             cluster: clusterName,
             user: userName,
-            namespace: this.namespace,
           },
         ],
         currentContext: contextName,
       });
+    } else if (opts.kubeconfig) {
+      kc.loadFromFile(opts.kubeconfig as string);
     } else {
-      kc.loadFromCluster();
+      kc.loadFromDefault();
     }
 
+    const context = opts.context as string | undefined;
+    if (context) {
+      if (!kc.getContextObject(context)) {
+        throw new RuntimeError(`Unknown kubeconfig context "${context}"`, {
+          runtime: this.runtime,
+        });
+      }
+      kc.setCurrentContext(context);
+    }
+    this.namespace = (opts.namespace as string) ??
+      kc.getContextObject(kc.getCurrentContext())?.namespace ?? "default";
+
+    this.kc = kc;
     this.coreV1 = kc.makeApiClient(k8s.CoreV1Api);
+    this.appsV1 = kc.makeApiClient(k8s.AppsV1Api);
+    this.batchV1 = kc.makeApiClient(k8s.BatchV1Api);
+    this.customObjects = kc.makeApiClient(k8s.CustomObjectsApi);
+  }
+
+  /**
+   * Pods and the workload kinds IDs may name.  Several operations apply
+   * only to some of them, and signals don’t exist in Kubernetes.
+   */
+  override capabilities(): Capabilities {
+    return {
+      ...super.capabilities(),
+      features: [
+        "logs.follow",
+        "logs.since",
+        "logs.timestamps",
+        "logs.streams",
+        "exec.tty",
+        "exec.stdin",
+        "stats.stream",
+        "create.pull",
+      ],
+      kinds: [...new Set(Object.values(KIND_ALIASES))],
+      limitations: {
+        start: "workloads only; a stopped (deleted) pod cannot be started",
+        restart: "deployments, statefulsets and daemonsets only",
+        kill: "pods only, with SIGKILL or SIGTERM",
+        streamLogs: "stdout and stderr cannot be followed separately",
+        stats: "needs metrics-server; CPU and memory only",
+      },
+    };
+  }
+
+  /** The API server’s version, as `kubectl version` shows. */
+  override async version(): Promise<RuntimeVersion> {
+    try {
+      const info = await this.kc.makeApiClient(k8s.VersionApi).getCode();
+      const [os, arch] = info.platform.split("/");
+      return {
+        version: info.gitVersion,
+        apiVersion: `${info.major}.${info.minor}`,
+        os,
+        arch,
+        raw: info,
+      };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "version");
+    }
   }
 
-  /** Create a Pod in Kubernetes. */
+  /**
+   * Create a Pod in Kubernetes.  A raw payload whose `kind` is a workload
+   * (e.g. a Deployment manifest) is created through the matching API.
+   */
   override async create(
     options: CreateOptions,
   ): Promise<ContainerInfo> {
     try {
-      const podReq = options as {
-        metadata: k8s.V1ObjectMeta & { name: string };
-        spec: k8s.V1PodSpec;
-      };
+      if (isRawCreateOptions(options)) {
+        const kind = KIND_ALIASES[String(options.raw.kind ?? "").toLowerCase()];
+        if (kind && kind !== "pod") {
+          const created = await this.workloadApi(kind).create(options.raw);
+          return workloadToInfo(kind, created);
+        }
+      }
+      const podReq = isRawCreateOptions(options)
+        ? options.raw as {
+          metadata: k8s.V1ObjectMeta & { name: string };
+          spec: k8s.V1PodSpec;
+        }
+        : toPod(parseContainerSpec(options));
       const resp = await this.coreV1.createNamespacedPod({
         namespace: this.namespace,
         body: {
@@ -79,126 +701,878 @@ export class KubernetesClient extends AbstractClient {
         },
       });
       // Depending on the client, resp may be { body: V1Pod } or resp.body
-      const pod = (resp as any).body ?? resp;
-      const podMeta = (pod as any).metadata ?? {};
-      const podStatus = (pod as any).status ?? {};
-
-      return {
-        id: podMeta.name ?? "",
-        name: podMeta.name ?? undefined,
-        status: podStatus.phase ?? "Unknown",
-        image:
-          Array.isArray(pod.spec?.containers) && pod.spec.containers.length > 0
-            ? (pod.spec.containers[0].image as string)
-            : undefined,
-        createdAt: podMeta.creationTimestamp ?? undefined,
-        raw: pod,
-      };
-    } catch (err: any) {
-      throw new Error(
-        `Kubernetes create failed: ${err?.message ?? String(err)}`,
-      );
+      return podToInfo((resp as any).body ?? resp);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "create");
     }
   }
 
-  /** Inspect (get) a single Pod’s details. */
-  override async inspect(name: string): Promise<ContainerInfo> {
+  /** Inspect a Pod, or a workload along with its rollout status. */
+  override async inspect(id: string): Promise<ContainerInfo> {
     try {
+      const { kind, name } = parseInstanceId(id);
+      if (kind !== "pod") {
+        return workloadToInfo(kind, await this.workloadApi(kind).read(name));
+      }
       const resp = await this.coreV1.readNamespacedPod({
         name: name,
         namespace: this.namespace,
       });
-      const pod = (resp as any).body ?? resp;
-      const podMeta = (pod as any).metadata ?? {};
-      const podStatus = (pod as any).status ?? {};
+      return podToInfo((resp as any).body ?? resp);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect ${id}`);
+    }
+  }
+
+  /**
+   * Start a stopped workload: restore the replica count saved by `stop`,
+   * lift a DaemonSet’s stop selector, or resume a suspended Job.  Bare pods
+   * cannot be started again once deleted.
+   */
+  override async start(id: string): Promise<ActionResponse> {
+    try {
+      const { kind, name } = parseInstanceId(id);
+      if (kind === "pod") {
+        throw new UnimplementedError(`${this.constructor.name}.start (pods)`);
+      }
+      await this.updateWorkload(kind, name, (obj) => {
+        const running = () =>
+          new ConflictError(`${id} is not stopped`, { runtime: this.runtime });
+        switch (kind) {
+          case "deployment":
+          case "statefulset": {
+            if ((obj.spec.replicas ?? 1) > 0) throw running();
+            const annotations = obj.metadata.annotations ?? {};
+            obj.spec.replicas = Number(
+              annotations[PREVIOUS_REPLICAS_ANNOTATION] ?? 1,
+            );
+            delete annotations[PREVIOUS_REPLICAS_ANNOTATION];
+            break;
+          }
+          case "daemonset": {
+            const selector = obj.spec.template.spec.nodeSelector ?? {};
+            if (!(STOPPED_NODE_SELECTOR in selector)) throw running();
+            delete selector[STOPPED_NODE_SELECTOR];
+            break;
+          }
+          case "job":
+            if (!obj.spec.suspend) throw running();
+            obj.spec.suspend = false;
+            break;
+        }
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `start ${id}`);
+    }
+  }
+
+  /**
+   * Stop an instance.  Deployments and StatefulSets scale to zero (saving
+   * the replica count for `start`), DaemonSets are unscheduled from every
+   * node, Jobs are suspended, and bare Pods are deleted.  `timeoutSeconds`
+   * overrides a bare pod’s termination grace period; a workload’s pods
+   * keep the one in their template.
+   */
+  override async stop(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const { kind, name } = parseInstanceId(id);
+      if (kind === "pod") {
+        await this.coreV1.deleteNamespacedPod({
+          name: name,
+          namespace: this.namespace,
+          gracePeriodSeconds: options.timeoutSeconds,
+        });
+        return { success: true };
+      }
+      await this.updateWorkload(kind, name, (obj) => {
+        const stopped = () =>
+          new ConflictError(`${id} is already stopped`, {
+            runtime: this.runtime,
+          });
+        switch (kind) {
+          case "deployment":
+          case "statefulset": {
+            const replicas = obj.spec.replicas ?? 1;
+            if (replicas === 0) throw stopped();
+            obj.metadata.annotations = {
+              ...obj.metadata.annotations,
+              [PREVIOUS_REPLICAS_ANNOTATION]: String(replicas),
+            };
+            obj.spec.replicas = 0;
+            break;
+          }
+          case "daemonset": {
+            const pod = obj.spec.template.spec;
+            if (STOPPED_NODE_SELECTOR in (pod.nodeSelector ?? {})) {
+              throw stopped();
+            }
+            pod.nodeSelector = {
+              ...pod.nodeSelector,
+              [STOPPED_NODE_SELECTOR]: "true",
+            };
+            break;
+          }
+          case "job":
+            if (obj.spec.suspend) throw stopped();
+            obj.spec.suspend = true;
+            break;
+        }
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `stop ${id}`);
+    }
+  }
+
+  /**
+   * Restart a workload the way `kubectl rollout restart` does, by stamping
+   * its pod template so the controller replaces every pod.  The old pods
+   * get their template’s grace period, so `options` are not used.
+   */
+  override async restart(
+    id: string,
+    _options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const { kind, name } = parseInstanceId(id);
+      if (kind === "pod" || kind === "job") {
+        throw new UnimplementedError(
+          `${this.constructor.name}.restart (${kind}s)`,
+        );
+      }
+      await this.updateWorkload(kind, name, (obj) => {
+        const template = obj.spec.template;
+        template.metadata = {
+          ...template.metadata,
+          annotations: {
+            ...template.metadata?.annotations,
+            [RESTARTED_AT_ANNOTATION]: new Date().toISOString(),
+          },
+        };
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `restart ${id}`);
+    }
+  }
 
+  /**
+   * List Pods in the current namespace.  Labels and name become selectors
+   * and paging uses the API server’s `limit`/`continue`; status and image
+   * are filtered afterwards, so such pages may come back short.
+   */
+  override async listPage(options: ListOptions = {}): Promise<ContainerPage> {
+    try {
+      const resp = await this.coreV1.listNamespacedPod({
+        namespace: this.namespace,
+        labelSelector: toLabelSelector(options.labels),
+        fieldSelector: options.name !== undefined
+          ? `metadata.name=${options.name}`
+          : undefined,
+        limit: options.limit,
+        _continue: options.continueToken,
+      });
+      const podList = (resp as any).body ?? resp;
+      const items: ContainerInfo[] = (podList.items ?? []).map(podToInfo);
       return {
-        id: podMeta.name ?? "",
-        name: podMeta.name ?? undefined,
-        status: podStatus.phase ?? "Unknown",
-        image:
-          Array.isArray(pod.spec?.containers) && pod.spec.containers.length > 0
-            ? (pod.spec.containers[0].image as string)
-            : undefined,
-        createdAt: podMeta.creationTimestamp ?? undefined,
-        raw: pod,
+        items: items.filter((info) =>
+          matchesListOptions(info, {
+            status: options.status,
+            image: options.image,
+          })
+        ),
+        continueToken: podList.metadata?._continue || undefined,
       };
-    } catch (err: any) {
-      throw new Error(
-        `Kubernetes inspect failed: ${err?.message ?? String(err)}`,
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list");
+    }
+  }
+
+  /**
+   * Delete a Pod, or a workload along with the pods it owns.  `force`
+   * deletes the pods without a grace period, like `kubectl delete --force
+   * --grace-period=0`.  Volume claims are never deleted.
+   */
+  override async remove(
+    id: string,
+    options: RemoveOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const { kind, name } = parseInstanceId(id);
+      if (kind === "pod") {
+        return await this.stop(id, {
+          timeoutSeconds: options.force ? 0 : undefined,
+        });
+      }
+      const api = this.workloadApi(kind);
+      const selector = options.force
+        ? (await api.read(name)).spec?.selector?.matchLabels
+        : undefined;
+      await api.delete(name);
+      if (selector) {
+        await this.coreV1.deleteCollectionNamespacedPod({
+          namespace: this.namespace,
+          labelSelector: toLabelSelector(selector),
+          gracePeriodSeconds: 0,
+        });
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove ${id}`);
+    }
+  }
+
+  /**
+   * Kubernetes cannot signal a container, so a pod is “killed” by deleting
+   * it: at once for SIGKILL, with its grace period for SIGTERM.  Other
+   * signals, and workloads, are not supported.
+   */
+  override async kill(
+    id: string,
+    signal: Signal = "SIGKILL",
+  ): Promise<ActionResponse> {
+    try {
+      const { name: signalName } = parseSignal(signal);
+      const { kind } = parseInstanceId(id);
+      if (kind !== "pod" || !["SIGKILL", "SIGTERM"].includes(signalName)) {
+        throw new UnimplementedError(
+          `${this.constructor.name}.kill (${
+            kind === "pod" ? signalName : `${kind}s`
+          })`,
+        );
+      }
+      return await this.stop(id, {
+        timeoutSeconds: signalName === "SIGKILL" ? 0 : undefined,
+      });
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `kill ${id}`);
+    }
+  }
+
+  /**
+   * Stream logs for a Pod (a workload’s logs come from one of its pods).
+   * Without `options.container`, every container in the pod is read and
+   * lines are tagged with the container they came from.  Following uses the
+   * streaming `Log` helper; one‐shot reads use the API.
+   */
+  override async *streamLogs(
+    id: string,
+    options: LogOptions = {},
+  ): AsyncGenerator<LogLine> {
+    try {
+      const name = await this.resolvePod(id);
+      const stream = options.stream ?? "both";
+      if (options.follow && stream !== "both") {
+        throw new RuntimeError(
+          "Kubernetes cannot follow stdout or stderr separately",
+          { runtime: this.runtime },
+        );
+      }
+
+      let containers: string[];
+      if (options.container) {
+        containers = [options.container];
+      } else {
+        const resp = await this.coreV1.readNamespacedPod({
+          name,
+          namespace: this.namespace,
+        });
+        const pod = (resp as any).body ?? resp;
+        containers = (pod.spec?.containers ?? []).map((c: any) => c.name);
+      }
+      const tagged = containers.length > 1;
+      const sinceSeconds = options.since !== undefined
+        ? Math.max(
+          0,
+          Math.floor(Date.now() / 1000) - sinceToUnixSeconds(options.since),
+        )
+        : undefined;
+
+      const sources = containers.map((container) => {
+        const lineOpts = {
+          timestamps: options.timestamps,
+          container: tagged ? container : undefined,
+        };
+        return options.follow
+          ? toLogLines(
+            this.followContainerLog(name, container, {
+              tailLines: options.tail,
+              sinceSeconds,
+              timestamps: options.timestamps,
+            }),
+            lineOpts,
+          )
+          : toLogLines(
+            this.readContainerLog(name, container, stream, {
+              tailLines: options.tail,
+              sinceSeconds,
+              timestamps: options.timestamps,
+            }),
+            lineOpts,
+          );
+      });
+
+      if (options.follow) {
+        yield* mergeAsyncIterables(sources);
+      } else {
+        for (const source of sources) yield* source;
+      }
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `logs ${id}`);
+    }
+  }
+
+  /** Read one container’s existing logs in a single request. */
+  private async *readContainerLog(
+    name: string,
+    container: string,
+    stream: LogStream,
+    opts: PodLogQuery,
+  ): AsyncGenerator<OutputChunk> {
+    const resp = await this.coreV1.readNamespacedPodLog({
+      name,
+      namespace: this.namespace,
+      container,
+      // The split‐stream query only exists on newer API servers; without
+      // it the server returns both streams combined.
+      stream: stream === "both"
+        ? undefined
+        : stream === "stdout"
+        ? "Stdout"
+        : "Stderr",
+      ...opts,
+    });
+    // Some clients return a string directly, others attach to .body
+    const text = (resp as any).body ?? resp;
+    yield {
+      stream: stream === "both" ? undefined : stream,
+      data: String(text),
+    };
+  }
+
+  /** Follow one container’s logs until the consumer stops reading. */
+  private followContainerLog(
+    name: string,
+    container: string,
+    opts: PodLogQuery,
+  ): AsyncIterable<OutputChunk> {
+    let controller: AbortController | undefined;
+    const queue = new AsyncQueue<OutputChunk>(() => controller?.abort());
+    const sink = new Writable({
+      write(chunk, _encoding, callback) {
+        queue.push({ data: new Uint8Array(chunk) });
+        callback();
+      },
+      final(callback) {
+        queue.end();
+        callback();
+      },
+    });
+    new k8s.Log(this.kc)
+      .log(this.namespace, name, container, sink, { ...opts, follow: true })
+      .then((c) => (controller = c), (err) => queue.fail(err));
+    return queue;
+  }
+
+  /**
+   * Run a command in one of the pod’s containers over the exec websocket.
+   * The exec API has no env or working‐directory fields, so those are
+   * applied by wrapping the command in `env` and `sh -c 'cd …'`.
+   */
+  override async exec(
+    id: string,
+    options: ExecOptions,
+  ): Promise<ExecResult> {
+    try {
+      const name = await this.resolvePod(id);
+      const container = options.container ?? await this.defaultContainer(name);
+      let command = options.cmd;
+      if (options.env) {
+        const assignments = Object.entries(options.env).map(
+          ([key, value]) => `${key}=${value}`,
+        );
+        command = ["env", ...assignments, ...command];
+      }
+      if (options.workdir) {
+        command = [
+          "sh",
+          "-c",
+          'cd "$0" && exec "$@"',
+          options.workdir,
+          ...command,
+        ];
+      }
+
+      const sinks = execSinks(options);
+      const status = await new Promise<k8s.V1Status>((resolve, reject) => {
+        new k8s.Exec(this.kc)
+          .exec(
+            this.namespace,
+            name,
+            container,
+            command,
+            sinks.stdout,
+            sinks.stderr,
+            options.stdin ?? null,
+            options.tty ?? false,
+            resolve,
+          )
+          .catch(reject);
+      });
+
+      const exitCause = status.details?.causes?.find((c) =>
+        c.reason === "ExitCode"
       );
+      const exitCode = status.status === "Success"
+        ? 0
+        : Number(exitCause?.message ?? 1);
+      return { exitCode, ...sinks.result() };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `exec ${id}`);
     }
   }
 
   /**
-   * Delete (stop/remove) a Pod.  Returns whether it succeeded.
+   * Copy a local file or directory in, like `kubectl cp`: a tar stream fed
+   * to `tar` in the container, which must therefore have one.
    */
-  override async stop(name: string): Promise<ActionResponse> {
+  override async copyTo(
+    id: string,
+    localPath: string,
+    remotePath: string,
+  ): Promise<ActionResponse> {
     try {
-      const resp = await this.coreV1.deleteNamespacedPod({
-        name: name,
+      const test = await this.exec(id, { cmd: ["test", "-d", remotePath] });
+      const { dir, name } = remoteDestination(
+        remotePath,
+        localPath,
+        test.exitCode === 0,
+      );
+      const result = await this.exec(id, {
+        cmd: ["tar", "-x", "-f", "-", "-C", dir],
+        stdin: Readable.from(packTar(localPath, name)),
+      });
+      if (result.exitCode !== 0) {
+        throw new RuntimeError(`tar failed: ${result.stderr?.trim()}`, {
+          runtime: this.runtime,
+        });
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `copy ${localPath} to ${id}:${remotePath}`,
+      );
+    }
+  }
+
+  /** Copy a file or directory out through `tar` in the container. */
+  override async copyFrom(
+    id: string,
+    remotePath: string,
+    localPath: string,
+  ): Promise<ActionResponse> {
+    try {
+      const target = await localDestination(localPath, remotePath);
+      const output = new PassThrough();
+      const [result] = await Promise.all([
+        this.exec(id, {
+          cmd: [
+            "tar",
+            "-c",
+            "-f",
+            "-",
+            "-C",
+            posix.dirname(remotePath),
+            posix.basename(remotePath),
+          ],
+          stdout: output,
+        }).finally(() => output.end()),
+        unpackTar(output, target),
+      ]);
+      if (result.exitCode !== 0) {
+        throw new RuntimeError(`tar failed: ${result.stderr?.trim()}`, {
+          runtime: this.runtime,
+        });
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `copy ${id}:${remotePath} to ${localPath}`,
+      );
+    }
+  }
+
+  /**
+   * Sample CPU and memory from the metrics.k8s.io API, which needs
+   * metrics‐server (or an equivalent) in the cluster and reports nothing
+   * else.  Its CPU figure is already a rate, averaged over the server’s own
+   * window (typically 15s or more).  A workload’s sample sums its pods, and
+   * the memory limit is the sum of the containers’ limits, when all have one.
+   */
+  override stats(
+    id: string,
+    options: StatsOptions = {},
+  ): AsyncIterable<ResourceStats> {
+    return pollStats(async () => {
+      try {
+        return await this.sampleMetrics(id);
+      } catch (err: unknown) {
+        throw toRuntimeError(err, this.runtime, `stats ${id}`);
+      }
+    }, options);
+  }
+
+  /** One metrics.k8s.io sample for a pod or workload. */
+  private async sampleMetrics(id: string): Promise<ResourceStats> {
+    const { kind, name } = parseInstanceId(id);
+    const namespace = this.namespace;
+    const metricsApi = {
+      group: "metrics.k8s.io",
+      version: "v1beta1",
+      namespace,
+      plural: "pods",
+    };
+    let pods: any[];
+    let metrics: any[];
+    if (kind === "pod") {
+      const resp = await this.coreV1.readNamespacedPod({ name, namespace });
+      pods = [(resp as any).body ?? resp];
+      metrics = [
+        await this.customObjects.getNamespacedCustomObject({
+          ...metricsApi,
+          name,
+        }),
+      ];
+    } else {
+      const workload = await this.workloadApi(kind).read(name);
+      const labelSelector = toLabelSelector(
+        workload.spec?.selector?.matchLabels,
+      );
+      pods = (await this.coreV1.listNamespacedPod({ namespace, labelSelector }))
+        .items ?? [];
+      metrics = ((await this.customObjects.listNamespacedCustomObject({
+        ...metricsApi,
+        labelSelector,
+      })) as any).items ?? [];
+    }
+    if (metrics.length === 0) {
+      throw new NotFoundError(`No metrics reported for ${id}`, {
+        runtime: this.runtime,
+      });
+    }
+
+    const containers = metrics.flatMap((m) => m.containers ?? []);
+    const limits = pods.map(podMemoryLimit);
+    return {
+      timestamp: toIsoString(metrics[0].timestamp),
+      cpuPercent: containers.reduce(
+        (sum, c) => sum + parseQuantity(c.usage?.cpu ?? "0"),
+        0,
+      ) * 100,
+      memoryUsedBytes: containers.reduce(
+        (sum, c) => sum + parseQuantity(c.usage?.memory ?? "0"),
+        0,
+      ),
+      memoryLimitBytes: limits.length > 0 && !limits.includes(undefined)
+        ? limits.reduce((sum, limit) => sum! + limit!, 0)
+        : undefined,
+    };
+  }
+
+  /**
+   * Create a PersistentVolumeClaim (ReadWriteOnce) of `sizeBytes`, 1Gi by
+   * default, from the `driver` storage class or the cluster’s default.
+   */
+  override async createVolume(
+    options: VolumeCreateOptions,
+  ): Promise<VolumeInfo> {
+    try {
+      const resp = await this.coreV1.createNamespacedPersistentVolumeClaim({
         namespace: this.namespace,
+        body: {
+          metadata: { name: options.name, labels: options.labels },
+          spec: {
+            accessModes: ["ReadWriteOnce"],
+            storageClassName: options.driver,
+            resources: {
+              requests: {
+                storage: options.sizeBytes !== undefined
+                  ? String(options.sizeBytes)
+                  : DEFAULT_CLAIM_SIZE,
+              },
+            },
+          },
+        },
       });
-      // `resp` may be { body: V1Status } or resp.body
-      const status = (resp as any).body?.status ?? (resp as any).status ??
-        "Unknown";
-      const success = String(status).toLowerCase() === "success";
-      return { success };
-    } catch (err: any) {
-      return {
-        success: false,
-        error: `Delete failed: ${err?.message ?? String(err)}`,
-      };
+      return claimToInfo((resp as any).body ?? resp, []);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `create volume ${options.name}`);
     }
   }
 
-  /** List all Pods in the current namespace. */
-  override async list(): Promise<ContainerInfo[]> {
+  /** List the namespace’s PersistentVolumeClaims and the pods using them. */
+  override async listVolumes(): Promise<VolumeInfo[]> {
     try {
-      const resp = await this.coreV1.listNamespacedPod({
+      const resp = await this.coreV1.listNamespacedPersistentVolumeClaim({
         namespace: this.namespace,
       });
-      const pods = (resp as any).body?.items ?? resp.items ?? [];
-      return pods.map((pod: any) => {
-        const meta = pod.metadata ?? {};
-        const status = pod.status ?? {};
+      const users = await this.claimUsers();
+      return (((resp as any).body ?? resp).items ?? []).map((pvc: any) =>
+        claimToInfo(pvc, users.get(pvc.metadata?.name) ?? [])
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list volumes");
+    }
+  }
+
+  /** Read a PersistentVolumeClaim. */
+  override async inspectVolume(name: string): Promise<VolumeInfo> {
+    try {
+      const resp = await this.coreV1.readNamespacedPersistentVolumeClaim({
+        name,
+        namespace: this.namespace,
+      });
+      const users = await this.claimUsers();
+      return claimToInfo((resp as any).body ?? resp, users.get(name) ?? []);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect volume ${name}`);
+    }
+  }
+
+  /**
+   * Delete a PersistentVolumeClaim.  One that pods still use is refused
+   * unless `force` is set; even then, Kubernetes’ pvc‐protection keeps the
+   * claim until those pods are gone.
+   */
+  override async removeVolume(
+    name: string,
+    options: RemoveVolumeOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      if (!options.force) {
+        const pods = (await this.claimUsers()).get(name);
+        if (pods?.length) {
+          throw new ConflictError(
+            `Volume ${name} is in use by ${pods.join(", ")}`,
+            { runtime: this.runtime },
+          );
+        }
+      }
+      await this.coreV1.deleteNamespacedPersistentVolumeClaim({
+        name,
+        namespace: this.namespace,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove volume ${name}`);
+    }
+  }
+
+  /**
+   * Delete claims no pod uses.  Claims are never anonymous, so this only
+   * removes anything with `all`.
+   */
+  override async pruneVolumes(
+    options: PruneVolumesOptions = {},
+  ): Promise<PruneResult> {
+    const removed: string[] = [];
+    if (!options.all) return { removed };
+    for (const volume of await this.listVolumes()) {
+      if (volume.usedBy?.length) continue;
+      await this.removeVolume(volume.name);
+      removed.push(volume.name);
+    }
+    return { removed };
+  }
+
+  /** The pods in the namespace using each claim, by claim name. */
+  private async claimUsers(): Promise<Map<string, string[]>> {
+    const resp = await this.coreV1.listNamespacedPod({
+      namespace: this.namespace,
+    });
+    const users = new Map<string, string[]>();
+    for (const pod of ((resp as any).body ?? resp).items ?? []) {
+      for (const volume of pod.spec?.volumes ?? []) {
+        const claim = volume.persistentVolumeClaim?.claimName;
+        if (claim) {
+          const pods = users.get(claim) ?? [];
+          if (!pods.includes(pod.metadata?.name)) pods.push(pod.metadata?.name);
+          users.set(claim, pods);
+        }
+      }
+    }
+    return users;
+  }
+
+  /**
+   * The pod behind an instance ID.  Like `kubectl logs deploy/web`, a
+   * workload resolves to one of its pods, preferring a ready one.
+   */
+  private async resolvePod(id: string): Promise<string> {
+    const { kind, name } = parseInstanceId(id);
+    if (kind === "pod") return name;
+    const workload = await this.workloadApi(kind).read(name);
+    const resp = await this.coreV1.listNamespacedPod({
+      namespace: this.namespace,
+      labelSelector: toLabelSelector(workload.spec?.selector?.matchLabels),
+    });
+    const pods = resp.items ?? [];
+    const pod = pods.find(isPodReady) ?? pods[0];
+    if (!pod?.metadata?.name) {
+      throw new NotFoundError(`No pods found for ${id}`, {
+        runtime: this.runtime,
+      });
+    }
+    return pod.metadata.name;
+  }
+
+  /** Read a workload, apply `mutate`, and write it back. */
+  private async updateWorkload(
+    kind: WorkloadKind,
+    name: string,
+    mutate: (obj: any) => void,
+  ): Promise<void> {
+    const api = this.workloadApi(kind);
+    const obj = await api.read(name);
+    mutate(obj);
+    // The read’s resourceVersion makes a concurrent change fail with 409.
+    await api.replace(name, obj);
+  }
+
+  /** The AppsV1/BatchV1 calls for one workload kind in our namespace. */
+  private workloadApi(kind: WorkloadKind): WorkloadApi {
+    const namespace = this.namespace;
+    // Without it, deleting a Job orphans its pods.
+    const propagationPolicy = "Background";
+    switch (kind) {
+      case "deployment":
         return {
-          id: meta.name ?? "",
-          name: meta.name ?? undefined,
-          status: status.phase ?? "Unknown",
-          image: Array.isArray(pod.spec?.containers) &&
-              pod.spec.containers.length > 0
-            ? (pod.spec.containers[0].image as string)
-            : undefined,
-          createdAt: meta.creationTimestamp ?? undefined,
-          raw: pod,
+          read: (name) =>
+            this.appsV1.readNamespacedDeployment({ name, namespace }),
+          create: (body) =>
+            this.appsV1.createNamespacedDeployment({ namespace, body }),
+          replace: (name, body) =>
+            this.appsV1.replaceNamespacedDeployment({ name, namespace, body }),
+          delete: (name) =>
+            this.appsV1.deleteNamespacedDeployment({
+              name,
+              namespace,
+              propagationPolicy,
+            }),
+        };
+      case "statefulset":
+        return {
+          read: (name) =>
+            this.appsV1.readNamespacedStatefulSet({ name, namespace }),
+          create: (body) =>
+            this.appsV1.createNamespacedStatefulSet({ namespace, body }),
+          replace: (name, body) =>
+            this.appsV1.replaceNamespacedStatefulSet({ name, namespace, body }),
+          delete: (name) =>
+            this.appsV1.deleteNamespacedStatefulSet({
+              name,
+              namespace,
+              propagationPolicy,
+            }),
+        };
+      case "daemonset":
+        return {
+          read: (name) =>
+            this.appsV1.readNamespacedDaemonSet({ name, namespace }),
+          create: (body) =>
+            this.appsV1.createNamespacedDaemonSet({ namespace, body }),
+          replace: (name, body) =>
+            this.appsV1.replaceNamespacedDaemonSet({ name, namespace, body }),
+          delete: (name) =>
+            this.appsV1.deleteNamespacedDaemonSet({
+              name,
+              namespace,
+              propagationPolicy,
+            }),
+        };
+      case "job":
+        return {
+          read: (name) => this.batchV1.readNamespacedJob({ name, namespace }),
+          create: (body) =>
+            this.batchV1.createNamespacedJob({ namespace, body }),
+          replace: (name, body) =>
+            this.batchV1.replaceNamespacedJob({ name, namespace, body }),
+          delete: (name) =>
+            this.batchV1.deleteNamespacedJob({
+              name,
+              namespace,
+              propagationPolicy,
+            }),
         };
-      });
-    } catch (err: any) {
-      throw new Error(`Kubernetes list failed: ${err?.message ?? String(err)}`);
     }
   }
 
-  /** Remove a Pod (alias for stop). */
-  override remove(name: string): Promise<ActionResponse> {
-    return this.stop(name);
+  /** The container `kubectl` would pick: the annotated default, or the first. */
+  private async defaultContainer(name: string): Promise<string> {
+    const resp = await this.coreV1.readNamespacedPod({
+      name,
+      namespace: this.namespace,
+    });
+    const pod = (resp as any).body ?? resp;
+    return pod.metadata?.annotations
+      ?.["kubectl.kubernetes.io/default-container"] ??
+      pod.spec?.containers?.[0]?.name ?? "";
   }
 
-  /** Fetch logs for a Pod (all containers’ stdout+stderr by default). */
-  override async logs(name: string): Promise<LogsResponse> {
+  /**
+   * Stream pod lifecycle events through a `k8s.Watch`.  The watch resumes
+   * from a fresh list’s resourceVersion, so existing pods are not replayed as
+   * “created”; container‐status transitions between successive versions of a
+   * pod become started/died/oomkilled, and Ready flips become health_changed.
+   */
+  override async *watch(
+    filter: WatchFilter = {},
+  ): AsyncGenerator<RuntimeEvent> {
     try {
-      const resp = await this.coreV1.readNamespacedPodLog({
-        name: name,
+      const labelSelector = toLabelSelector(filter.labels);
+      const fieldSelector = filter.ids?.length === 1
+        ? `metadata.name=${filter.ids[0]}`
+        : undefined;
+
+      const resp = await this.coreV1.listNamespacedPod({
         namespace: this.namespace,
-        follow: false,
-        previous: false,
-        timestamps: false,
-      });
-      // Some clients return a string directly, others attach to .body
-      const text = (resp as any).body ?? resp;
-      return { logs: String(text) };
-    } catch (err: any) {
-      return { logs: `Error fetching logs: ${err?.message ?? String(err)}` };
+        labelSelector,
+        fieldSelector,
+      });
+      const podList = (resp as any).body ?? resp;
+      const known = new Map<string, any>();
+      for (const pod of podList.items ?? []) known.set(pod.metadata?.name, pod);
+
+      const queue = new AsyncQueue<RuntimeEvent>(() => controller.abort());
+      const controller = await new k8s.Watch(this.kc).watch(
+        `/api/v1/namespaces/${this.namespace}/pods`,
+        {
+          labelSelector,
+          fieldSelector,
+          resourceVersion: podList.metadata?.resourceVersion,
+        },
+        (phase, pod) => {
+          const name = pod.metadata?.name;
+          const previous = known.get(name);
+          if (phase === "DELETED") known.delete(name);
+          else known.set(name, pod);
+          for (const event of podEvents(phase, previous, pod)) {
+            if (matchesWatchFilter(event, filter)) queue.push(event);
+          }
+        },
+        (err) => (err ? queue.fail(err) : queue.end()),
+      );
+      yield* queue;
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "watch");
     }
   }
 }
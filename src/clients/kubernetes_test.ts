@@ -0,0 +1,122 @@
+// src/clients/kubernetes_test.ts
+
+import { runConformanceSuite } from "../testing/conformance.ts";
+import { KubernetesClient } from "./kubernetes.ts";
+
+const PODS_PATH = "/api/v1/namespaces/default/pods";
+
+/**
+ * A stand‐in for the Kubernetes API server, covering the Pod endpoints
+ * KubernetesClient calls for bare pods: create, read, list (with label and
+ * field selectors) and delete.  Pods are scheduled and running as soon as
+ * they are created, and gone as soon as they are deleted.
+ */
+function mockKubernetesApi(): Deno.HttpServer<Deno.NetAddr> {
+  const pods = new Map<string, any>();
+  const status = (code: number, reason: string, message: string) =>
+    Response.json(
+      {
+        kind: "Status",
+        apiVersion: "v1",
+        status: "Failure",
+        message,
+        reason,
+        code,
+      },
+      { status: code },
+    );
+  const notFound = (name: string) =>
+    status(404, "NotFound", `pods "${name}" not found`);
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (req) => {
+      const url = new URL(req.url);
+      if (req.method === "POST" && url.pathname === PODS_PATH) {
+        const pod = await req.json();
+        const name = pod.metadata.name ??
+          `${pod.metadata.generateName}${crypto.randomUUID().slice(0, 5)}`;
+        if (pods.has(name)) {
+          return status(409, "AlreadyExists", `pods "${name}" already exists`);
+        }
+        const now = new Date().toISOString();
+        pod.metadata = {
+          ...pod.metadata,
+          name,
+          namespace: "default",
+          uid: crypto.randomUUID(),
+          creationTimestamp: now,
+        };
+        pod.status = {
+          phase: "Running",
+          startTime: now,
+          conditions: [{ type: "Ready", status: "True" }],
+          containerStatuses: pod.spec.containers.map((c: any) => ({
+            name: c.name,
+            image: c.image,
+            ready: true,
+            restartCount: 0,
+            state: { running: { startedAt: now } },
+          })),
+        };
+        pods.set(name, pod);
+        return Response.json(pod, { status: 201 });
+      }
+
+      if (req.method === "GET" && url.pathname === PODS_PATH) {
+        const labels = (url.searchParams.get("labelSelector") ?? "")
+          .split(",")
+          .filter(Boolean)
+          .map((term) => term.split("="));
+        const field = url.searchParams.get("fieldSelector");
+        const items = [...pods.values()].filter((pod) =>
+          labels.every(([key, value]) =>
+            pod.metadata.labels?.[key] === value
+          ) &&
+          (!field || field === `metadata.name=${pod.metadata.name}`)
+        );
+        return Response.json({
+          kind: "PodList",
+          apiVersion: "v1",
+          metadata: {},
+          items,
+        });
+      }
+
+      if (!url.pathname.startsWith(`${PODS_PATH}/`)) {
+        return status(
+          404,
+          "NotFound",
+          "the server could not find the resource",
+        );
+      }
+      const name = decodeURIComponent(url.pathname.slice(PODS_PATH.length + 1));
+      const pod = pods.get(name);
+      if (!pod) return notFound(name);
+      switch (req.method) {
+        case "GET":
+          return Response.json(pod);
+        case "DELETE":
+          pods.delete(name);
+          return Response.json(pod);
+        default:
+          return status(405, "MethodNotAllowed", `${req.method} not allowed`);
+      }
+    },
+  );
+  server.unref();
+  return server;
+}
+
+const server = mockKubernetesApi();
+
+runConformanceSuite(
+  () =>
+    new KubernetesClient({
+      apiServer: `http://127.0.0.1:${server.addr.port}`,
+      namespace: "default",
+      // The client only allows plain HTTP (as to `kubectl proxy`) this way.
+      skipTLSVerify: true,
+    }),
+  { name: "KubernetesClient conformance (mock API server)" },
+);
@@ -0,0 +1,56 @@
+// src/clients/list.ts
+
+import {
+  type ContainerInfo,
+  type ContainerPage,
+  type ContainerState,
+  type ListOptions,
+  RuntimeError,
+} from "./types.ts";
+import { matchesLabels } from "./events.ts";
+
+/** The requested states as a list, or undefined for “any state”. */
+export function listStatuses(
+  options: ListOptions,
+): ContainerState[] | undefined {
+  return options.status === undefined ? undefined : [options.status].flat();
+}
+
+/**
+ * `true` if an instance satisfies the given ListOptions criteria.  Clients
+ * call this with only the criteria the engine could not apply itself.
+ */
+export function matchesListOptions(
+  info: ContainerInfo,
+  options: Pick<ListOptions, "labels" | "name" | "status" | "image">,
+): boolean {
+  if (options.name !== undefined && info.name !== options.name) return false;
+  if (options.image !== undefined && info.image !== options.image) {
+    return false;
+  }
+  const statuses = listStatuses(options);
+  if (statuses && !statuses.includes(info.state)) return false;
+  return matchesLabels(info, options.labels);
+}
+
+/**
+ * Page through an already‐filtered list for engines without native paging.
+ * The continue token is simply the offset of the next page.
+ */
+export function paginate(
+  items: ContainerInfo[],
+  options: Pick<ListOptions, "limit" | "continueToken">,
+): ContainerPage {
+  const offset = options.continueToken ? Number(options.continueToken) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new RuntimeError(
+      `Invalid continue token: ${options.continueToken}`,
+    );
+  }
+  if (options.limit === undefined) return { items: items.slice(offset) };
+  const end = offset + options.limit;
+  return {
+    items: items.slice(offset, end),
+    continueToken: end < items.length ? String(end) : undefined,
+  };
+}
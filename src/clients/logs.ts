@@ -0,0 +1,113 @@
+// src/clients/logs.ts
+
+import type { LogLine } from "./types.ts";
+
+/** Seconds per unit for relative `since` durations such as "10m". */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+/**
+ * Resolve a `since` option into a Unix timestamp (seconds).  Accepts a Date,
+ * Unix seconds, an ISO‐8601 timestamp, or a relative duration ("90s", "10m",
+ * "2h", "1d") measured back from now.
+ */
+export function sinceToUnixSeconds(since: string | number | Date): number {
+  if (since instanceof Date) return Math.floor(since.getTime() / 1000);
+  if (typeof since === "number") return Math.floor(since);
+
+  const duration = /^(\d+)([smhd])$/.exec(since.trim());
+  if (duration) {
+    const seconds = Number(duration[1]) * DURATION_UNITS[duration[2]];
+    return Math.floor(Date.now() / 1000) - seconds;
+  }
+  const parsed = Date.parse(since);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid "since" value: ${since}`);
+  }
+  return Math.floor(parsed / 1000);
+}
+
+/** A chunk of raw output, tagged with its stream if the engine knows it. */
+export interface OutputChunk {
+  stream?: "stdout" | "stderr";
+  data: Uint8Array | string;
+}
+
+/**
+ * Split Docker’s multiplexed attach/logs framing into tagged chunks.  Each
+ * frame is `[streamType, 0, 0, 0, size (uint32 BE)]` followed by `size` bytes;
+ * stream type 2 is stderr, anything else stdout.
+ */
+export async function* demuxDockerStream(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<OutputChunk> {
+  let buf = new Uint8Array(0);
+  for await (const chunk of chunks) {
+    const joined = new Uint8Array(buf.length + chunk.length);
+    joined.set(buf);
+    joined.set(chunk, buf.length);
+    buf = joined;
+
+    while (buf.length >= 8) {
+      const size = new DataView(buf.buffer, buf.byteOffset).getUint32(4);
+      if (buf.length < 8 + size) break;
+      yield {
+        stream: buf[0] === 2 ? "stderr" : "stdout",
+        data: buf.slice(8, 8 + size),
+      };
+      buf = buf.subarray(8 + size);
+    }
+  }
+}
+
+/**
+ * Split raw output chunks into LogLines.  Chunks may break anywhere, so a
+ * partial line is buffered per stream until its newline arrives.  When
+ * `timestamps` is set, the leading RFC3339 timestamp each engine prepends is
+ * moved into `LogLine.timestamp`.
+ */
+export async function* toLogLines(
+  chunks: AsyncIterable<OutputChunk>,
+  opts: { timestamps?: boolean; container?: string } = {},
+): AsyncGenerator<LogLine> {
+  const pending = new Map<string, string>();
+  const decoders = new Map<string, TextDecoder>();
+
+  const toLine = (stream: OutputChunk["stream"], text: string): LogLine => {
+    const line: LogLine = { stream, text: text.replace(/\r$/, "") };
+    if (opts.timestamps) {
+      const space = line.text.indexOf(" ");
+      if (space > 0) {
+        line.timestamp = line.text.slice(0, space);
+        line.text = line.text.slice(space + 1);
+      }
+    }
+    if (opts.container) line.container = opts.container;
+    return line;
+  };
+
+  for await (const chunk of chunks) {
+    const key = chunk.stream ?? "";
+    let decoder = decoders.get(key);
+    if (!decoder) {
+      decoder = new TextDecoder();
+      decoders.set(key, decoder);
+    }
+    const text = typeof chunk.data === "string"
+      ? chunk.data
+      : decoder.decode(chunk.data, { stream: true });
+    const parts = ((pending.get(key) ?? "") + text).split("\n");
+    pending.set(key, parts.pop()!);
+    for (const part of parts) yield toLine(chunk.stream, part);
+  }
+
+  for (const [key, rest] of pending) {
+    if (rest.length > 0) {
+      yield toLine(key === "" ? undefined : key as LogLine["stream"], rest);
+    }
+  }
+}
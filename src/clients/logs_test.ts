@@ -0,0 +1,158 @@
+// src/clients/logs_test.ts
+
+import assert from "node:assert/strict";
+import {
+  demuxDockerStream,
+  type OutputChunk,
+  sinceToUnixSeconds,
+  toLogLines,
+} from "./logs.ts";
+import type { LogLine } from "./types.ts";
+
+const encoder = new TextEncoder();
+
+/** One frame of Docker’s multiplexed stream. */
+function frame(streamType: number, text: string): Uint8Array {
+  const data = encoder.encode(text);
+  const out = new Uint8Array(8 + data.length);
+  out[0] = streamType;
+  new DataView(out.buffer).setUint32(4, data.length);
+  out.set(data, 8);
+  return out;
+}
+
+/** Join `bytes` and cut them at `cuts`, as a socket might deliver them. */
+async function* split(
+  bytes: Uint8Array[],
+  cuts: number[],
+): AsyncGenerator<Uint8Array> {
+  const all = new Uint8Array(bytes.reduce((n, b) => n + b.length, 0));
+  let offset = 0;
+  for (const b of bytes) {
+    all.set(b, offset);
+    offset += b.length;
+  }
+  let start = 0;
+  for (const cut of [...cuts, all.length]) {
+    yield all.subarray(start, cut);
+    start = cut;
+  }
+}
+
+/** A demuxed chunk’s bytes as text. */
+function text({ data }: OutputChunk): string {
+  return new TextDecoder().decode(data as Uint8Array);
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of items) out.push(item);
+  return out;
+}
+
+async function* chunks(...items: OutputChunk[]): AsyncGenerator<OutputChunk> {
+  yield* items;
+}
+
+Deno.test("demuxDockerStream splits frames however they arrive", async () => {
+  const frames = [frame(1, "out 1\n"), frame(2, "err 1\n"), frame(1, "")];
+  const expected = [
+    ["stdout", "out 1\n"],
+    ["stderr", "err 1\n"],
+    ["stdout", ""],
+  ];
+  const cases: [string, number[]][] = [
+    ["one chunk", []],
+    ["a chunk per frame", [14, 28]],
+    ["mid‐header", [3, 17]],
+    ["mid‐payload", [10, 20, 30]],
+    ["byte by byte", Array.from({ length: 35 }, (_, i) => i + 1)],
+  ];
+  for (const [label, cuts] of cases) {
+    const demuxed = await collect(demuxDockerStream(split(frames, cuts)));
+    assert.deepEqual(
+      demuxed.map((chunk) => [chunk.stream, text(chunk)]),
+      expected,
+      label,
+    );
+  }
+
+  // Stdin (0) is reported as stdout; a truncated trailing frame is dropped.
+  const truncated = frame(0, "cut short").subarray(0, 12);
+  assert.deepEqual(
+    (await collect(demuxDockerStream(split([frame(0, "in"), truncated], []))))
+      .map((c) => c.stream),
+    ["stdout"],
+  );
+});
+
+Deno.test("toLogLines buffers partial lines per stream", async () => {
+  const cases: [string, OutputChunk[], object, LogLine[]][] = [
+    [
+      "split lines",
+      [
+        { stream: "stdout", data: "one\ntw" },
+        { stream: "stderr", data: "oops\r\n" },
+        { stream: "stdout", data: encoder.encode("o\nthree") },
+      ],
+      {},
+      [
+        { stream: "stdout", text: "one" },
+        { stream: "stderr", text: "oops" },
+        { stream: "stdout", text: "two" },
+        { stream: "stdout", text: "three" },
+      ],
+    ],
+    [
+      "a character split across chunks",
+      [
+        { stream: "stdout", data: encoder.encode("café\n").subarray(0, 4) },
+        { stream: "stdout", data: encoder.encode("café\n").subarray(4) },
+      ],
+      {},
+      [{ stream: "stdout", text: "café" }],
+    ],
+    [
+      "untagged output, timestamps and a container",
+      [{ data: "2024-05-01T10:00:00.000000000Z started\nno-timestamp\n" }],
+      { timestamps: true, container: "web" },
+      [
+        {
+          stream: undefined,
+          text: "started",
+          timestamp: "2024-05-01T10:00:00.000000000Z",
+          container: "web",
+        },
+        { stream: undefined, text: "no-timestamp", container: "web" },
+      ],
+    ],
+  ];
+  for (const [label, input, opts, expected] of cases) {
+    assert.deepEqual(
+      await collect(toLogLines(chunks(...input), opts)),
+      expected,
+      label,
+    );
+  }
+});
+
+Deno.test("sinceToUnixSeconds reads dates, numbers and durations", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const cases: [string | number | Date, number][] = [
+    [new Date("2024-05-01T10:00:00.900Z"), 1714557600],
+    [1714557600.7, 1714557600],
+    ["2024-05-01T10:00:00Z", 1714557600],
+    ["90s", now - 90],
+    [" 10m ", now - 600],
+    ["2h", now - 7200],
+    ["1d", now - 86400],
+  ];
+  for (const [since, expected] of cases) {
+    // Durations count back from “now”, which may tick over mid‐test.
+    assert.ok(
+      Math.abs(sinceToUnixSeconds(since) - expected) <= 1,
+      String(since),
+    );
+  }
+  assert.throws(() => sinceToUnixSeconds("yesterday"), /Invalid "since"/);
+});
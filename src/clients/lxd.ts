@@ -1,46 +1,470 @@
 // src/clients/lxd.ts
 
-import type { ActionResponse, ContainerInfo, CreateOptions } from "./types.ts";
+import {
+  type ActionResponse,
+  type Capabilities,
+  type ClientOptions,
+  ConflictError,
+  type ContainerInfo,
+  type ContainerPage,
+  type ContainerState,
+  type CreateOptions,
+  type ExecOptions,
+  type ExecResult,
+  type ImageInfo,
+  type ListOptions,
+  type NetworkConnectOptions,
+  type NetworkCreateOptions,
+  type NetworkInfo,
+  NotFoundError,
+  type PruneImagesOptions,
+  type PruneResult,
+  type PruneVolumesOptions,
+  type PullOptions,
+  type RemoveImageOptions,
+  type RemoveOptions,
+  type RemoveVolumeOptions,
+  type ResourceStats,
+  RuntimeError,
+  type RuntimeEvent,
+  type RuntimeEventType,
+  type RuntimeVersion,
+  type Signal,
+  type StatsOptions,
+  type StopOptions,
+  UnimplementedError,
+  type VolumeCreateOptions,
+  type VolumeInfo,
+  type WatchFilter,
+} from "./types.ts";
 import {
   Client as TsLxdClient,
   type Container as TsLxdContainer,
+  Process as TsLxdProcess,
 } from "npm:ts-lxd";
 import { AbstractClient } from "./base.ts";
+import {
+  type ContainerSpec,
+  isRawCreateOptions,
+  parseContainerSpec,
+} from "./spec.ts";
+import { AsyncQueue, execSinks } from "./stream.ts";
+import { matchesWatchFilter } from "./events.ts";
+import { toRuntimeError } from "./errors.ts";
+import { matchesListOptions, paginate } from "./list.ts";
+import { type CounterSample, pollStats } from "./stats.ts";
+import { parseSignal } from "./signals.ts";
+import { localEntries } from "./tar.ts";
+import { localDestination, remoteDestination } from "./copy.ts";
+import {
+  type Endpoint,
+  forwardSshSocket,
+  readTlsFiles,
+  resolveEndpoint,
+} from "./endpoint.ts";
+import WebSocket from "ws";
+import { Buffer } from "node:buffer";
+import http from "node:http";
+import https from "node:https";
+import { join, posix } from "node:path";
+
+/** LXD lifecycle actions (minus the instance‐/container‐ prefix) we report. */
+const LXD_EVENT_TYPES: Record<string, RuntimeEventType> = {
+  created: "created",
+  started: "started",
+  stopped: "died",
+  shutdown: "died",
+  deleted: "removed",
+};
+
+/** LXD status strings, normalized. */
+const LXD_STATES: Record<string, ContainerState> = {
+  Running: "running",
+  Frozen: "paused",
+  Stopped: "exited",
+  Error: "dead",
+};
+
+/** LXD records instances that never ran with a Unix‐epoch (or zero) time. */
+function lxdNeverStarted(lastUsedAt: string | undefined): boolean {
+  return !lastUsedAt || lastUsedAt.startsWith("1970-01-01") ||
+    lastUsedAt.startsWith("0001-01-01");
+}
+
+/**
+ * Map LXD instance metadata (and, when fetched, its runtime state) into
+ * ContainerInfo.  Addresses are only known from the state.
+ */
+function lxdToInfo(metadata: any, state?: any): ContainerInfo {
+  const status: string | undefined = metadata.status ?? undefined;
+  const ipAddresses: string[] = [];
+  for (const [device, net] of Object.entries<any>(state?.network ?? {})) {
+    if (device === "lo") continue;
+    for (const addr of net.addresses ?? []) {
+      if (addr.scope === "global") ipAddresses.push(addr.address);
+    }
+  }
+
+  const normalized = status === "Stopped" &&
+      lxdNeverStarted(metadata.last_used_at)
+    ? "created"
+    : LXD_STATES[status ?? ""] ?? "unknown";
+
+  return {
+    id: metadata.name,
+    name: metadata.name,
+    state: normalized,
+    status,
+    image: metadata.config?.["image.description"] ?? undefined,
+    createdAt: metadata.created_at ?? undefined,
+    startedAt: status === "Running" && !lxdNeverStarted(metadata.last_used_at)
+      ? metadata.last_used_at
+      : undefined,
+    ipAddresses: state ? ipAddresses : undefined,
+    // LXD has no health checks; a running instance is as ready as it gets.
+    ready: normalized === "running",
+    labels: lxdLabels(metadata.config),
+    raw: { runtime: "lxd", data: { metadata, state } },
+  };
+}
+
+/** Well‐known simplestreams remotes, as configured by default in `lxc`. */
+const LXD_IMAGE_REMOTES: Record<string, string> = {
+  "ubuntu": "https://cloud-images.ubuntu.com/releases",
+  "ubuntu-daily": "https://cloud-images.ubuntu.com/daily",
+  "images": "https://images.lxd.canonical.com",
+};
+
+/** Split an image ref into its remote (for `remote:alias`) and alias. */
+function lxdImageRef(ref: string): { remote?: string; alias: string } {
+  const colon = ref.indexOf(":");
+  return colon === -1
+    ? { alias: ref }
+    : { remote: ref.slice(0, colon), alias: ref.slice(colon + 1) };
+}
+
+/** Map an LXD image record into ImageInfo. */
+function toImageInfo(img: any): ImageInfo {
+  return {
+    id: img.fingerprint,
+    tags: (img.aliases ?? []).map((a: any) => a.name),
+    digests: [img.fingerprint],
+    sizeBytes: img.size ?? undefined,
+    createdAt: img.created_at ?? undefined,
+    raw: img,
+  };
+}
+
+/** The storage pool volumes live in unless their name says otherwise. */
+const LXD_DEFAULT_POOL = "default";
+
+/**
+ * Split a volume reference into its storage pool and name: `pool/name`, or
+ * a bare name in the default pool.
+ */
+function lxdVolumeRef(ref: string): { pool: string; name: string } {
+  const slash = ref.indexOf("/");
+  return slash === -1
+    ? { pool: LXD_DEFAULT_POOL, name: ref }
+    : { pool: ref.slice(0, slash), name: ref.slice(slash + 1) };
+}
+
+/** The last segment of an API URL, e.g. an instance name from `used_by`. */
+function lxdUrlName(url: string): string {
+  return decodeURIComponent(url.split("?")[0].split("/").pop() ?? url);
+}
+
+/** Unit multipliers for LXD sizes such as "10GiB" or "500MB". */
+const LXD_SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+  Ki: 2 ** 10,
+  Mi: 2 ** 20,
+  Gi: 2 ** 30,
+  Ti: 2 ** 40,
+  Pi: 2 ** 50,
+};
+
+/** Parse an LXD size into bytes; undefined if it isn’t one. */
+function parseLxdSize(size: string | undefined): number | undefined {
+  const match = size?.trim().match(/^(\d+(?:\.\d+)?)\s*([kKMGTP]i?)?B?$/);
+  if (!match) return undefined;
+  const unit = LXD_SIZE_UNITS[match[2] ?? ""];
+  return unit === undefined ? undefined : Math.round(Number(match[1]) * unit);
+}
+
+/** Map an LXD custom storage volume into VolumeInfo. */
+function toVolumeInfo(pool: string, vol: any): VolumeInfo {
+  return {
+    name: pool === LXD_DEFAULT_POOL ? vol.name : `${pool}/${vol.name}`,
+    driver: pool,
+    sizeBytes: parseLxdSize(vol.config?.size),
+    labels: lxdLabels(vol.config),
+    createdAt: vol.created_at ?? undefined,
+    usedBy: (vol.used_by ?? []).map(lxdUrlName),
+    raw: vol,
+  };
+}
+
+function ipv4ToInt(address: string): number {
+  return address.split(".").reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+function intToIpv4(n: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(n / 2 ** shift) % 256)
+    .join(".");
+}
+
+/** The network address of an IPv4 CIDR, e.g. 10.0.0.1/24 → 10.0.0.0/24. */
+function ipv4Network(cidr: string): { base: number; prefix: number } {
+  const [address, prefix] = cidr.split("/");
+  const size = 2 ** (32 - Number(prefix));
+  return {
+    base: Math.floor(ipv4ToInt(address) / size) * size,
+    prefix: Number(prefix),
+  };
+}
+
+/**
+ * LXD configures a bridge by its own address, `ipv4.address`, in CIDR
+ * form: the gateway (by default the subnet’s first address) plus prefix.
+ */
+function lxdBridgeAddress(subnet: string, gateway?: string): string {
+  const { base, prefix } = ipv4Network(subnet);
+  return `${gateway ?? intToIpv4(base + 1)}/${prefix}`;
+}
+
+/** Map a managed LXD network into NetworkInfo. */
+function toNetworkInfo(net: any): NetworkInfo {
+  const subnets: string[] = [];
+  for (const key of ["ipv4.address", "ipv6.address"]) {
+    const address: string | undefined = net.config?.[key];
+    if (!address?.includes("/")) continue; // "none", "auto" or unset
+    if (key === "ipv4.address") {
+      const { base, prefix } = ipv4Network(address);
+      subnets.push(`${intToIpv4(base)}/${prefix}`);
+    } else {
+      subnets.push(address);
+    }
+  }
+  return {
+    id: net.name,
+    name: net.name,
+    driver: net.type ?? undefined,
+    subnets,
+    labels: lxdLabels(net.config),
+    raw: net,
+  };
+}
+
+/** Our labels are stored as `user.*` config keys on the instance. */
+function lxdLabels(
+  config: Record<string, string> | undefined,
+): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config ?? {})) {
+    if (key.startsWith("user.")) labels[key.slice("user.".length)] = value;
+  }
+  return labels;
+}
+
+/**
+ * Translate a ContainerSpec into an LXD `POST /containers` body, creating
+ * from the image `source` given.  LXD runs the image’s init system, so
+ * entrypoint/argument overrides and tmpfs mounts have no equivalent and
+ * are rejected.
+ */
+function toLxdCreateBody(
+  spec: ContainerSpec,
+  source: Record<string, string>,
+): Record<string, unknown> {
+  if (spec.command || spec.args) {
+    throw new Error("LXD instances do not support command/args overrides");
+  }
+
+  const config: Record<string, string> = {};
+  for (const [key, value] of Object.entries(spec.env ?? {})) {
+    config[`environment.${key}`] = value;
+  }
+  for (const [key, value] of Object.entries(spec.labels ?? {})) {
+    config[`user.${key}`] = value;
+  }
+  if (spec.resources?.cpus !== undefined) {
+    const percent = Math.round(spec.resources.cpus * 100);
+    config["limits.cpu.allowance"] = `${percent}%`;
+  }
+  if (spec.resources?.memoryBytes !== undefined) {
+    config["limits.memory"] = String(spec.resources.memoryBytes);
+  }
+  if (spec.restartPolicy) {
+    config["boot.autostart"] = String(
+      spec.restartPolicy === "always" ||
+        spec.restartPolicy === "unless-stopped",
+    );
+  }
+
+  const devices: Record<string, Record<string, string>> = {};
+  (spec.ports ?? []).forEach((p, i) => {
+    const hostPort = p.hostPort ?? p.containerPort;
+    devices[`port-${i}`] = {
+      type: "proxy",
+      listen: `${p.protocol}:${p.hostIp ?? "0.0.0.0"}:${hostPort}`,
+      connect: `${p.protocol}:127.0.0.1:${p.containerPort}`,
+    };
+  });
+  (spec.mounts ?? []).forEach((m, i) => {
+    if (m.type === "tmpfs") {
+      throw new Error("LXD instances do not support tmpfs mounts");
+    }
+    const volume = m.type === "volume" ? lxdVolumeRef(m.source!) : undefined;
+    devices[`mount-${i}`] = {
+      type: "disk",
+      source: volume?.name ?? m.source!,
+      path: m.target,
+      readonly: String(m.readOnly),
+      ...(volume ? { pool: volume.pool } : {}),
+    };
+  });
+
+  return {
+    name: spec.name ?? `infra-${crypto.randomUUID().slice(0, 8)}`,
+    profiles: ["default"],
+    config,
+    devices,
+    source,
+  };
+}
+
+/** Where the snap‐packaged LXD listens; the default remote socket over ssh. */
+const LXD_SNAP_SOCKET = "/var/snap/lxd/common/lxd/unix.socket";
+
+/**
+ * Build the ts‐lxd client for an endpoint.  ts‐lxd only knows its two
+ * default socket locations and always speaks plain `ws://` to remotes, so
+ * for any other socket, and for https, we repoint its private base URLs.
+ */
+function tsLxdClient(
+  endpoint: Endpoint | undefined,
+  opts: ClientOptions,
+): TsLxdClient {
+  if (!endpoint) return new TsLxdClient();
+  switch (endpoint.scheme) {
+    case "unix":
+    case "ssh": {
+      const socket = endpoint.scheme === "ssh"
+        ? forwardSshSocket(endpoint, endpoint.path ?? LXD_SNAP_SOCKET)
+        : endpoint.path!;
+      const client = new TsLxdClient("http://localhost");
+      Object.assign(client, {
+        _local: true,
+        _path: `http://unix:${socket}:/`,
+        _wsPath: `ws+unix://${socket}:/`,
+      });
+      return client;
+    }
+    case "https": {
+      const tls = readTlsFiles(opts);
+      if (!tls.cert || !tls.key) {
+        throw new RuntimeError(
+          "Remote LXD needs a trusted client certificate (certFile, keyFile)",
+          { runtime: "lxd" },
+        );
+      }
+      const host = `${endpoint.host}:${endpoint.port ?? 8443}`;
+      const client = new TsLxdClient(`https://${host}`, tls as any);
+      Object.assign(client, { _wsPath: `wss://${host}/` });
+      return client;
+    }
+    default:
+      throw new RuntimeError(
+        `LXD cannot be reached over ${endpoint.scheme}: endpoints`,
+        { runtime: "lxd" },
+      );
+  }
+}
 
 /**
  * LxdClient wraps ts-lxd to implement our unified ContainerRuntime interface.
  * We map LXD payloads into ContainerInfo / ActionResponse / LogsResponse.
+ *
+ * LXD is reached through the `endpoint` option (see endpoint.ts), else
+ * `socketPath`, else LXD_REMOTE or LXD_UNIX_SOCKET, else ts‐lxd’s local
+ * socket.  An `https://` remote (port 8443 by default) authenticates with
+ * the `certFile`/`keyFile` the server trusts, and `caFile` if its cert is
+ * self‐signed.
  */
 export class LxdClient extends AbstractClient {
+  readonly runtime = "lxd";
   private client: TsLxdClient;
 
-  constructor(opts: { socketPath?: string } = {}) {
+  constructor(opts: ClientOptions = {}) {
     super();
-    // ts-lxd will connect to the local LXD socket by default.
-    // If you need a custom socket, set LXD_REMOTE or LXD_UNIX_SOCKET in ENV.
-    this.client = new TsLxdClient(opts.socketPath);
+    this.client = tsLxdClient(
+      resolveEndpoint(opts, ["LXD_REMOTE", "LXD_UNIX_SOCKET"]),
+      opts,
+    );
   }
 
-  /** Create a new LXD container. */
-  override async create(options: CreateOptions): Promise<ContainerInfo> {
+  /**
+   * LXD keeps no container output, so there are no logs, and images come
+   * only from the local store (see `pullImage`).
+   */
+  override capabilities(): Capabilities {
+    return {
+      ...super.capabilities(),
+      features: ["exec.tty", "exec.stdin", "stats.stream"],
+      limitations: {
+        kill: "SIGKILL only",
+        connectNetwork: "no aliases",
+      },
+    };
+  }
+
+  /** The server’s version and API version, as `lxc version` shows. */
+  override async version(): Promise<RuntimeVersion> {
     try {
-      const createReq = options as {
-        name: string;
-        source: { type: string; alias?: string };
-      };
-      const imageRef = createReq.source.alias ?? createReq.source.type;
-      const container: TsLxdContainer = await this.client.createContainer(
-        createReq.name,
-        imageRef,
-      );
+      const server: any = await this.client.request({ path: "GET /" });
+      const env = server.environment ?? {};
       return {
-        id: container.name,
-        name: container.name,
-        status: "Created",
-        raw: container,
+        version: env.server_version,
+        apiVersion: server.api_version,
+        os: env.os_name,
+        arch: env.kernel_architecture,
+        raw: server,
       };
-    } catch (err: any) {
-      throw new Error(`LXD create failed: ${err?.message ?? String(err)}`);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "version");
+    }
+  }
+
+  /** Create a new LXD container. */
+  override async create(options: CreateOptions): Promise<ContainerInfo> {
+    try {
+      let container: TsLxdContainer;
+      if (isRawCreateOptions(options)) {
+        const createReq = options.raw as {
+          name: string;
+          source: { type: string; alias?: string };
+        };
+        const imageRef = createReq.source.alias ?? createReq.source.type;
+        container = await this.client.createContainer(
+          createReq.name,
+          imageRef,
+        );
+      } else {
+        const spec = parseContainerSpec(options);
+        const body = toLxdCreateBody(spec, await this.imageSource(spec));
+        await this.client.request({ path: "POST /containers", body });
+        container = await this.client.getContainer(body.name as string);
+      }
+      return lxdToInfo(container.metadata);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "create");
     }
   }
 
@@ -48,28 +472,12 @@ export class LxdClient extends AbstractClient {
   override async inspect(name: string): Promise<ContainerInfo> {
     try {
       const container: TsLxdContainer = await this.client.getContainer(name);
-      let state: TsLxdContainer["state"] | "Unknown";
-      try {
-        state = container.state;
-      } catch {
-        state = "Unknown";
-      }
-      const meta = container.metadata ?? {};
-      return {
-        id: container.name,
-        name: container.name,
-        status: container.status ?? undefined,
-        createdAt: undefined,
-        raw: {
-          metadata: meta,
-          state: state,
-          ephemeral: container.ephemeral,
-        },
-      };
-    } catch (err: any) {
-      throw new Error(
-        `Container "${name}" not found: ${err?.message ?? String(err)}`,
-      );
+      const state = await this.client.request({
+        path: `GET /containers/${name}/state`,
+      });
+      return lxdToInfo(container.metadata, state);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect ${name}`);
     }
   }
 
@@ -79,58 +487,894 @@ export class LxdClient extends AbstractClient {
       const container = await this.client.getContainer(name);
       await container.start();
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `start ${name}`);
     }
   }
 
-  /** Stop a container by name. */
-  override async stop(name: string): Promise<ActionResponse> {
+  /**
+   * Stop a container by name: a clean shutdown, forced if it is still
+   * running after `timeoutSeconds` (30 by default).
+   */
+  override async stop(
+    name: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
     try {
-      const container = await this.client.getContainer(name);
-      await container.stop();
+      await this.stopContainer(
+        await this.client.getContainer(name),
+        options.timeoutSeconds,
+      );
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `stop ${name}`);
     }
   }
 
-  /** List all containers (just names). */
-  override async list(): Promise<ContainerInfo[]> {
+  /** List containers; LXD has no server‐side filters, so all are local. */
+  override async listPage(options: ListOptions = {}): Promise<ContainerPage> {
     try {
       const containers: TsLxdContainer[] = await this.client.getAllContainers();
-      return containers.map((c) => {
-        return {
-          id: c.name,
-          name: c.name,
-          status: c.status ?? undefined,
-          raw: c,
-        };
-      });
-    } catch (err: any) {
-      throw new Error(`LXD list failed: ${err?.message ?? String(err)}`);
+      return paginate(
+        containers
+          .map((c) => lxdToInfo(c.metadata))
+          .filter((info) => matchesListOptions(info, options)),
+        options,
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list");
     }
   }
 
-  /** Restart a container (stop then start). */
-  override async restart(name: string): Promise<ActionResponse> {
+  /** Restart a container: stop it as `stop` does, then start it. */
+  override async restart(
+    name: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
     try {
       const container = await this.client.getContainer(name);
-      await container.restart();
+      await this.stopContainer(container, options.timeoutSeconds);
+      await container.start();
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `restart ${name}`);
     }
   }
 
-  /** Remove (delete) a container by name. */
-  override async remove(name: string): Promise<ActionResponse> {
+  /**
+   * Remove (delete) a container by name, stopping it first (cleanly, or
+   * at once with `force`).  LXD instances have no anonymous volumes, so
+   * `volumes` changes nothing.
+   */
+  override async remove(
+    name: string,
+    options: RemoveOptions = {},
+  ): Promise<ActionResponse> {
     try {
       const container = await this.client.getContainer(name);
+      if (options.force) await container.stop(0, true);
       await container.delete();
       return { success: true };
-    } catch (err: any) {
-      return { success: false, error: err?.message ?? String(err) };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove ${name}`);
+    }
+  }
+
+  /** Freeze a running container. */
+  override async pause(name: string): Promise<ActionResponse> {
+    try {
+      await (await this.client.getContainer(name)).freeze();
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `pause ${name}`);
+    }
+  }
+
+  /** Unfreeze a frozen container. */
+  override async unpause(name: string): Promise<ActionResponse> {
+    try {
+      await (await this.client.getContainer(name)).unfreeze();
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `unpause ${name}`);
+    }
+  }
+
+  /**
+   * Kill a container.  LXD cannot deliver arbitrary signals, so only
+   * SIGKILL (a forced stop) is supported.
+   */
+  override async kill(
+    name: string,
+    signal: Signal = "SIGKILL",
+  ): Promise<ActionResponse> {
+    try {
+      const { name: signalName } = parseSignal(signal);
+      if (signalName !== "SIGKILL") {
+        throw new UnimplementedError(
+          `${this.constructor.name}.kill (${signalName})`,
+        );
+      }
+      await (await this.client.getContainer(name)).stop(0, true);
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `kill ${name}`);
     }
   }
+
+  /**
+   * Run a command through LXD’s exec operation.  We post the operation
+   * ourselves (ts‐lxd’s `exec` has no working‐directory option) and attach
+   * to its websockets through ts‐lxd’s Process.  We open those websockets
+   * ourselves too: ts‐lxd’s `getProcess` drops the TLS agent, so exec on
+   * an https remote could never authenticate.
+   */
+  override async exec(name: string, options: ExecOptions): Promise<ExecResult> {
+    try {
+      const interactive = options.tty ?? false;
+      const operation = await this.client.request({
+        path: `POST /containers/${name}/exec`,
+        body: {
+          command: options.cmd,
+          environment: options.env ?? {},
+          cwd: options.workdir,
+          interactive,
+          "record-output": false,
+          "wait-for-websocket": true,
+        },
+        waitForOperationCompletion: false,
+      });
+      const process = this.attachProcess(operation, interactive);
+
+      const sinks = execSinks(options);
+      process.stdOut.pipe(sinks.stdout, { end: false });
+      process.stdErr.pipe(sinks.stderr, { end: false });
+      options.stdin?.pipe(process.stdIn);
+
+      const exitCode = await new Promise<number>((resolve) => {
+        process.once("close", (code?: number | null, signal?: number) => {
+          resolve(code ?? (signal !== undefined ? 128 + signal : 0));
+        });
+      });
+      return { exitCode, ...sinks.result() };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `exec ${name}`);
+    }
+  }
+
+  /**
+   * Copy a local file or directory in through LXD’s file API, one file,
+   * directory or symlink at a time.
+   */
+  override async copyTo(
+    name: string,
+    localPath: string,
+    remotePath: string,
+  ): Promise<ActionResponse> {
+    try {
+      let isDirectory = false;
+      try {
+        const { headers } = await this.fileRequest("GET", name, remotePath);
+        isDirectory = headers["x-lxd-type"] === "directory";
+      } catch (err: unknown) {
+        if ((err as any)?.statusCode !== 404) throw err;
+      }
+      const { dir, name: root } = remoteDestination(
+        remotePath,
+        localPath,
+        isDirectory,
+      );
+      for await (const entry of localEntries(localPath, root)) {
+        const headers = {
+          "X-LXD-type": entry.type,
+          "X-LXD-mode": entry.mode.toString(8).padStart(4, "0"),
+          "X-LXD-write": "overwrite",
+        };
+        const body = entry.type === "file"
+          ? await Deno.readFile(entry.path)
+          : entry.type === "symlink"
+          ? new TextEncoder().encode(entry.linkName)
+          : undefined;
+        await this.fileRequest(
+          "POST",
+          name,
+          posix.join(dir, entry.name),
+          headers,
+          body,
+        );
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `copy ${localPath} to ${name}:${remotePath}`,
+      );
+    }
+  }
+
+  /** Copy a file or directory out through LXD’s file API. */
+  override async copyFrom(
+    name: string,
+    remotePath: string,
+    localPath: string,
+  ): Promise<ActionResponse> {
+    try {
+      await this.downloadTree(
+        name,
+        remotePath,
+        await localDestination(localPath, remotePath),
+      );
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `copy ${name}:${remotePath} to ${localPath}`,
+      );
+    }
+  }
+
+  /**
+   * Sample resource usage from the instance’s state.  LXD reports CPU as
+   * cumulative nanoseconds and nothing on block I/O; network counters
+   * exclude loopback, and `memory.total` (LXD 5.0+) is the effective limit.
+   */
+  override stats(
+    name: string,
+    options: StatsOptions = {},
+  ): AsyncIterable<ResourceStats> {
+    return pollStats(async (): Promise<CounterSample> => {
+      try {
+        const state: any = await this.client.request({
+          path: `GET /containers/${name}/state`,
+        });
+        const networks = Object.entries<any>(state?.network ?? {})
+          .filter(([device, net]) => device !== "lo" && net.type !== "loopback")
+          .map(([, net]) => net.counters ?? {});
+        return {
+          timestamp: new Date().toISOString(),
+          cpuUsageNs: state?.cpu?.usage,
+          memoryUsedBytes: state?.memory?.usage,
+          memoryLimitBytes: state?.memory?.total || undefined,
+          netRxBytes: state?.network
+            ? networks.reduce((sum, c) => sum + (c.bytes_received ?? 0), 0)
+            : undefined,
+          netTxBytes: state?.network
+            ? networks.reduce((sum, c) => sum + (c.bytes_sent ?? 0), 0)
+            : undefined,
+          pids: state?.processes >= 0 ? state.processes : undefined,
+        };
+      } catch (err: unknown) {
+        throw toRuntimeError(err, this.runtime, `stats ${name}`);
+      }
+    }, options);
+  }
+
+  /**
+   * Stream lifecycle events from LXD’s `/1.0/events` websocket.  LXD only
+   * reports instance names, so each event is enriched with an `inspect`.
+   */
+  override async *watch(
+    filter: WatchFilter = {},
+  ): AsyncGenerator<RuntimeEvent> {
+    const socket = this.openWebSocket("events?type=lifecycle");
+    const queue = new AsyncQueue<any>(() => socket.close());
+    socket.on("message", (data: unknown) => {
+      try {
+        queue.push(JSON.parse(String(data)));
+      } catch (err) {
+        queue.fail(err);
+      }
+    });
+    socket.on(
+      "error",
+      (err: unknown) => queue.fail(toRuntimeError(err, this.runtime, "watch")),
+    );
+    socket.on("close", () => queue.end());
+
+    for await (const msg of queue) {
+      const action = String(msg.metadata?.action ?? "");
+      const type =
+        LXD_EVENT_TYPES[action.replace(/^(instance|container)-/, "")];
+      if (!type) continue;
+
+      const name = String(msg.metadata?.source ?? "").split("/").pop() ?? "";
+      let info: ContainerInfo;
+      try {
+        if (type === "removed") throw new Error("instance removed");
+        info = await this.inspect(name);
+      } catch {
+        info = { id: name, name, state: "unknown" };
+      }
+      const event: RuntimeEvent = {
+        type,
+        id: name,
+        timestamp: msg.timestamp ?? new Date().toISOString(),
+        info,
+      };
+      if (matchesWatchFilter(event, filter)) yield event;
+    }
+  }
+
+  /**
+   * Copy an image from a simplestreams remote into the local store.  `ref`
+   * is `remote:alias` (e.g. "ubuntu:22.04", "images:alpine/3.19"); the alias
+   * is registered locally so specs can refer to it.  LXD reports progress
+   * only on the operation, which ts‐lxd waits on, so we emit start/finish.
+   */
+  override async pullImage(
+    ref: string,
+    options: PullOptions = {},
+  ): Promise<ImageInfo> {
+    const { remote = "images", alias } = lxdImageRef(ref);
+    const server = LXD_IMAGE_REMOTES[remote];
+    if (!server) {
+      throw new NotFoundError(`Unknown LXD image remote "${remote}"`, {
+        runtime: this.runtime,
+      });
+    }
+
+    options.onProgress?.({ status: "Downloading", id: ref });
+    try {
+      await this.client.request({
+        path: "POST /images",
+        body: {
+          source: {
+            type: "image",
+            mode: "pull",
+            server,
+            protocol: "simplestreams",
+            alias,
+          },
+          aliases: [{ name: alias }],
+        },
+      });
+      options.onProgress?.({ status: "Downloaded", id: ref });
+      return await this.inspectImage(alias);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `pull ${ref}`);
+    }
+  }
+
+  /** List all local images. */
+  override async listImages(): Promise<ImageInfo[]> {
+    try {
+      const images = await this.client.request<never, any[]>({
+        path: "GET /images?recursion=1",
+      });
+      return (images as any[]).map(toImageInfo);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list images");
+    }
+  }
+
+  /** Inspect a local image by alias or fingerprint. */
+  override async inspectImage(ref: string): Promise<ImageInfo> {
+    try {
+      const fingerprint = await this.resolveImage(ref);
+      return toImageInfo(
+        await this.client.request({ path: `GET /images/${fingerprint}` }),
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect image ${ref}`);
+    }
+  }
+
+  /**
+   * Delete a local image by alias or fingerprint.  Instances keep their own
+   * copy of the image, so LXD would delete one they were created from; we
+   * refuse that unless `force` is set.
+   */
+  override async removeImage(
+    ref: string,
+    options: RemoveImageOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const image: any = await this.client.request({
+        path: `GET /images/${await this.resolveImage(ref)}`,
+      });
+      if (!options.force) {
+        const users = (await this.baseImages()).get(image.fingerprint);
+        if (users) {
+          throw new ConflictError(
+            `Image ${ref} is in use by ${users.join(", ")}`,
+            { runtime: this.runtime },
+          );
+        }
+      }
+      await this.client.request({
+        path: `DELETE /images/${image.fingerprint}`,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove image ${ref}`);
+    }
+  }
+
+  /**
+   * Delete the images no instance was created from (by its
+   * `volatile.base_image`): the unaliased ones LXD cached while creating
+   * from a remote, or with `all` every unused image.
+   */
+  override async pruneImages(
+    options: PruneImagesOptions = {},
+  ): Promise<PruneResult> {
+    try {
+      const used = await this.baseImages();
+      const images = await this.client.request<never, any[]>({
+        path: "GET /images?recursion=1",
+      });
+      const removed: string[] = [];
+      let reclaimedBytes = 0;
+      for (const image of images as any[]) {
+        if (used.has(image.fingerprint)) continue;
+        if (!options.all && (image.aliases ?? []).length > 0) continue;
+        await this.client.request({
+          path: `DELETE /images/${image.fingerprint}`,
+        });
+        removed.push(image.fingerprint);
+        reclaimedBytes += image.size ?? 0;
+      }
+      return { removed, reclaimedBytes };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "prune images");
+    }
+  }
+
+  /**
+   * Create a custom storage volume.  It goes in the `driver` storage pool
+   * (or the one a `pool/name` name gives), else the default pool; other
+   * volumes are named `pool/name` in return.
+   */
+  override async createVolume(
+    options: VolumeCreateOptions,
+  ): Promise<VolumeInfo> {
+    const ref = lxdVolumeRef(options.name);
+    const pool = options.driver ?? ref.pool;
+    try {
+      const config: Record<string, string> = { ...options.options };
+      for (const [key, value] of Object.entries(options.labels ?? {})) {
+        config[`user.${key}`] = value;
+      }
+      if (options.sizeBytes !== undefined) {
+        config.size = String(options.sizeBytes);
+      }
+      await this.client.request({
+        path: `POST /storage-pools/${pool}/volumes`,
+        body: { name: ref.name, type: "custom", config },
+      });
+      return await this.inspectVolume(`${pool}/${ref.name}`);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `create volume ${options.name}`);
+    }
+  }
+
+  /** List the custom volumes in every storage pool. */
+  override async listVolumes(): Promise<VolumeInfo[]> {
+    try {
+      const pools = await this.client.request<never, string[]>({
+        path: "GET /storage-pools",
+      }) as string[];
+      const volumes: VolumeInfo[] = [];
+      for (const pool of pools.map(lxdUrlName)) {
+        const vols = await this.client.request<never, any[]>({
+          path: `GET /storage-pools/${pool}/volumes?recursion=1`,
+        }) as any[];
+        for (const vol of vols) {
+          if (vol.type === "custom") volumes.push(toVolumeInfo(pool, vol));
+        }
+      }
+      return volumes;
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list volumes");
+    }
+  }
+
+  /** Inspect a custom volume, by `name` or `pool/name`. */
+  override async inspectVolume(name: string): Promise<VolumeInfo> {
+    try {
+      const { pool, name: volume } = lxdVolumeRef(name);
+      return toVolumeInfo(
+        pool,
+        await this.client.request({
+          path: `GET /storage-pools/${pool}/volumes/custom/${volume}`,
+        }),
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `inspect volume ${name}`);
+    }
+  }
+
+  /**
+   * Delete a custom volume.  LXD refuses to delete one that is attached;
+   * with `force`, it is first detached from the instances using it.
+   */
+  override async removeVolume(
+    name: string,
+    options: RemoveVolumeOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      const { pool, name: volume } = lxdVolumeRef(name);
+      if (options.force) {
+        const { usedBy } = await this.inspectVolume(name);
+        for (const instance of usedBy ?? []) {
+          await this.removeDevices(
+            instance,
+            (device) =>
+              device.type === "disk" && device.source === volume &&
+              (device.pool ?? LXD_DEFAULT_POOL) === pool,
+          );
+        }
+      }
+      await this.client.request({
+        path: `DELETE /storage-pools/${pool}/volumes/custom/${volume}`,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove volume ${name}`);
+    }
+  }
+
+  /**
+   * Remove custom volumes no instance uses.  LXD has no anonymous volumes,
+   * so this only removes anything with `all`.
+   */
+  override async pruneVolumes(
+    options: PruneVolumesOptions = {},
+  ): Promise<PruneResult> {
+    const removed: string[] = [];
+    if (!options.all) return { removed };
+    for (const volume of await this.listVolumes()) {
+      if (volume.usedBy?.length) continue;
+      await this.removeVolume(volume.name);
+      removed.push(volume.name);
+    }
+    return { removed };
+  }
+
+  /**
+   * Create a managed network, a bridge unless `driver` names another type.
+   * A subnet becomes the bridge’s `ipv4.address`; `internal` turns NAT off.
+   * `options` are passed through as network config keys.
+   */
+  override async createNetwork(
+    options: NetworkCreateOptions,
+  ): Promise<NetworkInfo> {
+    try {
+      const config: Record<string, string> = {};
+      if (options.subnet) {
+        config["ipv4.address"] = lxdBridgeAddress(
+          options.subnet,
+          options.gateway,
+        );
+      }
+      if (options.internal !== undefined) {
+        config["ipv4.nat"] = String(!options.internal);
+      }
+      for (const [key, value] of Object.entries(options.labels ?? {})) {
+        config[`user.${key}`] = value;
+      }
+      await this.client.request({
+        path: "POST /networks",
+        body: {
+          name: options.name,
+          type: options.driver ?? "bridge",
+          config: { ...config, ...options.options },
+        },
+      });
+      return toNetworkInfo(
+        await this.client.request({ path: `GET /networks/${options.name}` }),
+      );
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `create network ${options.name}`,
+      );
+    }
+  }
+
+  /** List managed networks; the host’s own interfaces are left out. */
+  override async listNetworks(): Promise<NetworkInfo[]> {
+    try {
+      const networks = await this.client.request<never, any[]>({
+        path: "GET /networks?recursion=1",
+      }) as any[];
+      return networks.filter((net) => net.managed).map(toNetworkInfo);
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, "list networks");
+    }
+  }
+
+  /**
+   * Attach a container to a network through a NIC device named after the
+   * network.  LXD has no per‐network DNS aliases, so `aliases` is refused.
+   */
+  override async connectNetwork(
+    network: string,
+    name: string,
+    options: NetworkConnectOptions = {},
+  ): Promise<ActionResponse> {
+    try {
+      if (options.aliases?.length) {
+        throw new UnimplementedError(
+          `${this.constructor.name}.connectNetwork (aliases)`,
+        );
+      }
+      await this.client.request({
+        path: `PATCH /containers/${name}`,
+        body: {
+          devices: {
+            [network]: {
+              type: "nic",
+              network,
+              ...(options.ipAddress
+                ? { "ipv4.address": options.ipAddress }
+                : {}),
+            },
+          },
+        },
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `connect ${name} to ${network}`);
+    }
+  }
+
+  /**
+   * Detach a container from a network by removing its NIC devices on it.
+   * NICs that come from a profile can’t be removed per instance.
+   */
+  override async disconnectNetwork(
+    network: string,
+    name: string,
+  ): Promise<ActionResponse> {
+    try {
+      const removed = await this.removeDevices(
+        name,
+        (device) => device.type === "nic" && device.network === network,
+      );
+      if (!removed) {
+        throw new NotFoundError(`${name} has no device on ${network}`, {
+          runtime: this.runtime,
+        });
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(
+        err,
+        this.runtime,
+        `disconnect ${name} from ${network}`,
+      );
+    }
+  }
+
+  /** Delete a managed network. */
+  override async removeNetwork(network: string): Promise<ActionResponse> {
+    try {
+      await this.client.request({ path: `DELETE /networks/${network}` });
+      return { success: true };
+    } catch (err: unknown) {
+      throw toRuntimeError(err, this.runtime, `remove network ${network}`);
+    }
+  }
+
+  /**
+   * Remove an instance’s own devices matching `match`, returning how many
+   * went.  LXD’s PATCH only adds or changes devices, so the whole instance
+   * config is written back.
+   */
+  private async removeDevices(
+    name: string,
+    match: (device: Record<string, string>) => boolean,
+  ): Promise<number> {
+    const instance: any = await this.client.request({
+      path: `GET /containers/${name}`,
+    });
+    const devices: Record<string, Record<string, string>> = {};
+    for (const [key, device] of Object.entries<any>(instance.devices ?? {})) {
+      if (!match(device)) devices[key] = device;
+    }
+    const removed = Object.keys(instance.devices ?? {}).length -
+      Object.keys(devices).length;
+    if (removed) {
+      await this.client.request({
+        path: `PUT /containers/${name}`,
+        body: {
+          architecture: instance.architecture,
+          config: instance.config,
+          devices,
+          ephemeral: instance.ephemeral,
+          profiles: instance.profiles,
+          description: instance.description,
+        },
+      });
+    }
+    return removed;
+  }
+
+  /** Download a file, symlink or (recursively) directory to `target`. */
+  private async downloadTree(
+    name: string,
+    remotePath: string,
+    target: string,
+  ): Promise<void> {
+    const { headers, body } = await this.fileRequest("GET", name, remotePath);
+    const text = () => new TextDecoder().decode(body);
+    switch (headers["x-lxd-type"]) {
+      case "directory": {
+        await Deno.mkdir(target, { recursive: true });
+        const children: string[] = JSON.parse(text()).metadata ?? [];
+        for (const child of children) {
+          if (child.includes("/") || child === "." || child === "..") continue;
+          await this.downloadTree(
+            name,
+            posix.join(remotePath, child),
+            join(target, child),
+          );
+        }
+        break;
+      }
+      case "symlink":
+        await Deno.symlink(text(), target);
+        break;
+      default:
+        await Deno.writeFile(target, body, {
+          mode: parseInt(String(headers["x-lxd-mode"] ?? "644"), 8),
+        });
+    }
+  }
+
+  /**
+   * A raw request on an instance’s file API, whose bodies are file
+   * contents rather than the JSON ts‐lxd insists on parsing.  Like
+   * `openWebSocket`, this reuses ts‐lxd’s private base URL and TLS agent.
+   */
+  private fileRequest(
+    method: "GET" | "POST",
+    name: string,
+    remotePath: string,
+    headers: Record<string, string> = {},
+    body?: Uint8Array,
+  ): Promise<{ headers: http.IncomingHttpHeaders; body: Uint8Array }> {
+    const { _path, _agent } = this.client as any;
+    const socket = /^http:\/\/unix:(.+):\/$/.exec(_path);
+    const url = socket ? undefined : new URL(_path);
+    const request = url?.protocol === "https:" ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+      const req = request({
+        ...(socket
+          ? { socketPath: socket[1] }
+          : { hostname: url!.hostname, port: url!.port }),
+        method,
+        path: `/1.0/containers/${name}/files?path=${
+          encodeURIComponent(remotePath)
+        }`,
+        headers,
+        agent: _agent,
+      }, (res) => {
+        const chunks: Uint8Array[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("error", reject);
+        res.on("end", () => {
+          const data = new Uint8Array(Buffer.concat(chunks));
+          if ((res.statusCode ?? 500) < 400) {
+            resolve({ headers: res.headers, body: data });
+            return;
+          }
+          let message = new TextDecoder().decode(data);
+          try {
+            message = JSON.parse(message).error ?? message;
+          } catch {
+            // not JSON; keep the raw text
+          }
+          reject(Object.assign(new Error(message), {
+            statusCode: res.statusCode,
+          }));
+        });
+      });
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  /**
+   * The `source` to create `spec`’s instance from.  A `remote:alias` image
+   * uses the copy `pullImage` stored under its alias, if there is one (and
+   * the pull policy isn’t "always"), else LXD pulls it from the remote;
+   * any other image is a local alias or fingerprint.
+   */
+  private async imageSource(
+    spec: ContainerSpec,
+  ): Promise<Record<string, string>> {
+    const { remote, alias } = lxdImageRef(spec.image);
+    const server = remote === undefined ? undefined : LXD_IMAGE_REMOTES[remote];
+    if (!server) return { type: "image", alias: spec.image };
+
+    const pullPolicy = spec.pullPolicy ?? "if-not-present";
+    if (pullPolicy !== "always") {
+      try {
+        await this.client.request({ path: `GET /images/aliases/${alias}` });
+        return { type: "image", alias };
+      } catch (err: unknown) {
+        const error = toRuntimeError(err, this.runtime, `find image ${alias}`);
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+      if (pullPolicy === "never") {
+        throw new NotFoundError(`Image ${spec.image} is not present`, {
+          runtime: this.runtime,
+        });
+      }
+    }
+    return {
+      type: "image",
+      mode: "pull",
+      server,
+      protocol: "simplestreams",
+      alias,
+    };
+  }
+
+  /** Resolve an alias to its fingerprint; anything else is taken as one. */
+  private async resolveImage(ref: string): Promise<string> {
+    try {
+      const alias = await this.client.request<never, any>({
+        path: `GET /images/aliases/${ref}`,
+      });
+      return (alias as any).target;
+    } catch {
+      return ref;
+    }
+  }
+
+  /** The instances created from each image, by image fingerprint. */
+  private async baseImages(): Promise<Map<string, string[]>> {
+    const users = new Map<string, string[]>();
+    for (const container of await this.client.getAllContainers()) {
+      const meta: any = container.metadata;
+      const fingerprint = meta.config?.["volatile.base_image"];
+      if (!fingerprint) continue;
+      users.set(fingerprint, [...users.get(fingerprint) ?? [], meta.name]);
+    }
+    return users;
+  }
+
+  /**
+   * Shut a container down cleanly.  LXD fails a stop that outlives its
+   * timeout rather than killing the instance, so we then force it.
+   */
+  private async stopContainer(
+    container: TsLxdContainer,
+    timeoutSeconds = 30,
+  ): Promise<void> {
+    try {
+      await container.stop(timeoutSeconds);
+    } catch {
+      await container.stop(0, true);
+    }
+  }
+
+  /**
+   * Open a websocket on the API.  ts‐lxd keeps its websocket base and TLS
+   * agent private; we reuse them rather than re‐deriving the location.
+   */
+  private openWebSocket(path: string): WebSocket {
+    const { _wsPath, _agent } = this.client as any;
+    return new WebSocket(`${_wsPath}1.0/${path}`, { agent: _agent });
+  }
+
+  /** Attach to an exec operation’s stdio and control websockets. */
+  private attachProcess(operation: any, interactive: boolean): TsLxdProcess {
+    const fds = operation.metadata.fds ?? operation.metadata.output ?? {};
+    const names = interactive ? ["0", "control"] : ["0", "1", "2", "control"];
+    const streams = names.map((fd) =>
+      WebSocket.createWebSocketStream(
+        this.openWebSocket(
+          `operations/${operation.id}/websocket?secret=${fds[fd]}`,
+        ),
+      )
+    );
+    return new TsLxdProcess(operation, this.client, streams as any);
+  }
 }
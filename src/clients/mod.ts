@@ -1,26 +1,33 @@
 // src/clients/mod.ts
 
-import type { CreateOptions } from "./types.ts";
+import { type ClientOptions, RuntimeUnavailableError } from "./types.ts";
 import { DockerClient } from "./docker.ts";
 import { PodmanClient } from "./podman.ts";
 import { KubernetesClient } from "./kubernetes.ts";
 import { ContainerdClient } from "./containerd.ts";
 import { LxdClient } from "./lxd.ts";
+import { MultiRuntimeClient } from "./multi.ts";
 import {
   type ContainerPlatform,
   PlatformType,
   Runtime,
 } from "@ggpwnkthx/infra-sense";
-import type { ContainerRuntime } from "./types.ts";
+import type { RuntimeClient, RuntimeName } from "./types.ts";
+
+export { MultiRuntimeClient };
 
 /**
  * Create a container runtime client based on the detected ContainerPlatform.
- * All clients now conform to the unified ContainerRuntime interface.
+ * All clients conform to the unified ContainerRuntime, ImageRuntime,
+ * VolumeRuntime and NetworkRuntime interfaces; engines without volumes or
+ * networks throw UnimplementedError for them.  `opts.endpoint` (a
+ * `unix://`, `tcp://`, `ssh://` or `https://` URI) points the client at a
+ * socket or host other than the local default.
  */
 export function clientFactory(
   platform: ContainerPlatform,
-  opts: CreateOptions = {},
-): ContainerRuntime {
+  opts: ClientOptions = {},
+): RuntimeClient {
   switch (platform.type) {
     case PlatformType.Kubernetes:
       return new KubernetesClient(opts);
@@ -36,17 +43,70 @@ export function clientFactory(
         case Runtime.LXC:
           return new LxdClient(opts);
         default:
-          throw new Error(
+          throw new RuntimeUnavailableError(
             `Unsupported standalone runtime: ${platform.runtime}`,
           );
       }
 
     case PlatformType.Host:
-      throw new Error(
+      throw new RuntimeUnavailableError(
         "Host platform detected; no container runtime client available.",
       );
 
     default:
-      throw new Error(`Unsupported platform type: ${platform.type}`);
+      throw new RuntimeUnavailableError(
+        `Unsupported platform type: ${platform.type}`,
+      );
+  }
+}
+
+/** Every client we can construct, by runtime. */
+const CLIENTS: Record<RuntimeName, (opts: ClientOptions) => RuntimeClient> = {
+  docker: (opts) => new DockerClient(opts),
+  podman: (opts) => new PodmanClient(opts),
+  kubernetes: (opts) => new KubernetesClient(opts),
+  containerd: (opts) => new ContainerdClient(opts),
+  lxd: (opts) => new LxdClient(opts),
+};
+
+/**
+ * Create the client for a named runtime without detecting the platform,
+ * for remote endpoints that detection (which only looks at this host)
+ * cannot see.
+ */
+export function createClient(
+  runtime: RuntimeName,
+  opts: ClientOptions = {},
+): RuntimeClient {
+  const make = CLIENTS[runtime];
+  if (!make) {
+    throw new RuntimeUnavailableError(`Unsupported runtime: ${runtime}`);
+  }
+  return make(opts);
+}
+
+/**
+ * Connect to every runtime reachable from this host, rather than the one
+ * platform `detect` picks.  Each candidate is probed with a one‐item
+ * `listPage`; those that fail to construct or answer are skipped.
+ */
+export async function connectAll(
+  opts: ClientOptions = {},
+): Promise<MultiRuntimeClient> {
+  const probed = await Promise.all(
+    Object.values(CLIENTS).map(async (make) => {
+      try {
+        const client = make(opts);
+        await client.listPage({ limit: 1 });
+        return client;
+      } catch {
+        return undefined;
+      }
+    }),
+  );
+  const clients = probed.filter((c): c is RuntimeClient => c !== undefined);
+  if (clients.length === 0) {
+    throw new RuntimeUnavailableError("No container runtime is reachable.");
   }
+  return new MultiRuntimeClient(clients);
 }
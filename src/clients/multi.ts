@@ -0,0 +1,584 @@
+// src/clients/multi.ts
+
+import {
+  type ActionResponse,
+  type Capabilities,
+  type ContainerInfo,
+  type ContainerPage,
+  type CreateOptions,
+  type ExecOptions,
+  type ExecResult,
+  type ImageInfo,
+  type ListOptions,
+  type LogLine,
+  type LogOptions,
+  type LogsResponse,
+  type NetworkConnectOptions,
+  type NetworkCreateOptions,
+  type NetworkDisconnectOptions,
+  type NetworkInfo,
+  NotFoundError,
+  type PruneImagesOptions,
+  type PruneResult,
+  type PruneVolumesOptions,
+  type PullOptions,
+  type RemoveImageOptions,
+  type RemoveOptions,
+  type RemoveVolumeOptions,
+  type ResourceStats,
+  type RuntimeClient,
+  RuntimeError,
+  type RuntimeEvent,
+  type RuntimeVersion,
+  type Signal,
+  type StatsOptions,
+  type StopOptions,
+  UnimplementedError,
+  type VolumeCreateOptions,
+  type VolumeInfo,
+  type WatchFilter,
+} from "./types.ts";
+import { AbstractClient } from "./base.ts";
+import { mergeAsyncIterables } from "./stream.ts";
+
+/** Separates the owning runtime from the backend’s own ID. */
+const ID_SEPARATOR = "://";
+
+/** Prefix a backend ID with its runtime, e.g. `docker://abc`. */
+function qualify(runtime: string, id: string): string {
+  return `${runtime}${ID_SEPARATOR}${id}`;
+}
+
+/** Where a paged `list` left off: a backend index and that backend’s token. */
+interface MultiContinueToken {
+  backend: number;
+  token?: string;
+}
+
+function encodeToken(token: MultiContinueToken): string {
+  return btoa(JSON.stringify(token));
+}
+
+function decodeToken(token: string): MultiContinueToken {
+  try {
+    return JSON.parse(atob(token));
+  } catch {
+    throw new RuntimeError(`Invalid continue token: ${token}`);
+  }
+}
+
+/** Re‐qualify the IDs in a backend’s event stream. */
+async function* qualifyEvents(
+  runtime: string,
+  events: AsyncIterable<RuntimeEvent>,
+): AsyncGenerator<RuntimeEvent> {
+  for await (const event of events) {
+    yield {
+      ...event,
+      id: qualify(runtime, event.id),
+      info: { ...event.info, id: qualify(runtime, event.info.id) },
+    };
+  }
+}
+
+/**
+ * A backend’s events, re‐qualified.  A backend that can’t watch (it throws
+ * UnimplementedError before its first event) contributes none, so it
+ * doesn’t end the merged stream.
+ */
+async function* backendEvents(
+  runtime: string,
+  client: RuntimeClient,
+  filter: WatchFilter,
+): AsyncGenerator<RuntimeEvent> {
+  let started = false;
+  try {
+    for await (const event of qualifyEvents(runtime, client.watch(filter))) {
+      started = true;
+      yield event;
+    }
+  } catch (err) {
+    if (started || !(err instanceof UnimplementedError)) throw err;
+  }
+}
+
+/**
+ * MultiRuntimeClient aggregates several runtime clients behind one
+ * interface, for hosts that run more than one engine side by side.
+ *
+ * Every ID it returns is qualified with the owning runtime
+ * (`docker://abc`, `lxd://web1`); `list`, `watch` and the image, volume
+ * and network listings and prunes fan out to every backend (skipping those
+ * that don’t implement them), while calls that take an ID (or image ref,
+ * volume or network) are routed to the backend it names.  An unqualified
+ * ID is accepted only when there is a single backend.  `create` goes to
+ * the default backend, the first unless `defaultRuntime` says otherwise,
+ * as do new volumes and networks with unqualified names.
+ */
+export class MultiRuntimeClient extends AbstractClient {
+  readonly runtime = "multi";
+  private backends = new Map<string, RuntimeClient>();
+  private defaultRuntime: string;
+
+  constructor(
+    clients: RuntimeClient[],
+    opts: { defaultRuntime?: string } = {},
+  ) {
+    super();
+    for (const client of clients) {
+      if (this.backends.has(client.runtime)) {
+        throw new RuntimeError(`Duplicate "${client.runtime}" backend`);
+      }
+      this.backends.set(client.runtime, client);
+    }
+    if (this.backends.size === 0) {
+      throw new RuntimeError("MultiRuntimeClient needs at least one backend");
+    }
+    this.defaultRuntime = opts.defaultRuntime ?? clients[0].runtime;
+    if (!this.backends.has(this.defaultRuntime)) {
+      throw new RuntimeError(`No "${this.defaultRuntime}" backend`);
+    }
+  }
+
+  /** The runtimes this client aggregates, in fan‐out order. */
+  get runtimes(): string[] {
+    return [...this.backends.keys()];
+  }
+
+  /**
+   * What any backend supports, with each backend’s own capabilities under
+   * `backends`: a routed call still fails if its backend lacks it.
+   */
+  override capabilities(): Capabilities {
+    const backends = Object.fromEntries(
+      [...this.backends].map(([runtime, client]) => [
+        runtime,
+        client.capabilities(),
+      ]),
+    );
+    const union = <T>(pick: (caps: Capabilities) => T[]) => [
+      ...new Set(Object.values(backends).flatMap(pick)),
+    ];
+    return {
+      runtime: this.runtime,
+      operations: union((caps) => caps.operations),
+      features: union((caps) => caps.features),
+      kinds: union((caps) => caps.kinds),
+      backends,
+    };
+  }
+
+  /** Every backend’s version, summarized as "docker 27.3.1, lxd 5.21". */
+  override async version(): Promise<RuntimeVersion> {
+    const versions = await Promise.all(
+      [...this.backends].map(async ([runtime, client]) =>
+        [runtime, await client.version()] as const
+      ),
+    );
+    return {
+      version: versions
+        .map(([runtime, { version }]) => `${runtime} ${version}`)
+        .join(", "),
+      backends: Object.fromEntries(versions),
+    };
+  }
+
+  /**
+   * List instances across every backend.  Unpaged, the backends are
+   * queried concurrently; with `limit` or `continueToken`, they are paged
+   * through one after another and the token records the position.
+   */
+  override async listPage(options: ListOptions = {}): Promise<ContainerPage> {
+    const backends = [...this.backends];
+    if (options.limit === undefined && options.continueToken === undefined) {
+      const lists = await Promise.all(
+        backends.map(([, client]) => client.list(options)),
+      );
+      return {
+        items: lists.flatMap((items, i) =>
+          items.map((info) => this.qualifyInfo(backends[i][0], info))
+        ),
+      };
+    }
+
+    let { backend, token } = options.continueToken
+      ? decodeToken(options.continueToken)
+      : { backend: 0, token: undefined } as MultiContinueToken;
+    const items: ContainerInfo[] = [];
+    while (backend < backends.length) {
+      const remaining = options.limit === undefined
+        ? undefined
+        : options.limit - items.length;
+      if (remaining === 0) break;
+      const [runtime, client] = backends[backend];
+      const page = await client.listPage({
+        ...options,
+        limit: remaining,
+        continueToken: token,
+      });
+      items.push(...page.items.map((info) => this.qualifyInfo(runtime, info)));
+      if (page.continueToken) {
+        token = page.continueToken;
+      } else {
+        backend++;
+        token = undefined;
+      }
+    }
+    return {
+      items,
+      continueToken: backend < backends.length
+        ? encodeToken({ backend, token })
+        : undefined,
+    };
+  }
+
+  /** Create an instance on the default backend. */
+  override async create(options: CreateOptions): Promise<ContainerInfo> {
+    const client = this.backends.get(this.defaultRuntime)!;
+    return this.qualifyInfo(this.defaultRuntime, await client.create(options));
+  }
+
+  override async inspect(id: string): Promise<ContainerInfo> {
+    const { runtime, client, localId } = this.route(id);
+    return this.qualifyInfo(runtime, await client.inspect(localId));
+  }
+
+  override async start(id: string): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.start(localId);
+  }
+
+  override async stop(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.stop(localId, options);
+  }
+
+  override async restart(
+    id: string,
+    options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.restart(localId, options);
+  }
+
+  override async remove(
+    id: string,
+    options: RemoveOptions = {},
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.remove(localId, options);
+  }
+
+  override async pause(id: string): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.pause(localId);
+  }
+
+  override async unpause(id: string): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.unpause(localId);
+  }
+
+  override async kill(id: string, signal?: Signal): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.kill(localId, signal);
+  }
+
+  override async logs(
+    id: string,
+    options: LogOptions = {},
+  ): Promise<LogsResponse> {
+    const { client, localId } = this.route(id);
+    return await client.logs(localId, options);
+  }
+
+  override async *streamLogs(
+    id: string,
+    options: LogOptions = {},
+  ): AsyncGenerator<LogLine> {
+    const { client, localId } = this.route(id);
+    yield* client.streamLogs(localId, options);
+  }
+
+  override async exec(id: string, options: ExecOptions): Promise<ExecResult> {
+    const { client, localId } = this.route(id);
+    return await client.exec(localId, options);
+  }
+
+  override async copyTo(
+    id: string,
+    localPath: string,
+    remotePath: string,
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.copyTo(localId, localPath, remotePath);
+  }
+
+  override async copyFrom(
+    id: string,
+    remotePath: string,
+    localPath: string,
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(id);
+    return await client.copyFrom(localId, remotePath, localPath);
+  }
+
+  override async *stats(
+    id: string,
+    options: StatsOptions = {},
+  ): AsyncGenerator<ResourceStats> {
+    const { client, localId } = this.route(id);
+    yield* client.stats(localId, options);
+  }
+
+  /**
+   * Merge every backend’s event stream.  Qualified IDs in the filter are
+   * sent only to their own backend; a backend none of the IDs belong to is
+   * not watched at all, and neither is one that can’t watch.
+   */
+  override watch(filter: WatchFilter = {}): AsyncIterable<RuntimeEvent> {
+    const sources: AsyncIterable<RuntimeEvent>[] = [];
+    for (const [runtime, client] of this.backends) {
+      let ids: string[] | undefined;
+      if (filter.ids) {
+        ids = filter.ids.flatMap((id) => {
+          const sep = id.indexOf(ID_SEPARATOR);
+          if (sep === -1) return [id];
+          return id.slice(0, sep) === runtime
+            ? [id.slice(sep + ID_SEPARATOR.length)]
+            : [];
+        });
+        if (ids.length === 0) continue;
+      }
+      sources.push(backendEvents(runtime, client, { ...filter, ids }));
+    }
+    return mergeAsyncIterables(sources);
+  }
+
+  /** Pull an image on the backend its ref names (e.g. `lxd://ubuntu:22.04`). */
+  override async pullImage(
+    ref: string,
+    options: PullOptions = {},
+  ): Promise<ImageInfo> {
+    const { runtime, client, localId } = this.route(ref);
+    return this.qualifyImage(
+      runtime,
+      await client.pullImage(localId, options),
+    );
+  }
+
+  override async listImages(): Promise<ImageInfo[]> {
+    const lists = await this.fanOut((client) => client.listImages());
+    return lists.flatMap(([runtime, images]) =>
+      images.map((image) => this.qualifyImage(runtime, image))
+    );
+  }
+
+  override async inspectImage(ref: string): Promise<ImageInfo> {
+    const { runtime, client, localId } = this.route(ref);
+    return this.qualifyImage(runtime, await client.inspectImage(localId));
+  }
+
+  override async removeImage(
+    ref: string,
+    options: RemoveImageOptions = {},
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(ref);
+    return await client.removeImage(localId, options);
+  }
+
+  /** Prune every backend with images, summing what was reclaimed. */
+  override async pruneImages(
+    options: PruneImagesOptions = {},
+  ): Promise<PruneResult> {
+    const results = await this.fanOut((client) => client.pruneImages(options));
+    return {
+      removed: results.flatMap(([runtime, result]) =>
+        result.removed.map((id) => qualify(runtime, id))
+      ),
+      reclaimedBytes: results.some(([, r]) => r.reclaimedBytes !== undefined)
+        ? results.reduce((sum, [, r]) => sum + (r.reclaimedBytes ?? 0), 0)
+        : undefined,
+    };
+  }
+
+  /** Create a volume on the backend its name names, else the default. */
+  override async createVolume(
+    options: VolumeCreateOptions,
+  ): Promise<VolumeInfo> {
+    const { runtime, client, localId } = this.routeNew(options.name);
+    return this.qualifyVolume(
+      runtime,
+      await client.createVolume({ ...options, name: localId }),
+    );
+  }
+
+  override async listVolumes(): Promise<VolumeInfo[]> {
+    const lists = await this.fanOut((client) => client.listVolumes());
+    return lists.flatMap(([runtime, volumes]) =>
+      volumes.map((volume) => this.qualifyVolume(runtime, volume))
+    );
+  }
+
+  override async inspectVolume(name: string): Promise<VolumeInfo> {
+    const { runtime, client, localId } = this.route(name);
+    return this.qualifyVolume(runtime, await client.inspectVolume(localId));
+  }
+
+  override async removeVolume(
+    name: string,
+    options: RemoveVolumeOptions = {},
+  ): Promise<ActionResponse> {
+    const { client, localId } = this.route(name);
+    return await client.removeVolume(localId, options);
+  }
+
+  /** Prune every backend with volumes, listing what was removed. */
+  override async pruneVolumes(
+    options: PruneVolumesOptions = {},
+  ): Promise<PruneResult> {
+    const results = await this.fanOut((client) => client.pruneVolumes(options));
+    return {
+      removed: results.flatMap(([runtime, result]) =>
+        result.removed.map((name) => qualify(runtime, name))
+      ),
+      reclaimedBytes: results.some(([, r]) => r.reclaimedBytes !== undefined)
+        ? results.reduce((sum, [, r]) => sum + (r.reclaimedBytes ?? 0), 0)
+        : undefined,
+    };
+  }
+
+  /** Create a network on the backend its name names, else the default. */
+  override async createNetwork(
+    options: NetworkCreateOptions,
+  ): Promise<NetworkInfo> {
+    const { runtime, client, localId } = this.routeNew(options.name);
+    return this.qualifyNetwork(
+      runtime,
+      await client.createNetwork({ ...options, name: localId }),
+    );
+  }
+
+  override async listNetworks(): Promise<NetworkInfo[]> {
+    const lists = await this.fanOut((client) => client.listNetworks());
+    return lists.flatMap(([runtime, networks]) =>
+      networks.map((network) => this.qualifyNetwork(runtime, network))
+    );
+  }
+
+  /** Connect an instance to a network on its own backend. */
+  override async connectNetwork(
+    network: string,
+    id: string,
+    options: NetworkConnectOptions = {},
+  ): Promise<ActionResponse> {
+    const { runtime, client, localId } = this.route(id);
+    return await client.connectNetwork(
+      this.localName(runtime, network),
+      localId,
+      options,
+    );
+  }
+
+  override async disconnectNetwork(
+    network: string,
+    id: string,
+    options: NetworkDisconnectOptions = {},
+  ): Promise<ActionResponse> {
+    const { runtime, client, localId } = this.route(id);
+    return await client.disconnectNetwork(
+      this.localName(runtime, network),
+      localId,
+      options,
+    );
+  }
+
+  override async removeNetwork(network: string): Promise<ActionResponse> {
+    const { client, localId } = this.route(network);
+    return await client.removeNetwork(localId);
+  }
+
+  /**
+   * Run `call` on every backend concurrently, pairing each result with its
+   * runtime.  Backends that don’t implement the call are left out.
+   */
+  private async fanOut<T>(
+    call: (client: RuntimeClient) => Promise<T>,
+  ): Promise<[string, T][]> {
+    const results = await Promise.all(
+      [...this.backends].map(async ([runtime, client]) => {
+        try {
+          return [[runtime, await call(client)] as [string, T]];
+        } catch (err) {
+          if (err instanceof UnimplementedError) return [];
+          throw err;
+        }
+      }),
+    );
+    return results.flat();
+  }
+
+  /** Route a name for something new: a qualified one, else the default. */
+  private routeNew(
+    name: string,
+  ): { runtime: string; client: RuntimeClient; localId: string } {
+    return name.includes(ID_SEPARATOR) ? this.route(name) : {
+      runtime: this.defaultRuntime,
+      client: this.backends.get(this.defaultRuntime)!,
+      localId: name,
+    };
+  }
+
+  /** Strip `runtime`’s qualifier from a name; other runtimes’ are refused. */
+  private localName(runtime: string, name: string): string {
+    const sep = name.indexOf(ID_SEPARATOR);
+    if (sep === -1) return name;
+    if (name.slice(0, sep) !== runtime) {
+      throw new RuntimeError(`${name} is not on the ${runtime} runtime`);
+    }
+    return name.slice(sep + ID_SEPARATOR.length);
+  }
+
+  /** Find the backend that owns a qualified ID, and its local ID. */
+  private route(
+    id: string,
+  ): { runtime: string; client: RuntimeClient; localId: string } {
+    const sep = id.indexOf(ID_SEPARATOR);
+    if (sep !== -1) {
+      const runtime = id.slice(0, sep);
+      const client = this.backends.get(runtime);
+      if (!client) {
+        throw new NotFoundError(`No "${runtime}" runtime for ${id}`);
+      }
+      return { runtime, client, localId: id.slice(sep + ID_SEPARATOR.length) };
+    }
+    if (this.backends.size === 1) {
+      const [runtime, client] = [...this.backends][0];
+      return { runtime, client, localId: id };
+    }
+    throw new RuntimeError(
+      `Ambiguous ID "${id}"; qualify it with its runtime (e.g. ${
+        qualify(this.defaultRuntime, id)
+      })`,
+    );
+  }
+
+  private qualifyInfo(runtime: string, info: ContainerInfo): ContainerInfo {
+    return { ...info, id: qualify(runtime, info.id) };
+  }
+
+  private qualifyImage(runtime: string, image: ImageInfo): ImageInfo {
+    return { ...image, id: qualify(runtime, image.id) };
+  }
+
+  private qualifyVolume(runtime: string, volume: VolumeInfo): VolumeInfo {
+    return { ...volume, name: qualify(runtime, volume.name) };
+  }
+
+  private qualifyNetwork(runtime: string, network: NetworkInfo): NetworkInfo {
+    return { ...network, id: qualify(runtime, network.id) };
+  }
+}
@@ -0,0 +1,60 @@
+// src/clients/multi_test.ts
+
+import assert from "node:assert/strict";
+import { InMemoryClient } from "../testing/memory.ts";
+import { MultiRuntimeClient } from "./multi.ts";
+import {
+  type ImageInfo,
+  type PruneResult,
+  type RuntimeEvent,
+  UnimplementedError,
+} from "./types.ts";
+
+/** An InMemoryClient with a fixed image store, as Docker would have. */
+class ImageClient extends InMemoryClient {
+  override listImages(): Promise<ImageInfo[]> {
+    return Promise.resolve([{ id: "sha256:1", tags: ["alpine:3.20"] }]);
+  }
+
+  override pruneImages(): Promise<PruneResult> {
+    return Promise.resolve({ removed: ["sha256:2"], reclaimedBytes: 10 });
+  }
+}
+
+Deno.test("MultiRuntimeClient skips backends without images", async () => {
+  const multi = new MultiRuntimeClient([
+    new ImageClient(),
+    new InMemoryClient({ runtime: "kubernetes" }),
+  ]);
+  assert.deepEqual(
+    (await multi.listImages()).map((image) => image.id),
+    ["docker://sha256:1"],
+  );
+  assert.deepEqual(await multi.pruneImages(), {
+    removed: ["docker://sha256:2"],
+    reclaimedBytes: 10,
+  });
+});
+
+Deno.test("MultiRuntimeClient watches the backends that can", async () => {
+  const docker = new InMemoryClient();
+  const kubernetes = new InMemoryClient({ runtime: "kubernetes" });
+  kubernetes.failNext("watch", new UnimplementedError("watch"));
+  const multi = new MultiRuntimeClient([docker, kubernetes]);
+
+  const events: RuntimeEvent[] = [];
+  const watching = (async () => {
+    for await (const event of multi.watch()) {
+      events.push(event);
+      if (event.type === "started") break;
+    }
+  })();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const { id } = await docker.create({ image: "alpine:3.20" });
+  await docker.start(id);
+  await watching;
+  assert.deepEqual(
+    events.map((event) => [event.type, event.id]),
+    [["created", `docker://${id}`], ["started", `docker://${id}`]],
+  );
+});
@@ -0,0 +1,225 @@
+// src/clients/oci.ts
+
+import type { ContainerSpec } from "./spec.ts";
+
+/**
+ * Builds OCI runtime specs (config.json) for engines such as containerd that
+ * run a bundle directly rather than translating a higher‐level create call.
+ * The defaults mirror what `ctr run` and Docker generate for runc.
+ */
+
+/** The subset of an OCI image config that shapes the runtime spec. */
+export interface OciImageConfig {
+  Entrypoint?: string[] | null;
+  Cmd?: string[] | null;
+  Env?: string[] | null;
+  WorkingDir?: string;
+  User?: string;
+}
+
+/** Capabilities granted to the container’s process by default. */
+const DEFAULT_CAPABILITIES = [
+  "CAP_CHOWN",
+  "CAP_DAC_OVERRIDE",
+  "CAP_FSETID",
+  "CAP_FOWNER",
+  "CAP_MKNOD",
+  "CAP_NET_RAW",
+  "CAP_SETGID",
+  "CAP_SETUID",
+  "CAP_SETFCAP",
+  "CAP_SETPCAP",
+  "CAP_NET_BIND_SERVICE",
+  "CAP_SYS_CHROOT",
+  "CAP_KILL",
+  "CAP_AUDIT_WRITE",
+];
+
+/** Kernel filesystems every Linux container expects. */
+const DEFAULT_MOUNTS = [
+  { destination: "/proc", type: "proc", source: "proc", options: [] },
+  {
+    destination: "/dev",
+    type: "tmpfs",
+    source: "tmpfs",
+    options: ["nosuid", "strictatime", "mode=755", "size=65536k"],
+  },
+  {
+    destination: "/dev/pts",
+    type: "devpts",
+    source: "devpts",
+    options: ["nosuid", "noexec", "newinstance", "ptmxmode=0666", "mode=0620"],
+  },
+  {
+    destination: "/dev/shm",
+    type: "tmpfs",
+    source: "shm",
+    options: ["nosuid", "noexec", "nodev", "mode=1777", "size=65536k"],
+  },
+  {
+    destination: "/dev/mqueue",
+    type: "mqueue",
+    source: "mqueue",
+    options: ["nosuid", "noexec", "nodev"],
+  },
+  {
+    destination: "/sys",
+    type: "sysfs",
+    source: "sysfs",
+    options: ["nosuid", "noexec", "nodev", "ro"],
+  },
+  {
+    destination: "/sys/fs/cgroup",
+    type: "cgroup",
+    source: "cgroup",
+    options: ["nosuid", "noexec", "nodev", "relatime", "ro"],
+  },
+];
+
+/** Paths hidden from the container, as in Docker’s default profile. */
+const MASKED_PATHS = [
+  "/proc/acpi",
+  "/proc/asound",
+  "/proc/kcore",
+  "/proc/keys",
+  "/proc/latency_stats",
+  "/proc/timer_list",
+  "/proc/timer_stats",
+  "/proc/sched_debug",
+  "/proc/scsi",
+  "/sys/firmware",
+];
+
+const READONLY_PATHS = [
+  "/proc/bus",
+  "/proc/fs",
+  "/proc/irq",
+  "/proc/sys",
+  "/proc/sysrq-trigger",
+];
+
+const DEFAULT_PATH =
+  "PATH=/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
+/** The CFS period used to express fractional CPU limits. */
+const CPU_PERIOD = 100_000;
+
+/**
+ * Merge image defaults with `KEY=VALUE` overrides; later entries win, and
+ * PATH is filled in if neither side sets it.
+ */
+function mergeEnv(
+  imageEnv: string[],
+  overrides: Record<string, string> = {},
+): string[] {
+  const merged = new Map<string, string>();
+  for (const entry of [DEFAULT_PATH, ...imageEnv]) {
+    const eq = entry.indexOf("=");
+    merged.set(eq === -1 ? entry : entry.slice(0, eq), entry);
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    merged.set(key, `${key}=${value}`);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Resolve the image’s `User` into numeric IDs.  Names would need the
+ * image’s /etc/passwd, which we never unpack, so they run as root.
+ */
+function toOciUser(user: string | undefined): { uid: number; gid: number } {
+  const [uid, gid] = (user ?? "").split(":").map(Number);
+  return {
+    uid: Number.isInteger(uid) ? uid : 0,
+    gid: Number.isInteger(gid) ? gid : Number.isInteger(uid) ? uid : 0,
+  };
+}
+
+/**
+ * Build an OCI runtime spec for a ContainerSpec on top of its image config.
+ * `command`/`args` override the image entrypoint/cmd with Docker’s rules:
+ * a new entrypoint discards the image’s cmd.  Only bind and tmpfs mounts
+ * have an OCI equivalent; ports and restart policies are the caller’s
+ * concern.
+ */
+export function toOciSpec(
+  id: string,
+  spec: ContainerSpec,
+  image: OciImageConfig,
+  opts: { cgroupsPath: string },
+): Record<string, unknown> {
+  const entrypoint = spec.command ?? image.Entrypoint ?? [];
+  const cmd = spec.args ?? (spec.command ? [] : image.Cmd ?? []);
+  const args = [...entrypoint, ...cmd];
+  if (args.length === 0) {
+    throw new Error(`No command to run for ${spec.image}`);
+  }
+
+  const mounts = (spec.mounts ?? []).map((mount) => {
+    if (mount.type === "volume") {
+      throw new Error("Named volumes are not supported by OCI bundles");
+    }
+    return mount.type === "tmpfs"
+      ? {
+        destination: mount.target,
+        type: "tmpfs",
+        source: "tmpfs",
+        options: ["nosuid", "nodev", "mode=1777", mount.readOnly ? "ro" : "rw"],
+      }
+      : {
+        destination: mount.target,
+        type: "bind",
+        source: mount.source,
+        options: ["rbind", mount.readOnly ? "ro" : "rw"],
+      };
+  });
+
+  const resources: Record<string, unknown> = {
+    devices: [{ allow: false, access: "rwm" }],
+  };
+  if (spec.resources?.memoryBytes !== undefined) {
+    resources.memory = { limit: spec.resources.memoryBytes };
+  }
+  if (spec.resources?.cpus !== undefined) {
+    resources.cpu = {
+      quota: Math.round(spec.resources.cpus * CPU_PERIOD),
+      period: CPU_PERIOD,
+    };
+  }
+
+  return {
+    ociVersion: "1.1.0",
+    process: {
+      terminal: false,
+      user: toOciUser(image.User),
+      args,
+      env: mergeEnv(image.Env ?? [], spec.env),
+      cwd: image.WorkingDir || "/",
+      capabilities: {
+        bounding: DEFAULT_CAPABILITIES,
+        effective: DEFAULT_CAPABILITIES,
+        permitted: DEFAULT_CAPABILITIES,
+      },
+      rlimits: [{ type: "RLIMIT_NOFILE", hard: 1024, soft: 1024 }],
+      noNewPrivileges: true,
+    },
+    root: { path: "rootfs" },
+    hostname: id,
+    mounts: [...DEFAULT_MOUNTS, ...mounts],
+    linux: {
+      resources,
+      cgroupsPath: opts.cgroupsPath,
+      // A fresh network namespace has only loopback; wiring it up is a CNI
+      // plugin’s job, which is why ports are rejected upstream.
+      namespaces: [
+        { type: "pid" },
+        { type: "ipc" },
+        { type: "uts" },
+        { type: "mount" },
+        { type: "network" },
+      ],
+      maskedPaths: MASKED_PATHS,
+      readonlyPaths: READONLY_PATHS,
+    },
+  };
+}
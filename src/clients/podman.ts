@@ -1,14 +1,21 @@
 // src/clients/podman.ts
 
+import type { ClientOptions } from "./types.ts";
 import { DockerClient } from "./docker.ts";
 
 /**
  * PodmanClient reuses DockerClient to communicate with the Podman socket.
  * Podman exposes a Docker‐compatible REST API, so dockerode works unchanged.
+ * Endpoints resolve as for Docker, but from CONTAINER_HOST (Podman’s own
+ * remote variable) and the rootful Podman socket.
  */
 export class PodmanClient extends DockerClient {
-  constructor(opts: { socketPath?: string } = {}) {
-    const socketPath = opts.socketPath ?? "/run/podman/podman.sock";
-    super({ socketPath });
+  override readonly runtime = "podman";
+
+  constructor(opts: ClientOptions = {}) {
+    super(opts, {
+      hostVar: "CONTAINER_HOST",
+      socketPath: "/run/podman/podman.sock",
+    });
   }
 }
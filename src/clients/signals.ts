@@ -0,0 +1,60 @@
+// src/clients/signals.ts
+
+import { RuntimeError, type Signal } from "./types.ts";
+
+/** Linux signal numbers, by name without the `SIG` prefix. */
+const SIGNAL_NUMBERS: Record<string, number> = {
+  HUP: 1,
+  INT: 2,
+  QUIT: 3,
+  ILL: 4,
+  TRAP: 5,
+  ABRT: 6,
+  BUS: 7,
+  FPE: 8,
+  KILL: 9,
+  USR1: 10,
+  SEGV: 11,
+  USR2: 12,
+  PIPE: 13,
+  ALRM: 14,
+  TERM: 15,
+  STKFLT: 16,
+  CHLD: 17,
+  CONT: 18,
+  STOP: 19,
+  TSTP: 20,
+  TTIN: 21,
+  TTOU: 22,
+  URG: 23,
+  XCPU: 24,
+  XFSZ: 25,
+  VTALRM: 26,
+  PROF: 27,
+  WINCH: 28,
+  IO: 29,
+  PWR: 30,
+  SYS: 31,
+};
+
+/**
+ * Resolve a `kill` signal into its canonical name ("SIGTERM") and number.
+ * Names are case‐insensitive and the `SIG` prefix is optional; numbers may
+ * be given as numbers or digit strings.  Unknown signals throw RuntimeError.
+ */
+export function parseSignal(signal: Signal): { name: string; number: number } {
+  const text = String(signal).trim().toUpperCase();
+  if (/^\d+$/.test(text)) {
+    const number = Number(text);
+    const name = Object.keys(SIGNAL_NUMBERS).find((key) =>
+      SIGNAL_NUMBERS[key] === number
+    );
+    if (name) return { name: `SIG${name}`, number };
+  } else {
+    const bare = text.replace(/^SIG/, "");
+    if (bare in SIGNAL_NUMBERS) {
+      return { name: `SIG${bare}`, number: SIGNAL_NUMBERS[bare] };
+    }
+  }
+  throw new RuntimeError(`Unknown signal "${signal}"`);
+}
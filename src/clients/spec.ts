@@ -0,0 +1,132 @@
+// src/clients/spec.ts
+
+import { z } from "zod";
+import type { CreateOptions, RawCreateOptions } from "./types.ts";
+
+/**
+ * A portable, engine‐neutral description of an instance to create.
+ * Every client translates a validated ContainerSpec into its native payload.
+ */
+
+/** A container port, optionally published on the host. */
+export const portMappingSchema: z.ZodObject<{
+  containerPort: z.ZodNumber;
+  hostPort: z.ZodOptional<z.ZodNumber>;
+  hostIp: z.ZodOptional<z.ZodString>;
+  protocol: z.ZodDefault<z.ZodEnum<["tcp", "udp"]>>;
+}> = z.object({
+  /** The port the process listens on inside the instance. */
+  containerPort: z.number().int().min(1).max(65535),
+  /** The host port to publish on; the engine picks one if omitted. */
+  hostPort: z.number().int().min(1).max(65535).optional(),
+  /** The host address to bind, if not all interfaces. */
+  hostIp: z.string().optional(),
+  protocol: z.enum(["tcp", "udp"]).default("tcp"),
+});
+
+/** A bind mount, named volume, or in‐memory filesystem. */
+export const mountSchema: z.ZodEffects<
+  z.ZodObject<{
+    type: z.ZodDefault<z.ZodEnum<["bind", "volume", "tmpfs"]>>;
+    source: z.ZodOptional<z.ZodString>;
+    target: z.ZodString;
+    readOnly: z.ZodDefault<z.ZodBoolean>;
+  }>
+> = z
+  .object({
+    type: z.enum(["bind", "volume", "tmpfs"]).default("bind"),
+    /** Host path (bind) or volume name (volume); unused for tmpfs. */
+    source: z.string().optional(),
+    /** Absolute path inside the instance. */
+    target: z.string().min(1),
+    readOnly: z.boolean().default(false),
+  })
+  .refine((m) => m.type === "tmpfs" || !!m.source, {
+    message: "source is required for bind and volume mounts",
+    path: ["source"],
+  });
+
+/** Upper bounds on the resources an instance may consume. */
+export const resourceLimitsSchema: z.ZodObject<{
+  cpus: z.ZodOptional<z.ZodNumber>;
+  memoryBytes: z.ZodOptional<z.ZodNumber>;
+}> = z.object({
+  /** Fractional CPUs (e.g. 0.5 for half a core). */
+  cpus: z.number().positive().optional(),
+  /** Memory limit in bytes. */
+  memoryBytes: z.number().int().positive().optional(),
+});
+
+/** When the engine should restart an instance after it exits. */
+export const restartPolicySchema: z.ZodEnum<
+  ["no", "always", "on-failure", "unless-stopped"]
+> = z.enum([
+  "no",
+  "always",
+  "on-failure",
+  "unless-stopped",
+]);
+
+/** Whether to pull the image before creating the instance. */
+export const pullPolicySchema: z.ZodEnum<
+  ["always", "if-not-present", "never"]
+> = z.enum(["always", "if-not-present", "never"]);
+
+/** The full, engine‐neutral create payload. */
+export const containerSpecSchema: z.ZodObject<{
+  image: z.ZodString;
+  name: z.ZodOptional<z.ZodString>;
+  command: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  args: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  env: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodString>>;
+  ports: z.ZodOptional<z.ZodArray<typeof portMappingSchema>>;
+  mounts: z.ZodOptional<z.ZodArray<typeof mountSchema>>;
+  labels: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodString>>;
+  resources: z.ZodOptional<typeof resourceLimitsSchema>;
+  restartPolicy: z.ZodOptional<typeof restartPolicySchema>;
+  pullPolicy: z.ZodOptional<typeof pullPolicySchema>;
+}, "strict"> = z
+  .object({
+    /** Image reference (e.g. "nginx:latest", or an LXD alias). */
+    image: z.string().min(1),
+    /** Instance name; generated by the engine (or by us) if omitted. */
+    name: z.string().min(1).optional(),
+    /** Overrides the image entrypoint (Docker `Entrypoint`, k8s `command`). */
+    command: z.array(z.string()).optional(),
+    /** Overrides the image arguments (Docker `Cmd`, k8s `args`). */
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+    ports: z.array(portMappingSchema).optional(),
+    mounts: z.array(mountSchema).optional(),
+    labels: z.record(z.string()).optional(),
+    resources: resourceLimitsSchema.optional(),
+    restartPolicy: restartPolicySchema.optional(),
+    /** Defaults to "if-not-present" on engines that pull images. */
+    pullPolicy: pullPolicySchema.optional(),
+  })
+  .strict();
+
+export type PortMapping = z.infer<typeof portMappingSchema>;
+export type Mount = z.infer<typeof mountSchema>;
+export type ResourceLimits = z.infer<typeof resourceLimitsSchema>;
+export type RestartPolicy = z.infer<typeof restartPolicySchema>;
+export type PullPolicy = z.infer<typeof pullPolicySchema>;
+
+/** A validated spec, with defaults applied. */
+export type ContainerSpec = z.infer<typeof containerSpecSchema>;
+
+/** A spec as callers write it, before defaults are applied. */
+export type ContainerSpecInput = z.input<typeof containerSpecSchema>;
+
+/** `true` if the caller used the `{ raw }` escape hatch. */
+export function isRawCreateOptions(
+  options: CreateOptions,
+): options is RawCreateOptions {
+  return typeof options === "object" && options !== null &&
+    "raw" in options;
+}
+
+/** Validate a ContainerSpec, throwing a ZodError if it is malformed. */
+export function parseContainerSpec(input: unknown): ContainerSpec {
+  return containerSpecSchema.parse(input);
+}
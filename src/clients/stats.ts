@@ -0,0 +1,55 @@
+// src/clients/stats.ts
+
+import type { ResourceStats, StatsOptions } from "./types.ts";
+
+/**
+ * Helpers for engines whose stats are polled rather than pushed.  Most of
+ * them report CPU as a cumulative usage counter, so a percentage needs two
+ * samples: a one‐shot `stats` samples twice, an interval apart.
+ */
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+/** A polled sample, with CPU as a counter instead of a percentage. */
+export interface CounterSample extends ResourceStats {
+  /** Cumulative CPU time used, in nanoseconds. */
+  cpuUsageNs?: number;
+}
+
+/** CPU use between two samples, as a percentage of one core. */
+function cpuPercent(
+  previous: CounterSample | undefined,
+  current: CounterSample,
+): number | undefined {
+  if (previous?.cpuUsageNs === undefined || current.cpuUsageNs === undefined) {
+    return current.cpuPercent;
+  }
+  const elapsedNs =
+    (Date.parse(current.timestamp) - Date.parse(previous.timestamp)) * 1e6;
+  if (elapsedNs <= 0) return undefined;
+  return Math.max(0, current.cpuUsageNs - previous.cpuUsageNs) / elapsedNs *
+    100;
+}
+
+/**
+ * Turn a sampling function into `stats` output: one sample, or a sample
+ * every `options.interval` ms while `options.stream` is set.  A sample
+ * carrying `cpuUsageNs` is held back until the next one gives it a rate.
+ */
+export async function* pollStats(
+  sample: () => Promise<CounterSample>,
+  options: StatsOptions = {},
+): AsyncGenerator<ResourceStats> {
+  const interval = options.interval ?? DEFAULT_INTERVAL_MS;
+  let previous: CounterSample | undefined;
+  while (true) {
+    const current = await sample();
+    if (previous || current.cpuUsageNs === undefined) {
+      const { cpuUsageNs: _cpuUsageNs, ...stats } = current;
+      yield { ...stats, cpuPercent: cpuPercent(previous, current) };
+      if (!options.stream) return;
+    }
+    previous = current;
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
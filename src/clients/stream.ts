@@ -0,0 +1,158 @@
+// src/clients/stream.ts
+
+import { Writable } from "node:stream";
+
+/**
+ * Small helpers for adapting callback‐ and event‐based engine APIs into the
+ * async iterables exposed by ContainerRuntime.
+ */
+
+/**
+ * A push‐based queue that can be consumed with `for await`.  Producers call
+ * `push`, then `end` (or `fail`); `onReturn` runs when the consumer stops
+ * early, so producers can abort their underlying request.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiters: ((result: IteratorResult<T>) => void)[] = [];
+  private rejecters: ((err: unknown) => void)[] = [];
+  private done = false;
+  private error: unknown = undefined;
+
+  constructor(private onReturn: () => void = () => {}) {}
+
+  /** Enqueue an item; ignored once the queue has ended. */
+  push(item: T): void {
+    if (this.done) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.rejecters.shift();
+      waiter({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /** Signal that no more items will be pushed. */
+  end(): void {
+    if (this.done) return;
+    this.done = true;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter({ value: undefined, done: true });
+    }
+    this.rejecters = [];
+  }
+
+  /** End the queue with an error, rethrown to the consumer. */
+  fail(err: unknown): void {
+    if (this.done) return;
+    this.done = true;
+    this.error = err ?? new Error("stream failed");
+    for (const reject of this.rejecters.splice(0)) {
+      reject(this.error);
+    }
+    this.waiters = [];
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift()!, done: false });
+        }
+        if (this.error !== undefined) return Promise.reject(this.error);
+        if (this.done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          this.waiters.push(resolve);
+          this.rejecters.push(reject);
+        });
+      },
+      return: () => {
+        this.end();
+        this.onReturn();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}
+
+/**
+ * Interleave several async iterables, yielding items as soon as any source
+ * produces one.  Stopping the merged iterable stops every source.
+ */
+export function mergeAsyncIterables<T>(
+  sources: AsyncIterable<T>[],
+): AsyncIterable<T> {
+  const iterators = sources.map((s) => s[Symbol.asyncIterator]());
+  const queue = new AsyncQueue<T>(() => {
+    for (const it of iterators) it.return?.();
+  });
+  let remaining = iterators.length;
+  if (remaining === 0) queue.end();
+
+  for (const it of iterators) {
+    (async () => {
+      try {
+        while (true) {
+          const result = await it.next();
+          if (result.done) break;
+          queue.push(result.value);
+        }
+        if (--remaining === 0) queue.end();
+      } catch (err) {
+        queue.fail(err);
+      }
+    })();
+  }
+  return queue;
+}
+
+/** Parse newline‐delimited JSON from a byte stream. */
+export async function* jsonLines<T = unknown>(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of chunks) {
+    const parts = (pending + decoder.decode(chunk, { stream: true })).split(
+      "\n",
+    );
+    pending = parts.pop()!;
+    for (const part of parts) {
+      if (part.trim()) yield JSON.parse(part) as T;
+    }
+  }
+  if (pending.trim()) yield JSON.parse(pending) as T;
+}
+
+/**
+ * Resolve the stdout/stderr sinks for an exec: caller‐supplied streams are
+ * used as‐is, otherwise output is captured in memory.  `result` fills in the
+ * captured text of whichever streams were captured.
+ */
+export function execSinks(opts: { stdout?: Writable; stderr?: Writable }): {
+  stdout: Writable;
+  stderr: Writable;
+  result: () => { stdout?: string; stderr?: string };
+} {
+  const captured = { stdout: "", stderr: "" };
+  const capture = (key: "stdout" | "stderr") => {
+    const decoder = new TextDecoder();
+    return new Writable({
+      write(chunk, _encoding, callback) {
+        captured[key] += decoder.decode(chunk, { stream: true });
+        callback();
+      },
+    });
+  };
+  return {
+    stdout: opts.stdout ?? capture("stdout"),
+    stderr: opts.stderr ?? capture("stderr"),
+    result: () => ({
+      stdout: opts.stdout ? undefined : captured.stdout,
+      stderr: opts.stderr ? undefined : captured.stderr,
+    }),
+  };
+}
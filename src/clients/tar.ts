@@ -0,0 +1,392 @@
+// src/clients/tar.ts
+
+import { dirname, join, sep } from "node:path";
+import { RuntimeError } from "./types.ts";
+
+/**
+ * A small streaming tar writer and reader for `copyTo`/`copyFrom` on the
+ * engines whose copy APIs speak tar: Docker’s archive endpoints, and `tar`
+ * run through exec.  Archives are written as ustar with PAX headers for
+ * long names; reading also accepts GNU long names and base‐256 sizes.
+ * Only regular files, directories and symlinks are carried over.
+ */
+
+const BLOCK = 512;
+
+/** The largest size an 11‐digit octal header field holds. */
+const MAX_OCTAL_SIZE = 8 ** 11 - 1;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** A file, directory or symlink on the local filesystem. */
+export interface LocalEntry {
+  /** Its local path. */
+  path: string;
+
+  /** Its `/`‐separated path in the copy, rooted at the name given. */
+  name: string;
+
+  type: "file" | "directory" | "symlink";
+
+  /** Permission bits. */
+  mode: number;
+
+  /** Modification time, in seconds since the epoch. */
+  mtime: number;
+
+  /** The size in bytes of a file; 0 otherwise. */
+  size: number;
+
+  /** A symlink’s target. */
+  linkName?: string;
+}
+
+/**
+ * Walk a local file or directory tree, parents before their children.
+ * Sockets, devices and FIFOs are skipped.
+ */
+export async function* localEntries(
+  path: string,
+  name: string,
+): AsyncGenerator<LocalEntry> {
+  const info = await Deno.lstat(path);
+  const entry = {
+    path,
+    name,
+    mode: (info.mode ?? 0o644) & 0o7777,
+    mtime: Math.floor((info.mtime?.getTime() ?? Date.now()) / 1000),
+    size: 0,
+  };
+  if (info.isSymlink) {
+    yield { ...entry, type: "symlink", linkName: await Deno.readLink(path) };
+  } else if (info.isDirectory) {
+    yield { ...entry, type: "directory" };
+    const children: string[] = [];
+    for await (const child of Deno.readDir(path)) children.push(child.name);
+    for (const child of children.sort()) {
+      yield* localEntries(join(path, child), `${name}/${child}`);
+    }
+  } else if (info.isFile) {
+    yield { ...entry, type: "file", size: info.size };
+  }
+}
+
+function writeString(
+  block: Uint8Array,
+  offset: number,
+  length: number,
+  value: string,
+): void {
+  block.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+/** Write a NUL‐terminated, zero‐padded octal field. */
+function writeOctal(
+  block: Uint8Array,
+  offset: number,
+  length: number,
+  value: number,
+): void {
+  writeString(
+    block,
+    offset,
+    length,
+    value.toString(8).padStart(length - 1, "0"),
+  );
+}
+
+/** A PAX record, `<length> <key>=<value>\n`, whose length counts itself. */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length !== String(bodyLength).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+/** Zero padding up to the next block boundary. */
+function padding(size: number): Uint8Array {
+  return new Uint8Array((BLOCK - size % BLOCK) % BLOCK);
+}
+
+/** A ustar header block. */
+function header(
+  name: string,
+  typeflag: string,
+  size: number,
+  mode: number,
+  mtime: number,
+  linkName = "",
+): Uint8Array {
+  const block = new Uint8Array(BLOCK);
+  writeString(block, 0, 100, name);
+  writeOctal(block, 100, 8, mode);
+  writeOctal(block, 108, 8, 0);
+  writeOctal(block, 116, 8, 0);
+  writeOctal(block, 124, 12, Math.min(size, MAX_OCTAL_SIZE));
+  writeOctal(block, 136, 12, mtime);
+  block.fill(0x20, 148, 156); // the checksum counts its own field as spaces
+  block[156] = typeflag.charCodeAt(0);
+  writeString(block, 157, 100, linkName);
+  writeString(block, 257, 6, "ustar\0");
+  writeString(block, 263, 2, "00");
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return block;
+}
+
+/** The header blocks for an entry, preceded by a PAX header if needed. */
+function* entryHeaders(entry: LocalEntry): Generator<Uint8Array> {
+  const name = entry.type === "directory" ? `${entry.name}/` : entry.name;
+  const records: string[] = [];
+  if (encoder.encode(name).length > 100) records.push(paxRecord("path", name));
+  if (entry.linkName && encoder.encode(entry.linkName).length > 100) {
+    records.push(paxRecord("linkpath", entry.linkName));
+  }
+  if (entry.size > MAX_OCTAL_SIZE) {
+    records.push(paxRecord("size", String(entry.size)));
+  }
+  if (records.length > 0) {
+    const data = encoder.encode(records.join(""));
+    yield header("PaxHeader", "x", data.length, 0o644, entry.mtime);
+    yield data;
+    yield padding(data.length);
+  }
+  const typeflag = { file: "0", directory: "5", symlink: "2" }[entry.type];
+  yield header(
+    name.slice(0, 100),
+    typeflag,
+    entry.size,
+    entry.mode,
+    entry.mtime,
+    entry.linkName?.slice(0, 100),
+  );
+}
+
+/**
+ * Pack a local file or directory into a tar stream whose top‐level entry
+ * is `name`.  A file that changes size while it is read is truncated or
+ * zero‐padded to the size its header promised.
+ */
+export async function* packTar(
+  localPath: string,
+  name: string,
+): AsyncGenerator<Uint8Array> {
+  for await (const entry of localEntries(localPath, name)) {
+    yield* entryHeaders(entry);
+    if (entry.type !== "file") continue;
+    let remaining = entry.size;
+    const file = await Deno.open(entry.path);
+    try {
+      const buffer = new Uint8Array(64 * 1024);
+      while (remaining > 0) {
+        const n = await file.read(
+          buffer.subarray(0, Math.min(buffer.length, remaining)),
+        );
+        if (n === null) break;
+        remaining -= n;
+        yield buffer.slice(0, n);
+      }
+    } finally {
+      file.close();
+    }
+    if (remaining > 0) yield new Uint8Array(remaining);
+    yield padding(entry.size);
+  }
+  yield new Uint8Array(BLOCK * 2);
+}
+
+/** Reads exact byte counts out of a chunked stream. */
+class ChunkReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private iterator: AsyncIterator<Uint8Array>;
+
+  constructor(chunks: AsyncIterable<Uint8Array>) {
+    this.iterator = chunks[Symbol.asyncIterator]();
+  }
+
+  /** Up to `max` bytes (at least one), or null at the end of the stream. */
+  async next(max: number): Promise<Uint8Array | null> {
+    while (this.buffer.length === 0) {
+      const { value, done } = await this.iterator.next();
+      if (done) return null;
+      this.buffer = value;
+    }
+    const chunk = this.buffer.subarray(0, max);
+    this.buffer = this.buffer.subarray(chunk.length);
+    return chunk;
+  }
+
+  /** Exactly `n` bytes; null if the stream ends first. */
+  async read(n: number): Promise<Uint8Array | null> {
+    const out = new Uint8Array(n);
+    let filled = 0;
+    while (filled < n) {
+      const chunk = await this.next(n - filled);
+      if (!chunk) return null;
+      out.set(chunk, filled);
+      filled += chunk.length;
+    }
+    return out;
+  }
+
+  /** Hand `n` bytes to `sink` as they arrive. */
+  async copy(
+    n: number,
+    sink: (chunk: Uint8Array) => Promise<unknown>,
+  ): Promise<void> {
+    let remaining = n;
+    while (remaining > 0) {
+      const chunk = await this.next(remaining);
+      if (!chunk) throw new RuntimeError("Unexpected end of tar stream");
+      await sink(chunk);
+      remaining -= chunk.length;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.iterator.return?.();
+  }
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/** Read an octal field, or a GNU base‐256 one (high bit set). */
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/** Parse PAX records into a map. */
+function parsePax(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const length = Number(decoder.decode(data.subarray(pos, space)));
+    if (space === -1 || !(length > 0)) break;
+    const record = decoder.decode(data.subarray(space + 1, pos + length - 1));
+    const eq = record.indexOf("=");
+    if (eq !== -1) records[record.slice(0, eq)] = record.slice(eq + 1);
+    pos += length;
+  }
+  return records;
+}
+
+/**
+ * Where an archive entry lands: its top‐level component becomes `localPath`
+ * itself.  Undefined for the archive root (`./`); names climbing out with
+ * `..` are refused.
+ */
+function entryTarget(localPath: string, name: string): string | undefined {
+  const parts = name.split("/").filter((part) => part && part !== ".");
+  if (parts.includes("..")) {
+    throw new RuntimeError(`Refusing tar entry outside the copy: ${name}`);
+  }
+  return parts.length === 0 ? undefined : join(localPath, ...parts.slice(1));
+}
+
+/**
+ * Unpack a tar stream to `localPath`, which takes the place of the
+ * archive’s top‐level entry.  Entries other than files, directories and
+ * symlinks are skipped, as is anything that would be written through a
+ * symlink the archive itself created.
+ */
+export async function unpackTar(
+  chunks: AsyncIterable<Uint8Array>,
+  localPath: string,
+): Promise<void> {
+  const reader = new ChunkReader(chunks);
+  const symlinks: string[] = [];
+  let pax: Record<string, string> = {};
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  try {
+    while (true) {
+      const block = await reader.read(BLOCK);
+      if (!block || block.every((byte) => byte === 0)) break;
+      const typeflag = String.fromCharCode(block[156]);
+      const size = pax.size !== undefined
+        ? Number(pax.size)
+        : readNumber(block, 124, 12);
+
+      if ("xgLK".includes(typeflag)) {
+        const data = await reader.read(size + padding(size).length);
+        if (!data) throw new RuntimeError("Unexpected end of tar stream");
+        const content = data.subarray(0, size);
+        if (typeflag === "x") pax = { ...pax, ...parsePax(content) };
+        const text = () => readString(content, 0, content.length);
+        if (typeflag === "L") longName = text();
+        if (typeflag === "K") longLink = text();
+        continue;
+      }
+
+      const prefix = readString(block, 345, 155);
+      const name = pax.path ?? longName ??
+        (prefix ? `${prefix}/` : "") + readString(block, 0, 100);
+      const linkName = pax.linkpath ?? longLink ?? readString(block, 157, 100);
+      const mode = readNumber(block, 100, 8) & 0o7777;
+      const mtime = readNumber(block, 136, 12);
+      pax = {};
+      longName = longLink = undefined;
+
+      const target = entryTarget(localPath, name);
+      const viaSymlink = target !== undefined &&
+        symlinks.some((link) => target.startsWith(link + sep));
+      if (target === undefined || viaSymlink) {
+        await reader.copy(size + padding(size).length, async () => {});
+        continue;
+      }
+
+      switch (typeflag) {
+        case "5":
+          await Deno.mkdir(target, { recursive: true, mode: mode | 0o700 });
+          break;
+        case "2":
+          await Deno.mkdir(dirname(target), { recursive: true });
+          await Deno.remove(target).catch(() => {});
+          await Deno.symlink(linkName, target);
+          symlinks.push(target);
+          break;
+        case "0":
+        case "\0":
+        case "7": {
+          await Deno.mkdir(dirname(target), { recursive: true });
+          const file = await Deno.open(target, {
+            write: true,
+            create: true,
+            truncate: true,
+          });
+          try {
+            await reader.copy(size, async (chunk) => {
+              for (let n = 0; n < chunk.length;) {
+                n += await file.write(chunk.subarray(n));
+              }
+            });
+          } finally {
+            file.close();
+          }
+          await Deno.chmod(target, mode);
+          await Deno.utime(target, mtime, mtime);
+          await reader.copy(padding(size).length, async () => {});
+          continue;
+        }
+      }
+      await reader.copy(size + padding(size).length, async () => {});
+    }
+  } finally {
+    await reader.close();
+  }
+}
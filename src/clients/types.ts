@@ -1,9 +1,61 @@
 // src/clients/types.ts
 
+import type { Readable, Writable } from "node:stream";
+import type {
+  V1DaemonSet,
+  V1Deployment,
+  V1Job,
+  V1Pod,
+  V1StatefulSet,
+} from "kubernetes-node";
+import type { ContainerSpecInput } from "./spec.ts";
+
 /**
  * Common, unified return types for all container‐runtime clients.
  */
 
+/** The engines this library can drive. */
+export type RuntimeName =
+  | "docker"
+  | "podman"
+  | "kubernetes"
+  | "lxd"
+  | "containerd";
+
+/** A normalized lifecycle state, comparable across engines. */
+export type ContainerState =
+  | "created"
+  | "running"
+  | "paused"
+  | "restarting"
+  | "exited"
+  | "dead"
+  | "unknown";
+
+/** A port exposed by an instance, and where it is published, if anywhere. */
+export interface PublishedPort {
+  containerPort: number;
+  hostPort?: number;
+  hostIp?: string;
+  protocol: "tcp" | "udp";
+}
+
+/**
+ * The raw, engine‐specific payload behind a ContainerInfo, tagged with the
+ * runtime it came from so callers can narrow on `raw.runtime`.
+ */
+export type RawContainerInfo =
+  | { runtime: "docker" | "podman"; data: Record<string, unknown> }
+  | {
+    runtime: "kubernetes";
+    data: V1Pod | V1Deployment | V1StatefulSet | V1DaemonSet | V1Job;
+  }
+  | {
+    runtime: "lxd";
+    data: { metadata: Record<string, unknown>; state?: unknown };
+  }
+  | { runtime: "containerd"; data: Record<string, unknown> };
+
 /** A minimal, standardized representation of a “container” (or pod, etc.). */
 export interface ContainerInfo {
   /** The unique identifier (ID or name) of the instance. */
@@ -12,7 +64,13 @@ export interface ContainerInfo {
   /** A human‐readable name or alias, if available. */
   name?: string;
 
-  /** The current status (e.g. "Running", "Stopped", "Created"), if known. */
+  /** The normalized lifecycle state. */
+  state: ContainerState;
+
+  /**
+   * The engine’s original status string (e.g. Docker "running", Kubernetes
+   * "Succeeded", LXD "Frozen"), if known.
+   */
   status?: string;
 
   /** The image (or image reference) used to create this instance, if known. */
@@ -21,11 +79,68 @@ export interface ContainerInfo {
   /** An ISO‐8601 timestamp of creation, if known. */
   createdAt?: string;
 
+  /** An ISO‐8601 timestamp of the most recent start, if known. */
+  startedAt?: string;
+
+  /** An ISO‐8601 timestamp of the most recent exit, if known. */
+  finishedAt?: string;
+
+  /** The exit code of the most recent run, once it has exited. */
+  exitCode?: number;
+
+  /** How many times the engine has restarted the instance, if tracked. */
+  restartCount?: number;
+
+  /** The instance’s IP addresses, if known. */
+  ipAddresses?: string[];
+
+  /** Exposed and published ports, if known. */
+  ports?: PublishedPort[];
+
+  /** User‐defined labels (Docker labels, k8s labels, LXD `user.*` keys). */
+  labels?: Record<string, string>;
+
+  /** The health‐check verdict, for instances that have one. */
+  health?: HealthStatus;
+
+  /**
+   * `true` once the instance can serve: running and, if it has a health
+   * check, healthy (Docker); its Ready condition (k8s pods); a complete
+   * rollout (workloads); or simply running (LXD, containerd).
+   */
+  ready?: boolean;
+
+  /** Rollout progress, for replicated workloads (e.g. a k8s Deployment). */
+  rollout?: RolloutStatus;
+
   /** The raw, engine‐specific payload for deeper inspection. */
-  raw?: unknown;
+  raw?: RawContainerInfo;
 }
 
-/** A standardized response for actions like start/stop/restart/remove. */
+/**
+ * A normalized health‐check verdict: Docker’s `State.Health.Status`, or a
+ * running k8s pod’s Ready condition.
+ */
+export type HealthStatus = "starting" | "healthy" | "unhealthy";
+
+/** Progress of a workload rollout, as `kubectl rollout status` reports it. */
+export interface RolloutStatus {
+  desiredReplicas: number;
+  updatedReplicas: number;
+  readyReplicas: number;
+  availableReplicas: number;
+
+  /** `true` once every desired replica runs the latest template. */
+  complete: boolean;
+
+  /** Why the rollout is stuck, if the controller reports it. */
+  message?: string;
+}
+
+/**
+ * A standardized response for actions like start/stop/restart/remove.
+ * Failures are thrown as RuntimeErrors rather than returned here.
+ */
 export interface ActionResponse {
   /** `true` if the action succeeded. */
   success: boolean;
@@ -34,24 +149,658 @@ export interface ActionResponse {
   error?: string;
 }
 
+/** Options for `stop` and `restart`. */
+export interface StopOptions {
+  /**
+   * Seconds to wait after the graceful stop signal before killing the
+   * instance (a pod’s termination grace period); the engine’s default if
+   * unset.
+   */
+  timeoutSeconds?: number;
+}
+
+/** Options for `remove`. */
+export interface RemoveOptions {
+  /** Kill and remove the instance even if it is running. */
+  force?: boolean;
+
+  /** Also remove anonymous volumes attached to the instance. */
+  volumes?: boolean;
+}
+
+/**
+ * A signal for `kill`: a name with or without the `SIG` prefix
+ * ("SIGTERM", "HUP"), or its Linux number.
+ */
+export type Signal = string | number;
+
 /** A standardized response for fetching logs. */
 export interface LogsResponse {
   /** The full logs (stdout + stderr) as one concatenated string. */
   logs: string;
 }
 
-/** A generic “create” payload—engine‐specific fields may be passed here. */
-export type CreateOptions = Record<string, unknown>;
+/**
+ * The escape hatch for engine‐native create payloads: `raw` is passed to the
+ * engine untouched (a Docker `createContainer` body, a pod `{metadata, spec}`,
+ * an LXD `{name, source}`, or a containerd container record).
+ */
+export interface RawCreateOptions {
+  raw: Record<string, unknown>;
+}
+
+/** Which output streams to include when fetching logs. */
+export type LogStream = "stdout" | "stderr" | "both";
+
+/** Options for fetching or following logs. */
+export interface LogOptions {
+  /** Keep the stream open and yield new lines as they are written. */
+  follow?: boolean;
+
+  /**
+   * Only return lines written after this point: a Date, Unix seconds, an
+   * ISO‐8601 timestamp, or a relative duration such as "10m".
+   */
+  since?: string | number | Date;
+
+  /** Only return this many lines from the end of the existing logs. */
+  tail?: number;
+
+  /** Ask the engine for per‐line timestamps (see `LogLine.timestamp`). */
+  timestamps?: boolean;
+
+  /** For multi‐container instances (e.g. pods), the container to read. */
+  container?: string;
+
+  /** Which output streams to include; defaults to "both". */
+  stream?: LogStream;
+}
+
+/** A single line of instance output. */
+export interface LogLine {
+  /** The stream the line was written to, if the engine distinguishes them. */
+  stream?: "stdout" | "stderr";
+
+  /** The line itself, without its trailing newline. */
+  text: string;
+
+  /** The engine‐reported timestamp, if `timestamps` was requested. */
+  timestamp?: string;
+
+  /** The container that wrote the line, for multi‐container instances. */
+  container?: string;
+}
+
+/** Options for running a command inside an instance. */
+export interface ExecOptions {
+  /** The command and its arguments. */
+  cmd: string[];
+
+  /** Extra environment variables for the command. */
+  env?: Record<string, string>;
+
+  /** Working directory for the command. */
+  workdir?: string;
+
+  /** Allocate a TTY (stdout and stderr are then merged). */
+  tty?: boolean;
+
+  /** Fed to the command’s stdin; stdin is closed when this ends. */
+  stdin?: Readable;
+
+  /** Receives the command’s stdout; captured into the result if omitted. */
+  stdout?: Writable;
+
+  /** Receives the command’s stderr; captured into the result if omitted. */
+  stderr?: Writable;
+
+  /** For multi‐container instances (e.g. pods), the container to run in. */
+  container?: string;
+}
+
+/** The outcome of an `exec`. */
+export interface ExecResult {
+  /** The command’s exit code. */
+  exitCode: number;
+
+  /** Captured stdout, when no `stdout` stream was supplied. */
+  stdout?: string;
+
+  /** Captured stderr, when no `stderr` stream was supplied. */
+  stderr?: string;
+}
+
+/** The normalized lifecycle events reported by `watch`. */
+export type RuntimeEventType =
+  | "created"
+  | "started"
+  | "died"
+  | "oomkilled"
+  | "removed"
+  | "health_changed";
+
+/** A single normalized lifecycle event. */
+export interface RuntimeEvent {
+  /** What happened. */
+  type: RuntimeEventType;
+
+  /** The instance the event concerns. */
+  id: string;
+
+  /** An ISO‐8601 timestamp of when the engine recorded the event. */
+  timestamp: string;
+
+  /**
+   * A snapshot of the instance taken when the event was received.  For
+   * `removed` (or when the instance vanished first) it carries only what the
+   * event itself reported.
+   */
+  info: ContainerInfo;
+
+  /** For `died`, the exit code, if known. */
+  exitCode?: number;
+
+  /** For `health_changed`, the new health status (e.g. "healthy"). */
+  health?: string;
+}
+
+/** Narrows the events yielded by `watch`; all given criteria must match. */
+export interface WatchFilter {
+  /** Only events for these instance IDs or names. */
+  ids?: string[];
+
+  /** Only events for instances carrying all of these labels. */
+  labels?: Record<string, string>;
+
+  /** Only these event types. */
+  types?: RuntimeEventType[];
+}
+
+/**
+ * Narrows the instances returned by `list`; all given criteria must match.
+ * Clients push what they can down to the engine and filter the rest.
+ */
+export interface ListOptions {
+  /** Only instances carrying all of these labels. */
+  labels?: Record<string, string>;
+
+  /** Only the instance with exactly this name. */
+  name?: string;
+
+  /** Only instances in one of these states. */
+  status?: ContainerState | ContainerState[];
+
+  /** Only instances created from this image. */
+  image?: string;
+
+  /** Return at most this many instances per page. */
+  limit?: number;
+
+  /** Resume after the page that returned this token. */
+  continueToken?: string;
+}
+
+/** One page of `listPage` results. */
+export interface ContainerPage {
+  items: ContainerInfo[];
+
+  /** Pass back as `continueToken` to fetch the next page; unset on the last. */
+  continueToken?: string;
+}
+
+/** A “create” payload: a portable ContainerSpec, or an explicit raw payload. */
+export type CreateOptions = ContainerSpecInput | RawCreateOptions;
+
+/** Engine‐specific connection options passed to a client’s constructor. */
+export type ClientOptions = Record<string, unknown>;
+
+/** Credentials for pulling from a private registry. */
+export interface RegistryAuth {
+  username?: string;
+  password?: string;
+
+  /** The registry host, e.g. "ghcr.io"; defaults to the image’s registry. */
+  serverAddress?: string;
+
+  /** An OAuth/identity token, used instead of username/password. */
+  identityToken?: string;
+}
+
+/** A progress update emitted while pulling an image. */
+export interface PullProgress {
+  /** The engine’s status message (e.g. "Downloading", "Pull complete"). */
+  status: string;
+
+  /** The layer or operation the update refers to, if any. */
+  id?: string;
+
+  /** Bytes transferred so far, if reported. */
+  current?: number;
+
+  /** Total bytes expected, if reported. */
+  total?: number;
+}
+
+/** Options for `pullImage`. */
+export interface PullOptions {
+  auth?: RegistryAuth;
+
+  /** Called for every progress update the engine reports. */
+  onProgress?: (progress: PullProgress) => void;
+}
+
+/** A standardized representation of a locally stored image. */
+export interface ImageInfo {
+  /** The engine’s image ID (digest or fingerprint). */
+  id: string;
+
+  /** Human‐readable references (repo tags, aliases). */
+  tags: string[];
+
+  /** Content digests (repo digests), if known. */
+  digests?: string[];
+
+  /** Size on disk in bytes, if known. */
+  sizeBytes?: number;
+
+  /** An ISO‐8601 timestamp of creation, if known. */
+  createdAt?: string;
+
+  /** The raw, engine‐specific payload for deeper inspection. */
+  raw?: unknown;
+}
+
+/** Options for `removeImage`. */
+export interface RemoveImageOptions {
+  /** Remove even if tagged multiple times or used by stopped instances. */
+  force?: boolean;
+}
+
+/** Options for `pruneImages`. */
+export interface PruneImagesOptions {
+  /** Remove every unused image, not just dangling (untagged) ones. */
+  all?: boolean;
+}
+
+/** The outcome of a prune. */
+export interface PruneResult {
+  /** IDs or references that were removed. */
+  removed: string[];
+
+  /** Disk space freed, in bytes, if reported. */
+  reclaimedBytes?: number;
+}
+
+/**
+ * Image management, implemented alongside ContainerRuntime by engines that
+ * store images locally.
+ */
+export interface ImageRuntime {
+  /** Pull an image (if needed) and return its local details. */
+  pullImage(ref: string, options?: PullOptions): Promise<ImageInfo>;
+
+  /** List all locally stored images. */
+  listImages(): Promise<ImageInfo[]>;
+
+  /** Inspect a single image by reference or ID. */
+  inspectImage(ref: string): Promise<ImageInfo>;
+
+  /** Remove an image; returns whether it succeeded. */
+  removeImage(
+    ref: string,
+    options?: RemoveImageOptions,
+  ): Promise<ActionResponse>;
+
+  /** Remove unused images. */
+  pruneImages(options?: PruneImagesOptions): Promise<PruneResult>;
+}
+
+/** A standardized representation of a named volume (or claim). */
+export interface VolumeInfo {
+  /** The volume’s name, which mounts refer to as their `source`. */
+  name: string;
+
+  /** The volume driver, storage pool or storage class behind it. */
+  driver?: string;
+
+  /** Where the volume lives on the engine’s host, if known. */
+  mountpoint?: string;
+
+  /** Its size or requested capacity in bytes, if known. */
+  sizeBytes?: number;
+
+  labels?: Record<string, string>;
+
+  /** An ISO‐8601 timestamp of creation, if known. */
+  createdAt?: string;
+
+  /** Instances using the volume, if the engine reports them. */
+  usedBy?: string[];
+
+  /** The raw, engine‐specific payload for deeper inspection. */
+  raw?: unknown;
+}
+
+/** Options for `createVolume`. */
+export interface VolumeCreateOptions {
+  name: string;
+
+  /**
+   * The volume driver (Docker, Podman), storage pool (LXD) or storage
+   * class (Kubernetes); the engine’s default if unset.
+   */
+  driver?: string;
+
+  /** The size to allocate, where the engine takes one (LXD, Kubernetes). */
+  sizeBytes?: number;
+
+  labels?: Record<string, string>;
+
+  /** Driver options (Docker, Podman) or volume config keys (LXD). */
+  options?: Record<string, string>;
+}
+
+/** Options for `removeVolume`. */
+export interface RemoveVolumeOptions {
+  /** Remove the volume even if it is in use. */
+  force?: boolean;
+}
+
+/** Options for `pruneVolumes`. */
+export interface PruneVolumesOptions {
+  /** Remove every unused volume, not just anonymous ones. */
+  all?: boolean;
+}
+
+/**
+ * Volume management, implemented alongside ContainerRuntime by engines
+ * with named storage (Kubernetes: PersistentVolumeClaims).
+ */
+export interface VolumeRuntime {
+  /** Create a named volume. */
+  createVolume(options: VolumeCreateOptions): Promise<VolumeInfo>;
+
+  /** List all volumes. */
+  listVolumes(): Promise<VolumeInfo[]>;
+
+  /** Inspect a single volume by name. */
+  inspectVolume(name: string): Promise<VolumeInfo>;
+
+  /** Remove a volume; returns whether it succeeded. */
+  removeVolume(
+    name: string,
+    options?: RemoveVolumeOptions,
+  ): Promise<ActionResponse>;
+
+  /** Remove volumes no instance uses. */
+  pruneVolumes(options?: PruneVolumesOptions): Promise<PruneResult>;
+}
+
+/** A standardized representation of a network. */
+export interface NetworkInfo {
+  /** The engine’s network ID (the name, where networks have no ID). */
+  id: string;
+
+  name: string;
+
+  /** The network driver or type (e.g. "bridge"). */
+  driver?: string;
+
+  /** Subnets in CIDR notation. */
+  subnets?: string[];
+
+  labels?: Record<string, string>;
+
+  /** An ISO‐8601 timestamp of creation, if known. */
+  createdAt?: string;
+
+  /** The raw, engine‐specific payload for deeper inspection. */
+  raw?: unknown;
+}
+
+/** Options for `createNetwork`. */
+export interface NetworkCreateOptions {
+  name: string;
+
+  /** The network driver or type; "bridge" by default. */
+  driver?: string;
+
+  /** The subnet in CIDR notation, e.g. "10.10.0.0/24". */
+  subnet?: string;
+
+  /** The gateway address; by default the subnet’s first address. */
+  gateway?: string;
+
+  /** Cut the network off from the outside world (no NAT). */
+  internal?: boolean;
+
+  labels?: Record<string, string>;
+
+  /** Driver options (Docker, Podman) or network config keys (LXD). */
+  options?: Record<string, string>;
+}
+
+/** Options for `connectNetwork`. */
+export interface NetworkConnectOptions {
+  /** Extra DNS names for the instance on this network. */
+  aliases?: string[];
+
+  /** A static IPv4 address on the network. */
+  ipAddress?: string;
+}
+
+/** Options for `disconnectNetwork`. */
+export interface NetworkDisconnectOptions {
+  /** Disconnect even if the instance is running or the engine objects. */
+  force?: boolean;
+}
+
+/**
+ * Network management, implemented alongside ContainerRuntime by engines
+ * that manage networks themselves (not Kubernetes, whose networking is
+ * the cluster’s).
+ */
+export interface NetworkRuntime {
+  /** Create a network. */
+  createNetwork(options: NetworkCreateOptions): Promise<NetworkInfo>;
+
+  /** List all networks. */
+  listNetworks(): Promise<NetworkInfo[]>;
+
+  /** Attach an instance to a network. */
+  connectNetwork(
+    network: string,
+    id: string,
+    options?: NetworkConnectOptions,
+  ): Promise<ActionResponse>;
+
+  /** Detach an instance from a network. */
+  disconnectNetwork(
+    network: string,
+    id: string,
+    options?: NetworkDisconnectOptions,
+  ): Promise<ActionResponse>;
+
+  /** Remove a network by name or ID. */
+  removeNetwork(network: string): Promise<ActionResponse>;
+}
+
+/**
+ * What `waitFor` waits for:
+ * - "running": the instance is running;
+ * - "healthy": its health check passes (or, without one, it is ready);
+ * - "ready": it can serve (see `ContainerInfo.ready`);
+ * - "exited": it has exited;
+ * - "removed": it no longer exists;
+ * - `{ log }`: a line of its output (past or future) matches the pattern.
+ */
+export type WaitCondition =
+  | "running"
+  | "healthy"
+  | "ready"
+  | "exited"
+  | "removed"
+  | { log: RegExp | string };
+
+/** Options for `waitFor`. */
+export interface WaitOptions {
+  /** Give up after this many milliseconds; by default, wait indefinitely. */
+  timeout?: number;
+
+  /** Milliseconds between inspections; defaults to 1000. */
+  interval?: number;
+
+  /** Abort the wait early. */
+  signal?: AbortSignal;
+}
+
+/** What `waitFor` saw when the condition was met. */
+export interface WaitResult {
+  /** The instance as last inspected; unset once it has been removed. */
+  info?: ContainerInfo;
+
+  /** The matching line, for `{ log }` conditions. */
+  line?: LogLine;
+}
+
+/**
+ * One normalized resource‐usage sample.  Fields an engine does not report
+ * are left unset; byte and I/O counters are cumulative since the instance
+ * started.
+ */
+export interface ResourceStats {
+  /** An ISO‐8601 timestamp of when the sample was taken. */
+  timestamp: string;
+
+  /** CPU use since the previous sample, as a percentage of one core. */
+  cpuPercent?: number;
+
+  /** Memory in use (excluding reclaimable page cache, where reported). */
+  memoryUsedBytes?: number;
+
+  /**
+   * The memory limit.  For an unlimited instance, some engines report the
+   * host’s memory and others nothing.
+   */
+  memoryLimitBytes?: number;
+
+  /** Bytes received and sent over the network. */
+  netRxBytes?: number;
+  netTxBytes?: number;
+
+  /** Bytes read from and written to block devices. */
+  blockReadBytes?: number;
+  blockWriteBytes?: number;
+
+  /** The number of processes (or threads) running. */
+  pids?: number;
+}
+
+/** Options for `stats`. */
+export interface StatsOptions {
+  /** Keep yielding samples until the consumer stops reading. */
+  stream?: boolean;
+
+  /**
+   * Milliseconds between samples for engines that are polled; defaults to
+   * 1000.  Engines that push samples (Docker) use their own cadence.
+   */
+  interval?: number;
+}
+
+/** An operation a client may offer: one of RuntimeClient’s methods. */
+export type Operation = Exclude<
+  keyof RuntimeClient,
+  "runtime" | "capabilities" | "version"
+>;
+
+/**
+ * Optional parts of an operation, beyond its basic form:
+ * - "logs.follow", "logs.since", "logs.timestamps": those LogOptions;
+ * - "logs.streams": reading stdout or stderr alone;
+ * - "exec.tty", "exec.stdin": a terminal, and input, for `exec`;
+ * - "stats.stream": sampling until the consumer stops reading;
+ * - "kill.signals": any signal, not only SIGKILL;
+ * - "create.pull": `create` pulls a missing image itself.
+ */
+export type Feature =
+  | "logs.follow"
+  | "logs.since"
+  | "logs.timestamps"
+  | "logs.streams"
+  | "exec.tty"
+  | "exec.stdin"
+  | "stats.stream"
+  | "kill.signals"
+  | "create.pull";
+
+/** What a client can do, as reported by `capabilities`. */
+export interface Capabilities {
+  /** Which engine the client drives. */
+  runtime: RuntimeName | "multi";
+
+  /** The operations the client supports, at least in part. */
+  operations: Operation[];
+
+  /** The optional parts of those operations it supports. */
+  features: Feature[];
+
+  /**
+   * The kinds of “instance” it manages: "container", or for Kubernetes
+   * "pod" and the workload kinds an ID may name ("deployment/web").
+   */
+  kinds: string[];
+
+  /** For operations supported only in part, what does not work. */
+  limitations?: Partial<Record<Operation, string>>;
+
+  /** For an aggregate client, each backend’s capabilities, by runtime. */
+  backends?: Record<string, Capabilities>;
+}
+
+/** The engine’s version, as reported by `version`. */
+export interface RuntimeVersion {
+  /** The engine’s own version, e.g. "27.3.1" or "v1.31.2". */
+  version: string;
+
+  /** The version of the API the client speaks to it, if it has one. */
+  apiVersion?: string;
+
+  /** The engine host’s operating system and architecture, if reported. */
+  os?: string;
+  arch?: string;
+
+  /** For an aggregate client, each backend’s version, by runtime. */
+  backends?: Record<string, RuntimeVersion>;
+
+  /** The engine’s version payload, unmodified. */
+  raw?: unknown;
+}
 
 /**
  * Fully‐unified interface for any container runtime.
  * All implementations must follow these method signatures exactly.
  */
 export interface ContainerRuntime {
-  /** List all “instances” (containers, pods, etc.). */
-  list(): Promise<ContainerInfo[]>;
+  /** Which engine this client drives; "multi" for an aggregate client. */
+  readonly runtime: RuntimeName | "multi";
+
+  /**
+   * Report which operations, and which of their options, this client
+   * supports, without contacting the engine.
+   */
+  capabilities(): Capabilities;
+
+  /** Ask the engine for its version and API version. */
+  version(): Promise<RuntimeVersion>;
+
+  /** List “instances” (containers, pods, etc.), optionally filtered. */
+  list(options?: ListOptions): Promise<ContainerInfo[]>;
 
-  /** Create a new “instance” with an engine‐specific payload. */
+  /** Like `list`, but also returns a token for fetching the next page. */
+  listPage(options?: ListOptions): Promise<ContainerPage>;
+
+  /** Create a new “instance” from a ContainerSpec (or a raw payload). */
   create(options: CreateOptions): Promise<ContainerInfo>;
 
   /** Inspect (get) a single “instance” by ID or name. */
@@ -60,23 +809,150 @@ export interface ContainerRuntime {
   /** Start an “instance”; returns whether it succeeded. */
   start(id: string): Promise<ActionResponse>;
 
-  /** Stop an “instance”; returns whether it succeeded. */
-  stop(id: string): Promise<ActionResponse>;
+  /** Stop an “instance” gracefully; returns whether it succeeded. */
+  stop(id: string, options?: StopOptions): Promise<ActionResponse>;
 
   /** Restart an “instance”; returns whether it succeeded. */
-  restart(id: string): Promise<ActionResponse>;
+  restart(id: string, options?: StopOptions): Promise<ActionResponse>;
 
   /** Remove (delete) an “instance”; returns whether it succeeded. */
-  remove(id: string): Promise<ActionResponse>;
+  remove(id: string, options?: RemoveOptions): Promise<ActionResponse>;
+
+  /** Suspend every process in a running “instance”. */
+  pause(id: string): Promise<ActionResponse>;
+
+  /** Resume a paused “instance”. */
+  unpause(id: string): Promise<ActionResponse>;
+
+  /** Send a signal (SIGKILL by default) to an “instance’s” main process. */
+  kill(id: string, signal?: Signal): Promise<ActionResponse>;
+
+  /** Fetch logs (stdout + stderr) for an “instance” as one string. */
+  logs(id: string, options?: LogOptions): Promise<LogsResponse>;
+
+  /** Stream an “instance’s” logs line by line, optionally following. */
+  streamLogs(id: string, options?: LogOptions): AsyncIterable<LogLine>;
+
+  /** Run a command inside a running “instance” and wait for it to exit. */
+  exec(id: string, options: ExecOptions): Promise<ExecResult>;
+
+  /**
+   * Copy a local file or directory into an “instance”.  Onto an existing
+   * directory (or a path ending in `/`) it keeps its own name; otherwise
+   * `remotePath` names the copy.
+   */
+  copyTo(
+    id: string,
+    localPath: string,
+    remotePath: string,
+  ): Promise<ActionResponse>;
+
+  /**
+   * Copy a file or directory out of an “instance”, with the same rules for
+   * `localPath` as `copyTo` has for `remotePath`.
+   */
+  copyFrom(
+    id: string,
+    remotePath: string,
+    localPath: string,
+  ): Promise<ActionResponse>;
 
-  /** Fetch logs (stdout + stderr) for an “instance.” */
-  logs(id: string): Promise<LogsResponse>;
+  /** Stream lifecycle events until the consumer stops reading. */
+  watch(filter?: WatchFilter): AsyncIterable<RuntimeEvent>;
+
+  /**
+   * Block until an “instance” meets a condition, throwing TimeoutError if
+   * it does not within `options.timeout`.
+   */
+  waitFor(
+    id: string,
+    condition: WaitCondition,
+    options?: WaitOptions,
+  ): Promise<WaitResult>;
+
+  /**
+   * Sample an “instance’s” resource usage: one sample, or (with
+   * `stream`) a sample per interval until the consumer stops reading.
+   */
+  stats(id: string, options?: StatsOptions): AsyncIterable<ResourceStats>;
+}
+
+/** What `clientFactory` returns: every runtime interface a client offers. */
+export type RuntimeClient =
+  & ContainerRuntime
+  & ImageRuntime
+  & VolumeRuntime
+  & NetworkRuntime;
+
+/** Context attached to every typed runtime error. */
+export interface RuntimeErrorOptions {
+  /** The engine that reported the failure. */
+  runtime?: RuntimeName;
+
+  /** The HTTP status (or gRPC status code) the engine returned, if any. */
+  statusCode?: number;
+
+  /** The underlying engine or transport error. */
+  cause?: unknown;
+}
+
+/** Base class for every typed failure raised by a runtime client. */
+export class RuntimeError extends Error {
+  readonly runtime?: RuntimeName;
+  readonly statusCode?: number;
+
+  constructor(message: string, options: RuntimeErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "RuntimeError";
+    this.runtime = options.runtime;
+    this.statusCode = options.statusCode;
+  }
 }
 
 /** An error to throw when a subclass hasn’t implemented a method. */
-export class UnimplementedError extends Error {
+export class UnimplementedError extends RuntimeError {
   constructor(method: string) {
     super(`${method} is not implemented by this runtime client.`);
     this.name = "UnimplementedError";
   }
 }
+
+/** The instance (or image, volume, …) does not exist. */
+export class NotFoundError extends RuntimeError {
+  constructor(message: string, options?: RuntimeErrorOptions) {
+    super(message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/** The request conflicts with the current state (e.g. already started). */
+export class ConflictError extends RuntimeError {
+  constructor(message: string, options?: RuntimeErrorOptions) {
+    super(message, options);
+    this.name = "ConflictError";
+  }
+}
+
+/** The engine refused the request for lack of credentials or permission. */
+export class PermissionDeniedError extends RuntimeError {
+  constructor(message: string, options?: RuntimeErrorOptions) {
+    super(message, options);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/** The engine could not be reached (missing socket, refused, 503, …). */
+export class RuntimeUnavailableError extends RuntimeError {
+  constructor(message: string, options?: RuntimeErrorOptions) {
+    super(message, options);
+    this.name = "RuntimeUnavailableError";
+  }
+}
+
+/** The operation did not finish in time. */
+export class TimeoutError extends RuntimeError {
+  constructor(message: string, options?: RuntimeErrorOptions) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
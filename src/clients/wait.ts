@@ -0,0 +1,179 @@
+// src/clients/wait.ts
+
+import {
+  ConflictError,
+  type ContainerInfo,
+  type ContainerRuntime,
+  type LogLine,
+  NotFoundError,
+  TimeoutError,
+  type WaitCondition,
+  type WaitOptions,
+  type WaitResult,
+} from "./types.ts";
+
+/**
+ * The engine‐neutral `waitFor`.  State conditions poll `inspect`, which
+ * every engine answers the same way once payloads are normalized; log
+ * conditions follow `streamLogs`.  (Event streams would wake us sooner,
+ * but several engines cannot abandon one mid‐read, which would leave the
+ * connection, and the process, hanging after the wait.)
+ */
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+function describe(condition: WaitCondition): string {
+  return typeof condition === "string"
+    ? condition
+    : `logging ${String(condition.log)}`;
+}
+
+/** Whether a state condition holds; `undefined` info means removed. */
+function isMet(
+  condition: Exclude<WaitCondition, { log: unknown }>,
+  info: ContainerInfo | undefined,
+): boolean {
+  if (condition === "removed") return info === undefined;
+  if (!info) return false;
+  switch (condition) {
+    case "running":
+      return info.state === "running";
+    case "exited":
+      return info.state === "exited" || info.state === "dead";
+    case "healthy":
+      return info.health !== undefined
+        ? info.health === "healthy"
+        : info.ready ?? info.state === "running";
+    case "ready":
+      return info.ready ?? info.state === "running";
+  }
+}
+
+/** Resolve after `ms`, or reject with the signal’s reason once aborted. */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Reject with the signal’s reason once it aborts. */
+function aborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+}
+
+async function pollState(
+  client: ContainerRuntime,
+  id: string,
+  condition: Exclude<WaitCondition, { log: unknown }>,
+  interval: number,
+  signal: AbortSignal,
+): Promise<WaitResult> {
+  while (true) {
+    signal.throwIfAborted();
+    let info: ContainerInfo | undefined;
+    try {
+      info = await client.inspect(id);
+    } catch (err) {
+      if (!(err instanceof NotFoundError) || condition !== "removed") throw err;
+    }
+    if (isMet(condition, info)) return { info };
+    // An exited instance will not become running/healthy/ready by itself.
+    if (
+      condition !== "exited" && condition !== "removed" &&
+      isMet("exited", info)
+    ) {
+      throw new ConflictError(
+        `${id} exited while waiting for it to be ${condition}`,
+      );
+    }
+    await delay(interval, signal);
+  }
+}
+
+async function matchLog(
+  client: ContainerRuntime,
+  id: string,
+  pattern: RegExp | string,
+  signal: AbortSignal,
+): Promise<WaitResult> {
+  const regex = typeof pattern === "string" ? new RegExp(pattern) : pattern;
+  const lines = client.streamLogs(id, { follow: true })[
+    Symbol.asyncIterator
+  ]();
+  const stop = aborted(signal);
+  try {
+    while (true) {
+      const next = await Promise.race([lines.next(), stop]);
+      if (next.done) {
+        throw new ConflictError(
+          `${id}’s output ended without a line matching ${regex}`,
+        );
+      }
+      const line: LogLine = next.value;
+      if (regex.test(line.text)) {
+        return { info: await client.inspect(id), line };
+      }
+    }
+  } finally {
+    // Best effort: a stream blocked mid‐read only stops at its next chunk.
+    lines.return?.().catch(() => {});
+    stop.catch(() => {});
+  }
+}
+
+/**
+ * Wait for an instance to meet `condition` (see WaitCondition), checking
+ * every `interval` ms.  Throws TimeoutError after `timeout` ms, the
+ * signal’s reason if `signal` aborts, and ConflictError if the instance
+ * exits when waiting for it to run (or its output ends without a match).
+ */
+export async function waitForCondition(
+  client: ContainerRuntime,
+  id: string,
+  condition: WaitCondition,
+  options: WaitOptions = {},
+): Promise<WaitResult> {
+  const controller = new AbortController();
+  const timer = options.timeout === undefined ? undefined : setTimeout(
+    () =>
+      controller.abort(
+        new TimeoutError(
+          `Timed out after ${options.timeout}ms waiting for ${id} to be ${
+            describe(condition)
+          }`,
+        ),
+      ),
+    options.timeout,
+  );
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) onAbort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return typeof condition === "string"
+      ? await pollState(
+        client,
+        id,
+        condition,
+        options.interval ?? DEFAULT_INTERVAL_MS,
+        controller.signal,
+      )
+      : await matchLog(client, id, condition.log, controller.signal);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
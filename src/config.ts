@@ -0,0 +1,199 @@
+// src/config.ts
+
+import { z } from "zod";
+import { parse as parseJsonc } from "@std/jsonc";
+import {
+  type ClientOptions,
+  NotFoundError,
+  RuntimeError,
+  type RuntimeName,
+} from "./clients/types.ts";
+import { envVar } from "./clients/endpoint.ts";
+
+/**
+ * The CLI’s config file: named connection profiles, so an invocation can
+ * pin a runtime, endpoint, namespace or cluster instead of re‐detecting.
+ *
+ *     // ~/.config/infra-client/config.jsonc
+ *     {
+ *       "currentProfile": "prod",
+ *       "profiles": {
+ *         "prod": {
+ *           "runtime": "docker",
+ *           "endpoint": "tcp://prod-1:2376",
+ *           "credentials": { "certFile": "~/.docker/prod/cert.pem" }
+ *         }
+ *       }
+ *     }
+ */
+
+/** Every runtime a profile (or `--runtime`) can name. */
+export const RUNTIME_NAMES = [
+  "docker",
+  "podman",
+  "kubernetes",
+  "lxd",
+  "containerd",
+] as const satisfies readonly RuntimeName[];
+
+/**
+ * Where a profile’s secrets live.  Only references are stored — file paths
+ * and environment variable names — so the config itself holds no secrets.
+ */
+export const credentialsSchema = z
+  .object({
+    caFile: z.string().optional(),
+    certFile: z.string().optional(),
+    keyFile: z.string().optional(),
+    /** A file holding a bearer token (Kubernetes). */
+    tokenFile: z.string().optional(),
+    /** An environment variable holding a bearer token (Kubernetes). */
+    tokenEnv: z.string().optional(),
+  })
+  .strict();
+
+/** One named way of connecting to a runtime. */
+export const profileSchema = z
+  .object({
+    /** The runtime to connect to; detected if omitted. */
+    runtime: z.enum(RUNTIME_NAMES).optional(),
+    /** An endpoint URI (see clients/endpoint.ts), or a Kubernetes API URL. */
+    endpoint: z.string().optional(),
+    namespace: z.string().optional(),
+    /** Kubernetes context and kubeconfig. */
+    context: z.string().optional(),
+    kubeconfig: z.string().optional(),
+    credentials: credentialsSchema.optional(),
+    /** Further engine‐specific client options, passed through as‐is. */
+    options: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    /** The profile used when `--profile` is not given. */
+    currentProfile: z.string().optional(),
+    profiles: z.record(profileSchema).default({}),
+  })
+  .strict();
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type Profile = z.infer<typeof profileSchema>;
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * The config file’s location: INFRA_CLIENT_CONFIG, else
+ * `$XDG_CONFIG_HOME/infra-client/config.jsonc` (XDG_CONFIG_HOME defaulting
+ * to `~/.config`).
+ */
+export function configPath(): string {
+  const explicit = envVar("INFRA_CLIENT_CONFIG");
+  if (explicit) return explicit;
+  const base = envVar("XDG_CONFIG_HOME") ?? `${envVar("HOME") ?? "."}/.config`;
+  return `${base}/infra-client/config.jsonc`;
+}
+
+/** Expand a leading `~` to the home directory. */
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/")
+    ? `${envVar("HOME") ?? ""}${path.slice(1)}`
+    : path;
+}
+
+/** Read and validate the config; a missing file is an empty config. */
+export async function loadConfig(path = configPath()): Promise<Config> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return { profiles: {} };
+    throw new RuntimeError(`Cannot read config ${path}`, { cause: err });
+  }
+  let raw: unknown;
+  try {
+    raw = parseJsonc(text);
+  } catch (err) {
+    throw new RuntimeError(`Invalid JSONC in ${path}: ${String(err)}`, {
+      cause: err,
+    });
+  }
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new RuntimeError(`Invalid config ${path}: ${parsed.error.message}`, {
+      cause: parsed.error,
+    });
+  }
+  return parsed.data;
+}
+
+/**
+ * Write the config back as JSON.  Comments in the original file are not
+ * preserved.
+ */
+export async function saveConfig(
+  config: Config,
+  path = configPath(),
+): Promise<void> {
+  await Deno.mkdir(path.slice(0, path.lastIndexOf("/")) || "/", {
+    recursive: true,
+  });
+  await Deno.writeTextFile(path, JSON.stringify(config, null, 2) + "\n");
+}
+
+/**
+ * Pick the profile that applies: `name` if given, else INFRA_CLIENT_PROFILE,
+ * else the config’s `currentProfile`.  Returns undefined when none is set;
+ * a name that is set but not defined throws NotFoundError.
+ */
+export function selectProfile(
+  config: Config,
+  name?: string,
+): { name: string; profile: Profile } | undefined {
+  const selected = name ?? envVar("INFRA_CLIENT_PROFILE") ??
+    config.currentProfile;
+  if (selected === undefined) return undefined;
+  const profile = config.profiles[selected];
+  if (!profile) throw new NotFoundError(`No profile named "${selected}"`);
+  return { name: selected, profile };
+}
+
+/**
+ * Turn a profile into client options, resolving its credential references.
+ * Token files are read and token variables looked up here, so a missing
+ * secret fails before any connection is attempted.
+ */
+export async function profileClientOptions(
+  profile: Profile,
+): Promise<ClientOptions> {
+  const { caFile, certFile, keyFile, tokenFile, tokenEnv } =
+    profile.credentials ?? {};
+  let token: string | undefined;
+  if (tokenFile) {
+    try {
+      token = (await Deno.readTextFile(expandHome(tokenFile))).trim();
+    } catch (err) {
+      throw new RuntimeError(`Cannot read tokenFile ${tokenFile}`, {
+        cause: err,
+      });
+    }
+  } else if (tokenEnv) {
+    token = envVar(tokenEnv);
+    if (token === undefined) {
+      throw new RuntimeError(`Environment variable ${tokenEnv} is not set`);
+    }
+  }
+  const opts: ClientOptions = {
+    ...profile.options,
+    endpoint: profile.endpoint,
+    namespace: profile.namespace,
+    context: profile.context,
+    kubeconfig: profile.kubeconfig && expandHome(profile.kubeconfig),
+    caFile: caFile && expandHome(caFile),
+    certFile: certFile && expandHome(certFile),
+    keyFile: keyFile && expandHome(keyFile),
+    token,
+  };
+  return Object.fromEntries(
+    Object.entries(opts).filter(([, value]) => value !== undefined),
+  );
+}
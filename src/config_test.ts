@@ -0,0 +1,190 @@
+// src/config_test.ts
+
+import assert from "node:assert/strict";
+import {
+  type Config,
+  configPath,
+  loadConfig,
+  type Profile,
+  profileClientOptions,
+  saveConfig,
+  selectProfile,
+} from "./config.ts";
+import {
+  type ClientOptions,
+  NotFoundError,
+  RuntimeError,
+} from "./clients/types.ts";
+
+/** Run `fn` with `vars` set (undefined: unset), restoring them after. */
+async function withEnv(
+  vars: Record<string, string | undefined>,
+  fn: () => void | Promise<void>,
+) {
+  const saved = Object.keys(vars).map((key) => [key, Deno.env.get(key)]);
+  const apply = (entries: [string, string | undefined][]) => {
+    for (const [key, value] of entries) {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    }
+  };
+  apply(Object.entries(vars));
+  try {
+    await fn();
+  } finally {
+    apply(saved as [string, string | undefined][]);
+  }
+}
+
+const CONFIG: Config = {
+  currentProfile: "prod",
+  profiles: {
+    prod: { runtime: "docker", endpoint: "tcp://prod-1:2376" },
+    staging: { runtime: "podman" },
+  },
+};
+
+Deno.test("configPath honours INFRA_CLIENT_CONFIG and XDG_CONFIG_HOME", async () => {
+  const cases: [Record<string, string | undefined>, string][] = [
+    [{ INFRA_CLIENT_CONFIG: "/etc/ic.jsonc" }, "/etc/ic.jsonc"],
+    [
+      { INFRA_CLIENT_CONFIG: "", XDG_CONFIG_HOME: "/xdg" },
+      "/xdg/infra-client/config.jsonc",
+    ],
+    [{ HOME: "/home/me" }, "/home/me/.config/infra-client/config.jsonc"],
+  ];
+  for (const [env, expected] of cases) {
+    await withEnv(
+      { INFRA_CLIENT_CONFIG: undefined, XDG_CONFIG_HOME: undefined, ...env },
+      () => assert.equal(configPath(), expected),
+    );
+  }
+});
+
+Deno.test("selectProfile prefers the flag, then the environment, then the config", async () => {
+  const cases: [
+    Config,
+    string | undefined,
+    string | undefined,
+    string | undefined,
+  ][] = [
+    [CONFIG, "staging", "prod", "staging"],
+    [CONFIG, undefined, "staging", "staging"],
+    [CONFIG, undefined, undefined, "prod"],
+    [CONFIG, undefined, "", "prod"],
+    [{ profiles: CONFIG.profiles }, undefined, undefined, undefined],
+  ];
+  for (const [config, flag, env, expected] of cases) {
+    await withEnv({ INFRA_CLIENT_PROFILE: env }, () => {
+      const selected = selectProfile(config, flag);
+      assert.equal(selected?.name, expected, JSON.stringify([flag, env]));
+      if (expected) {
+        assert.equal(selected?.profile, config.profiles[expected]);
+      }
+    });
+  }
+
+  await withEnv({ INFRA_CLIENT_PROFILE: undefined }, () => {
+    assert.throws(() => selectProfile(CONFIG, "dev"), (err: unknown) => {
+      assert.ok(err instanceof NotFoundError);
+      assert.match(err.message, /No profile named "dev"/);
+      return true;
+    });
+  });
+});
+
+Deno.test("profileClientOptions merges a profile into client options", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/token`, "file-token\n");
+    const cases: [Profile, ClientOptions][] = [
+      [{}, {}],
+      [
+        {
+          endpoint: "tcp://prod-1:2376",
+          credentials: { certFile: "~/certs/cert.pem", caFile: "/ca.pem" },
+        },
+        {
+          endpoint: "tcp://prod-1:2376",
+          certFile: "/home/me/certs/cert.pem",
+          caFile: "/ca.pem",
+        },
+      ],
+      [
+        {
+          // The profile’s own fields win over pass‐through options.
+          namespace: "shop",
+          kubeconfig: "~/.kube/config",
+          options: { namespace: "ignored", timeoutMs: 5000 },
+          credentials: { tokenFile: `${dir}/token`, tokenEnv: "TEST_TOKEN" },
+        },
+        {
+          namespace: "shop",
+          kubeconfig: "/home/me/.kube/config",
+          timeoutMs: 5000,
+          token: "file-token",
+        },
+      ],
+      [{ credentials: { tokenEnv: "TEST_TOKEN" } }, { token: "env-token" }],
+    ];
+    await withEnv({ HOME: "/home/me", TEST_TOKEN: "env-token" }, async () => {
+      for (const [profile, expected] of cases) {
+        assert.deepEqual(
+          await profileClientOptions(profile),
+          expected,
+          JSON.stringify(profile),
+        );
+      }
+    });
+
+    const failures: [Profile, RegExp][] = [
+      [
+        { credentials: { tokenFile: `${dir}/missing` } },
+        /Cannot read tokenFile .*missing/,
+      ],
+      [
+        { credentials: { tokenEnv: "TEST_TOKEN" } },
+        /Environment variable TEST_TOKEN is not set/,
+      ],
+    ];
+    await withEnv({ TEST_TOKEN: undefined }, async () => {
+      for (const [profile, message] of failures) {
+        await assert.rejects(profileClientOptions(profile), (err: unknown) => {
+          assert.ok(err instanceof RuntimeError);
+          assert.match(err.message, message);
+          return true;
+        });
+      }
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("loadConfig reads JSONC and saveConfig writes it back", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = `${dir}/infra-client/config.jsonc`;
+    assert.deepEqual(await loadConfig(path), { profiles: {} });
+
+    await saveConfig(CONFIG, path);
+    assert.deepEqual(await loadConfig(path), CONFIG);
+
+    await Deno.writeTextFile(
+      path,
+      `{\n  // Comments are allowed.\n  "profiles": { "a": {}, },\n}`,
+    );
+    assert.deepEqual(await loadConfig(path), { profiles: { a: {} } });
+
+    const failures: [string, RegExp][] = [
+      [`{ "profiles": { "a": { "runtime": "rkt" } } }`, /Invalid config/],
+      [`{ "profiles": `, /Invalid JSONC/],
+    ];
+    for (const [text, message] of failures) {
+      await Deno.writeTextFile(path, text);
+      await assert.rejects(loadConfig(path), message);
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -1 +1,6 @@
+export * from "./clients/bulk.ts";
 export * from "./clients/mod.ts";
+export * from "./clients/spec.ts";
+export * from "./clients/types.ts";
+export * from "./stack/mod.ts";
+export * from "./server/mod.ts";
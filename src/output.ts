@@ -0,0 +1,424 @@
+// src/output.ts
+
+import { stringify as stringifyYaml } from "@std/yaml";
+import type {
+  ContainerInfo,
+  ImageInfo,
+  LogLine,
+  NetworkInfo,
+  PruneResult,
+  ResourceStats,
+  RuntimeEvent,
+  VolumeInfo,
+} from "./clients/types.ts";
+import type { StackAction } from "./stack/mod.ts";
+
+/**
+ * How the CLI prints results.  Every command renders through a Printer,
+ * chosen by the global output flags:
+ *
+ * - `--output table` (most commands’ default) aligns rows under headers,
+ *   and `wide` adds more columns; results with no table print as YAML;
+ * - `--output json`, `yaml` and `ndjson` (one compact document per line)
+ *   print the results themselves, minus the engines’ `raw` payloads;
+ * - `--template` prints one line per result, filling in `{.path}` fields;
+ * - `--quiet` prints only IDs.
+ */
+
+/** Every format `--output` accepts. */
+export const OUTPUT_FORMATS = [
+  "table",
+  "wide",
+  "json",
+  "yaml",
+  "ndjson",
+] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** What to print, from the output flags. */
+export interface OutputOptions {
+  format: OutputFormat;
+
+  /** A field‐selection template, e.g. "{.id}\t{.labels.app}". */
+  template?: string;
+
+  /** Print only each result’s ID. */
+  quiet?: boolean;
+}
+
+/** A table column: its header and how to read a row’s cell. */
+export interface Column<T> {
+  header: string;
+  value: (row: T) => unknown;
+
+  /** Only shown with `--output wide`. */
+  wide?: boolean;
+
+  /** A minimum width, so streamed rows (which can’t be measured) line up. */
+  width?: number;
+}
+
+/**
+ * How a kind of result appears as text: under columns, or as one line (or
+ * several) of its own, plus its ID for `--quiet`.
+ */
+export interface View<T> {
+  columns?: Column<T>[];
+  line?: (row: T) => string;
+  id?: (row: T) => string;
+}
+
+/** Render a cell: lists comma‐separated, records as `key=value` pairs. */
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(cell).join(",");
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    return Object.entries(value)
+      .map(([key, entry]) => `${key}=${cell(entry)}`)
+      .join(",");
+  }
+  return String(value);
+}
+
+/** Pad rows of cells into columns, three spaces apart. */
+export function alignTable(rows: string[][], minWidths: number[] = []): string {
+  const widths = (rows[0] ?? []).map((_, i) =>
+    Math.max(minWidths[i] ?? 0, ...rows.map((row) => row[i].length))
+  );
+  return rows
+    .map((row) =>
+      row.map((text, i) => text.padEnd(widths[i])).join("   ").trimEnd()
+    )
+    .join("\n");
+}
+
+/** A copy of a result fit for printing: no `raw` payloads, no undefineds. */
+function plain(value: unknown): unknown {
+  const text = JSON.stringify(
+    value,
+    (key, entry) => key === "raw" ? undefined : entry,
+  );
+  return text === undefined ? null : JSON.parse(text);
+}
+
+/** The tokens of a template path: `.name`, `[0]` or `['quoted.key']`. */
+const PATH_TOKEN = /\.([^.[\]'"{}]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+/** Read a JSONPath‐style path, e.g. `.labels['app.kubernetes.io/name']`. */
+function lookup(row: unknown, path: string): unknown {
+  const trimmed = path.trim().replace(/^\$/, "");
+  if (trimmed === "" || trimmed === ".") return row;
+  let value = row;
+  PATH_TOKEN.lastIndex = 0;
+  while (PATH_TOKEN.lastIndex < trimmed.length) {
+    const start = PATH_TOKEN.lastIndex;
+    const match = PATH_TOKEN.exec(trimmed);
+    if (!match) {
+      throw new Error(
+        `Invalid template path "${path}" at "${trimmed.slice(start)}"`,
+      );
+    }
+    const key = match[1] ?? match[2] ?? match[3] ?? match[4];
+    value = value === null || typeof value !== "object"
+      ? undefined
+      : (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Fill in a template for one result: each `{path}` becomes that field
+ * (objects as JSON), and `\t` and `\n` are tab and newline, as in
+ * kubectl’s JSONPath output.
+ */
+export function expandTemplate(template: string, row: unknown): string {
+  return template
+    .replace(/\{([^{}]*)\}/g, (_, path: string) => {
+      const value = lookup(row, path);
+      if (value === undefined || value === null) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    })
+    .replaceAll("\\t", "\t")
+    .replaceAll("\\n", "\n");
+}
+
+/**
+ * Prints a command’s results in the chosen format: a list at once, a
+ * single result, or a stream of results as they arrive (a streamed table
+ * prints its header once, before the first row).
+ */
+export class Printer {
+  private headerPrinted = false;
+
+  constructor(
+    readonly options: OutputOptions,
+    private write: (text: string) => void = (text) => console.log(text),
+  ) {}
+
+  /** `true` for the formats meant for people rather than programs. */
+  get human(): boolean {
+    return this.options.format === "table" || this.options.format === "wide";
+  }
+
+  /**
+   * `true` when results print as one JSON or YAML document, so a command
+   * producing them over time should print them together once done.
+   */
+  get document(): boolean {
+    const { format, template, quiet } = this.options;
+    return (format === "json" || format === "yaml") && template === undefined &&
+      !quiet;
+  }
+
+  /** Print a list of results. */
+  list<T>(rows: T[], view: View<T> = {}): void {
+    if (this.printBrief(rows, view)) return;
+    switch (this.options.format) {
+      case "json":
+        return this.write(JSON.stringify(plain(rows), null, 2));
+      case "yaml":
+        return this.write(stringifyYaml(plain(rows)).trimEnd());
+      case "ndjson":
+        for (const row of rows) this.write(JSON.stringify(plain(row)));
+        return;
+    }
+    if (view.line) {
+      for (const row of rows) this.write(view.line(row));
+    } else if (view.columns) {
+      const columns = this.columns(view.columns);
+      this.write(alignTable([
+        columns.map((column) => column.header),
+        ...rows.map((row) => columns.map((column) => cell(column.value(row)))),
+      ]));
+    } else {
+      this.write(stringifyYaml(plain(rows)).trimEnd());
+    }
+  }
+
+  /** Print one result; in a table format, without a view, as YAML. */
+  item<T>(row: T, view: View<T> = {}): void {
+    if (this.printBrief([row], view)) return;
+    switch (this.options.format) {
+      case "json":
+        return this.write(JSON.stringify(plain(row), null, 2));
+      case "ndjson":
+        return this.write(JSON.stringify(plain(row)));
+    }
+    if (this.human && (view.line || view.columns)) {
+      return this.list([row], view);
+    }
+    this.write(stringifyYaml(plain(row)).trimEnd());
+  }
+
+  /** Print one result of a stream (events, log lines) as it arrives. */
+  stream<T>(row: T, view: View<T> = {}): void {
+    if (this.printBrief([row], view)) return;
+    if (this.options.format === "yaml") {
+      return this.write(`---\n${stringifyYaml(plain(row)).trimEnd()}`);
+    }
+    if (!this.human || view.line || !view.columns) return this.item(row, view);
+    const columns = this.columns(view.columns);
+    const widths = columns.map((column) =>
+      Math.max(column.width ?? 0, column.header.length)
+    );
+    const rows = [columns.map((column) => cell(column.value(row)))];
+    if (!this.headerPrinted) rows.unshift(columns.map((c) => c.header));
+    this.headerPrinted = true;
+    this.write(alignTable(rows, widths));
+  }
+
+  /** Print with `--template` or `--quiet`, if given; `true` if printed. */
+  private printBrief<T>(rows: T[], view: View<T>): boolean {
+    const { template, quiet } = this.options;
+    if (template !== undefined) {
+      for (const row of rows) this.write(expandTemplate(template, row));
+      return true;
+    }
+    if (quiet && view.id) {
+      for (const row of rows) this.write(view.id(row));
+      return true;
+    }
+    return false;
+  }
+
+  private columns<T>(columns: Column<T>[]): Column<T>[] {
+    return this.options.format === "wide"
+      ? columns
+      : columns.filter((column) => !column.wide);
+  }
+}
+
+/** Format a byte count in binary units, e.g. "12.3MiB"; "--" if unknown. */
+export function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) return "--";
+  const units = ["B", "KiB", "MiB", "GiB", "TiB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)}${units[unit]}`;
+}
+
+/** How long ago a timestamp was, as kubectl shows ages: "45s", "3h", "12d". */
+export function formatAge(timestamp: string | undefined): string {
+  if (!timestamp) return "";
+  const seconds = Math.max(0, (Date.now() - Date.parse(timestamp)) / 1000);
+  if (Number.isNaN(seconds)) return "";
+  if (seconds < 60) return `${Math.floor(seconds)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+/** Shorten a 64‐hex‐digit engine ID (or `sha256:` digest) to 12 digits. */
+function shortId(id: string): string {
+  const hex = /^(?:sha256:)?([0-9a-f]{64})$/.exec(id);
+  return hex ? hex[1].slice(0, 12) : id;
+}
+
+export const CONTAINER_VIEW: View<ContainerInfo> = {
+  columns: [
+    { header: "ID", value: (info) => shortId(info.id) },
+    { header: "NAME", value: (info) => info.name },
+    { header: "IMAGE", value: (info) => info.image },
+    { header: "STATE", value: (info) => info.state },
+    { header: "HEALTH", value: (info) => info.health, wide: true },
+    { header: "RESTARTS", value: (info) => info.restartCount, wide: true },
+    { header: "CREATED", value: (info) => formatAge(info.createdAt) },
+    { header: "IPS", value: (info) => info.ipAddresses, wide: true },
+    {
+      header: "PORTS",
+      value: (info) =>
+        info.ports?.map((port) =>
+          port.hostPort === undefined
+            ? `${port.containerPort}/${port.protocol}`
+            : `${
+              port.hostIp ?? ""
+            }:${port.hostPort}->${port.containerPort}/${port.protocol}`
+        ),
+    },
+    { header: "LABELS", value: (info) => info.labels, wide: true },
+  ],
+  id: (info) => info.id,
+};
+
+export const IMAGE_VIEW: View<ImageInfo> = {
+  columns: [
+    { header: "ID", value: (image) => shortId(image.id) },
+    { header: "TAGS", value: (image) => image.tags },
+    { header: "SIZE", value: (image) => formatBytes(image.sizeBytes) },
+    { header: "CREATED", value: (image) => formatAge(image.createdAt) },
+    { header: "DIGESTS", value: (image) => image.digests, wide: true },
+  ],
+  id: (image) => image.id,
+};
+
+export const VOLUME_VIEW: View<VolumeInfo> = {
+  columns: [
+    { header: "NAME", value: (volume) => volume.name },
+    { header: "DRIVER", value: (volume) => volume.driver },
+    { header: "SIZE", value: (volume) => formatBytes(volume.sizeBytes) },
+    { header: "USED BY", value: (volume) => volume.usedBy },
+    { header: "MOUNTPOINT", value: (volume) => volume.mountpoint, wide: true },
+    { header: "LABELS", value: (volume) => volume.labels, wide: true },
+  ],
+  id: (volume) => volume.name,
+};
+
+export const NETWORK_VIEW: View<NetworkInfo> = {
+  columns: [
+    { header: "ID", value: (network) => shortId(network.id) },
+    { header: "NAME", value: (network) => network.name },
+    { header: "DRIVER", value: (network) => network.driver },
+    { header: "SUBNETS", value: (network) => network.subnets },
+    { header: "LABELS", value: (network) => network.labels, wide: true },
+  ],
+  id: (network) => network.id,
+};
+
+export const EVENT_VIEW: View<RuntimeEvent> = {
+  columns: [
+    { header: "TIME", value: (event) => event.timestamp, width: 24 },
+    { header: "TYPE", value: (event) => event.type, width: 14 },
+    { header: "ID", value: (event) => shortId(event.id), width: 12 },
+    { header: "NAME", value: (event) => event.info.name, width: 20 },
+    { header: "EXIT CODE", value: (event) => event.exitCode, wide: true },
+    { header: "HEALTH", value: (event) => event.health, wide: true },
+  ],
+  id: (event) => event.id,
+};
+
+/** Log lines print as the text itself, after the timestamp if requested. */
+export const LOG_VIEW: View<LogLine> = {
+  line: (line) => line.timestamp ? `${line.timestamp} ${line.text}` : line.text,
+};
+
+/** The result of a command acting on one thing: its ID, as `docker` shows. */
+export const ACTION_VIEW: View<{ id: string }> = {
+  line: (result) => result.id,
+  id: (result) => result.id,
+};
+
+export const PRUNE_VIEW: View<PruneResult> = {
+  line: (result) =>
+    [
+      ...result.removed,
+      ...(result.reclaimedBytes === undefined
+        ? []
+        : [`Reclaimed ${formatBytes(result.reclaimedBytes)}`]),
+    ].join("\n"),
+};
+
+export const STACK_ACTION_VIEW: View<StackAction> = {
+  columns: [
+    { header: "ACTION", value: (action) => action.type, width: 9 },
+    { header: "INSTANCE", value: (action) => action.instance, width: 16 },
+    { header: "ID", value: (action) => action.id && shortId(action.id) },
+    { header: "REASON", value: (action) => action.reason },
+  ],
+  id: (action) => action.id ?? action.instance,
+};
+
+export const STATS_VIEW: View<{ id: string; stats: ResourceStats }> = {
+  columns: [
+    { header: "ID", value: ({ id }) => shortId(id) },
+    {
+      header: "CPU %",
+      value: ({ stats }) =>
+        stats.cpuPercent === undefined ? "--" : stats.cpuPercent.toFixed(2),
+    },
+    {
+      header: "MEM USAGE / LIMIT",
+      value: ({ stats }) =>
+        `${formatBytes(stats.memoryUsedBytes)} / ${
+          formatBytes(stats.memoryLimitBytes)
+        }`,
+    },
+    {
+      header: "MEM %",
+      value: ({ stats: { memoryUsedBytes: used, memoryLimitBytes: limit } }) =>
+        used !== undefined && limit ? (used / limit * 100).toFixed(2) : "--",
+    },
+    {
+      header: "NET I/O",
+      value: ({ stats }) =>
+        `${formatBytes(stats.netRxBytes)} / ${formatBytes(stats.netTxBytes)}`,
+    },
+    {
+      header: "BLOCK I/O",
+      value: ({ stats }) =>
+        `${formatBytes(stats.blockReadBytes)} / ${
+          formatBytes(stats.blockWriteBytes)
+        }`,
+    },
+    {
+      header: "PIDS",
+      value: ({ stats }) => stats.pids === undefined ? "--" : stats.pids,
+    },
+  ],
+  id: ({ id }) => id,
+};
@@ -0,0 +1,97 @@
+// src/output_test.ts
+
+import assert from "node:assert/strict";
+import {
+  expandTemplate,
+  type OutputOptions,
+  Printer,
+  type View,
+} from "./output.ts";
+
+interface Row {
+  id: string;
+  name: string;
+  labels: Record<string, string>;
+  raw?: unknown;
+}
+
+const ROWS: Row[] = [
+  { id: "a1", name: "web", labels: { app: "shop" }, raw: { Id: "a1" } },
+  { id: "b22", name: "database", labels: {}, raw: { Id: "b22" } },
+];
+
+const VIEW: View<Row> = {
+  columns: [
+    { header: "ID", value: (row) => row.id },
+    { header: "NAME", value: (row) => row.name },
+    { header: "LABELS", value: (row) => row.labels, wide: true },
+  ],
+  id: (row) => row.id,
+};
+
+/** Print `rows` through a Printer, returning what it wrote. */
+function printed(options: OutputOptions, print: (p: Printer) => void) {
+  const lines: string[] = [];
+  print(new Printer(options, (text) => lines.push(text)));
+  return lines.join("\n");
+}
+
+Deno.test("Printer aligns tables, with wide columns only when asked", () => {
+  assert.equal(
+    printed({ format: "table" }, (p) => p.list(ROWS, VIEW)),
+    "ID    NAME\na1    web\nb22   database",
+  );
+  assert.equal(
+    printed({ format: "wide" }, (p) => p.list(ROWS, VIEW)),
+    "ID    NAME       LABELS\na1    web        app=shop\nb22   database",
+  );
+});
+
+Deno.test("Printer leaves raw payloads out of documents", () => {
+  assert.deepEqual(
+    JSON.parse(printed({ format: "json" }, (p) => p.list(ROWS, VIEW))),
+    ROWS.map(({ raw: _raw, ...row }) => row),
+  );
+  assert.equal(
+    printed({ format: "ndjson" }, (p) => p.list(ROWS, VIEW)),
+    '{"id":"a1","name":"web","labels":{"app":"shop"}}\n' +
+      '{"id":"b22","name":"database","labels":{}}',
+  );
+});
+
+Deno.test("Printer prints only IDs with quiet, and templates over formats", () => {
+  assert.equal(
+    printed({ format: "json", quiet: true }, (p) => p.list(ROWS, VIEW)),
+    "a1\nb22",
+  );
+  assert.equal(
+    printed(
+      { format: "json", template: "{.name}\\t{.labels.app}" },
+      (p) => p.list(ROWS, VIEW),
+    ),
+    "web\tshop\ndatabase\t",
+  );
+});
+
+Deno.test("Printer prints a streamed table’s header once", () => {
+  assert.equal(
+    printed(
+      { format: "table" },
+      (p) => [...ROWS, ...ROWS].forEach((row) => p.stream(row, VIEW)),
+    ).split("\n").filter((line) => line.startsWith("ID")).length,
+    1,
+  );
+});
+
+Deno.test("expandTemplate reads JSONPath-style paths", () => {
+  const row = {
+    labels: { "app.kubernetes.io/name": "shop" },
+    ports: [80, 443],
+  };
+  assert.equal(
+    expandTemplate("{.labels['app.kubernetes.io/name']}:{.ports[1]}", row),
+    "shop:443",
+  );
+  assert.equal(expandTemplate("{$.ports}", row), "[80,443]");
+  assert.throws(() => expandTemplate("{.ports[x]}", row), /Invalid template/);
+});
@@ -0,0 +1,4 @@
+// src/server/mod.ts
+
+export * from "./openapi.ts";
+export * from "./server.ts";
@@ -0,0 +1,218 @@
+// src/server/openapi.ts
+
+import { z } from "zod";
+
+/** A JSON Schema (the OpenAPI 3.1 dialect). */
+export type JsonSchema = Record<string, unknown>;
+
+/** One response a route can give. */
+export interface ResponseDoc {
+  description: string;
+
+  /** The body’s schema; none for an empty body. */
+  schema?: z.ZodTypeAny;
+
+  /** Defaults to "application/json". */
+  contentType?: string;
+}
+
+/** What the OpenAPI document says about a route. */
+export interface RouteDoc {
+  method: "GET" | "POST" | "DELETE";
+
+  /** The path, with `{param}` placeholders. */
+  path: string;
+  summary: string;
+
+  /** Query parameters, one per key of the object. */
+  query?: z.AnyZodObject;
+
+  /** The JSON request body. */
+  body?: z.ZodTypeAny;
+
+  responses: Record<number, ResponseDoc>;
+
+  /** Served without the bearer token. */
+  public?: boolean;
+}
+
+/** Names of schemas emitted once, as components, and referenced. */
+type SchemaNames = Map<z.ZodTypeAny, string>;
+
+/**
+ * Convert a zod schema to JSON Schema: the subset of zod the API’s schemas
+ * use.  Refinements and transforms are described by their input type;
+ * schemas with a name in `names` become `$ref`s to their component.
+ */
+export function zodToJsonSchema(
+  schema: z.ZodTypeAny,
+  names: SchemaNames = new Map(),
+): JsonSchema {
+  const name = names.get(schema);
+  if (name) return { $ref: `#/components/schemas/${name}` };
+  return described(convert(schema, names), schema);
+}
+
+function described(json: JsonSchema, schema: z.ZodTypeAny): JsonSchema {
+  return schema.description === undefined
+    ? json
+    : { ...json, description: schema.description };
+}
+
+function convert(schema: z.ZodTypeAny, names: SchemaNames): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const required = Object.entries(shape)
+      .filter(([, field]) => !field.isOptional())
+      .map(([key]) => key);
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, field]) => [
+          key,
+          zodToJsonSchema(field, names),
+        ]),
+      ),
+      ...(required.length > 0 ? { required } : {}),
+      ...(schema._def.unknownKeys === "strict"
+        ? { additionalProperties: false }
+        : {}),
+    };
+  }
+  if (schema instanceof z.ZodString) return { type: "string" };
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") {
+        json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      } else if (check.kind === "max") {
+        json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: zodToJsonSchema(schema.element, names) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: zodToJsonSchema(schema.valueSchema, names),
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return {
+      anyOf: (schema.options as z.ZodTypeAny[]).map((option) =>
+        zodToJsonSchema(option, names)
+      ),
+    };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap(), names);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return {
+      anyOf: [zodToJsonSchema(schema.unwrap(), names), { type: "null" }],
+    };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema.removeDefault(), names),
+      default: schema._def.defaultValue(),
+    };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType(), names);
+  }
+  // z.unknown(), z.any() and anything else: no constraints.
+  return {};
+}
+
+/**
+ * Build the OpenAPI 3.1 document for `routes`.  Schemas listed in
+ * `components` are emitted once, under their names, and referenced.
+ */
+export function openApiDocument(
+  routes: RouteDoc[],
+  info: { title: string; version: string },
+  components: Record<string, z.ZodTypeAny> = {},
+): Record<string, unknown> {
+  const names: SchemaNames = new Map(
+    Object.entries(components).map(([name, schema]) => [schema, name]),
+  );
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const parameters = [
+      ...[...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+        name,
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      })),
+      ...Object.entries(
+        (route.query?.shape ?? {}) as Record<string, z.ZodTypeAny>,
+      ).map(([name, field]) => ({
+        name,
+        in: "query",
+        required: !field.isOptional(),
+        ...(field.description ? { description: field.description } : {}),
+        schema: convert(field, names),
+      })),
+    ];
+    paths[route.path] ??= {};
+    paths[route.path][route.method.toLowerCase()] = {
+      summary: route.summary,
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(route.body
+        ? {
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: zodToJsonSchema(route.body, names),
+              },
+            },
+          },
+        }
+        : {}),
+      responses: Object.fromEntries(
+        Object.entries(route.responses).map(([status, response]) => [
+          status,
+          {
+            description: response.description,
+            ...(response.schema
+              ? {
+                content: {
+                  [response.contentType ?? "application/json"]: {
+                    schema: zodToJsonSchema(response.schema, names),
+                  },
+                },
+              }
+              : {}),
+          },
+        ]),
+      ),
+      ...(route.public ? { security: [] } : {}),
+    };
+  }
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(components).map(([name, schema]) => [
+          name,
+          described(convert(schema, names), schema),
+        ]),
+      ),
+      securitySchemes: { bearer: { type: "http", scheme: "bearer" } },
+    },
+    security: [{ bearer: [] }],
+  };
+}
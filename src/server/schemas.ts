@@ -0,0 +1,219 @@
+// src/server/schemas.ts
+
+import { z } from "zod";
+import { containerSpecSchema } from "../clients/spec.ts";
+
+/**
+ * The shapes the REST API accepts and returns.  Requests are validated
+ * against them, and the OpenAPI document is generated from them, so the
+ * two can’t drift apart.
+ */
+
+const CONTAINER_STATES = [
+  "created",
+  "running",
+  "paused",
+  "restarting",
+  "exited",
+  "dead",
+  "unknown",
+] as const;
+
+const RUNTIME_EVENT_TYPES = [
+  "created",
+  "started",
+  "died",
+  "oomkilled",
+  "removed",
+  "health_changed",
+] as const;
+
+/** A query parameter that may be repeated (`?label=a=1&label=b=2`). */
+const repeatable = <T extends z.ZodTypeAny>(item: T) =>
+  z.union([item, z.array(item)]);
+
+/** A query‐string boolean: "true" or "false". */
+const queryBoolean = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+/** The body of a create request: a ContainerSpec, or `{ raw }`. */
+export const createBodySchema = z
+  .union([
+    containerSpecSchema,
+    z
+      .object({
+        raw: z
+          .record(z.unknown())
+          .describe("An engine-native payload, passed through untouched"),
+      })
+      .strict(),
+  ])
+  .describe("A portable ContainerSpec, or an engine-native payload");
+
+export const listQuerySchema = z.object({
+  label: repeatable(z.string())
+    .optional()
+    .describe("Only instances with label KEY=VALUE (repeatable)"),
+  status: repeatable(z.enum(CONTAINER_STATES))
+    .optional()
+    .describe("Only instances in this state (repeatable)"),
+  name: z.string().optional().describe("Only the instance with this name"),
+  image: z.string().optional().describe("Only instances of this image"),
+  limit: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of instances to return"),
+  continue: z
+    .string()
+    .optional()
+    .describe("continueToken from the previous page"),
+});
+
+export const stopQuerySchema = z.object({
+  timeout: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Seconds to wait before killing the instance"),
+});
+
+export const removeQuerySchema = z.object({
+  force: queryBoolean
+    .optional()
+    .describe("Kill and remove a running instance"),
+  volumes: queryBoolean
+    .optional()
+    .describe("Also remove anonymous volumes"),
+});
+
+export const killQuerySchema = z.object({
+  signal: z
+    .string()
+    .optional()
+    .describe("Signal name or number (default SIGKILL)"),
+});
+
+export const logsQuerySchema = z.object({
+  follow: queryBoolean.optional().describe("Keep streaming new lines"),
+  tail: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Number of lines to return from the end of the logs"),
+  since: z
+    .string()
+    .optional()
+    .describe('Only lines since a timestamp or duration (e.g. "10m")'),
+  timestamps: queryBoolean
+    .optional()
+    .describe("Include each line's timestamp"),
+  container: z
+    .string()
+    .optional()
+    .describe("Container to read, for multi-container instances"),
+  stream: z
+    .enum(["stdout", "stderr", "both"])
+    .optional()
+    .describe("Which output stream to return"),
+});
+
+export const eventsQuerySchema = z.object({
+  id: repeatable(z.string())
+    .optional()
+    .describe("Only events for this instance (repeatable)"),
+  label: repeatable(z.string())
+    .optional()
+    .describe("Only instances with label KEY=VALUE (repeatable)"),
+  type: repeatable(z.enum(RUNTIME_EVENT_TYPES))
+    .optional()
+    .describe("Only events of this type (repeatable)"),
+});
+
+export const containerInfoSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+    state: z.enum(CONTAINER_STATES),
+    status: z.string().optional().describe("The engine's own status"),
+    image: z.string().optional(),
+    createdAt: z.string().optional(),
+    startedAt: z.string().optional(),
+    finishedAt: z.string().optional(),
+    exitCode: z.number().int().optional(),
+    restartCount: z.number().int().optional(),
+    ipAddresses: z.array(z.string()).optional(),
+    ports: z
+      .array(z.object({
+        containerPort: z.number().int(),
+        hostPort: z.number().int().optional(),
+        hostIp: z.string().optional(),
+        protocol: z.enum(["tcp", "udp"]),
+      }))
+      .optional(),
+    labels: z.record(z.string()).optional(),
+    health: z.enum(["starting", "healthy", "unhealthy"]).optional(),
+    ready: z.boolean().optional(),
+  })
+  .describe("An instance, as every runtime reports it");
+
+export const containerPageSchema = z.object({
+  items: z.array(containerInfoSchema),
+  continueToken: z
+    .string()
+    .optional()
+    .describe("Pass as `continue` for the next page; unset on the last"),
+});
+
+export const actionResponseSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+export const logLineSchema = z.object({
+  stream: z.enum(["stdout", "stderr"]).optional(),
+  text: z.string(),
+  timestamp: z.string().optional(),
+  container: z.string().optional(),
+});
+
+export const runtimeEventSchema = z.object({
+  type: z.enum(RUNTIME_EVENT_TYPES),
+  id: z.string(),
+  timestamp: z.string(),
+  info: containerInfoSchema,
+  exitCode: z.number().int().optional(),
+  health: z.string().optional(),
+});
+
+export const versionSchema = z.object({
+  version: z.string(),
+  apiVersion: z.string().optional(),
+  os: z.string().optional(),
+  arch: z.string().optional(),
+});
+
+export const capabilitiesSchema = z.object({
+  runtime: z.string(),
+  operations: z.array(z.string()),
+  features: z.array(z.string()),
+  kinds: z.array(z.string()),
+  limitations: z.record(z.string()).optional(),
+});
+
+export const healthSchema = z.object({
+  status: z.enum(["ok", "unavailable"]),
+  runtime: z.string(),
+  error: z.string().optional(),
+});
+
+export const errorSchema = z.object({
+  error: z.object({
+    type: z.string().describe('The error class, e.g. "NotFoundError"'),
+    message: z.string(),
+  }),
+});
@@ -0,0 +1,620 @@
+// src/server/server.ts
+
+import { z } from "zod";
+import {
+  ConflictError,
+  type ContainerRuntime,
+  NotFoundError,
+  PermissionDeniedError,
+  type RuntimeError,
+  RuntimeUnavailableError,
+  TimeoutError,
+  UnimplementedError,
+} from "../clients/types.ts";
+import { openApiDocument, type RouteDoc } from "./openapi.ts";
+import {
+  actionResponseSchema,
+  capabilitiesSchema,
+  containerInfoSchema,
+  containerPageSchema,
+  createBodySchema,
+  errorSchema,
+  eventsQuerySchema,
+  healthSchema,
+  killQuerySchema,
+  listQuerySchema,
+  logLineSchema,
+  logsQuerySchema,
+  removeQuerySchema,
+  runtimeEventSchema,
+  stopQuerySchema,
+  versionSchema,
+} from "./schemas.ts";
+
+/**
+ * The REST API `serve` exposes: a ContainerRuntime’s operations over HTTP,
+ * for services that drive containers without linking this library.
+ *
+ * - `GET /instances`, `POST /instances`, `GET|DELETE /instances/{id}` and
+ *   `POST /instances/{id}/start` (`stop`, `restart`, `pause`, `unpause`,
+ *   `kill`) map onto the client’s methods;
+ * - `GET /instances/{id}/logs` and `GET /events` stream as server‐sent
+ *   events when the request accepts `text/event-stream`, and as chunked
+ *   NDJSON otherwise;
+ * - `GET /healthz` and `GET /openapi.json` need no token; everything else
+ *   needs `Authorization: Bearer <token>` when a token is configured.
+ *   Without one, only requests addressed to a loopback host and carrying no
+ *   `Origin` are served, so a web page can’t reach the API from a browser
+ *   (directly or by DNS rebinding).
+ *
+ * Bodies are JSON (`Content-Type: application/json`, which a cross‐site
+ * form can’t send), minus the engines’ `raw` payloads.  Failures are
+ * `{ error: { type, message } }`, with the status the error class implies.
+ */
+
+/** Options for createHandler. */
+export interface ServerOptions {
+  /**
+   * The bearer token requests must present.  If unset (or empty), requests
+   * are unauthenticated but limited to loopback hosts and non‐browser
+   * clients.
+   */
+  token?: string;
+
+  /** Milliseconds between keep‐alive comments on event streams (15 s). */
+  keepAlive?: number;
+}
+
+/** HTTP statuses for typed runtime failures; anything else is a 500. */
+const STATUS_CODES: [new (...args: never[]) => RuntimeError, number][] = [
+  [NotFoundError, 404],
+  [ConflictError, 409],
+  [PermissionDeniedError, 403],
+  [RuntimeUnavailableError, 503],
+  [TimeoutError, 504],
+  [UnimplementedError, 501],
+];
+
+/** A request refused before reaching the runtime. */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    name: string,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = name;
+  }
+}
+
+function statusFor(err: unknown): number {
+  if (err instanceof HttpError) return err.status;
+  if (err instanceof z.ZodError || err instanceof SyntaxError) return 400;
+  for (const [ErrorClass, status] of STATUS_CODES) {
+    if (err instanceof ErrorClass) return status;
+  }
+  return 500;
+}
+
+/** A ZodError’s issues; for a union, those of the closest alternative. */
+function issuesOf(err: z.ZodError): z.ZodIssue[] {
+  return err.issues.flatMap((issue) =>
+    issue.code === "invalid_union"
+      ? issuesOf(
+        issue.unionErrors.reduce((closest, next) =>
+          next.issues.length < closest.issues.length ? next : closest
+        ),
+      )
+      : [issue]
+  );
+}
+
+function errorBody(err: unknown): z.infer<typeof errorSchema> {
+  if (err instanceof z.ZodError) {
+    return {
+      error: {
+        type: "ValidationError",
+        message: issuesOf(err)
+          .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+          .join("; "),
+      },
+    };
+  }
+  return err instanceof Error
+    ? { error: { type: err.name, message: err.message } }
+    : { error: { type: "Error", message: String(err) } };
+}
+
+/** JSON without `raw` payloads, which can be large and engine‐specific. */
+function toJson(body: unknown): string {
+  return JSON.stringify(
+    body,
+    (key, value) => key === "raw" ? undefined : value,
+  );
+}
+
+function json(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(toJson(body), {
+    status,
+    headers: { ...headers, "content-type": "application/json" },
+  });
+}
+
+/**
+ * Stream `items` as server‐sent events (one `data:` line of JSON each,
+ * with keep‐alive comments while quiet) or as NDJSON.  A failure midway
+ * ends the stream with an `error` event (or error line).  Closing the
+ * response stops `items`.
+ */
+function streamResponse(
+  items: AsyncIterable<unknown>,
+  sse: boolean,
+  keepAlive: number,
+): Response {
+  const iterator = items[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  let closed = false;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const frame = (value: unknown, event?: string) =>
+        sse
+          ? `${event ? `event: ${event}\n` : ""}data: ${toJson(value)}\n\n`
+          : `${toJson(value)}\n`;
+      if (sse) timer = setInterval(() => send(": keep-alive\n\n"), keepAlive);
+      (async () => {
+        try {
+          while (!closed) {
+            const next = await iterator.next();
+            if (next.done) break;
+            send(frame(next.value));
+          }
+        } catch (err: unknown) {
+          send(frame(errorBody(err), "error"));
+        } finally {
+          clearInterval(timer);
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      })();
+    },
+    async cancel() {
+      closed = true;
+      clearInterval(timer);
+      await iterator.return?.();
+    },
+  });
+  return new Response(body, {
+    headers: {
+      "content-type": sse ? "text/event-stream" : "application/x-ndjson",
+      "cache-control": "no-cache",
+    },
+  });
+}
+
+/** Query parameters, with repeated keys as arrays. */
+function queryOf(url: URL): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key);
+    query[key] = values.length === 1 ? values[0] : values;
+  }
+  return query;
+}
+
+/** Turn repeatable `KEY=VALUE` parameters into a record. */
+function parsePairs(
+  value: string | string[] | undefined,
+): Record<string, string> | undefined {
+  if (value === undefined) return undefined;
+  return Object.fromEntries(
+    [value].flat().map((pair) => {
+      const eq = pair.indexOf("=");
+      return eq === -1 ? [pair, ""] : [pair.slice(0, eq), pair.slice(eq + 1)];
+    }),
+  );
+}
+
+/** Host names that only reach this machine (`URL.hostname` form). */
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Refuse what a browser could send on a web page’s behalf: anything with
+ * an `Origin`, or addressed to a host name other than loopback (a DNS
+ * rebinding attack resolves the page’s own name to 127.0.0.1).
+ */
+function assertLocalRequest(request: Request, url: URL): void {
+  if (request.headers.has("origin")) {
+    throw new HttpError(
+      403,
+      "Forbidden",
+      "Cross-origin requests need a server token",
+    );
+  }
+  if (!LOOPBACK_HOSTNAMES.includes(url.hostname)) {
+    throw new HttpError(
+      403,
+      "Forbidden",
+      `Requests to ${url.hostname} need a server token`,
+    );
+  }
+}
+
+/** Compare secrets in time independent of where they first differ. */
+function safeEqual(a: string, b: string): boolean {
+  const [x, y] = [new TextEncoder().encode(a), new TextEncoder().encode(b)];
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < x.length; i++) diff |= x[i] ^ (y[i % y.length] ?? 0);
+  return diff === 0;
+}
+
+/** What a route’s handler is given. */
+interface RouteContext {
+  client: ContainerRuntime;
+  request: Request;
+  params: Record<string, string>;
+  query: Record<string, string | string[]>;
+
+  /** `true` if the response should be server‐sent events. */
+  sse: boolean;
+  keepAlive: number;
+}
+
+interface Route extends RouteDoc {
+  handle(ctx: RouteContext): Promise<Response> | Response;
+}
+
+const ID = "/instances/{id}";
+
+const errorResponses = {
+  400: { description: "Invalid parameters or body", schema: errorSchema },
+  404: { description: "No such instance", schema: errorSchema },
+  409: { description: "The instance’s state forbids it", schema: errorSchema },
+  501: { description: "The runtime can’t do this", schema: errorSchema },
+};
+
+/** A `POST /instances/{id}/<action>` route calling one client method. */
+function actionRoute(
+  action: "start" | "stop" | "restart" | "pause" | "unpause" | "kill",
+  summary: string,
+  call: (ctx: RouteContext) => Promise<unknown>,
+  query?: z.AnyZodObject,
+): Route {
+  return {
+    method: "POST",
+    path: `${ID}/${action}`,
+    summary,
+    query,
+    responses: {
+      200: { description: "Done", schema: actionResponseSchema },
+      ...errorResponses,
+    },
+    handle: async (ctx) => json(await call(ctx)),
+  };
+}
+
+const ROUTES: Route[] = [
+  {
+    method: "GET",
+    path: "/healthz",
+    summary: "Check that the server can reach its runtime",
+    public: true,
+    responses: {
+      200: { description: "Healthy", schema: healthSchema },
+      503: { description: "The runtime is unreachable", schema: healthSchema },
+    },
+    async handle({ client }) {
+      try {
+        await client.version();
+      } catch (err: unknown) {
+        // A client that can’t report its version may still work.
+        if (!(err instanceof UnimplementedError)) {
+          return json({
+            status: "unavailable",
+            runtime: client.runtime,
+            error: String(err),
+          }, 503);
+        }
+      }
+      return json({ status: "ok", runtime: client.runtime });
+    },
+  },
+  {
+    method: "GET",
+    path: "/openapi.json",
+    summary: "This API’s OpenAPI document",
+    public: true,
+    responses: { 200: { description: "The OpenAPI 3.1 document" } },
+    handle: () => json(apiDocument()),
+  },
+  {
+    method: "GET",
+    path: "/version",
+    summary: "The runtime engine’s version",
+    responses: {
+      200: { description: "The version", schema: versionSchema },
+      501: errorResponses[501],
+    },
+    handle: async ({ client }) => json(await client.version()),
+  },
+  {
+    method: "GET",
+    path: "/capabilities",
+    summary: "The operations and features the runtime supports",
+    responses: {
+      200: { description: "The capabilities", schema: capabilitiesSchema },
+    },
+    handle: ({ client }) => json(client.capabilities()),
+  },
+  {
+    method: "GET",
+    path: "/instances",
+    summary: "List instances, optionally filtered and paged",
+    query: listQuerySchema,
+    responses: {
+      200: {
+        description: "One page of instances",
+        schema: containerPageSchema,
+      },
+      400: errorResponses[400],
+    },
+    async handle({ client, query }) {
+      const { label, continue: continueToken, ...options } = listQuerySchema
+        .parse(query);
+      return json(
+        await client.listPage({
+          ...options,
+          labels: parsePairs(label),
+          continueToken,
+        }),
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: "/instances",
+    summary: "Create an instance",
+    body: createBodySchema,
+    responses: {
+      201: { description: "Created", schema: containerInfoSchema },
+      400: errorResponses[400],
+      409: { description: "The name is taken", schema: errorSchema },
+      415: { description: "The body isn’t JSON", schema: errorSchema },
+    },
+    async handle({ client, request }) {
+      const body = createBodySchema.parse(await request.json());
+      return json(await client.create(body), 201);
+    },
+  },
+  {
+    method: "GET",
+    path: ID,
+    summary: "Inspect an instance",
+    responses: {
+      200: { description: "The instance", schema: containerInfoSchema },
+      404: errorResponses[404],
+    },
+    handle: async ({ client, params }) => json(await client.inspect(params.id)),
+  },
+  {
+    method: "DELETE",
+    path: ID,
+    summary: "Remove an instance",
+    query: removeQuerySchema,
+    responses: {
+      200: { description: "Removed", schema: actionResponseSchema },
+      ...errorResponses,
+    },
+    handle: async ({ client, params, query }) =>
+      json(await client.remove(params.id, removeQuerySchema.parse(query))),
+  },
+  actionRoute(
+    "start",
+    "Start an instance",
+    ({ client, params }) => client.start(params.id),
+  ),
+  actionRoute(
+    "stop",
+    "Stop an instance, killing it after the grace period",
+    ({ client, params, query }) =>
+      client.stop(params.id, {
+        timeoutSeconds: stopQuerySchema.parse(query).timeout,
+      }),
+    stopQuerySchema,
+  ),
+  actionRoute(
+    "restart",
+    "Restart an instance",
+    ({ client, params, query }) =>
+      client.restart(params.id, {
+        timeoutSeconds: stopQuerySchema.parse(query).timeout,
+      }),
+    stopQuerySchema,
+  ),
+  actionRoute(
+    "pause",
+    "Pause an instance’s processes",
+    ({ client, params }) => client.pause(params.id),
+  ),
+  actionRoute(
+    "unpause",
+    "Resume a paused instance",
+    ({ client, params }) => client.unpause(params.id),
+  ),
+  actionRoute(
+    "kill",
+    "Send a signal to an instance",
+    ({ client, params, query }) =>
+      client.kill(params.id, killQuerySchema.parse(query).signal),
+    killQuerySchema,
+  ),
+  {
+    method: "GET",
+    path: `${ID}/logs`,
+    summary: "Stream an instance’s logs, following them if asked",
+    query: logsQuerySchema,
+    responses: {
+      200: {
+        description:
+          "Log lines, as server-sent events if accepted, else NDJSON",
+        schema: logLineSchema,
+        contentType: "text/event-stream",
+      },
+      ...errorResponses,
+    },
+    async handle({ client, params, query, sse, keepAlive }) {
+      const options = logsQuerySchema.parse(query);
+      // Surface a missing instance as a 404, not as a stream that fails.
+      await client.inspect(params.id);
+      return streamResponse(
+        client.streamLogs(params.id, options),
+        sse,
+        keepAlive,
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/events",
+    summary: "Stream lifecycle events",
+    query: eventsQuerySchema,
+    responses: {
+      200: {
+        description: "Events, as server-sent events if accepted, else NDJSON",
+        schema: runtimeEventSchema,
+        contentType: "text/event-stream",
+      },
+      400: errorResponses[400],
+      501: errorResponses[501],
+    },
+    handle({ client, query, sse, keepAlive }) {
+      const { id, label, type } = eventsQuerySchema.parse(query);
+      return streamResponse(
+        client.watch({
+          ids: id === undefined ? undefined : [id].flat(),
+          labels: parsePairs(label),
+          types: type === undefined ? undefined : [type].flat(),
+        }),
+        sse,
+        keepAlive,
+      );
+    },
+  },
+];
+
+/** URL patterns for the routes, with `{param}` as `:param`. */
+const PATTERNS = ROUTES.map((route) =>
+  new URLPattern({ pathname: route.path.replace(/\{(\w+)\}/g, ":$1") })
+);
+
+/** The OpenAPI document describing the API. */
+export function apiDocument(): Record<string, unknown> {
+  return openApiDocument(
+    ROUTES,
+    { title: "infra-client", version: "0.1.0" },
+    {
+      ContainerSpec: createBodySchema,
+      ContainerInfo: containerInfoSchema,
+      ContainerPage: containerPageSchema,
+      ActionResponse: actionResponseSchema,
+      LogLine: logLineSchema,
+      RuntimeEvent: runtimeEventSchema,
+      Error: errorSchema,
+    },
+  );
+}
+
+/**
+ * Build a `Deno.serve` handler exposing `client` as the REST API.  The
+ * client is shared by every request.
+ */
+export function createHandler(
+  client: ContainerRuntime,
+  options: ServerOptions = {},
+): (request: Request) => Promise<Response> {
+  const keepAlive = options.keepAlive ?? 15_000;
+  // An empty token (an unset variable, say) must not accept `Bearer `.
+  const secret = options.token || undefined;
+  return async (request) => {
+    const url = new URL(request.url);
+    try {
+      const index = PATTERNS.findIndex((pattern, i) =>
+        ROUTES[i].method === request.method && pattern.test(url)
+      );
+      if (index === -1) {
+        const allowed = ROUTES.filter((_, i) => PATTERNS[i].test(url))
+          .map((route) => route.method);
+        throw allowed.length > 0
+          ? new HttpError(
+            405,
+            "MethodNotAllowed",
+            `${request.method} is not allowed on ${url.pathname}`,
+            { allow: allowed.join(", ") },
+          )
+          : new HttpError(404, "RouteNotFound", `No route ${url.pathname}`);
+      }
+      const route = ROUTES[index];
+      if (secret === undefined) {
+        assertLocalRequest(request, url);
+      } else if (!route.public) {
+        const [scheme, token] = (request.headers.get("authorization") ?? "")
+          .split(" ", 2);
+        if (
+          scheme?.toLowerCase() !== "bearer" ||
+          !safeEqual(token ?? "", secret)
+        ) {
+          throw new HttpError(
+            401,
+            "Unauthorized",
+            "A valid bearer token is required",
+            { "www-authenticate": "Bearer" },
+          );
+        }
+      }
+
+      const contentType = request.headers.get("content-type") ?? "";
+      if (
+        route.body &&
+        contentType.split(";")[0].trim().toLowerCase() !== "application/json"
+      ) {
+        throw new HttpError(
+          415,
+          "UnsupportedMediaType",
+          "The body must be application/json",
+        );
+      }
+
+      const groups = PATTERNS[index].exec(url)?.pathname.groups ?? {};
+      return await route.handle({
+        client,
+        request,
+        params: Object.fromEntries(
+          Object.entries(groups).map((
+            [key, value],
+          ) => [key, decodeURIComponent(value ?? "")]),
+        ),
+        query: queryOf(url),
+        sse: (request.headers.get("accept") ?? "").includes(
+          "text/event-stream",
+        ),
+        keepAlive,
+      });
+    } catch (err: unknown) {
+      return json(
+        errorBody(err),
+        statusFor(err),
+        err instanceof HttpError ? err.headers : {},
+      );
+    }
+  };
+}
@@ -0,0 +1,142 @@
+// src/server/server_test.ts
+
+import assert from "node:assert/strict";
+import { InMemoryClient } from "../testing/memory.ts";
+import { createHandler } from "./server.ts";
+
+const TOKEN = "s3cret";
+
+/** A handler over a fresh InMemoryClient, and a way to call it. */
+function api() {
+  const client = new InMemoryClient();
+  const handler = createHandler(client, { token: TOKEN });
+  const call = (
+    method: string,
+    path: string,
+    init: { body?: unknown; headers?: Record<string, string> } = {},
+  ) =>
+    handler(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: {
+          authorization: `Bearer ${TOKEN}`,
+          ...(init.body === undefined
+            ? {}
+            : { "content-type": "application/json" }),
+          ...init.headers,
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      }),
+    );
+  return { client, handler, call };
+}
+
+Deno.test("serve requires the bearer token, except for health and docs", async () => {
+  const { handler } = api();
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    handler(new Request(`http://localhost${path}`, { headers }));
+
+  const denied = await get("/instances", { authorization: "Bearer nope" });
+  assert.equal(denied.status, 401);
+  assert.equal(denied.headers.get("www-authenticate"), "Bearer");
+  assert.equal((await denied.json()).error.type, "Unauthorized");
+  assert.equal((await get("/instances")).status, 401);
+
+  const health = await get("/healthz");
+  assert.equal(health.status, 200);
+  assert.deepEqual(await health.json(), { status: "ok", runtime: "docker" });
+
+  const doc = await (await get("/openapi.json")).json();
+  assert.equal(doc.openapi, "3.1.0");
+  assert.ok(doc.paths["/instances/{id}/start"].post);
+  assert.deepEqual(doc.paths["/healthz"].get.security, []);
+});
+
+Deno.test("serve without a token refuses what a browser could send", async () => {
+  for (const token of [undefined, ""]) {
+    const handler = createHandler(new InMemoryClient(), { token });
+    const get = (url: string, headers: Record<string, string> = {}) =>
+      handler(new Request(url, { headers }));
+
+    assert.equal((await get("http://localhost/instances")).status, 200);
+    assert.equal((await get("http://127.0.0.1:8080/instances")).status, 200);
+    assert.equal((await get("http://[::1]/healthz")).status, 200);
+    const rebound = await get("http://evil.example/instances");
+    assert.equal(rebound.status, 403);
+    assert.equal((await rebound.json()).error.type, "Forbidden");
+    const crossSite = await get("http://localhost/instances", {
+      origin: "https://evil.example",
+    });
+    assert.equal(crossSite.status, 403);
+    assert.equal(
+      (await get("http://localhost/instances", { authorization: "Bearer " }))
+        .status,
+      200,
+    );
+  }
+});
+
+Deno.test("serve maps the instance lifecycle onto REST", async () => {
+  const { call } = api();
+  const created = await call("POST", "/instances", {
+    body: { image: "alpine:3.20", name: "web", labels: { app: "shop" } },
+  });
+  assert.equal(created.status, 201);
+  const { id } = await created.json();
+
+  const page = await (await call("GET", "/instances?label=app=shop")).json();
+  assert.deepEqual(page.items.map((info: { id: string }) => info.id), [id]);
+
+  assert.equal((await call("POST", `/instances/${id}/start`)).status, 200);
+  const again = await call("POST", `/instances/${id}/start`);
+  assert.equal(again.status, 409);
+  assert.equal((await again.json()).error.type, "ConflictError");
+
+  assert.equal(
+    (await call("DELETE", `/instances/${id}?force=true`)).status,
+    200,
+  );
+  assert.equal((await call("GET", `/instances/${id}`)).status, 404);
+});
+
+Deno.test("serve rejects malformed requests", async () => {
+  const { call } = api();
+  const invalid = await call("POST", "/instances", { body: { name: "x" } });
+  assert.equal(invalid.status, 400);
+  assert.match((await invalid.json()).error.message, /image/);
+  assert.equal((await call("GET", "/instances?limit=-1")).status, 400);
+  const plain = await call("POST", "/instances", {
+    body: { image: "alpine:3.20" },
+    headers: { "content-type": "text/plain" },
+  });
+  assert.equal(plain.status, 415);
+  const wrongMethod = await call("PUT", "/instances");
+  assert.equal(wrongMethod.status, 405);
+  assert.equal(wrongMethod.headers.get("allow"), "GET, POST");
+  assert.equal((await call("GET", "/nowhere")).status, 404);
+});
+
+Deno.test("serve streams logs as NDJSON or server-sent events", async () => {
+  const { client, call } = api();
+  const { id } = await client.create({ image: "alpine:3.20" });
+  await client.start(id);
+  client.writeLog(id, "one");
+
+  const ndjson = await call("GET", `/instances/${id}/logs`);
+  assert.equal(ndjson.headers.get("content-type"), "application/x-ndjson");
+  assert.equal(JSON.parse(await ndjson.text()).text, "one");
+
+  const sse = await call("GET", `/instances/${id}/logs?follow=true`, {
+    headers: { accept: "text/event-stream" },
+  });
+  assert.equal(sse.headers.get("content-type"), "text/event-stream");
+  setTimeout(() => {
+    client.writeLog(id, "two");
+    client.exit(id);
+  }, 0);
+  const events = (await sse.text()).trim().split("\n\n");
+  assert.deepEqual(
+    events.map((event) => JSON.parse(event.replace(/^data: /, "")).text),
+    ["one", "two"],
+  );
+});
@@ -0,0 +1,292 @@
+// src/stack/apply.ts
+
+import {
+  ConflictError,
+  type ContainerInfo,
+  type ContainerRuntime,
+  NotFoundError,
+  RuntimeError,
+  UnimplementedError,
+} from "../clients/types.ts";
+import type { StackInstance, StackManifest } from "./manifest.ts";
+
+/**
+ * Reconciles a stack manifest against any ContainerRuntime.  Instances we
+ * create carry ownership labels — the stack, the instance, and a hash of
+ * its spec — so the actual state is recovered with a label‐filtered
+ * `list()`, and a changed spec shows up as a changed hash.  Nothing
+ * without our stack label is ever touched.
+ */
+
+/** The stack an instance belongs to. */
+export const STACK_LABEL = "infra-client/stack";
+
+/** The instance’s key in the manifest. */
+export const INSTANCE_LABEL = "infra-client/instance";
+
+/** A hash of the instance’s spec, to tell whether it changed. */
+export const SPEC_HASH_LABEL = "infra-client/spec-hash";
+
+/** What `applyStack` does (or would do) to one instance. */
+export type StackActionType =
+  | "create"
+  | "recreate"
+  | "start"
+  | "remove"
+  | "unchanged";
+
+export interface StackAction {
+  type: StackActionType;
+  /** The instance’s key in the manifest (or its label, for orphans). */
+  instance: string;
+  /** The existing instance’s ID; unset for a create. */
+  id?: string;
+  /** Why the action is needed. */
+  reason?: string;
+}
+
+/** The actions that bring a stack to its desired state, in order. */
+export interface StackPlan {
+  stack: string;
+  actions: StackAction[];
+}
+
+/** Options for `applyStack` and `deleteStack`. */
+export interface StackApplyOptions {
+  /** Called as each action starts, e.g. to report progress. */
+  onAction?: (action: StackAction) => void;
+}
+
+/** The name an instance is created under: `<stack>-<instance>`. */
+export function instanceName(stack: string, instance: string): string {
+  return `${stack}-${instance}`;
+}
+
+/** JSON with sorted keys, so equal specs always serialize identically. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    return `{${
+      Object.keys(record).sort()
+        .filter((key) => record[key] !== undefined)
+        .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+        .join(",")
+    }}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash an instance’s spec.  Truncated to 32 hex digits so it fits in a
+ * Kubernetes label value (63 characters at most).
+ */
+async function specHash(instance: StackInstance): Promise<string> {
+  const { dependsOn: _dependsOn, ...spec } = instance;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalJson(spec)),
+  );
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Order instances so that each comes after everything it depends on. */
+export function dependencyOrder(manifest: StackManifest): string[] {
+  const order: string[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (name: string, path: string[]) => {
+    if (state.get(name) === "done") return;
+    if (state.get(name) === "visiting") {
+      throw new RuntimeError(
+        `Dependency cycle in stack ${manifest.name}: ${
+          [...path, name].join(" → ")
+        }`,
+      );
+    }
+    state.set(name, "visiting");
+    for (const dep of manifest.instances[name].dependsOn) {
+      visit(dep, [...path, name]);
+    }
+    state.set(name, "done");
+    order.push(name);
+  };
+  for (const name of Object.keys(manifest.instances)) visit(name, []);
+  return order;
+}
+
+/** Instances currently labelled as belonging to `stack`. */
+async function stackInstances(
+  client: ContainerRuntime,
+  stack: string,
+): Promise<ContainerInfo[]> {
+  return await client.list({ labels: { [STACK_LABEL]: stack } });
+}
+
+/**
+ * Diff a manifest against what is running: instances with no counterpart
+ * are created, those whose spec hash differs are recreated, stopped ones
+ * are started, and stack instances the manifest no longer lists are
+ * removed.  Removals come first, then the rest in dependency order.
+ */
+export async function planStack(
+  client: ContainerRuntime,
+  manifest: StackManifest,
+): Promise<StackPlan> {
+  const existing = new Map<string, ContainerInfo>();
+  const actions: StackAction[] = [];
+  for (const info of await stackInstances(client, manifest.name)) {
+    const instance = info.labels?.[INSTANCE_LABEL] ?? info.name ?? info.id;
+    if (instance in manifest.instances && !existing.has(instance)) {
+      existing.set(instance, info);
+    } else {
+      actions.push({
+        type: "remove",
+        instance,
+        id: info.id,
+        reason: instance in manifest.instances
+          ? "duplicate"
+          : "not in manifest",
+      });
+    }
+  }
+
+  for (const instance of dependencyOrder(manifest)) {
+    const info = existing.get(instance);
+    if (!info) {
+      actions.push({ type: "create", instance, reason: "missing" });
+    } else if (
+      info.labels?.[SPEC_HASH_LABEL] !==
+        await specHash(manifest.instances[instance])
+    ) {
+      actions.push({
+        type: "recreate",
+        instance,
+        id: info.id,
+        reason: "spec changed",
+      });
+    } else if (info.state !== "running") {
+      actions.push({
+        type: "start",
+        instance,
+        id: info.id,
+        reason: info.state,
+      });
+    } else {
+      actions.push({ type: "unchanged", instance, id: info.id });
+    }
+  }
+  return { stack: manifest.name, actions };
+}
+
+/**
+ * Start an instance.  Engines that start instances on create (Kubernetes
+ * pods) refuse `start`, as do ones that are already running; both are fine.
+ */
+async function ensureStarted(
+  client: ContainerRuntime,
+  id: string,
+): Promise<void> {
+  try {
+    await client.start(id);
+  } catch (err) {
+    if (err instanceof UnimplementedError || err instanceof ConflictError) {
+      return;
+    }
+    throw err;
+  }
+}
+
+/** Stop (if running) and remove an instance; one already gone is fine. */
+async function teardown(client: ContainerRuntime, id: string): Promise<void> {
+  try {
+    await client.stop(id);
+  } catch (err) {
+    if (!(err instanceof ConflictError || err instanceof NotFoundError)) {
+      throw err;
+    }
+  }
+  try {
+    await client.remove(id);
+  } catch (err) {
+    if (!(err instanceof NotFoundError)) throw err;
+  }
+}
+
+/**
+ * Bring a stack to the state its manifest describes, doing only what
+ * `planStack` says changed.  Returns the plan that was carried out; a
+ * failure stops the apply where it is.
+ */
+export async function applyStack(
+  client: ContainerRuntime,
+  manifest: StackManifest,
+  options: StackApplyOptions = {},
+): Promise<StackPlan> {
+  const plan = await planStack(client, manifest);
+  for (const action of plan.actions) {
+    if (action.type === "unchanged") continue;
+    options.onAction?.(action);
+    switch (action.type) {
+      case "remove":
+        await teardown(client, action.id!);
+        break;
+      case "start":
+        await ensureStarted(client, action.id!);
+        break;
+      case "recreate":
+      case "create": {
+        if (action.type === "recreate") await teardown(client, action.id!);
+        const { dependsOn: _dependsOn, ...spec } =
+          manifest.instances[action.instance];
+        const info = await client.create({
+          ...spec,
+          name: instanceName(manifest.name, action.instance),
+          labels: {
+            ...spec.labels,
+            [STACK_LABEL]: manifest.name,
+            [INSTANCE_LABEL]: action.instance,
+            [SPEC_HASH_LABEL]: await specHash(
+              manifest.instances[action.instance],
+            ),
+          },
+        });
+        await ensureStarted(client, info.id);
+        break;
+      }
+    }
+  }
+  return plan;
+}
+
+/**
+ * Remove every instance of a stack, dependents first when the manifest is
+ * given (a bare stack name removes in list order).
+ */
+export async function deleteStack(
+  client: ContainerRuntime,
+  stack: StackManifest | string,
+  options: StackApplyOptions = {},
+): Promise<StackPlan> {
+  const name = typeof stack === "string" ? stack : stack.name;
+  const rank = new Map(
+    typeof stack === "string"
+      ? []
+      : dependencyOrder(stack).reverse().map((instance, i) => [instance, i]),
+  );
+  const actions: StackAction[] = (await stackInstances(client, name))
+    .map((info): StackAction => ({
+      type: "remove",
+      instance: info.labels?.[INSTANCE_LABEL] ?? info.name ?? info.id,
+      id: info.id,
+    }))
+    .sort((a, b) =>
+      (rank.get(a.instance) ?? -1) - (rank.get(b.instance) ?? -1)
+    );
+  for (const action of actions) {
+    options.onAction?.(action);
+    await teardown(client, action.id!);
+  }
+  return { stack: name, actions };
+}
@@ -0,0 +1,132 @@
+// src/stack/apply_test.ts
+
+import assert from "node:assert/strict";
+import { InMemoryClient } from "../testing/memory.ts";
+import { RuntimeError } from "../clients/types.ts";
+import {
+  applyStack,
+  deleteStack,
+  dependencyOrder,
+  INSTANCE_LABEL,
+  planStack,
+  STACK_LABEL,
+  type StackPlan,
+} from "./apply.ts";
+import { parseStackManifest, type StackManifestInput } from "./manifest.ts";
+
+/** A web app on a database, with a worker beside it. */
+const SHOP: StackManifestInput = {
+  name: "shop",
+  instances: {
+    app: { image: "ghcr.io/acme/app:1.4", dependsOn: ["db"] },
+    db: { image: "postgres:16" },
+    worker: { image: "ghcr.io/acme/app:1.4", args: ["work"] },
+  },
+};
+
+/** A plan’s actions as `type instance` strings, unchanged ones included. */
+function summary(plan: StackPlan): string[] {
+  return plan.actions.map((action) => `${action.type} ${action.instance}`);
+}
+
+Deno.test("dependencyOrder puts dependencies first and refuses cycles", () => {
+  assert.deepEqual(dependencyOrder(parseStackManifest(SHOP)), [
+    "db",
+    "app",
+    "worker",
+  ]);
+  const cyclic = parseStackManifest({
+    name: "loop",
+    instances: {
+      a: { image: "alpine", dependsOn: ["b"] },
+      b: { image: "alpine", dependsOn: ["a"] },
+    },
+  });
+  assert.throws(() => dependencyOrder(cyclic), (err: unknown) => {
+    assert.ok(err instanceof RuntimeError);
+    assert.match(err.message, /a → b → a/);
+    return true;
+  });
+});
+
+Deno.test("applyStack creates a stack and then leaves it alone", async () => {
+  const client = new InMemoryClient();
+  const manifest = parseStackManifest(SHOP);
+  const applied = await applyStack(client, manifest);
+  assert.deepEqual(summary(applied), [
+    "create db",
+    "create app",
+    "create worker",
+  ]);
+
+  const app = await client.inspect("shop-app");
+  assert.equal(app.state, "running");
+  assert.equal(app.labels?.[STACK_LABEL], "shop");
+  assert.equal(app.labels?.[INSTANCE_LABEL], "app");
+
+  assert.deepEqual(summary(await planStack(client, manifest)), [
+    "unchanged db",
+    "unchanged app",
+    "unchanged worker",
+  ]);
+});
+
+Deno.test("planStack recreates, starts and removes what changed", async () => {
+  const client = new InMemoryClient();
+  await applyStack(client, parseStackManifest(SHOP));
+  await client.stop("shop-db");
+  // A second instance claiming to be `app`, e.g. left by a failed apply.
+  await client.create({
+    image: "ghcr.io/acme/app:1.4",
+    name: "stray",
+    labels: { [STACK_LABEL]: "shop", [INSTANCE_LABEL]: "app" },
+  });
+  // Someone else’s instance, which is never touched.
+  await client.create({ image: "alpine", name: "unrelated" });
+
+  const { worker: _worker, ...instances } = SHOP.instances;
+  const changed = parseStackManifest({
+    name: "shop",
+    instances: {
+      ...instances,
+      app: { ...instances.app, env: { LOG_LEVEL: "debug" } },
+    },
+  });
+  const plan = await planStack(client, changed);
+  assert.deepEqual(
+    plan.actions.map(({ type, instance, reason }) => [type, instance, reason]),
+    [
+      ["remove", "worker", "not in manifest"],
+      ["remove", "app", "duplicate"],
+      ["start", "db", "exited"],
+      ["recreate", "app", "spec changed"],
+    ],
+  );
+
+  await applyStack(client, changed);
+  assert.deepEqual(
+    (await client.list()).map((info) => [info.name, info.state]).sort(),
+    [
+      ["shop-app", "running"],
+      ["shop-db", "running"],
+      ["unrelated", "created"],
+    ],
+  );
+});
+
+Deno.test("deleteStack removes dependents first", async () => {
+  const client = new InMemoryClient();
+  const manifest = parseStackManifest(SHOP);
+  await applyStack(client, manifest);
+  await client.create({ image: "alpine", name: "unrelated" });
+
+  const removed: string[] = [];
+  await deleteStack(client, manifest, {
+    onAction: (action) => removed.push(action.instance),
+  });
+  assert.ok(removed.indexOf("app") < removed.indexOf("db"));
+  assert.deepEqual(removed.sort(), ["app", "db", "worker"]);
+  assert.deepEqual((await client.list()).map((info) => info.name), [
+    "unrelated",
+  ]);
+});
@@ -0,0 +1,374 @@
+// src/stack/compose.ts
+
+import { RuntimeError } from "../clients/types.ts";
+import type { Mount, PortMapping, RestartPolicy } from "../clients/spec.ts";
+import { envVar } from "../clients/endpoint.ts";
+import type { StackManifestInput } from "./manifest.ts";
+
+/**
+ * Converts the portable subset of a docker‐compose file into a stack
+ * manifest.  Supported per service: `image`, `build` (only to name the
+ * image `docker compose build` produced, `<project>-<service>`),
+ * `command`, `entrypoint`, `environment`, `ports`, `volumes`, `labels`,
+ * `restart`, `depends_on`, `pull_policy`, `cpus`, `mem_limit` and
+ * `deploy.resources.limits`.  `$VAR`, `${VAR}`, `${VAR:-default}`,
+ * `${VAR:?error}` (and their colon‐less forms, which let an empty value
+ * through), nested defaults and `$$` are interpolated from our environment.  Anything else — networks,
+ * healthchecks and so on — is rejected rather than silently dropped.
+ */
+
+/** Top‐level keys we accept; `volumes` only declares named volumes. */
+const TOP_LEVEL_KEYS = new Set(["version", "name", "services", "volumes"]);
+
+const SERVICE_KEYS = new Set([
+  "image",
+  "build",
+  "command",
+  "entrypoint",
+  "environment",
+  "ports",
+  "volumes",
+  "labels",
+  "restart",
+  "depends_on",
+  "pull_policy",
+  "cpus",
+  "mem_limit",
+  "deploy",
+]);
+
+const PULL_POLICIES: Record<string, string> = {
+  always: "always",
+  missing: "if-not-present",
+  "if_not_present": "if-not-present",
+  never: "never",
+  build: "never",
+};
+
+const MEMORY_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+};
+
+function fail(path: string, message: string): never {
+  throw new RuntimeError(`Unsupported compose file ${path}: ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The inside of `${…}`: `VAR`, `VAR-default`, `VAR:-default`, `VAR?error`
+ * or `VAR:?error`.  With the colon, an empty value counts as unset.
+ */
+const BRACED = /^([A-Za-z_]\w*)(?:(:?)([-?])(.*))?$/s;
+
+/** A variable’s value, empty or not (envVar treats empty as unset). */
+function envValue(name: string): string | undefined {
+  try {
+    return Deno.env.get(name);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Expand the inside of one `${…}`; its default or error may nest more. */
+function expandBraced(braced: string, path: string): string {
+  const parts = BRACED.exec(braced);
+  if (!parts) fail(path, `interpolation "\${${braced}}"`);
+  const [, name, colon, operator, word] = parts;
+  const resolved = envValue(name);
+  const unset = resolved === undefined || (!!colon && resolved === "");
+  if (operator === "?" && unset) {
+    const message = expand(word, path);
+    throw new RuntimeError(
+      `${path}: required variable ${name} is missing a value` +
+        (message ? `: ${message}` : ""),
+    );
+  }
+  if (operator === "-" && unset) return expand(word, path);
+  return resolved ?? "";
+}
+
+/** Expand `$VAR`, `${…}` and `$$` in one string. */
+function expand(text: string, path: string): string {
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== "$") {
+      out += text[i];
+    } else if (text[i + 1] === "$") {
+      out += "$";
+      i++;
+    } else if (text[i + 1] === "{") {
+      // Find the matching brace, counting the `${` nested inside.
+      let depth = 1;
+      let end = i + 2;
+      for (; end < text.length; end++) {
+        if (text.startsWith("${", end)) {
+          depth++;
+          end++;
+        } else if (text[end] === "}" && --depth === 0) {
+          break;
+        }
+      }
+      if (depth > 0) fail(path, `unterminated "${text.slice(i)}"`);
+      out += expandBraced(text.slice(i + 2, end), path);
+      i = end;
+    } else {
+      const bare = /^[A-Za-z_]\w*/.exec(text.slice(i + 1))?.[0];
+      out += bare === undefined ? "$" : envValue(bare) ?? "";
+      i += bare?.length ?? 0;
+    }
+  }
+  return out;
+}
+
+/**
+ * Interpolate environment variables into every string in the document.
+ * A `?` variable that is unset is an error, as is any other `${…}` form.
+ */
+function interpolate(value: unknown, path: string): unknown {
+  if (typeof value === "string") return expand(value, path);
+  if (Array.isArray(value)) return value.map((v) => interpolate(v, path));
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, interpolate(v, path)]),
+    );
+  }
+  return value;
+}
+
+/** Split a shell‐style command string, honouring single and double quotes. */
+function splitCommand(command: string): string[] {
+  const words: string[] = [];
+  let word: string | undefined;
+  let quote: string | undefined;
+  for (const ch of command) {
+    if (quote) {
+      if (ch === quote) quote = undefined;
+      else word += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      word ??= "";
+    } else if (/\s/.test(ch)) {
+      if (word !== undefined) words.push(word);
+      word = undefined;
+    } else {
+      word = (word ?? "") + ch;
+    }
+  }
+  if (word !== undefined) words.push(word);
+  return words;
+}
+
+function toArgv(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  return Array.isArray(value) ? value.map(String) : splitCommand(String(value));
+}
+
+/** `["K=V", "K"]` or `{ K: V }`; a bare key takes its value from our env. */
+function toStringMap(
+  value: unknown,
+  fromEnv: boolean,
+): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((entry) => {
+      const text = String(entry);
+      const eq = text.indexOf("=");
+      return eq === -1 ? [text, null] : [text.slice(0, eq), text.slice(eq + 1)];
+    })
+    : Object.entries(value as Record<string, unknown>);
+  const map: Record<string, string> = {};
+  for (const [key, raw] of entries) {
+    const resolved = raw === null || raw === undefined
+      ? (fromEnv ? envVar(key) : "")
+      : String(raw);
+    if (resolved !== undefined) map[key] = resolved;
+  }
+  return map;
+}
+
+/** Parse `512m`, `1g`, `1048576` into bytes. */
+function toBytes(path: string, value: unknown): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([bkmg])?b?$/i.exec(String(value).trim());
+  if (!match) fail(path, `invalid memory size "${value}"`);
+  return Math.round(
+    Number(match[1]) * MEMORY_UNITS[(match[2] ?? "b").toLowerCase()],
+  );
+}
+
+/** `80`, `8080:80`, `127.0.0.1:8080:80/udp`, or the long syntax. */
+function toPort(path: string, value: unknown): PortMapping {
+  if (isRecord(value)) {
+    return {
+      containerPort: Number(value.target),
+      hostPort: value.published === undefined
+        ? undefined
+        : Number(value.published),
+      hostIp: value.host_ip as string | undefined,
+      protocol: (value.protocol as "tcp" | "udp" | undefined) ?? "tcp",
+    };
+  }
+  const [spec, protocol = "tcp"] = String(value).split("/");
+  const parts = spec.split(":");
+  if (parts.some((part) => part.includes("-"))) {
+    fail(path, `port ranges are not supported ("${value}")`);
+  }
+  const containerPort = Number(parts.pop());
+  const hostPort = parts.length > 0 ? Number(parts.pop()) : undefined;
+  const hostIp = parts.length > 0 ? parts.join(":") : undefined;
+  return {
+    containerPort,
+    hostPort,
+    hostIp,
+    protocol: protocol as "tcp" | "udp",
+  };
+}
+
+/** Resolve a bind source against the compose file’s directory. */
+function resolveSource(dir: string, source: string): string {
+  if (source === "~" || source.startsWith("~/")) {
+    return `${envVar("HOME") ?? ""}${source.slice(1)}`;
+  }
+  const joined = source.startsWith("/") ? source : `${dir}/${source}`;
+  const parts: string[] = [];
+  for (const part of joined.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  }
+  return `/${parts.join("/")}`;
+}
+
+/** `src:dst[:ro]` or the long syntax; anonymous volumes are not supported. */
+function toMount(path: string, dir: string, value: unknown): Mount {
+  if (isRecord(value)) {
+    const type = (value.type as Mount["type"] | undefined) ?? "volume";
+    if (type !== "bind" && type !== "volume" && type !== "tmpfs") {
+      fail(path, `volume type "${type}" is not supported`);
+    }
+    const source = value.source as string | undefined;
+    return {
+      type,
+      source: type === "bind" && source ? resolveSource(dir, source) : source,
+      target: String(value.target),
+      readOnly: value.read_only === true,
+    };
+  }
+  const [source, target, mode] = String(value).split(":");
+  if (target === undefined) {
+    fail(path, `anonymous volume "${value}" needs a name or host path`);
+  }
+  const bind = /^[./~]/.test(source);
+  return {
+    type: bind ? "bind" : "volume",
+    source: bind ? resolveSource(dir, source) : source,
+    target,
+    readOnly: mode?.split(",").includes("ro") ?? false,
+  };
+}
+
+function toRestartPolicy(path: string, value: unknown): RestartPolicy {
+  const policy = String(value).split(":")[0];
+  if (!["no", "always", "on-failure", "unless-stopped"].includes(policy)) {
+    fail(path, `restart policy "${value}" is not supported`);
+  }
+  return policy as RestartPolicy;
+}
+
+/** Lowercase a directory name into a compose‐style project name. */
+function projectName(dir: string): string {
+  return (dir.split("/").filter(Boolean).pop() ?? "stack")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Convert a parsed compose document into a stack manifest (unvalidated;
+ * loadStack validates it).  `path` is the compose file’s path: relative
+ * bind mounts resolve against its directory, which also names the project
+ * when the file has no top‐level `name`.
+ */
+export function composeToStack(
+  document: Record<string, unknown>,
+  path: string,
+): StackManifestInput {
+  const compose = interpolate(document, path) as Record<string, unknown>;
+  for (const key of Object.keys(compose)) {
+    if (!TOP_LEVEL_KEYS.has(key)) fail(path, `top‐level "${key}"`);
+  }
+  const slash = path.lastIndexOf("/");
+  const dir = resolveSource(
+    Deno.cwd(),
+    slash === -1 ? "." : path.slice(0, slash) || "/",
+  );
+  const name = typeof compose.name === "string"
+    ? compose.name
+    : projectName(dir);
+  if (!isRecord(compose.services)) fail(path, "`services` must be a map");
+
+  const instances: StackManifestInput["instances"] = {};
+  for (const [service, raw] of Object.entries(compose.services)) {
+    if (!isRecord(raw)) fail(path, `service "${service}" must be a map`);
+    for (const key of Object.keys(raw)) {
+      if (!SERVICE_KEYS.has(key)) fail(path, `services.${service}.${key}`);
+    }
+    const where = `${path} (service ${service})`;
+
+    const resources = isRecord(raw.deploy) ? raw.deploy.resources : undefined;
+    const limits = isRecord(resources) && isRecord(resources.limits)
+      ? resources.limits
+      : {};
+    const cpus = raw.cpus ?? limits.cpus;
+    const memory = raw.mem_limit ?? limits.memory;
+
+    const image = raw.image ?? (raw.build ? `${name}-${service}` : undefined);
+    if (image === undefined) fail(path, `service "${service}" has no image`);
+    const pullPolicy = raw.pull_policy !== undefined
+      ? PULL_POLICIES[String(raw.pull_policy)]
+      : raw.build !== undefined && raw.image === undefined
+      ? "never"
+      : undefined;
+    if (raw.pull_policy !== undefined && pullPolicy === undefined) {
+      fail(path, `pull_policy "${raw.pull_policy}"`);
+    }
+
+    instances[service] = {
+      image: String(image),
+      command: toArgv(raw.entrypoint),
+      args: toArgv(raw.command),
+      env: toStringMap(raw.environment, true),
+      ports: Array.isArray(raw.ports)
+        ? raw.ports.map((port) => toPort(where, port))
+        : undefined,
+      mounts: Array.isArray(raw.volumes)
+        ? raw.volumes.map((volume) => toMount(where, dir, volume))
+        : undefined,
+      labels: toStringMap(raw.labels, false),
+      resources: cpus !== undefined || memory !== undefined
+        ? {
+          cpus: cpus === undefined ? undefined : Number(cpus),
+          memoryBytes: memory === undefined
+            ? undefined
+            : toBytes(where, memory),
+        }
+        : undefined,
+      restartPolicy: raw.restart === undefined
+        ? undefined
+        : toRestartPolicy(where, raw.restart),
+      pullPolicy: pullPolicy as StackManifestInput["instances"][string][
+        "pullPolicy"
+      ],
+      dependsOn: Array.isArray(raw.depends_on)
+        ? raw.depends_on.map(String)
+        : isRecord(raw.depends_on)
+        ? Object.keys(raw.depends_on)
+        : [],
+    };
+  }
+  return { name, instances };
+}
@@ -0,0 +1,142 @@
+// src/stack/compose_test.ts
+
+import assert from "node:assert/strict";
+import { RuntimeError } from "../clients/types.ts";
+import { composeToStack } from "./compose.ts";
+
+/** The `env` of a one‐service compose file whose `X` is `value`. */
+function interpolated(value: string): string | undefined {
+  const stack = composeToStack(
+    { services: { app: { image: "alpine", environment: { X: value } } } },
+    "/srv/shop/compose.yaml",
+  );
+  return stack.instances.app.env?.X;
+}
+
+/** Run `fn` with `vars` set (undefined: unset), restoring them after. */
+function withEnv(vars: Record<string, string | undefined>, fn: () => void) {
+  const saved = Object.keys(vars).map((key) => [key, Deno.env.get(key)]);
+  const apply = (entries: [string, string | undefined][]) => {
+    for (const [key, value] of entries) {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    }
+  };
+  apply(Object.entries(vars));
+  try {
+    fn();
+  } finally {
+    apply(saved as [string, string | undefined][]);
+  }
+}
+
+Deno.test("composeToStack interpolates the environment", () => {
+  withEnv({ TEST_SET: "on", TEST_EMPTY: "", TEST_UNSET: undefined }, () => {
+    const cases: [string, string][] = [
+      ["$TEST_SET/${TEST_SET}", "on/on"],
+      ["${TEST_UNSET}", ""],
+      ["${TEST_UNSET-d}|${TEST_EMPTY-d}", "d|"],
+      ["${TEST_UNSET:-d}|${TEST_EMPTY:-d}", "d|d"],
+      ["${TEST_SET:-d}", "on"],
+      ["${TEST_EMPTY?no}", ""],
+      ["${TEST_UNSET:-${TEST_SET}}", "on"],
+      ["${TEST_UNSET:-${TEST_EMPTY:-x}y}", "xy"],
+      ["$$TEST_SET costs $5", "$TEST_SET costs $5"],
+    ];
+    for (const [value, expected] of cases) {
+      assert.equal(interpolated(value), expected, value);
+    }
+  });
+});
+
+Deno.test("composeToStack rejects missing and malformed variables", () => {
+  withEnv({ TEST_EMPTY: "", TEST_UNSET: undefined }, () => {
+    const rejects = (value: string, message: RegExp) =>
+      assert.throws(() => interpolated(value), (err: unknown) => {
+        assert.ok(err instanceof RuntimeError);
+        assert.match(err.message, message);
+        return true;
+      });
+    rejects("${TEST_UNSET?set it}", /TEST_UNSET is missing a value: set it/);
+    rejects("${TEST_EMPTY:?}", /TEST_EMPTY is missing a value$/);
+    rejects(
+      "${TEST_UNSET:?${TEST_EMPTY:-nested} reason}",
+      /missing a value: nested reason/,
+    );
+    rejects("${TEST_UNSET:+x}", /interpolation "\$\{TEST_UNSET:\+x\}"/);
+    rejects("${TEST_UNSET:-${X}", /unterminated/);
+  });
+});
+
+Deno.test("composeToStack converts services", () => {
+  const stack = composeToStack({
+    services: {
+      web: {
+        image: "nginx:1.27",
+        entrypoint: "nginx",
+        command: ["-g", "daemon off;"],
+        environment: ["MODE=prod"],
+        ports: ["8080:80", "127.0.0.1:8443:443/tcp", {
+          target: 53,
+          published: 53,
+          protocol: "udp",
+        }],
+        volumes: ["./html:/usr/share/nginx/html:ro", "cache:/var/cache/nginx"],
+        labels: { tier: "front" },
+        restart: "on-failure:3",
+        deploy: { resources: { limits: { cpus: "0.5", memory: "256m" } } },
+        depends_on: { api: { condition: "service_started" } },
+      },
+      api: { build: ".", command: "serve --port 80" },
+    },
+  }, "/srv/shop/compose.yaml");
+
+  assert.equal(stack.name, "shop");
+  assert.deepEqual(stack.instances.web, {
+    image: "nginx:1.27",
+    command: ["nginx"],
+    args: ["-g", "daemon off;"],
+    env: { MODE: "prod" },
+    ports: [
+      { containerPort: 80, hostPort: 8080, hostIp: undefined, protocol: "tcp" },
+      {
+        containerPort: 443,
+        hostPort: 8443,
+        hostIp: "127.0.0.1",
+        protocol: "tcp",
+      },
+      { containerPort: 53, hostPort: 53, hostIp: undefined, protocol: "udp" },
+    ],
+    mounts: [
+      {
+        type: "bind",
+        source: "/srv/shop/html",
+        target: "/usr/share/nginx/html",
+        readOnly: true,
+      },
+      {
+        type: "volume",
+        source: "cache",
+        target: "/var/cache/nginx",
+        readOnly: false,
+      },
+    ],
+    labels: { tier: "front" },
+    resources: { cpus: 0.5, memoryBytes: 256 * 1024 ** 2 },
+    restartPolicy: "on-failure",
+    pullPolicy: undefined,
+    dependsOn: ["api"],
+  });
+  assert.equal(stack.instances.api.image, "shop-api");
+  assert.equal(stack.instances.api.pullPolicy, "never");
+  assert.deepEqual(stack.instances.api.args, ["serve", "--port", "80"]);
+
+  assert.throws(
+    () =>
+      composeToStack(
+        { services: { web: { image: "nginx", healthcheck: {} } } },
+        "compose.yaml",
+      ),
+    /services\.web\.healthcheck/,
+  );
+});
@@ -0,0 +1,108 @@
+// src/stack/manifest.ts
+
+import { z } from "zod";
+import { parse as parseYaml } from "@std/yaml";
+import { RuntimeError } from "../clients/types.ts";
+import { containerSpecSchema } from "../clients/spec.ts";
+import { composeToStack } from "./compose.ts";
+
+/**
+ * A stack manifest: a named group of instances, each a ContainerSpec (the
+ * instance name comes from its key) plus the instances it depends on.
+ *
+ *     name: web
+ *     instances:
+ *       db:
+ *         image: postgres:16
+ *       app:
+ *         image: ghcr.io/acme/app:1.4
+ *         ports: [{ containerPort: 8080, hostPort: 80 }]
+ *         dependsOn: [db]
+ */
+
+/** Stack and instance names end up in container/pod names and labels. */
+const stackNameSchema: z.ZodString = z
+  .string()
+  .regex(
+    /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/,
+    "must be lowercase alphanumerics and ‘-’",
+  )
+  .max(40);
+
+/** One instance of a stack. */
+export const stackInstanceSchema: z.ZodObject<
+  Omit<typeof containerSpecSchema.shape, "name"> & {
+    dependsOn: z.ZodDefault<z.ZodArray<z.ZodString>>;
+  },
+  "strict"
+> = containerSpecSchema
+  .omit({ name: true })
+  .extend({
+    /** Instances that must be created (and started) before this one. */
+    dependsOn: z.array(z.string()).default([]),
+  });
+
+export const stackManifestSchema: z.ZodEffects<
+  z.ZodObject<{
+    name: z.ZodString;
+    instances: z.ZodRecord<z.ZodString, typeof stackInstanceSchema>;
+  }, "strict">
+> = z
+  .object({
+    name: stackNameSchema,
+    instances: z.record(stackNameSchema, stackInstanceSchema),
+  })
+  .strict()
+  .superRefine((stack, ctx) => {
+    for (const [name, instance] of Object.entries(stack.instances)) {
+      for (const dep of instance.dependsOn) {
+        if (!(dep in stack.instances)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `depends on unknown instance "${dep}"`,
+            path: ["instances", name, "dependsOn"],
+          });
+        }
+      }
+    }
+  });
+
+export type StackInstance = z.infer<typeof stackInstanceSchema>;
+export type StackManifest = z.infer<typeof stackManifestSchema>;
+
+/** A manifest as callers write it, before defaults are applied. */
+export type StackManifestInput = z.input<typeof stackManifestSchema>;
+
+/** Validate a stack manifest, throwing a ZodError if it is malformed. */
+export function parseStackManifest(input: unknown): StackManifest {
+  return stackManifestSchema.parse(input);
+}
+
+/**
+ * Parse a stack file: our own manifest, or (if it has `services`) a
+ * docker‐compose file, which is converted with composeToStack.  YAML and
+ * JSON are both accepted.  `path` names the file in errors, resolves a
+ * compose file’s relative bind mounts, and supplies the compose project
+ * name (its directory) when the file has no `name`.
+ */
+export function loadStack(text: string, path = "stack.yaml"): StackManifest {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (err) {
+    throw new RuntimeError(`Cannot parse ${path}: ${String(err)}`, {
+      cause: err,
+    });
+  }
+  if (typeof raw !== "object" || raw === null) {
+    throw new RuntimeError(`${path} is not a stack manifest`);
+  }
+  const input = "services" in raw ? composeToStack(raw, path) : raw;
+  const parsed = stackManifestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new RuntimeError(`Invalid stack ${path}: ${parsed.error.message}`, {
+      cause: parsed.error,
+    });
+  }
+  return parsed.data;
+}
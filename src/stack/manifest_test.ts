@@ -0,0 +1,127 @@
+// src/stack/manifest_test.ts
+
+import assert from "node:assert/strict";
+import { RuntimeError } from "../clients/types.ts";
+import { loadStack } from "./manifest.ts";
+
+const DEPLOY_COMPOSE = new URL(
+  "../../deploy/docker-compose.yml",
+  import.meta.url,
+);
+
+/** Assert `fn` throws a RuntimeError whose message matches `message`. */
+function assertRuntimeError(fn: () => unknown, message: RegExp) {
+  assert.throws(fn, (err: unknown) => {
+    assert.ok(err instanceof RuntimeError);
+    assert.match(err.message, message);
+    return true;
+  });
+}
+
+Deno.test("loadStack reads our own manifests", () => {
+  const stack = loadStack(
+    `
+name: shop
+instances:
+  db:
+    image: postgres:16
+    env: { POSTGRES_PASSWORD: secret }
+  app:
+    image: ghcr.io/acme/app:1.4
+    dependsOn: [db]
+`,
+    "shop.yaml",
+  );
+  assert.equal(stack.name, "shop");
+  assert.deepEqual(Object.keys(stack.instances), ["db", "app"]);
+  assert.deepEqual(stack.instances.app.dependsOn, ["db"]);
+
+  // JSON is YAML too.
+  assert.equal(
+    loadStack(`{"name": "x", "instances": {"a": {"image": "alpine"}}}`).name,
+    "x",
+  );
+});
+
+Deno.test("loadStack rejects what isn’t a stack", () => {
+  const cases: [string, RegExp][] = [
+    ["name: [unclosed", /Cannot parse shop\.yaml/],
+    ["just text", /shop\.yaml is not a stack manifest/],
+    [
+      "name: shop\ninstances: {}\nversion: 2",
+      /Invalid stack shop\.yaml:[^]*version/,
+    ],
+    [
+      "name: shop\ninstances:\n  app: { image: alpine, dependsOn: [db] }",
+      /depends on unknown instance \W+db/,
+    ],
+    ["services:\n  app: { build: . , links: [db] }", /services\.app\.links/],
+  ];
+  for (const [text, message] of cases) {
+    assertRuntimeError(() => loadStack(text, "shop.yaml"), message);
+  }
+});
+
+Deno.test("loadStack converts compose files", () => {
+  const stack = loadStack(
+    `
+name: shop
+services:
+  db:
+    image: postgres:16
+    volumes: [data:/var/lib/postgresql/data]
+  app:
+    image: ghcr.io/acme/app:1.4
+    ports: ["8080:80"]
+    depends_on: [db]
+    restart: always
+`,
+    "/srv/compose.yaml",
+  );
+  assert.equal(stack.name, "shop");
+  assert.deepEqual(stack.instances.app.dependsOn, ["db"]);
+  assert.equal(stack.instances.app.restartPolicy, "always");
+  assert.equal(stack.instances.app.ports?.[0].hostPort, 8080);
+  assert.equal(stack.instances.db.mounts?.[0].source, "data");
+});
+
+Deno.test("loadStack converts the deploy compose file", async () => {
+  const text = await Deno.readTextFile(DEPLOY_COMPOSE);
+  const saved = Deno.env.get("INFRA_CLIENT_TOKEN");
+  try {
+    Deno.env.delete("INFRA_CLIENT_TOKEN");
+    assertRuntimeError(
+      () => loadStack(text, DEPLOY_COMPOSE.pathname),
+      /INFRA_CLIENT_TOKEN is missing a value: set a token for the API/,
+    );
+
+    Deno.env.set("INFRA_CLIENT_TOKEN", "t0ken");
+    const stack = loadStack(text, DEPLOY_COMPOSE.pathname);
+    assert.equal(stack.name, "deploy");
+    const { detector, api } = stack.instances;
+    assert.equal(detector.image, "deploy-detector");
+    assert.equal(detector.pullPolicy, "never");
+    assert.equal(detector.restartPolicy, "no");
+    assert.equal(api.image, "deploy-api");
+    assert.deepEqual(api.command, [
+      "/deno",
+      "run",
+      "-A",
+      "/app/src/cli.ts",
+      "serve",
+      "--hostname",
+      "0.0.0.0",
+      "--port",
+      "8080",
+    ]);
+    assert.deepEqual(api.env, { INFRA_CLIENT_TOKEN: "t0ken" });
+    assert.equal(api.ports?.[0].hostPort, 8080);
+    assert.deepEqual(api.mounts?.map((mount) => mount.source), [
+      "/var/run/docker.sock",
+    ]);
+    assert.equal(api.restartPolicy, "unless-stopped");
+  } finally {
+    if (saved === undefined) Deno.env.delete("INFRA_CLIENT_TOKEN");
+    else Deno.env.set("INFRA_CLIENT_TOKEN", saved);
+  }
+});
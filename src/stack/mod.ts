@@ -0,0 +1,5 @@
+// src/stack/mod.ts
+
+export * from "./apply.ts";
+export * from "./compose.ts";
+export * from "./manifest.ts";
@@ -0,0 +1,185 @@
+// src/testing/conformance.ts
+
+import assert from "node:assert/strict";
+import {
+  ConflictError,
+  type ContainerRuntime,
+  NotFoundError,
+  type RuntimeError,
+  UnimplementedError,
+} from "../clients/types.ts";
+
+/** Options for runConformanceSuite. */
+export interface ConformanceOptions {
+  /** Names the registered test ("ContainerRuntime conformance"). */
+  name?: string;
+
+  /** The image instances are created from ("alpine:3.20"). */
+  image?: string;
+
+  /** Milliseconds to wait for an instance to change state (30 s). */
+  timeout?: number;
+
+  /** Register the test as ignored, e.g. when its engine is unavailable. */
+  ignore?: boolean;
+}
+
+type ErrorClass = new (...args: never[]) => RuntimeError;
+
+/**
+ * Run `call`, returning false instead of failing if the engine reports the
+ * operation unsupported (UnimplementedError).
+ */
+async function supported(call: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await call();
+    return true;
+  } catch (err: unknown) {
+    if (err instanceof UnimplementedError) return false;
+    throw err;
+  }
+}
+
+/** Assert that `call` rejects with `expected`, unless it is unsupported. */
+async function rejectsWith(
+  call: () => Promise<unknown>,
+  expected: ErrorClass,
+  what: string,
+): Promise<void> {
+  try {
+    await call();
+  } catch (err: unknown) {
+    if (err instanceof UnimplementedError || err instanceof expected) return;
+    assert.fail(`${what}: expected ${expected.name}, got ${String(err)}`);
+  }
+  assert.fail(`${what}: expected ${expected.name}, but it succeeded`);
+}
+
+/**
+ * Register a Deno test checking that a ContainerRuntime keeps the contract
+ * every engine’s client shares: that missing instances are NotFoundError,
+ * refused transitions are ConflictError, and an instance can be created,
+ * found, stopped, started again and removed.  `factory` is called once;
+ * each part of the contract is a step.  Operations the engine reports as
+ * unsupported (UnimplementedError) pass, and the steps relying on them are
+ * skipped: a Kubernetes pod, for one, cannot be started again once stopped.
+ */
+export function runConformanceSuite(
+  factory: () => ContainerRuntime | Promise<ContainerRuntime>,
+  options: ConformanceOptions = {},
+): void {
+  const image = options.image ?? "alpine:3.20";
+  const timeout = options.timeout ?? 30_000;
+  const wait = { timeout, interval: 100 };
+
+  Deno.test({
+    name: options.name ?? "ContainerRuntime conformance",
+    ignore: options.ignore,
+    // Engine clients keep connections and timers alive between calls.
+    sanitizeOps: false,
+    sanitizeResources: false,
+    async fn(t) {
+      const client = await factory();
+      const suffix = crypto.randomUUID().slice(0, 8);
+      const name = `conformance-${suffix}`;
+      const labels = { "infra-client/conformance": suffix };
+      let id: string | undefined;
+      let startable = false;
+
+      try {
+        await t.step("operations on a missing instance", async () => {
+          const missing = `conformance-missing-${suffix}`;
+          await rejectsWith(
+            () => client.inspect(missing),
+            NotFoundError,
+            "inspect",
+          );
+          await rejectsWith(
+            () => client.start(missing),
+            NotFoundError,
+            "start",
+          );
+          await rejectsWith(() => client.stop(missing), NotFoundError, "stop");
+          await rejectsWith(
+            () => client.remove(missing),
+            NotFoundError,
+            "remove",
+          );
+        });
+
+        const created = await t.step("create and inspect", async () => {
+          const created = await client.create({
+            image,
+            name,
+            command: ["sleep", "3600"],
+            labels,
+          });
+          id = created.id;
+          const info = await client.inspect(id);
+          assert.equal(info.id, created.id);
+          assert.equal(info.name, name);
+          assert.equal(info.labels?.["infra-client/conformance"], suffix);
+        });
+        // Every later step needs the instance.
+        if (!created) return;
+
+        await t.step("list by label and name", async () => {
+          const ids = async (found: Promise<{ id: string }[]>) =>
+            (await found).map((info) => info.id);
+          assert.ok((await ids(client.list({ labels }))).includes(id!));
+          assert.ok((await ids(client.list({ name }))).includes(id!));
+          assert.ok(
+            !(await ids(
+              client.list({
+                labels: { "infra-client/conformance": `${suffix}-other` },
+              }),
+            )).includes(id!),
+          );
+        });
+
+        await t.step("start", async () => {
+          // Engines that start instances on creation may not support it.
+          startable = await supported(() => client.start(id!));
+          await client.waitFor(id!, "running", wait);
+          await rejectsWith(
+            () => client.start(id!),
+            ConflictError,
+            "start while running",
+          );
+        });
+
+        await t.step({
+          name: "stop, then start again",
+          ignore: !startable,
+          fn: async () => {
+            await client.stop(id!, { timeoutSeconds: 1 });
+            const { info } = await client.waitFor(id!, "exited", wait);
+            assert.equal(info?.state, "exited");
+            await rejectsWith(
+              () => client.stop(id!),
+              ConflictError,
+              "stop while stopped",
+            );
+            await client.start(id!);
+            const restarted = await client.waitFor(id!, "running", wait);
+            assert.equal(restarted.info?.state, "running");
+          },
+        });
+
+        await t.step("remove", async () => {
+          await client.remove(id!, { force: true });
+          await client.waitFor(id!, "removed", wait);
+          await rejectsWith(
+            () => client.inspect(id!),
+            NotFoundError,
+            "inspect",
+          );
+          await rejectsWith(() => client.remove(id!), NotFoundError, "remove");
+          id = undefined;
+        });
+      } finally {
+        if (id) await client.remove(id, { force: true }).catch(() => {});
+      }
+    },
+  });
+}
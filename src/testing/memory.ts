@@ -0,0 +1,457 @@
+// src/testing/memory.ts
+
+import {
+  type ActionResponse,
+  type Capabilities,
+  ConflictError,
+  type ContainerInfo,
+  type ContainerPage,
+  type ContainerRuntime,
+  type CreateOptions,
+  type ExecOptions,
+  type ExecResult,
+  type ListOptions,
+  type LogLine,
+  type LogOptions,
+  NotFoundError,
+  type RemoveOptions,
+  RuntimeError,
+  type RuntimeEvent,
+  type RuntimeEventType,
+  type RuntimeName,
+  type RuntimeVersion,
+  type Signal,
+  type StopOptions,
+  type WatchFilter,
+} from "../clients/types.ts";
+import { AbstractClient } from "../clients/base.ts";
+import { AsyncQueue } from "../clients/stream.ts";
+import { matchesWatchFilter } from "../clients/events.ts";
+import { matchesListOptions, paginate } from "../clients/list.ts";
+import { sinceToUnixSeconds } from "../clients/logs.ts";
+import { parseSignal } from "../clients/signals.ts";
+import { isRawCreateOptions, parseContainerSpec } from "../clients/spec.ts";
+
+/** Options for InMemoryClient. */
+export interface InMemoryClientOptions {
+  /** The runtime the fake reports as and tags its errors with ("docker"). */
+  runtime?: RuntimeName;
+
+  /** The images `create` accepts; any image if unset. */
+  images?: string[];
+
+  /**
+   * Runs `exec` commands.  By default `echo` prints its arguments, `true`
+   * and `false` exit 0 and 1, and anything else exits 127.
+   */
+  exec?: (
+    info: ContainerInfo,
+    options: ExecOptions,
+  ) => ExecResult | Promise<ExecResult>;
+}
+
+/** One fake instance: its info, its output, and who is following it. */
+interface Instance {
+  info: ContainerInfo;
+  logs: LogLine[];
+  followers: Set<AsyncQueue<LogLine>>;
+}
+
+/** The default `exec`: a few shell builtins, and “not found” for the rest. */
+function defaultExec(_info: ContainerInfo, options: ExecOptions): ExecResult {
+  const [command, ...args] = options.cmd;
+  switch (command) {
+    case "echo":
+      return { exitCode: 0, stdout: `${args.join(" ")}\n`, stderr: "" };
+    case "true":
+      return { exitCode: 0, stdout: "", stderr: "" };
+    case "false":
+      return { exitCode: 1, stdout: "", stderr: "" };
+    default:
+      return {
+        exitCode: 127,
+        stdout: "",
+        stderr: `${command}: command not found\n`,
+      };
+  }
+}
+
+/**
+ * InMemoryClient is a fake ContainerRuntime for testing code that drives
+ * one, without an engine.  Instances move through the same states, and
+ * refuse the same transitions, as Docker’s: starting a running instance
+ * or stopping a stopped one is a ConflictError, and anything missing is a
+ * NotFoundError.  Instances never exit on their own; `writeLog` and
+ * `exit` stand in for their process, and `failNext` makes a method fail.
+ * Images, volumes, networks, stats and copies are not simulated.
+ */
+export class InMemoryClient extends AbstractClient {
+  readonly runtime: RuntimeName;
+  private instances = new Map<string, Instance>();
+  private watchers = new Set<AsyncQueue<RuntimeEvent>>();
+  private failures = new Map<string, Error[]>();
+  private images?: Set<string>;
+  private execHandler: NonNullable<InMemoryClientOptions["exec"]>;
+
+  constructor(opts: InMemoryClientOptions = {}) {
+    super();
+    this.runtime = opts.runtime ?? "docker";
+    this.images = opts.images ? new Set(opts.images) : undefined;
+    this.execHandler = opts.exec ?? defaultExec;
+  }
+
+  override capabilities(): Capabilities {
+    return {
+      ...super.capabilities(),
+      features: [
+        "logs.follow",
+        "logs.since",
+        "logs.timestamps",
+        "logs.streams",
+        "kill.signals",
+      ],
+    };
+  }
+
+  override async version(): Promise<RuntimeVersion> {
+    await this.checkFailure("version");
+    return { version: "in-memory" };
+  }
+
+  /** Make the next call to `method` throw `error` (queued, one per call). */
+  failNext(method: keyof ContainerRuntime, error: Error): void {
+    const queued = this.failures.get(method) ?? [];
+    queued.push(error);
+    this.failures.set(method, queued);
+  }
+
+  /** Append a line to an instance’s output, as its process would. */
+  writeLog(
+    id: string,
+    text: string,
+    stream: "stdout" | "stderr" = "stdout",
+  ): void {
+    const instance = this.lookup(id);
+    const line: LogLine = { stream, text, timestamp: new Date().toISOString() };
+    instance.logs.push(line);
+    for (const follower of instance.followers) follower.push(line);
+  }
+
+  /** End a running instance’s process with `exitCode`, as if it exited. */
+  exit(id: string, exitCode = 0): void {
+    const instance = this.lookup(id);
+    if (!this.isUp(instance)) {
+      throw new ConflictError(`${id} is not running`, this.errorOptions());
+    }
+    this.terminate(instance, exitCode);
+  }
+
+  override async listPage(options: ListOptions = {}): Promise<ContainerPage> {
+    await this.checkFailure("listPage");
+    const items = [...this.instances.values()]
+      .map((instance) => this.snapshot(instance))
+      .filter((info) => matchesListOptions(info, options));
+    return paginate(items, options);
+  }
+
+  /** Create an instance from a spec; a raw payload needs an `image`. */
+  override async create(options: CreateOptions): Promise<ContainerInfo> {
+    await this.checkFailure("create");
+    const spec = isRawCreateOptions(options)
+      ? options.raw as {
+        image?: string;
+        name?: string;
+        labels?: Record<string, string>;
+      }
+      : parseContainerSpec(options);
+    if (!spec.image) {
+      throw new RuntimeError("create failed: no image", this.errorOptions());
+    }
+    if (this.images && !this.images.has(spec.image)) {
+      throw new NotFoundError(
+        `create failed: no such image ${spec.image}`,
+        this.errorOptions(),
+      );
+    }
+    const id = Array.from(crypto.getRandomValues(new Uint8Array(32)))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+    const name = spec.name ?? `infra-${id.slice(0, 8)}`;
+    if ([...this.instances.values()].some((i) => i.info.name === name)) {
+      throw new ConflictError(
+        `create failed: the name ${name} is already in use`,
+        this.errorOptions(),
+      );
+    }
+    const instance: Instance = {
+      info: {
+        id,
+        name,
+        state: "created",
+        status: "created",
+        image: spec.image,
+        createdAt: new Date().toISOString(),
+        restartCount: 0,
+        labels: { ...spec.labels },
+        ready: false,
+      },
+      logs: [],
+      followers: new Set(),
+    };
+    this.instances.set(id, instance);
+    this.emit("created", instance);
+    return this.snapshot(instance);
+  }
+
+  override async inspect(id: string): Promise<ContainerInfo> {
+    await this.checkFailure("inspect");
+    return this.snapshot(this.lookup(id));
+  }
+
+  override async start(id: string): Promise<ActionResponse> {
+    await this.checkFailure("start");
+    const instance = this.lookup(id);
+    if (this.isUp(instance)) {
+      throw new ConflictError(
+        `start ${id} failed: already ${instance.info.state}`,
+        this.errorOptions(),
+      );
+    }
+    this.setState(instance, "running");
+    instance.info.startedAt = new Date().toISOString();
+    instance.info.finishedAt = undefined;
+    instance.info.exitCode = undefined;
+    this.emit("started", instance);
+    return { success: true };
+  }
+
+  /** Stop an instance; its process exits cleanly, with code 0. */
+  override async stop(
+    id: string,
+    _options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    await this.checkFailure("stop");
+    const instance = this.lookup(id);
+    if (!this.isUp(instance)) {
+      throw new ConflictError(
+        `stop ${id} failed: already stopped`,
+        this.errorOptions(),
+      );
+    }
+    this.terminate(instance, 0);
+    return { success: true };
+  }
+
+  override async restart(
+    id: string,
+    _options: StopOptions = {},
+  ): Promise<ActionResponse> {
+    await this.checkFailure("restart");
+    const instance = this.lookup(id);
+    if (this.isUp(instance)) this.terminate(instance, 0);
+    return await this.start(id);
+  }
+
+  /** Remove an instance; a running one only with `force`. */
+  override async remove(
+    id: string,
+    options: RemoveOptions = {},
+  ): Promise<ActionResponse> {
+    await this.checkFailure("remove");
+    const instance = this.lookup(id);
+    if (this.isUp(instance)) {
+      if (!options.force) {
+        throw new ConflictError(
+          `remove ${id} failed: it is ${instance.info.state}; stop it first or force it`,
+          this.errorOptions(),
+        );
+      }
+      this.terminate(instance, 137);
+    }
+    this.instances.delete(instance.info.id);
+    this.emit("removed", instance);
+    return { success: true };
+  }
+
+  override async pause(id: string): Promise<ActionResponse> {
+    await this.checkFailure("pause");
+    const instance = this.lookup(id);
+    if (instance.info.state !== "running") {
+      throw new ConflictError(
+        `pause ${id} failed: it is not running`,
+        this.errorOptions(),
+      );
+    }
+    this.setState(instance, "paused");
+    return { success: true };
+  }
+
+  override async unpause(id: string): Promise<ActionResponse> {
+    await this.checkFailure("unpause");
+    const instance = this.lookup(id);
+    if (instance.info.state !== "paused") {
+      throw new ConflictError(
+        `unpause ${id} failed: it is not paused`,
+        this.errorOptions(),
+      );
+    }
+    this.setState(instance, "running");
+    return { success: true };
+  }
+
+  /** Signal an instance; any signal ends the fake’s process, 128 + N. */
+  override async kill(
+    id: string,
+    signal: Signal = "SIGKILL",
+  ): Promise<ActionResponse> {
+    await this.checkFailure("kill");
+    const { number } = parseSignal(signal);
+    const instance = this.lookup(id);
+    if (!this.isUp(instance)) {
+      throw new ConflictError(
+        `kill ${id} failed: it is not running`,
+        this.errorOptions(),
+      );
+    }
+    this.terminate(instance, 128 + number);
+    return { success: true };
+  }
+
+  /**
+   * Replay an instance’s output, then (with `follow`) yield new lines until
+   * it stops or is removed.
+   */
+  override async *streamLogs(
+    id: string,
+    options: LogOptions = {},
+  ): AsyncGenerator<LogLine> {
+    await this.checkFailure("streamLogs");
+    const instance = this.lookup(id);
+    const since = options.since !== undefined
+      ? sinceToUnixSeconds(options.since)
+      : undefined;
+    const wanted = (line: LogLine) =>
+      (options.stream === undefined || options.stream === "both" ||
+        line.stream === options.stream) &&
+      (since === undefined || Date.parse(line.timestamp!) / 1000 >= since);
+    const shown = (line: LogLine): LogLine =>
+      options.timestamps
+        ? { ...line }
+        : { stream: line.stream, text: line.text };
+
+    let lines = instance.logs.filter(wanted);
+    if (options.tail !== undefined) lines = lines.slice(-options.tail);
+    if (!options.follow || !this.isUp(instance)) {
+      yield* lines.map(shown);
+      return;
+    }
+    const queue = new AsyncQueue<LogLine>(() =>
+      instance.followers.delete(queue)
+    );
+    instance.followers.add(queue);
+    yield* lines.map(shown);
+    for await (const line of queue) {
+      if (wanted(line)) yield shown(line);
+    }
+  }
+
+  /** Run a command through the `exec` handler (see InMemoryClientOptions). */
+  override async exec(id: string, options: ExecOptions): Promise<ExecResult> {
+    await this.checkFailure("exec");
+    const instance = this.lookup(id);
+    if (instance.info.state !== "running") {
+      throw new ConflictError(
+        `exec ${id} failed: it is not running`,
+        this.errorOptions(),
+      );
+    }
+    const result = await this.execHandler(this.snapshot(instance), options);
+    if (options.stdout && result.stdout !== undefined) {
+      options.stdout.write(result.stdout);
+    }
+    if (options.stderr && result.stderr !== undefined) {
+      options.stderr.write(result.stderr);
+    }
+    return {
+      exitCode: result.exitCode,
+      stdout: options.stdout ? undefined : result.stdout,
+      stderr: options.stderr ? undefined : result.stderr,
+    };
+  }
+
+  override async *watch(
+    filter: WatchFilter = {},
+  ): AsyncGenerator<RuntimeEvent> {
+    await this.checkFailure("watch");
+    const queue = new AsyncQueue<RuntimeEvent>(() =>
+      this.watchers.delete(queue)
+    );
+    this.watchers.add(queue);
+    for await (const event of queue) {
+      if (matchesWatchFilter(event, filter)) yield event;
+    }
+  }
+
+  /** Find an instance by ID or name. */
+  private lookup(id: string): Instance {
+    const instance = this.instances.get(id) ??
+      [...this.instances.values()].find((i) => i.info.name === id);
+    if (!instance) {
+      throw new NotFoundError(`No such instance: ${id}`, this.errorOptions());
+    }
+    return instance;
+  }
+
+  /** Throw the failure queued for `method` by `failNext`, if any. */
+  private async checkFailure(method: string): Promise<void> {
+    const error = this.failures.get(method)?.shift();
+    if (error) throw error;
+    // Settle like a real client would, so callers can’t rely on sync order.
+    await Promise.resolve();
+  }
+
+  private isUp(instance: Instance): boolean {
+    return instance.info.state === "running" ||
+      instance.info.state === "paused";
+  }
+
+  private setState(instance: Instance, state: ContainerInfo["state"]): void {
+    instance.info.state = state;
+    instance.info.status = state;
+    instance.info.ready = state === "running";
+  }
+
+  /** End an instance’s process, closing its followers’ streams. */
+  private terminate(instance: Instance, exitCode: number): void {
+    this.setState(instance, "exited");
+    instance.info.exitCode = exitCode;
+    instance.info.finishedAt = new Date().toISOString();
+    for (const follower of instance.followers) follower.end();
+    instance.followers.clear();
+    this.emit("died", instance, exitCode);
+  }
+
+  private emit(
+    type: RuntimeEventType,
+    instance: Instance,
+    exitCode?: number,
+  ): void {
+    const event: RuntimeEvent = {
+      type,
+      id: instance.info.id,
+      timestamp: new Date().toISOString(),
+      info: this.snapshot(instance),
+      exitCode,
+    };
+    for (const watcher of this.watchers) watcher.push(event);
+  }
+
+  /** A copy of an instance’s info, so callers can’t change our state. */
+  private snapshot(instance: Instance): ContainerInfo {
+    return structuredClone(instance.info);
+  }
+
+  private errorOptions() {
+    return { runtime: this.runtime };
+  }
+}
@@ -0,0 +1,100 @@
+// src/testing/memory_test.ts
+
+import assert from "node:assert/strict";
+import { ConflictError, NotFoundError } from "../clients/types.ts";
+import { runConformanceSuite } from "./conformance.ts";
+import { InMemoryClient } from "./memory.ts";
+
+runConformanceSuite(() => new InMemoryClient(), {
+  name: "InMemoryClient conformance",
+});
+
+Deno.test("InMemoryClient rejects unknown images and duplicate names", async () => {
+  const client = new InMemoryClient({ images: ["alpine:3.20"] });
+  await assert.rejects(client.create({ image: "nginx" }), NotFoundError);
+  await client.create({ image: "alpine:3.20", name: "web" });
+  await assert.rejects(
+    client.create({ image: "alpine:3.20", name: "web" }),
+    ConflictError,
+  );
+});
+
+Deno.test("InMemoryClient kill records the signal’s exit code", async () => {
+  const client = new InMemoryClient();
+  const { id } = await client.create({ image: "alpine:3.20" });
+  await client.start(id);
+  await client.kill(id, "SIGTERM");
+  const info = await client.inspect(id);
+  assert.equal(info.state, "exited");
+  assert.equal(info.exitCode, 143);
+});
+
+Deno.test("InMemoryClient follows logs until the instance exits", async () => {
+  const client = new InMemoryClient();
+  const { id } = await client.create({ image: "alpine:3.20", name: "logger" });
+  await client.start(id);
+  client.writeLog(id, "one");
+  const lines: string[] = [];
+  const following = (async () => {
+    for await (const line of client.streamLogs(id, { follow: true })) {
+      lines.push(line.text);
+    }
+  })();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  client.writeLog("logger", "two", "stderr");
+  client.exit(id, 3);
+  await following;
+  assert.deepEqual(lines, ["one", "two"]);
+  assert.equal((await client.inspect(id)).exitCode, 3);
+  assert.deepEqual(
+    (await client.logs(id, { stream: "stderr" })).logs,
+    "two\n",
+  );
+});
+
+Deno.test("InMemoryClient emits lifecycle events", async () => {
+  const client = new InMemoryClient();
+  const types: string[] = [];
+  const watching = (async () => {
+    for await (const event of client.watch()) {
+      if (types.push(event.type) === 4) break;
+    }
+  })();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const { id } = await client.create({ image: "alpine:3.20" });
+  await client.start(id);
+  await client.remove(id, { force: true });
+  await watching;
+  assert.deepEqual(types, ["created", "started", "died", "removed"]);
+});
+
+Deno.test("InMemoryClient exec runs only in a running instance", async () => {
+  const client = new InMemoryClient();
+  const { id } = await client.create({ image: "alpine:3.20" });
+  await assert.rejects(client.exec(id, { cmd: ["echo", "hi"] }), ConflictError);
+  await client.start(id);
+  assert.deepEqual(await client.exec(id, { cmd: ["echo", "hi"] }), {
+    exitCode: 0,
+    stdout: "hi\n",
+    stderr: "",
+  });
+});
+
+Deno.test("InMemoryClient failNext fails one call", async () => {
+  const client = new InMemoryClient();
+  client.failNext("listPage", new Error("boom"));
+  await assert.rejects(client.list(), /boom/);
+  assert.deepEqual(await client.list(), []);
+});
+
+Deno.test("InMemoryClient capabilities list what it overrides", () => {
+  const { operations, features } = new InMemoryClient().capabilities();
+  for (const operation of ["list", "logs", "waitFor", "start", "exec"]) {
+    assert.ok(operations.includes(operation as never), operation);
+  }
+  for (const operation of ["pullImage", "stats", "createVolume"]) {
+    assert.ok(!operations.includes(operation as never), operation);
+  }
+  assert.ok(features.includes("logs.follow"));
+  assert.ok(!features.includes("exec.tty"));
+});
@@ -0,0 +1,4 @@
+// src/testing/mod.ts
+
+export * from "./conformance.ts";
+export * from "./memory.ts";
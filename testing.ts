@@ -0,0 +1 @@
+export * from "./src/testing/mod.ts";